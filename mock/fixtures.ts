@@ -0,0 +1,134 @@
+// mock/fixtures.ts - Seed data for the local mock backend (VITE_USE_MOCK_API=true)
+export type MockRecord = Record<string, unknown>;
+
+export interface MockUser extends MockRecord {
+  id: string;
+  email: string;
+  password: string;
+  role: 'superadmin' | 'admin';
+  direction?: 'North' | 'South' | 'East' | 'West';
+  isActive: boolean;
+  createdAt: string;
+}
+
+const seededAt = '2024-01-15T09:30:00.000Z';
+
+// ✅ Every mock account uses "password123"
+export const users: MockUser[] = [
+  { id: 'user_superadmin', email: 'superadmin@example.com', password: 'password123', role: 'superadmin', isActive: true, createdAt: seededAt },
+  { id: 'user_east', email: 'east.admin@example.com', password: 'password123', role: 'admin', direction: 'East', isActive: true, createdAt: seededAt },
+  { id: 'user_west', email: 'west.admin@example.com', password: 'password123', role: 'admin', direction: 'West', isActive: true, createdAt: seededAt },
+  { id: 'user_north', email: 'north.admin@example.com', password: 'password123', role: 'admin', direction: 'North', isActive: true, createdAt: seededAt },
+  { id: 'user_south', email: 'south.admin@example.com', password: 'password123', role: 'admin', direction: 'South', isActive: true, createdAt: seededAt }
+];
+
+export const people: MockRecord[] = [
+  {
+    id: 'person_seed_1', name: 'Lakshmi Narayanan', age: 42, phone: '9876543210', gender: 'Female',
+    aadharNumber: '234567890124', panNumber: 'ABCPN1234K', voterIdNumber: 'TNX1234567',
+    community: 'OBC', caste: 'Mudaliar', religion: 'Hindu', ward: '5', street: 'Gandhi Street',
+    address: '12 Gandhi Street, Ward 5', direction: 'East', tags: 'volunteer', createdBy: 'east.admin@example.com', createdAt: seededAt
+  },
+  {
+    id: 'person_seed_2', name: 'Arun Kumar', age: 29, phone: '9123456780', gender: 'Male',
+    aadharNumber: '345678901238', panNumber: 'BQWPK5678L', voterIdNumber: 'TNX7654321',
+    community: 'General', caste: 'Pillai', religion: 'Hindu', ward: '5', street: 'Gandhi Street',
+    address: '12 Gandhi Street, Ward 5', direction: 'East', createdBy: 'east.admin@example.com', createdAt: seededAt
+  },
+  {
+    id: 'person_seed_3', name: 'Fathima Beevi', age: 55, phone: '9443322110', gender: 'Female',
+    aadharNumber: '456789012341', panNumber: 'CDRPB2345M', voterIdNumber: 'TNW2345678',
+    community: 'OBC', caste: 'Labbai', religion: 'Islam', ward: '12', street: 'Mosque Street',
+    address: '4 Mosque Street, Ward 12', direction: 'West', tags: 'volunteer,attended meeting', createdBy: 'west.admin@example.com', createdAt: seededAt
+  },
+  {
+    id: 'person_seed_4', name: 'Joseph Antony', age: 67, phone: '9500011122', gender: 'Male',
+    aadharNumber: '567890123458', panNumber: 'DEFPA3456N', voterIdNumber: 'TNN3456789',
+    community: 'SC', caste: 'Paraiyar', religion: 'Christian', ward: '3', street: 'Church Road',
+    address: '88 Church Road, Ward 3', direction: 'North', tags: 'senior citizen,pension help', createdBy: 'north.admin@example.com', createdAt: seededAt
+  },
+  {
+    id: 'person_seed_5', name: 'Meena Sundaram', age: 21, phone: '9600022233', gender: 'Female',
+    aadharNumber: '678901234560', panNumber: 'EFGPS4567P', voterIdNumber: 'TNS4567890',
+    community: 'ST', caste: 'Irular', religion: 'Hindu', ward: '8', street: 'Lake View Road',
+    address: '3 Lake View Road, Ward 8', direction: 'South', createdBy: 'south.admin@example.com', createdAt: seededAt
+  },
+  {
+    // Half-filled sheet row: blank cells and a mistyped PAN, to exercise the validation report
+    id: 'person_seed_6', name: 'Ravi Kumar', age: '', phone: '9444455566', gender: '',
+    aadharNumber: '', panNumber: 'ABCD1234', voterIdNumber: '',
+    community: '', caste: '', religion: '', ward: '3', street: 'Temple Street',
+    address: '', direction: 'East', createdBy: 'east.admin@example.com', createdAt: seededAt
+  },
+  {
+    // Re-entered copy of person_seed_2 with the name reversed and no IDs, for the duplicate review queue
+    id: 'person_seed_7', name: 'Kumar Arun', age: 30, phone: '9123456780', gender: 'Male',
+    aadharNumber: '', panNumber: '', voterIdNumber: '',
+    community: 'General', caste: '', religion: 'Hindu', ward: '5', street: 'Gandhi St',
+    address: 'No. 12, Gandhi St., Ward 5', direction: 'East', createdBy: 'east.admin@example.com', createdAt: seededAt
+  }
+];
+
+export const templates: MockRecord[] = [
+  {
+    id: 'template_seed_1', title: 'Ward Meeting', category: 'Events',
+    body: 'Dear {{name}}, the ward meeting is on Sunday at 10 AM at the community hall.',
+    createdBy: 'superadmin@example.com', createdAt: seededAt
+  },
+  {
+    id: 'template_seed_2', title: 'Pension Camp', category: 'Welfare',
+    body: 'Dear {{name}}, a pension enrolment camp will be held this Saturday. Please bring your Aadhaar card.',
+    createdBy: 'superadmin@example.com', createdAt: seededAt
+  }
+];
+
+export const messages: MockRecord[] = [
+  {
+    id: 'message_seed_1', senderId: 'east.admin@example.com', recipients: 'person_seed_1,person_seed_2',
+    message: 'Dear resident, the ward meeting is on Sunday at 10 AM at the community hall.',
+    templateId: 'Ward Meeting', direction: 'East', status: 'sent', sentAt: seededAt, createdAt: seededAt
+  }
+];
+
+// Starts empty: the two Gandhi Street residents above show up as a household suggestion
+export const households: MockRecord[] = [];
+
+// Filled in as people are created, edited and deleted
+export const auditEvents: MockRecord[] = [];
+
+// One select field so the custom-field form inputs, column and filter show up in development
+export const customFields: MockRecord[] = [
+  {
+    id: 'field_occupation', key: 'cf_occupation', label: 'Occupation', type: 'select', required: false,
+    options: ['Farmer', 'Teacher', 'Business', 'Student', 'Other'], directions: [], order: 1,
+    createdBy: 'superadmin@example.com', createdAt: seededAt
+  }
+];
+
+// Every seeded ward and street; the "Gandhi St" spelling above shows up in the normaliser
+export const wards: MockRecord[] = [
+  { id: 'ward_3', name: '3', direction: 'North', createdAt: seededAt },
+  { id: 'ward_5', name: '5', direction: 'East', createdAt: seededAt },
+  { id: 'ward_8', name: '8', direction: 'South', createdAt: seededAt },
+  { id: 'ward_12', name: '12', direction: 'West', createdAt: seededAt }
+];
+
+export const streets: MockRecord[] = [
+  { id: 'street_church', name: 'Church Road', wardId: 'ward_3', createdAt: seededAt },
+  { id: 'street_gandhi', name: 'Gandhi Street', wardId: 'ward_5', createdAt: seededAt },
+  { id: 'street_lake', name: 'Lake View Road', wardId: 'ward_8', createdAt: seededAt },
+  { id: 'street_mosque', name: 'Mosque Street', wardId: 'ward_12', createdAt: seededAt }
+];
+
+// Two shared segments: one over a field and a tag, one over tags alone
+export const segments: MockRecord[] = [
+  {
+    id: 'segment_pension', name: 'Seniors needing pension help', description: 'Over 60 and tagged for pension help',
+    conditions: [{ field: 'age', op: 'between', value: '60' }, { field: 'tags', op: 'has', value: 'pension help' }],
+    match: 'all', createdBy: 'superadmin@example.com', createdAt: seededAt
+  },
+  {
+    id: 'segment_volunteers', name: 'Volunteers', conditions: [{ field: 'tags', op: 'has', value: 'volunteer' }],
+    match: 'all', createdBy: 'superadmin@example.com', createdAt: seededAt
+  }
+];
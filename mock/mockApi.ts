@@ -0,0 +1,367 @@
+// mock/mockApi.ts - Local stand-in for the Apps Script and Vercel REST backends
+// Enabled with VITE_USE_MOCK_API=true; served by the Vite dev server under /__mock
+import type { Plugin } from 'vite';
+import * as fixtures from './fixtures';
+import type { MockRecord, MockUser } from './fixtures';
+import { applyPeopleQuery, fromSearchParams } from '../src/utils/peopleQuery';
+import type { PageInfo, PeopleQuery } from '../src/utils/peopleQuery';
+import { canReveal, isMaskedValue, maskingPolicyFor, maskSensitive, SENSITIVE_FIELDS } from '../src/utils/masking';
+
+export const MOCK_SHEETS_PATH = '/__mock/sheets';
+export const MOCK_API_PATH = '/__mock/api';
+
+// Minimal shapes of the Node request/response objects we touch
+interface MockRequest {
+  url?: string;
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  on(event: 'data', listener: (chunk: unknown) => void): unknown;
+  on(event: 'end', listener: () => void): unknown;
+}
+
+interface MockResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+type SheetName = 'People' | 'Users' | 'Messages' | 'Templates' | 'Households' | 'Audit' | 'Fields' | 'Wards' | 'Streets' | 'Segments';
+
+interface MockResult extends Partial<PageInfo> {
+  success: boolean;
+  data?: unknown;
+  previous?: unknown;    // single writes: the row as it was, for the client's audit trail
+  error?: string;
+  message?: string;
+}
+
+interface MockStore {
+  People: MockRecord[];
+  Users: MockUser[];
+  Messages: MockRecord[];
+  Templates: MockRecord[];
+  Households: MockRecord[];
+  Audit: MockRecord[];
+  Fields: MockRecord[];
+  Wards: MockRecord[];
+  Streets: MockRecord[];
+  Segments: MockRecord[];
+}
+
+// ✅ Deep copy so every dev-server restart starts from the same fixtures
+const createStore = (): MockStore => JSON.parse(JSON.stringify({
+  People: fixtures.people,
+  Users: fixtures.users,
+  Messages: fixtures.messages,
+  Templates: fixtures.templates,
+  Households: fixtures.households,
+  Audit: fixtures.auditEvents,
+  Fields: fixtures.customFields,
+  Wards: fixtures.wards,
+  Streets: fixtures.streets,
+  Segments: fixtures.segments
+}));
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+const parseQuery = (search: string): Record<string, string> => {
+  const query: Record<string, string> = {};
+  for (const pair of search.split('&')) {
+    if (!pair) continue;
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  }
+  return query;
+};
+
+const readBody = (req: MockRequest): Promise<Record<string, unknown>> =>
+  new Promise(resolve => {
+    let raw = '';
+    req.on('data', chunk => { raw += String(chunk); });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+// Never leak passwords back to the client
+const publicUser = ({ password: _password, ...user }: MockUser) => user;
+
+// ✅ Identity numbers a role can't reveal leave the server masked; the full number never reaches that browser
+const maskPerson = (row: MockRecord, role?: string): MockRecord => {
+  const hidden = SENSITIVE_FIELDS.filter(field => !canReveal(role, field) && row[field]);
+  if (hidden.length === 0) return row;
+  return { ...row, ...Object.fromEntries(hidden.map(field => [field, maskSensitive(field, row[field])])) };
+};
+
+// A masked number sent back (an edited row, a merge) must never overwrite the stored one
+const withoutMasked = (record: MockRecord, role?: string): MockRecord => {
+  const echoed = SENSITIVE_FIELDS.filter(field => !canReveal(role, field) && isMaskedValue(record[field]));
+  if (echoed.length === 0) return record;
+  const kept = { ...record };
+  echoed.forEach(field => delete kept[field]);
+  return kept;
+};
+
+const sendJson = (res: MockResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export const createMockHandlers = () => {
+  const store = createStore();
+  // Idempotency-key -> first response, replayed for retried writes
+  const replays = new Map<string, MockResult>();
+
+  const once = (key: string | undefined, run: () => MockResult): MockResult => {
+    if (!key) return run();
+    const cached = replays.get(key);
+    if (cached) return cached;
+    const result = run();
+    replays.set(key, result);
+    return result;
+  };
+
+  const sheet = (name: string): MockRecord[] | undefined =>
+    (store as unknown as Record<string, MockRecord[]>)[name];
+
+  const present = (sheetName: string, row: MockRecord) =>
+    sheetName === 'Users' ? publicUser(row as MockUser) : row;
+
+  // ✅ Mirrors the Apps Script actions used by GoogleSheetsService.makeRequest
+  const handleSheetsAction = (action: string, sheetName: string, data: MockRecord | MockRecord[]): MockResult => {
+    if (Array.isArray(data)) {
+      return handleBatchAction(action, sheetName, data);
+    }
+    if (action.toUpperCase() === 'TEST') {
+      return { success: true, message: 'Mock Apps Script is reachable', data: { sheets: Object.keys(store) } };
+    }
+
+    const rows = sheet(sheetName);
+    if (!rows) {
+      return { success: false, error: `Sheet "${sheetName}" not found` };
+    }
+
+    switch (action.toUpperCase()) {
+      case 'READ': {
+        if (sheetName === 'People') {
+          // ✅ Same paging, filtering and sorting the updated Apps Script does
+          const { rows: page, pageInfo } = applyPeopleQuery(rows, data as PeopleQuery);
+          return { success: true, data: page, ...pageInfo };
+        }
+        return { success: true, data: rows.map(row => present(sheetName, row)) };
+      }
+      case 'CREATE': {
+        const record = { ...data, id: data.id || newId(sheetName.toLowerCase()), createdAt: data.createdAt || new Date().toISOString() };
+        rows.push(record);
+        return { success: true, data: present(sheetName, record), message: `${sheetName} record created` };
+      }
+      case 'UPDATE': {
+        const index = rows.findIndex(row => row.id === data.id);
+        if (index === -1) return { success: false, error: `Record ${String(data.id)} not found in ${sheetName}` };
+        const previous = present(sheetName, rows[index]);
+        rows[index] = { ...rows[index], ...data };
+        return { success: true, data: present(sheetName, rows[index]), previous, message: `${sheetName} record updated` };
+      }
+      case 'DELETE': {
+        const index = rows.findIndex(row => row.id === data.id);
+        if (index === -1) return { success: false, error: `Record ${String(data.id)} not found in ${sheetName}` };
+        const [previous] = rows.splice(index, 1);
+        return { success: true, previous: present(sheetName, previous), message: `${sheetName} record deleted` };
+      }
+      default:
+        return { success: false, error: `Unknown action "${action}"` };
+    }
+  };
+
+  // ✅ BATCH_<action> applies each record in order and stops at the first failure, like the Apps Script
+  const handleBatchAction = (action: string, sheetName: string, records: MockRecord[]): MockResult => {
+    const single = action.toUpperCase().replace(/^BATCH_/, '');
+    const written: unknown[] = [];
+    for (const record of records) {
+      const result = handleSheetsAction(single, sheetName, record);
+      if (!result.success) {
+        return { success: false, data: written, error: result.error };
+      }
+      written.push(result.data ?? record);
+    }
+    return { success: true, data: written, message: `${written.length} ${sheetName} records processed` };
+  };
+
+  const authenticatedUser = (req: MockRequest): MockUser | undefined => {
+    const header = req.headers.authorization;
+    const token = typeof header === 'string' ? header.replace(/^Bearer\s+/i, '') : '';
+    const userId = token.startsWith('mock-token:') ? token.slice('mock-token:'.length) : '';
+    return store.Users.find(user => user.id === userId && user.isActive);
+  };
+
+  // ✅ REST routes used by AuthContext and databaseService
+  const handleRest = async (req: MockRequest, res: MockResponse, path: string, query: Record<string, string>) => {
+    const method = (req.method || 'GET').toUpperCase();
+    const segments = path.split('/').filter(Boolean);
+    const body = method === 'GET' || method === 'DELETE' ? {} : await readBody(req);
+
+    if (segments[0] === 'auth') {
+      const route = `${method} ${segments[1] || ''}`;
+
+      if (route === 'POST login') {
+        const user = store.Users.find(u => u.email === body.email && u.password === body.password && u.isActive);
+        if (!user) return sendJson(res, 401, { success: false, message: 'Invalid email or password' });
+        return sendJson(res, 200, { success: true, token: `mock-token:${user.id}`, user: publicUser(user) });
+      }
+
+      if (route === 'POST register') {
+        if (store.Users.some(u => u.email === body.email)) {
+          return sendJson(res, 409, { success: false, message: 'User already exists' });
+        }
+        const user: MockUser = {
+          id: newId('user'),
+          email: String(body.email || ''),
+          password: String(body.password || ''),
+          role: body.role === 'superadmin' ? 'superadmin' : 'admin',
+          direction: body.direction as MockUser['direction'],
+          isActive: true,
+          createdAt: new Date().toISOString()
+        };
+        store.Users.push(user);
+        return sendJson(res, 201, { success: true, token: `mock-token:${user.id}`, user: publicUser(user) });
+      }
+
+      const current = authenticatedUser(req);
+      if (!current) return sendJson(res, 401, { success: false, message: 'Not authenticated' });
+
+      if (route === 'GET verify') {
+        return sendJson(res, 200, { success: true, user: publicUser(current) });
+      }
+      if (route === 'GET users') {
+        return sendJson(res, 200, { success: true, users: store.Users.map(publicUser) });
+      }
+      if (route === 'PUT change-password') {
+        if (current.password !== body.currentPassword) {
+          return sendJson(res, 400, { success: false, message: 'Current password is incorrect' });
+        }
+        current.password = String(body.newPassword || '');
+        return sendJson(res, 200, { success: true, message: 'Password updated' });
+      }
+      return sendJson(res, 404, { success: false, message: `No mock route for ${method} /auth/${segments[1] || ''}` });
+    }
+
+    const user = authenticatedUser(req);
+    if (!user) {
+      return sendJson(res, 401, { success: false, message: 'Not authenticated' });
+    }
+
+    const collections: Record<string, SheetName> = {
+      people: 'People',
+      users: 'Users',
+      messages: 'Messages',
+      templates: 'Templates',
+      households: 'Households',
+      audit: 'Audit',
+      fields: 'Fields',
+      wards: 'Wards',
+      streets: 'Streets',
+      segments: 'Segments'
+    };
+    const sheetName = collections[segments[0]];
+    if (!sheetName) {
+      return sendJson(res, 404, { success: false, message: `No mock route for ${method} ${path}` });
+    }
+
+    const id = segments[1];
+    const keyHeader = req.headers['idempotency-key'];
+    const idempotencyKey = typeof keyHeader === 'string' ? keyHeader : undefined;
+    const isPeople = sheetName === 'People';
+    const incoming = (record: MockRecord) => (isPeople ? withoutMasked(record, user.role) : record);
+    let result: MockResult;
+    if (id === 'bulk' && (method === 'POST' || method === 'PUT')) {
+      const records = Array.isArray(body.records) ? (body.records as MockRecord[]).map(incoming) : [];
+      result = once(idempotencyKey, () => handleBatchAction(method === 'POST' ? 'CREATE' : 'UPDATE', sheetName, records));
+    } else if (method === 'GET' && !id) {
+      // The role decides what identity search may match, whatever the client asked for
+      const peopleQuery = isPeople ? { ...fromSearchParams(query), revealable: [...maskingPolicyFor(user.role).reveal] } : {};
+      result = handleSheetsAction('read', sheetName, { ...peopleQuery });
+    } else if (method === 'POST' && !id) {
+      result = once(idempotencyKey, () => handleSheetsAction('CREATE', sheetName, incoming(body)));
+    } else if (method === 'PUT' && id) {
+      result = once(idempotencyKey, () => handleSheetsAction('UPDATE', sheetName, { ...incoming(body), id }));
+    } else if (method === 'DELETE' && id) {
+      result = once(idempotencyKey, () => handleSheetsAction('DELETE', sheetName, { id }));
+    } else {
+      return sendJson(res, 405, { success: false, message: `${method} not supported on ${path}` });
+    }
+
+    const outgoing = (row: unknown) => (isPeople && row && typeof row === 'object' ? maskPerson(row as MockRecord, user.role) : row);
+    const data = Array.isArray(result.data) ? result.data.map(outgoing) : outgoing(result.data);
+    return sendJson(res, result.success ? 200 : 404, {
+      success: result.success,
+      data,
+      previous: outgoing(result.previous),
+      count: Array.isArray(data) ? data.length : undefined,
+      total: result.total,
+      page: result.page,
+      pageSize: result.pageSize,
+      nextCursor: result.nextCursor,
+      message: result.message || result.error
+    });
+  };
+
+  // ✅ JSONP endpoint mirroring the Apps Script deployment
+  const handleSheets = (res: MockResponse, query: Record<string, string>) => {
+    let data: MockRecord = {};
+    try {
+      data = query.data ? JSON.parse(query.data) : {};
+    } catch {
+      data = {};
+    }
+    const result = handleSheetsAction(query.action || '', query.sheetName || '', data);
+    const callback = (query.callback || '').replace(/[^\w$.]/g, '');
+
+    res.statusCode = 200;
+    if (callback) {
+      res.setHeader('Content-Type', 'application/javascript');
+      res.end(`${callback}(${JSON.stringify(result)});`);
+    } else {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(result));
+    }
+  };
+
+  return async (req: MockRequest, res: MockResponse, next: () => void) => {
+    const [pathname, search = ''] = (req.url || '').split('?');
+
+    if (pathname === MOCK_SHEETS_PATH && req.method === 'POST') {
+      // Writes arrive as a text/plain JSON body, like the Apps Script doPost
+      const payload = await readBody(req);
+      const idempotencyKey = typeof payload.idempotencyKey === 'string' ? payload.idempotencyKey : undefined;
+      const result = once(idempotencyKey, () =>
+        handleSheetsAction(String(payload.action || ''), String(payload.sheetName || ''), (payload.data || {}) as MockRecord | MockRecord[])
+      );
+      return sendJson(res, 200, result);
+    }
+    if (pathname === MOCK_SHEETS_PATH) {
+      return handleSheets(res, parseQuery(search));
+    }
+    if (pathname.startsWith(`${MOCK_API_PATH}/`)) {
+      return handleRest(req, res, pathname.slice(MOCK_API_PATH.length), parseQuery(search));
+    }
+    next();
+  };
+};
+
+export const mockApi = (enabled: boolean): Plugin => ({
+  name: 'mock-api',
+  apply: 'serve',
+  configureServer(server) {
+    if (!enabled) return;
+    const handle = createMockHandlers();
+    server.middlewares.use((req, res, next) => {
+      handle(req as unknown as MockRequest, res as unknown as MockResponse, next);
+    });
+    server.config.logger.info(`🧪 Mock API enabled: ${MOCK_SHEETS_PATH} and ${MOCK_API_PATH}/*`);
+  }
+});
@@ -1,19 +1,27 @@
 // src/App.tsx - Remove BrowserRouter from here
 import { Routes, Route, Navigate } from 'react-router-dom'; // ✅ Remove BrowserRouter
 import { AuthProvider } from './contexts/AuthContext';
+import { OutboxProvider } from './contexts/OutboxContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import People from './pages/People';
+import Duplicates from './pages/Duplicates';
+import PersonDetail from './pages/PersonDetail';
 import AdminManagement from './pages/AdminManagement';
 import Messages from './pages/Messages';
 import Templates from './pages/Templates';
 import Settings from './pages/Settings';
+import AuditLog from './pages/AuditLog';
+import RecycleBin from './pages/RecycleBin';
+import Wards from './pages/Wards';
+import Segments from './pages/Segments';
 
 function App() {
   return (
     <AuthProvider>
+      <OutboxProvider>
       {/* ✅ NO Router here since it's in main.tsx */}
       <Routes>
         <Route path="/login" element={<Login />} />
@@ -37,6 +45,25 @@ function App() {
           }
         />
         
+        <Route
+          path="/people/duplicates"
+          element={
+            <ProtectedRoute>
+              <Duplicates />
+            </ProtectedRoute>
+          }
+        />
+
+        {/* Static /people/duplicates above still wins over this dynamic segment */}
+        <Route
+          path="/people/:id"
+          element={
+            <ProtectedRoute>
+              <PersonDetail />
+            </ProtectedRoute>
+          }
+        />
+        
         <Route
           path="/admin"
           element={
@@ -72,6 +99,38 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/audit"
+          element={
+            <ProtectedRoute>
+              <AuditLog />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/wards"
+          element={
+            <ProtectedRoute>
+              <Wards />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/segments"
+          element={
+            <ProtectedRoute>
+              <Segments />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/recycle-bin"
+          element={
+            <ProtectedRoute>
+              <RecycleBin />
+            </ProtectedRoute>
+          }
+        />
         <Route path="/admin-management" element={
   <ProtectedRoute>
     <AdminManagement />
@@ -81,6 +140,7 @@ function App() {
         <Route path="/" element={<Navigate to="/login" replace />} />
         <Route path="*" element={<div>Page Not Found</div>} />
       </Routes>
+      </OutboxProvider>
     </AuthProvider>
   );
 }
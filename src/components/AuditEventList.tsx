@@ -0,0 +1,90 @@
+// src/components/AuditEventList.tsx - Audit events with their per-field before/after values
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { MERGE_FIELDS } from '../utils/duplicates';
+import { changesOf } from '../utils/audit';
+import { isSensitiveField } from '../utils/masking';
+import IdentityValue from './IdentityValue';
+import type { AuditEvent } from '../types';
+
+interface AuditEventListProps {
+  events: AuditEvent[];
+  showPerson?: boolean;        // false on a person's own page
+  emptyText?: string;
+}
+
+const FIELD_LABELS = new Map<string, string>(MERGE_FIELDS.map(({ field, label }) => [field, label]));
+
+const ACTION_STYLES: Record<AuditEvent['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  restore: 'bg-amber-100 text-amber-800',
+  purge: 'bg-gray-800 text-white',
+  reveal: 'bg-purple-100 text-purple-800',
+  merge: 'bg-teal-100 text-teal-800'
+};
+
+// Identity numbers stay masked here too; revealing one is logged like anywhere else
+const value = (event: AuditEvent, field: string, text: string | undefined) => {
+  if (text === undefined) return <span className="italic text-gray-400">not known</span>;
+  if (!text) return <span className="italic text-gray-400">blank</span>;
+  if (!isSensitiveField(field)) return text;
+  return <IdentityValue person={{ id: event.personId, name: event.personName || event.personId, direction: event.direction }} field={field} value={text} />;
+};
+
+const AuditEventList: React.FC<AuditEventListProps> = ({ events, showPerson = true, emptyText = 'No changes recorded.' }) => {
+  if (events.length === 0) {
+    return <p className="py-4 text-sm text-gray-500">{emptyText}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {events.map(event => {
+        const changes = changesOf(event);
+        return (
+          <li key={event.id} className="py-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[event.action]}`}>{event.action}</span>
+              {showPerson && (
+                event.action === 'purge'
+                  ? <span className="font-medium text-gray-900">{event.personName || event.personId}</span>
+                  : <Link to={`/people/${encodeURIComponent(event.personId)}`} className="font-medium text-primary-600 hover:underline">
+                      {event.personName || event.personId}
+                    </Link>
+              )}
+              <span className="text-gray-500">
+                {new Date(event.at).toLocaleString()} by {event.actor || 'unknown'}
+              </span>
+            </div>
+            {event.action === 'reveal' ? (
+              <p className="mt-1 text-xs text-gray-600">
+                Showed {changes.map(change => FIELD_LABELS.get(change.field) || change.field).join(', ') || 'identity numbers'} in full.
+                Reason: <span className="text-gray-900">{event.reason || <span className="italic text-gray-400">none given</span>}</span>
+              </p>
+            ) : event.action === 'merge' ? (
+              <p className="mt-1 text-xs text-gray-600">
+                Merged {changes.map(change => change.after).filter(Boolean).join(', ') || 'another record'} into this record.
+                The field changes are in the update and delete events next to this one.
+              </p>
+            ) : changes.length > 0 && (
+              <table className="mt-2 w-full text-xs">
+                <tbody>
+                  {changes.map(change => (
+                    <tr key={change.field} className="border-t border-gray-50">
+                      <td className="w-1/5 py-1 pr-2 font-medium text-gray-600">{FIELD_LABELS.get(change.field) || change.field}</td>
+                      {event.action !== 'create' && <td className={`w-2/5 break-all py-1 pr-2 text-gray-500 ${change.before ? 'line-through' : ''}`}>{value(event, change.field, change.before)}</td>}
+                      {event.action !== 'purge' && <td className="break-all py-1 text-gray-900">{value(event, change.field, change.after)}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AuditEventList;
@@ -0,0 +1,33 @@
+// src/components/ConfigErrorScreen.tsx - Shown instead of the app when the build configuration is invalid
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import type { AppProfile, ConfigIssue } from '../config/appConfig';
+
+interface ConfigErrorScreenProps {
+  profile: AppProfile;
+  issues: ConfigIssue[];
+}
+
+const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ profile, issues }) => (
+  <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+    <div className="card max-w-lg w-full">
+      <div className="flex items-center gap-3 mb-4">
+        <AlertCircle className="h-8 w-8 text-red-500" />
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">Configuration error</h1>
+          <p className="text-sm text-gray-600">The <span className="font-medium">{profile}</span> build cannot start.</p>
+        </div>
+      </div>
+      <ul className="space-y-2 text-sm">
+        {issues.map(issue => (
+          <li key={`${issue.key}-${issue.message}`} className="rounded border border-red-200 bg-red-50 p-2 text-red-800">
+            <code className="font-semibold">{issue.key}</code>: {issue.message}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-4 text-xs text-gray-500">Fix the values in your .env file (or the deployment's environment) and rebuild.</p>
+    </div>
+  </div>
+);
+
+export default ConfigErrorScreen;
@@ -0,0 +1,274 @@
+// src/components/CustomFieldsManager.tsx - Superadmins add, change, order and remove extra person fields
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Edit, ListPlus, Plus, Trash2, X } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useCustomFieldsQuery } from '../hooks/useQuery';
+import { dataService } from '../services/dataSource';
+import ErrorState from './ErrorState';
+import { DIRECTIONS } from '../utils/typeHelpers';
+import {
+  CUSTOM_FIELD_TYPES, customFieldKey, directionsOf, optionsOf, validateFieldDefinition
+} from '../utils/customFields';
+import type { CustomField, CustomFieldType } from '../types';
+
+interface FieldDraft {
+  id?: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  options: string;            // one allowed value per line
+  directions: string[];
+}
+
+const EMPTY_DRAFT: FieldDraft = { label: '', type: 'text', required: false, options: '', directions: [] };
+
+const NO_FIELDS: CustomField[] = [];
+
+const typeLabel = (type: CustomFieldType) => CUSTOM_FIELD_TYPES.find(option => option.type === type)?.label || type;
+
+const toDraft = (field: CustomField): FieldDraft => ({
+  id: field.id,
+  label: field.label,
+  type: field.type,
+  required: !!field.required,
+  options: optionsOf(field).join('\n'),
+  directions: directionsOf(field)
+});
+
+const CustomFieldsManager: React.FC = () => {
+  const { user } = useAuth();
+  const { data: fields = NO_FIELDS, loading, error: loadError, refetch } = useCustomFieldsQuery();
+  const [draft, setDraft] = useState<FieldDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = (draft?.options || '').split('\n').map(option => option.trim()).filter(Boolean);
+
+  const openDraft = (next: FieldDraft) => {
+    setDraft(next);
+    setError(null);
+  };
+
+  const toggleDirection = (direction: string) => {
+    setDraft(prev => prev && ({
+      ...prev,
+      directions: prev.directions.includes(direction)
+        ? prev.directions.filter(existing => existing !== direction)
+        : [...prev.directions, direction]
+    }));
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    const definition: Partial<CustomField> = {
+      label: draft.label.trim(),
+      type: draft.type,
+      required: draft.required,
+      options: draft.type === 'select' ? options : [],
+      directions: draft.directions
+    };
+    const invalid = validateFieldDefinition({ ...definition, id: draft.id }, fields);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      // The key names the People column, so it is fixed when the field is created
+      const result = draft.id
+        ? await dataService.updateCustomField(draft.id, definition)
+        : await dataService.createCustomField({
+            ...definition,
+            key: customFieldKey(definition.label!, fields.map(field => field.key)),
+            order: fields.reduce((max, field) => Math.max(max, field.order ?? 0), 0) + 1,
+            createdBy: user?.email
+          });
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+      console.log('✅ Custom field saved:', result.value.key);
+      setDraft(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ✅ Numbers the fields 1..n in their new order and saves only the ones whose number changed
+  const move = async (index: number, offset: -1 | 1) => {
+    const reordered = [...fields];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    const changed = reordered.filter((field, position) => field.id && field.order !== position + 1);
+    setSaving(true);
+    try {
+      const results = await Promise.all(
+        changed.map(field => dataService.updateCustomField(field.id!, { order: reordered.indexOf(field) + 1 }))
+      );
+      const failed = results.find(result => !result.ok);
+      if (failed && !failed.ok) alert(`Failed to reorder fields: ${failed.error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (field: CustomField) => {
+    if (!field.id) return;
+    const confirmed = window.confirm(
+      `Remove the field "${field.label}"? It disappears from forms, the table, filters and exports. ` +
+      `Values already saved stay in the ${field.key} column and come back if a field with that key is added again.`
+    );
+    if (!confirmed) return;
+    const result = await dataService.deleteCustomField(field.id);
+    if (!result.ok) alert(`Failed to remove field: ${result.error.message}`);
+  };
+
+  return (
+    <div className="card">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="flex items-center text-lg font-semibold">
+          <ListPlus className="mr-2 h-5 w-5" />
+          Custom person fields
+        </h3>
+        {!draft && (
+          <button type="button" onClick={() => openDraft(EMPTY_DRAFT)} className="btn-primary flex items-center gap-1 py-1">
+            <Plus className="h-4 w-4" /> Add field
+          </button>
+        )}
+      </div>
+      <p className="mb-4 text-sm text-gray-600">
+        Extra fields appear in the add and edit forms, as optional People columns, in filters, exports and on each
+        person's page. Each is stored in its own People column, named by the key.
+      </p>
+
+      {loadError && fields === NO_FIELDS ? (
+        <ErrorState error={loadError} title="Could not load custom fields" onRetry={refetch} />
+      ) : loading ? (
+        <p className="text-sm text-gray-500">Loading fields...</p>
+      ) : fields.length === 0 ? (
+        <p className="text-sm text-gray-500">No custom fields yet.</p>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs uppercase text-gray-500">
+            <tr>
+              <th className="py-2 pr-2">Field</th>
+              <th className="py-2 pr-2">Type</th>
+              <th className="py-2 pr-2">Shown in</th>
+              <th className="py-2 pr-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field, index) => (
+              <tr key={field.id || field.key} className="border-t border-gray-100">
+                <td className="py-2 pr-2">
+                  <span className="font-medium text-gray-900">{field.label}</span>
+                  {field.required && <span className="ml-1 text-xs text-red-600">required</span>}
+                  <span className="block font-mono text-xs text-gray-500">{field.key}</span>
+                </td>
+                <td className="py-2 pr-2">
+                  {typeLabel(field.type)}
+                  {field.type === 'select' && <span className="block text-xs text-gray-500">{optionsOf(field).join(', ')}</span>}
+                </td>
+                <td className="py-2 pr-2">{directionsOf(field).join(', ') || 'All directions'}</td>
+                <td className="py-2 pr-2">
+                  <div className="flex justify-end gap-1">
+                    <button type="button" onClick={() => move(index, -1)} disabled={saving || index === 0} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30" title="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button type="button" onClick={() => move(index, 1)} disabled={saving || index === fields.length - 1} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30" title="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button type="button" onClick={() => openDraft(toDraft(field))} disabled={saving} className="p-1 text-primary-600 hover:text-primary-800" title="Edit field">
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button type="button" onClick={() => remove(field)} disabled={saving} className="p-1 text-red-600 hover:text-red-800" title="Remove field">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {draft && (
+        <form onSubmit={save} className="mt-4 space-y-3 rounded-lg border border-gray-200 p-4 text-sm">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-gray-900">{draft.id ? `Edit ${draft.label}` : 'New field'}</h4>
+            <button type="button" onClick={() => setDraft(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <label className="block">
+              <span className="mb-1 block font-medium text-gray-700">Label</span>
+              <input
+                type="text"
+                value={draft.label}
+                onChange={event => setDraft({ ...draft, label: event.target.value })}
+                placeholder="e.g. Ration card number"
+                className="input-field"
+                autoFocus
+              />
+            </label>
+            <label className="block">
+              <span className="mb-1 block font-medium text-gray-700">Type</span>
+              {/* Existing values were saved for the old type, so it can't change afterwards */}
+              <select
+                value={draft.type}
+                onChange={event => setDraft({ ...draft, type: event.target.value as CustomFieldType })}
+                disabled={!!draft.id}
+                className="input-field"
+              >
+                {CUSTOM_FIELD_TYPES.map(option => <option key={option.type} value={option.type}>{option.label}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {draft.type === 'select' && (
+            <label className="block">
+              <span className="mb-1 block font-medium text-gray-700">Allowed values (one per line)</span>
+              <textarea
+                value={draft.options}
+                onChange={event => setDraft({ ...draft, options: event.target.value })}
+                rows={4}
+                className="input-field"
+              />
+            </label>
+          )}
+
+          <div>
+            <span className="mb-1 block font-medium text-gray-700">Shown in</span>
+            <div className="flex flex-wrap gap-3">
+              {DIRECTIONS.map(direction => (
+                <label key={direction} className="flex items-center gap-1">
+                  <input type="checkbox" checked={draft.directions.includes(direction)} onChange={() => toggleDirection(direction)} />
+                  {direction}
+                </label>
+              ))}
+              <span className="text-xs text-gray-500">None ticked = all directions</span>
+            </div>
+          </div>
+
+          {draft.type !== 'boolean' && (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={draft.required} onChange={event => setDraft({ ...draft, required: event.target.checked })} />
+              Required when adding or editing a person
+            </label>
+          )}
+
+          {error && <p className="text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setDraft(null)} className="btn-secondary">Cancel</button>
+            <button type="submit" disabled={saving} className="btn-primary">{saving ? 'Saving...' : 'Save field'}</button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CustomFieldsManager;
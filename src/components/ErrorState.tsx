@@ -0,0 +1,54 @@
+// src/components/ErrorState.tsx - Shared error panel with a retry button
+import React, { useState } from 'react';
+import { AlertCircle, Lock, RefreshCw, ServerCrash, Timer, WifiOff } from 'lucide-react';
+import type { ApiError, ApiErrorKind } from '../utils/result';
+
+interface ErrorStateProps {
+  error: ApiError;
+  title?: string;
+  onRetry?: () => Promise<unknown> | void;
+}
+
+// ✅ One wording per category so every page explains failures the same way
+const COPY: Record<ApiErrorKind, { title: string; hint: string; icon: React.ElementType }> = {
+  network: { title: 'You appear to be offline', hint: 'Check your internet connection, then try again.', icon: WifiOff },
+  timeout: { title: 'The server took too long', hint: 'The backend may be busy. Try again in a moment.', icon: Timer },
+  auth: { title: 'Your session has expired', hint: 'Log out and sign in again to continue.', icon: Lock },
+  validation: { title: 'The request was rejected', hint: 'The data sent was not accepted by the backend.', icon: AlertCircle },
+  server: { title: 'The server ran into a problem', hint: 'This is usually temporary. Try again shortly.', icon: ServerCrash }
+};
+
+const ErrorState: React.FC<ErrorStateProps> = ({ error, title, onRetry }) => {
+  const [retrying, setRetrying] = useState(false);
+  const copy = COPY[error.kind];
+  const Icon = copy.icon;
+
+  const handleRetry = async () => {
+    if (!onRetry) return;
+    setRetrying(true);
+    try {
+      await onRetry();
+    } catch {
+      // The failed retry shows up as a new error state
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <div className="card flex flex-col items-center text-center py-12">
+      <Icon className="h-12 w-12 text-red-400 mb-4" />
+      <h3 className="text-lg font-semibold text-gray-900">{title || copy.title}</h3>
+      <p className="mt-2 text-sm text-gray-600 max-w-md">{error.message}</p>
+      <p className="mt-1 text-xs text-gray-500">{copy.hint}</p>
+      {onRetry && (
+        <button onClick={handleRetry} disabled={retrying} className="btn-primary mt-6 flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${retrying ? 'animate-spin' : ''}`} />
+          {retrying ? 'Retrying...' : 'Try again'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorState;
@@ -0,0 +1,109 @@
+// src/components/IdentityValue.tsx - A masked identity number with a click-to-reveal that asks for a reason
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Eye, EyeOff, ShieldAlert, X } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRevealedIdentities } from '../hooks/useIdentityReveal';
+import { revealKey, revealService } from '../services/identityReveal';
+import { canReveal, maskSensitive, MIN_REVEAL_REASON_LENGTH, SENSITIVE_LABELS } from '../utils/masking';
+import type { SensitiveField } from '../utils/masking';
+import type { Person } from '../types';
+
+interface IdentityValueProps {
+  person: Person;
+  field: SensitiveField;
+  value?: unknown;             // defaults to the person's own value, e.g. an older value in the audit log
+}
+
+const IdentityValue: React.FC<IdentityValueProps> = ({ person, field, value = person[field] }) => {
+  const { user } = useAuth();
+  const revealed = useRevealedIdentities();
+  const [asking, setAsking] = useState(false);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  if (!text) return null;
+
+  const shown = !!person.id && revealed.has(revealKey(person.id, field));
+  const mayReveal = !!person.id && canReveal(user?.role, field);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const failure = await revealService.reveal(person, field, reason, user?.role);
+      if (failure) {
+        setError(failure);
+        return;
+      }
+      setAsking(false);
+      setReason('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span className="font-mono">{shown ? text : maskSensitive(field, text)}</span>
+      {mayReveal && !shown && (
+        <button
+          type="button"
+          onClick={() => setAsking(true)}
+          className="text-gray-400 hover:text-primary-600"
+          title={`Reveal ${SENSITIVE_LABELS[field]}`}
+        >
+          <Eye className="h-3.5 w-3.5" />
+        </button>
+      )}
+      {shown && <EyeOff className="h-3.5 w-3.5 text-amber-500" aria-label="Shown in full for a few minutes" />}
+
+      {/* Portalled so the dialog is not inside the table cell, label or row that shows the number */}
+      {asking && createPortal(
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <form onSubmit={submit} className="w-full max-w-md rounded-lg bg-white text-left shadow-xl">
+            <div className="flex items-center justify-between border-b px-6 py-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Reveal {SENSITIVE_LABELS[field]} of {person.name}
+              </h3>
+              <button type="button" onClick={() => setAsking(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="space-y-3 px-6 py-4 text-sm">
+              <p className="flex items-start gap-2 rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+                <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                Your email, the time and this reason are recorded in the audit log. The number is masked again after a
+                few minutes.
+              </p>
+              <label className="block">
+                <span className="mb-1 block font-medium text-gray-700">Reason</span>
+                <textarea
+                  value={reason}
+                  onChange={event => setReason(event.target.value)}
+                  rows={3}
+                  autoFocus
+                  placeholder="e.g. Verifying ID for the pension application"
+                  className="input-field"
+                />
+              </label>
+              {error && <p className="text-red-600">{error}</p>}
+            </div>
+            <div className="flex justify-end gap-2 border-t px-6 py-3">
+              <button type="button" onClick={() => setAsking(false)} className="btn-secondary">Cancel</button>
+              <button type="submit" disabled={busy || reason.trim().length < MIN_REVEAL_REASON_LENGTH} className="btn-primary">
+                {busy ? 'Recording...' : 'Reveal'}
+              </button>
+            </div>
+          </form>
+        </div>,
+        document.body
+      )}
+    </span>
+  );
+};
+
+export default IdentityValue;
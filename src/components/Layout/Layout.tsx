@@ -1,12 +1,22 @@
 // src/components/Layout/Layout.tsx
-import React from 'react';
+import React, { useEffect } from 'react';
 import Sidebar from './Sidebar';
+import { useAuth } from '../../hooks/useAuth';
+import { recycleBinService } from '../../services/recycleBin';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const { user } = useAuth();
+
+  // ✅ Superadmins' visits purge recycle-bin items past their retention (checked at most once a day)
+  useEffect(() => {
+    if (user?.role !== 'superadmin' || !navigator.onLine) return;
+    recycleBinService.purgeExpiredIfDue().catch(error => console.error('❌ Recycle bin purge failed:', error));
+  }, [user?.role]);
+
   return (
     <div className="flex flex-col lg:flex-row min-h-screen bg-gray-50">
       <Sidebar />
@@ -2,21 +2,35 @@
 import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
+import { useOutbox } from '../../hooks/useOutbox';
 import {
-  Users, UserPlus, MessageSquare, FileText, Settings, LogOut, LayoutDashboard, Menu, X
+  Users, UserPlus, MessageSquare, FileText, Settings, LogOut, LayoutDashboard, Menu, X, History, Trash2, Map, Target
 } from 'lucide-react';
 
 const Sidebar: React.FC = () => {
   const { user, logout } = useAuth();
   const location = useLocation();
+  const { entries } = useOutbox();
   const [isOpen, setIsOpen] = useState(false);
 
+  // ✅ Unsynced changes stay on this device for this user; say so before signing out
+  const handleLogout = () => {
+    if (entries.length > 0 && !window.confirm(
+      `${entries.length} change(s) have not synced yet. They stay on this device and are sent the next time you log in here. Log out anyway?`
+    )) return;
+    logout();
+  };
+
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard, show: true },
     { name: 'People', href: '/people', icon: Users, show: true },
     { name: 'Messages', href: '/messages', icon: MessageSquare, show: true },
     { name: 'Templates', href: '/templates', icon: FileText, show: true },
+    { name: 'Tags & Segments', href: '/segments', icon: Target, show: true },
     { name: 'Admin Management', href: '/admin-management', icon: UserPlus, show: user?.role === 'superadmin' },
+    { name: 'Wards & Streets', href: '/wards', icon: Map, show: user?.role === 'superadmin' },
+    { name: 'Audit Log', href: '/audit', icon: History, show: user?.role === 'superadmin' },
+    { name: 'Recycle Bin', href: '/recycle-bin', icon: Trash2, show: user?.role === 'superadmin' },
     { name: 'Settings', href: '/settings', icon: Settings, show: true },
   ];
 
@@ -96,7 +110,7 @@ const Sidebar: React.FC = () => {
         {/* User Section */}
         <div className="p-4 border-t border-slate-700">
           <button
-            onClick={logout}
+            onClick={handleLogout}
             className="flex items-center space-x-3 px-4 py-3 rounded-xl text-slate-300 hover:bg-red-600 hover:text-white transition-all duration-200 w-full text-sm font-medium"
           >
             <LogOut className="h-5 w-5 flex-shrink-0" />
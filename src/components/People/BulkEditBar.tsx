@@ -0,0 +1,275 @@
+// src/components/People/BulkEditBar.tsx - Set one field on every selected person, with a preview and a single undo
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckSquare, RotateCcw, X } from 'lucide-react';
+import { dataService } from '../../services/dataSource';
+import { createIdempotencyKey } from '../../utils/idempotency';
+import { DIRECTIONS } from '../../utils/typeHelpers';
+import {
+  BULK_FIELDS, bulkPayload, describeBulkEdit, previewBulkEdit, streetSkipReason, undoPayload, validateBulkEdit, writableRows
+} from '../../utils/bulkEdit';
+import type { BulkEdit, BulkField, BulkPreviewRow } from '../../utils/bulkEdit';
+import { findWard, streetsOfWard, wardsForDirection } from '../../utils/wards';
+import type { Person, Street, Ward } from '../../types';
+
+interface BulkEditBarProps {
+  selected: Person[];
+  canChangeDirection: boolean;
+  direction?: string | null;    // an admin's own direction, for the ward list
+  wards: Ward[];
+  streets: Street[];
+  online: boolean;
+  skipReason: (person: Person) => string | undefined;
+  onClearSelection: () => void;
+}
+
+// Sheets chunks each batch further by payload size; this bounds how much one failure can affect
+const BULK_BATCH_SIZE = 100;
+
+interface BulkRun {
+  edit: BulkEdit;
+  rows: BulkPreviewRow[];     // the rows that were written, with their previous values for the undo
+  failure?: string;
+}
+
+// ✅ Writes in batches and stops at the first failed one; returns the rows the backend confirmed
+const writeInBatches = async (
+  rows: BulkPreviewRow[],
+  payloadOf: (batch: BulkPreviewRow[]) => Partial<Person>[],
+  onProgress: (done: number) => void
+): Promise<{ written: BulkPreviewRow[]; failure?: string }> => {
+  const written: BulkPreviewRow[] = [];
+  for (let start = 0; start < rows.length; start += BULK_BATCH_SIZE) {
+    const batch = rows.slice(start, start + BULK_BATCH_SIZE);
+    const result = await dataService.updatePeople(payloadOf(batch), { idempotencyKey: createIdempotencyKey() });
+    if (!result.ok) {
+      console.error(`❌ Bulk edit batch ${start / BULK_BATCH_SIZE + 1} failed:`, result.error.message);
+      const savedIds = new Set((result.partial || []).map(person => person.id));
+      written.push(...batch.filter(row => savedIds.has(row.person.id)));
+      return { written, failure: result.error.message };
+    }
+    written.push(...batch);
+    onProgress(written.length);
+  }
+  return { written };
+};
+
+const BulkEditBar: React.FC<BulkEditBarProps> = ({
+  selected, canChangeDirection, direction, wards, streets, online, skipReason, onClearSelection
+}) => {
+  const [edit, setEdit] = useState<BulkEdit>({ field: 'ward', value: '', tagMode: 'add' });
+  const [previewing, setPreviewing] = useState(false);
+  const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const [lastRun, setLastRun] = useState<BulkRun | null>(null);
+  const [undone, setUndone] = useState<string | null>(null);
+
+  const fields = BULK_FIELDS.filter(option => option.field !== 'direction' || canChangeDirection);
+  // ✅ Once master wards exist, bulk ward and street values come from them like in the add and edit forms
+  const wardNames = useMemo(() => wardsForDirection(wards, direction).map(ward => ward.name), [wards, direction]);
+  const streetNames = useMemo(() => {
+    const selectedWards = new Set(selected.map(person => findWard(wards, person.ward)).filter(Boolean));
+    return [...new Set([...selectedWards].flatMap(ward => streetsOfWard(streets, ward).map(street => street.name)))].sort();
+  }, [selected, wards, streets]);
+  const choices = edit.field === 'ward' ? wardNames : edit.field === 'street' ? streetNames : [];
+  const validationError = validateBulkEdit(edit, { canChangeDirection, wardNames });
+  const rows = useMemo(
+    () => (previewing
+      ? previewBulkEdit(selected, edit, person => skipReason(person) || streetSkipReason(person, edit, wards, streets))
+      : []),
+    [previewing, selected, edit, skipReason, wards, streets]
+  );
+  const toWrite = writableRows(rows);
+  const skipped = rows.filter(row => row.skipped);
+  const unchanged = rows.filter(row => !row.changed && !row.skipped);
+  const busy = progress !== null;
+
+  const setField = (field: BulkField) => setEdit(prev => ({ ...prev, field, value: '' }));
+
+  const apply = async () => {
+    const pending = toWrite;
+    setProgress({ label: 'Saving', done: 0, total: pending.length });
+    try {
+      const { written, failure } = await writeInBatches(
+        pending,
+        batch => bulkPayload(batch, edit.field),
+        done => setProgress({ label: 'Saving', done, total: pending.length })
+      );
+      console.log(`✅ Bulk edit (${describeBulkEdit(edit)}) saved ${written.length} of ${pending.length} people`);
+      setLastRun({ edit, rows: written, failure });
+      setUndone(null);
+      setPreviewing(false);
+      if (!failure) onClearSelection();
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const undo = async () => {
+    if (!lastRun) return;
+    const { edit: runEdit, rows: written } = lastRun;
+    setProgress({ label: 'Undoing', done: 0, total: written.length });
+    try {
+      const { written: reverted, failure } = await writeInBatches(
+        written,
+        batch => undoPayload(batch, runEdit.field),
+        done => setProgress({ label: 'Undoing', done, total: written.length })
+      );
+      const revertedIds = new Set(reverted.map(row => row.person.id));
+      const remaining = written.filter(row => !revertedIds.has(row.person.id));
+      // A partly failed undo keeps the rest so it can be tried again
+      setLastRun(remaining.length > 0 ? { edit: runEdit, rows: remaining, failure } : null);
+      setUndone(`Undid ${describeBulkEdit(runEdit)} for ${reverted.length} people.`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (selected.length === 0 && !lastRun && !undone) return null;
+
+  return (
+    <div className="mb-3 space-y-2 rounded-lg border border-primary-200 bg-primary-50 p-3 text-sm">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="flex items-center gap-1 font-medium text-primary-800">
+            <CheckSquare className="h-4 w-4" /> {selected.length} selected
+          </span>
+          <select
+            value={edit.field}
+            onChange={event => setField(event.target.value as BulkField)}
+            disabled={busy}
+            className="input-field w-36 py-1"
+          >
+            {fields.map(option => <option key={option.field} value={option.field}>Set {option.label.toLowerCase()}</option>)}
+          </select>
+          {edit.field === 'tags' && (
+            <select
+              value={edit.tagMode}
+              onChange={event => setEdit(prev => ({ ...prev, tagMode: event.target.value as BulkEdit['tagMode'] }))}
+              disabled={busy}
+              className="input-field w-28 py-1"
+            >
+              <option value="add">Add</option>
+              <option value="remove">Remove</option>
+            </select>
+          )}
+          {edit.field === 'direction' || choices.length > 0 ? (
+            <select
+              value={edit.value}
+              onChange={event => setEdit(prev => ({ ...prev, value: event.target.value }))}
+              disabled={busy}
+              className="input-field w-36 py-1"
+            >
+              <option value="">Choose...</option>
+              {(edit.field === 'direction' ? DIRECTIONS : choices).map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={edit.value}
+              onChange={event => setEdit(prev => ({ ...prev, value: event.target.value }))}
+              disabled={busy}
+              placeholder={edit.field === 'tags' ? 'volunteer, senior citizen' : 'New value'}
+              className="input-field w-56 py-1"
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => setPreviewing(true)}
+            disabled={busy || !!validationError || !online}
+            title={!online ? 'Bulk edits need a connection' : validationError || 'Review the changes before saving'}
+            className="btn-primary py-1"
+          >
+            Preview
+          </button>
+          <button type="button" onClick={onClearSelection} disabled={busy} className="btn-secondary py-1">
+            Clear selection
+          </button>
+          {edit.value && validationError && <span className="text-xs text-red-600">{validationError}</span>}
+        </div>
+      )}
+
+      {lastRun && (
+        <div className="flex flex-wrap items-center gap-2 text-primary-900">
+          <span>
+            {describeBulkEdit(lastRun.edit)}: saved for {lastRun.rows.length} people.
+            {lastRun.failure && <span className="text-red-700"> Stopped early: {lastRun.failure}</span>}
+          </span>
+          <button
+            type="button"
+            onClick={undo}
+            disabled={busy || !online || lastRun.rows.length === 0}
+            className="btn-secondary flex items-center gap-1 py-1"
+          >
+            <RotateCcw className="h-3 w-3" /> Undo
+          </button>
+          <button type="button" onClick={() => setLastRun(null)} disabled={busy} className="text-gray-500 hover:text-gray-700" title="Dismiss">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      {undone && !lastRun && (
+        <div className="flex items-center gap-2 text-primary-900">
+          {undone}
+          <button type="button" onClick={() => setUndone(null)} className="text-gray-500 hover:text-gray-700" title="Dismiss">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      {progress && <p className="text-primary-800">{progress.label} {progress.done} of {progress.total}...</p>}
+
+      {previewing && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-lg bg-white shadow-xl">
+            <div className="flex items-center justify-between border-b px-6 py-4">
+              <div>
+                <h3 className="text-xl font-semibold text-gray-900">{describeBulkEdit(edit)}</h3>
+                <p className="text-xs text-gray-500">
+                  {toWrite.length} will change · {unchanged.length} already set · {skipped.length} skipped
+                </p>
+              </div>
+              <button onClick={() => setPreviewing(false)} disabled={busy} className="text-gray-400 hover:text-gray-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              {skipped.length > 0 && (
+                <div className="mb-3 flex items-center gap-2 rounded border border-amber-200 bg-amber-50 p-3 text-amber-800">
+                  <AlertCircle className="h-4 w-4" /> {skipped.length} people are left out; see the reason next to each.
+                </div>
+              )}
+              <table className="w-full text-left text-xs">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-2">Person</th>
+                    <th className="py-1 pr-2">Now</th>
+                    <th className="py-1 pr-2">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.person.id || row.person.name} className={`border-t border-gray-100 ${row.changed && !row.skipped ? '' : 'text-gray-400'}`}>
+                      <td className="py-1 pr-2">{row.person.name}</td>
+                      <td className="py-1 pr-2">{row.before || '—'}</td>
+                      <td className="py-1 pr-2">
+                        {row.skipped ? `Skipped: ${row.skipped}` : row.changed ? <span className="font-medium text-gray-900">{row.after || '—'}</span> : 'No change'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-2 border-t px-6 py-3">
+              <button type="button" onClick={() => setPreviewing(false)} disabled={busy} className="btn-secondary">Cancel</button>
+              <button type="button" onClick={apply} disabled={busy || toWrite.length === 0 || !online} className="btn-primary">
+                {progress ? `Saving ${progress.done} of ${progress.total}...` : `Update ${toWrite.length} people`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkEditBar;
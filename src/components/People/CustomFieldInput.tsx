@@ -0,0 +1,41 @@
+// src/components/People/CustomFieldInput.tsx - The input for one superadmin-defined person field
+import React from 'react';
+import type { UseFormRegisterReturn } from 'react-hook-form';
+import { NO, optionsOf, YES } from '../../utils/customFields';
+import type { CustomField } from '../../types';
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  style: React.CSSProperties;
+  // Either a react-hook-form registration (add form) or a controlled value (inline edit)
+  registration?: UseFormRegisterReturn;
+  value?: string;
+  onChange?: (value: string) => void;
+}
+
+const INPUT_TYPES: Record<CustomField['type'], string> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  select: 'text',
+  boolean: 'text'
+};
+
+const CustomFieldInput: React.FC<CustomFieldInputProps> = ({ field, style, registration, value, onChange }) => {
+  const controlled = registration ? registration : { value, onChange: (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => onChange?.(event.target.value) };
+
+  // Yes/No is a select rather than a checkbox so "not recorded" stays distinct from "No"
+  if (field.type === 'select' || field.type === 'boolean') {
+    const options = field.type === 'boolean' ? [YES, NO] : optionsOf(field);
+    return (
+      <select {...controlled} style={style}>
+        <option value="">{field.required ? `Select ${field.label.toLowerCase()}` : 'Not recorded'}</option>
+        {options.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    );
+  }
+
+  return <input {...controlled} type={INPUT_TYPES[field.type]} step={field.type === 'number' ? 'any' : undefined} style={style} />;
+};
+
+export default CustomFieldInput;
@@ -0,0 +1,178 @@
+// src/components/People/ExportPeopleDialog.tsx - Pick columns and format, then export the current people list
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Download, FileSpreadsheet, FileText, Printer, ShieldAlert, X } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { dataService } from '../../services/dataSource';
+import { canExportUnmasked, isSensitiveField, MIN_REVEAL_REASON_LENGTH } from '../../utils/masking';
+import { customFieldColumns, EXPORT_COLUMNS, exportPeople } from '../../utils/peopleExport';
+import type { ExportFormat } from '../../utils/peopleExport';
+import type { CustomField, Person } from '../../types';
+import type { Result } from '../../utils/result';
+
+interface ExportPeopleDialogProps {
+  // Loads every row matching the page's current search and direction, not just the visible page
+  loadRows: () => Promise<Result<Person[]>>;
+  scopeLabel: string;
+  customFields?: CustomField[];
+  onClose: () => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; icon: React.ElementType }[] = [
+  { format: 'csv', label: 'CSV', icon: FileText },
+  { format: 'xlsx', label: 'Excel (.xlsx)', icon: FileSpreadsheet },
+  { format: 'pdf', label: 'PDF (print)', icon: Printer }
+];
+
+const DEFAULT_COLUMNS = ['name', 'age', 'gender', 'phone', 'voterIdNumber', 'ward', 'street', 'direction'];
+
+const NO_FIELDS: CustomField[] = [];
+
+const ExportPeopleDialog: React.FC<ExportPeopleDialogProps> = ({ loadRows, scopeLabel, customFields = NO_FIELDS, onClose }) => {
+  const { user } = useAuth();
+  const mayUnmask = canExportUnmasked(user?.role);
+
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [selected, setSelected] = useState<Set<string>>(new Set(DEFAULT_COLUMNS));
+  const [unmasked, setUnmasked] = useState(false);
+  const [reason, setReason] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (field: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  };
+
+  const allColumns = useMemo(() => [...EXPORT_COLUMNS, ...customFieldColumns(customFields)], [customFields]);
+  const columns = allColumns.filter(column => selected.has(column.field));
+  // ✅ Full numbers leaving the app count as a reveal of every exported person, so they need a reason too
+  const revealedFields = mayUnmask && unmasked ? columns.map(column => column.field).filter(isSensitiveField) : [];
+  const needsReason = revealedFields.length > 0 && reason.trim().length < MIN_REVEAL_REASON_LENGTH;
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const result = await loadRows();
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+      if (revealedFields.length > 0) {
+        const exported = result.value.filter((person): person is Person & { id: string } => !!person.id);
+        await dataService.recordReveal(exported, revealedFields, `Unmasked export: ${reason.trim()}`);
+      }
+      exportPeople(result.value, {
+        format,
+        columns,
+        masked: revealedFields.length === 0,
+        title: `People ${scopeLabel} ${new Date().toISOString().slice(0, 10)}`
+      });
+      onClose();
+    } catch (exportError) {
+      console.error('❌ Export failed:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-lg rounded-lg bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Export People</h3>
+            <p className="text-xs text-gray-500">{scopeLabel}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-5 px-6 py-4">
+          <div>
+            <p className="mb-2 text-sm font-medium text-gray-700">Format</p>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(({ format: option, label, icon: Icon }) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setFormat(option)}
+                  className={`flex items-center justify-center gap-2 rounded border px-3 py-2 text-sm ${
+                    format === option ? 'border-primary-600 bg-primary-50 text-primary-700' : 'border-gray-300 text-gray-700'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" /> {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <p className="text-sm font-medium text-gray-700">Columns</p>
+              <div className="space-x-3 text-xs">
+                <button type="button" className="text-primary-600 hover:underline" onClick={() => setSelected(new Set(allColumns.map(column => column.field)))}>
+                  All
+                </button>
+                <button type="button" className="text-primary-600 hover:underline" onClick={() => setSelected(new Set())}>
+                  None
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-1 text-sm">
+              {allColumns.map(({ field, label }) => (
+                <label key={field} className="flex items-center gap-2">
+                  <input type="checkbox" checked={selected.has(field)} onChange={() => toggleColumn(field)} />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+            <div className="flex items-center gap-2">
+              <ShieldAlert className="h-4 w-4" />
+              Aadhaar, PAN and Voter ID numbers are masked to their last 4 characters.
+            </div>
+            {mayUnmask && (
+              <label className="mt-2 flex items-center gap-2 font-medium">
+                <input type="checkbox" checked={unmasked} onChange={event => setUnmasked(event.target.checked)} />
+                Export full numbers
+              </label>
+            )}
+            {revealedFields.length > 0 && (
+              <input
+                type="text"
+                value={reason}
+                onChange={event => setReason(event.target.value)}
+                placeholder="Reason for exporting full numbers (recorded in the audit log)"
+                className="input-field mt-2 py-1 text-xs"
+              />
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4" /> {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 border-t px-6 py-4">
+          <button onClick={onClose} className="btn-secondary">Cancel</button>
+          <button onClick={handleExport} disabled={exporting || selected.size === 0 || needsReason} className="btn-primary flex items-center gap-2">
+            <Download className="h-4 w-4" /> {exporting ? 'Preparing...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPeopleDialog;
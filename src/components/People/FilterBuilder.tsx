@@ -0,0 +1,175 @@
+// src/components/People/FilterBuilder.tsx - Structured People filters combined with AND / OR
+import React, { useEffect, useMemo, useState } from 'react';
+import { Filter, Plus, Trash2 } from 'lucide-react';
+import { CONDITION_FIELDS, OPERATORS_BY_TYPE } from '../../utils/peopleQuery';
+import type { ConditionField, ConditionFieldDefinition, ConditionOperator, PeopleCondition } from '../../utils/peopleQuery';
+
+interface FilterBuilderProps {
+  conditions: PeopleCondition[];
+  match: 'all' | 'any';
+  customFields?: Record<string, ConditionFieldDefinition>;   // superadmin-defined fields, keyed by their cf_ column
+  tags?: string[];                                            // known tags, offered while typing one
+  applyLabel?: string;
+  onApply: (conditions: PeopleCondition[], match: 'all' | 'any') => void;
+}
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  is: 'is',
+  contains: 'contains',
+  between: 'between',
+  has: 'has tag',
+  lacks: "doesn't have tag"
+};
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ conditions, match, customFields, tags, applyLabel = 'Apply filters', onApply }) => {
+  const [draft, setDraft] = useState<PeopleCondition[]>(conditions);
+  const [draftMatch, setDraftMatch] = useState(match);
+
+  const definitions: Record<string, ConditionFieldDefinition> = useMemo(
+    () => ({ ...CONDITION_FIELDS, ...customFields }),
+    [customFields]
+  );
+  const fieldEntries = Object.entries(definitions) as [ConditionField, ConditionFieldDefinition][];
+
+  // A condition on a custom field that has since been removed still shows, as plain text
+  const definitionOf = (condition: PeopleCondition): ConditionFieldDefinition =>
+    definitions[condition.field] || { label: condition.field, type: condition.type || 'text' };
+
+  // ✅ Custom fields carry their type in the condition, so the query can be run without the field list
+  const newCondition = (field: ConditionField): PeopleCondition => {
+    const { type } = definitions[field];
+    return { field, op: OPERATORS_BY_TYPE[type][0], ...(customFields?.[field] && { type }) };
+  };
+
+  // Applied filters can change from outside (saved view, back button) - start editing from those
+  useEffect(() => {
+    setDraft(conditions);
+    setDraftMatch(match);
+  }, [conditions, match]);
+
+  const update = (index: number, patch: Partial<PeopleCondition>) => {
+    setDraft(prev => prev.map((condition, position) => (position === index ? { ...condition, ...patch } : condition)));
+  };
+
+  const changeField = (index: number, field: ConditionField) => {
+    setDraft(prev => prev.map((condition, position) => (position === index ? newCondition(field) : condition)));
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 text-sm">
+      <div className="mb-3 flex items-center gap-2">
+        <Filter className="h-4 w-4 text-gray-500" />
+        <span className="font-medium text-gray-700">Show people matching</span>
+        <select
+          value={draftMatch}
+          onChange={event => setDraftMatch(event.target.value as 'all' | 'any')}
+          className="input-field w-auto py-1"
+        >
+          <option value="all">all (AND)</option>
+          <option value="any">any (OR)</option>
+        </select>
+        <span className="text-gray-700">of these conditions</span>
+      </div>
+
+      <div className="space-y-2">
+        {draft.map((condition, index) => {
+          const definition = definitionOf(condition);
+          const inputType = definition.type === 'number' ? 'number' : definition.type === 'date' ? 'date' : 'text';
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <select
+                value={condition.field}
+                onChange={event => changeField(index, event.target.value as ConditionField)}
+                className="input-field w-40 py-1"
+              >
+                {fieldEntries.map(([field, { label }]) => (
+                  <option key={field} value={field}>{label}</option>
+                ))}
+                {!definitions[condition.field] && <option value={condition.field}>{condition.field}</option>}
+              </select>
+
+              <select
+                value={condition.op}
+                onChange={event => update(index, { op: event.target.value as ConditionOperator })}
+                className="input-field w-28 py-1"
+                disabled={OPERATORS_BY_TYPE[definition.type].length === 1}
+              >
+                {OPERATORS_BY_TYPE[definition.type].map(op => (
+                  <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+                ))}
+              </select>
+
+              {definition.type === 'enum' ? (
+                <select
+                  value={condition.value || ''}
+                  onChange={event => update(index, { value: event.target.value })}
+                  className="input-field w-40 py-1"
+                >
+                  <option value="">Choose...</option>
+                  {definition.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : condition.op === 'between' ? (
+                <>
+                  <input
+                    type={inputType}
+                    value={condition.value || ''}
+                    onChange={event => update(index, { value: event.target.value })}
+                    placeholder="from"
+                    className="input-field w-36 py-1"
+                  />
+                  <span className="text-gray-500">and</span>
+                  <input
+                    type={inputType}
+                    value={condition.to || ''}
+                    onChange={event => update(index, { to: event.target.value })}
+                    placeholder="to"
+                    className="input-field w-36 py-1"
+                  />
+                </>
+              ) : (
+                <input
+                  type="text"
+                  value={condition.value || ''}
+                  onChange={event => update(index, { value: event.target.value })}
+                  list={definition.type === 'tags' && tags?.length ? 'filter-builder-tags' : undefined}
+                  className="input-field w-48 py-1"
+                />
+              )}
+
+              <button
+                type="button"
+                onClick={() => setDraft(prev => prev.filter((_, position) => position !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove condition"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {tags && (
+        <datalist id="filter-builder-tags">
+          {tags.map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+      )}
+
+      <div className="mt-3 flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setDraft(prev => [...prev, newCondition('ward')])}
+          className="flex items-center gap-1 text-primary-600 hover:underline"
+        >
+          <Plus className="h-4 w-4" /> Add condition
+        </button>
+        <div className="flex gap-2">
+          <button type="button" onClick={() => onApply([], 'all')} className="btn-secondary py-1">Clear</button>
+          <button type="button" onClick={() => onApply(draft, draftMatch)} className="btn-primary py-1">{applyLabel}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilterBuilder;
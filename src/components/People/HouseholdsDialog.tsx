@@ -0,0 +1,367 @@
+// src/components/People/HouseholdsDialog.tsx - Manage households and accept address-based suggestions
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Home, Plus, Sparkles, Trash2, UserMinus, X } from 'lucide-react';
+import { dataService } from '../../services/dataSource';
+import { useHouseholdsQuery, usePeopleQuery } from '../../hooks/useQuery';
+import { useAuth } from '../../hooks/useAuth';
+import { createIdempotencyKey } from '../../utils/idempotency';
+import { defaultHeadId, householdKey, householdName, membersOf, suggestHouseholds, toHousehold } from '../../utils/households';
+import type { HouseholdSuggestion } from '../../utils/households';
+import type { Household, Person } from '../../types';
+
+interface HouseholdsDialogProps {
+  onClose: () => void;
+}
+
+type Tab = 'households' | 'suggestions';
+
+const NO_PEOPLE: Person[] = [];
+const NO_HOUSEHOLDS: Household[] = [];
+
+const describeAddress = (record: { address?: string; street?: string; ward?: string }) =>
+  [record.address || record.street, record.ward && `Ward ${record.ward}`].filter(Boolean).join(' · ') || 'No address';
+
+const HouseholdsDialog: React.FC<HouseholdsDialogProps> = ({ onClose }) => {
+  const { user } = useAuth();
+  const peopleQuery = usePeopleQuery();
+  const householdsQuery = useHouseholdsQuery();
+  const people = peopleQuery.data || NO_PEOPLE;
+  const households = householdsQuery.data || NO_HOUSEHOLDS;
+
+  const [tab, setTab] = useState<Tab>('households');
+  const [search, setSearch] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Suggestion members the user unticked, keyed by suggestion key
+  const [excluded, setExcluded] = useState<Record<string, string[]>>({});
+
+  const suggestions = useMemo(() => suggestHouseholds(people), [people]);
+  const unassigned = useMemo(() => people.filter(person => person.id && !person.householdId), [people]);
+  const peopleById = useMemo(() => new Map(people.map(person => [person.id, person])), [people]);
+
+  const visibleHouseholds = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const sorted = [...households].sort((a, b) => a.name.localeCompare(b.name));
+    if (!term) return sorted;
+    return sorted.filter(household =>
+      [household.name, household.address, household.street, household.ward].some(value => String(value ?? '').toLowerCase().includes(term))
+    );
+  }, [households, search]);
+
+  // ✅ Every write goes through here so errors surface in the dialog instead of an alert per call
+  const run = async (label: string, action: () => Promise<string | null>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const failure = await action();
+      if (failure) setError(failure);
+    } catch (runError) {
+      console.error(`❌ ${label} failed:`, runError);
+      setError(runError instanceof Error ? runError.message : `${label} failed`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const assign = async (members: Person[], householdId: string) => {
+    const result = await dataService.updatePeople(
+      members.map(member => ({ id: member.id, householdId })),
+      { idempotencyKey: createIdempotencyKey() }
+    );
+    return result.ok ? null : result.error.message;
+  };
+
+  const createHousehold = async (members: Person[], headId?: string) => {
+    const created = await dataService.createHousehold(
+      { ...toHousehold(members, headId), createdBy: user?.email },
+      { idempotencyKey: createIdempotencyKey() }
+    );
+    if (!created.ok) return created.error.message;
+    if (!created.value.id) return 'The backend did not return an id for the new household';
+    console.log('🏠 Household created:', created.value.name, members.length, 'members');
+    return assign(members, created.value.id);
+  };
+
+  // Unticked members are left out; if that drops the suggested head, the next oldest takes over
+  const createFromSuggestion = (suggestion: HouseholdSuggestion) => {
+    const skipped = excluded[suggestion.key] || [];
+    const members = suggestion.members.filter(member => !skipped.includes(member.id!));
+    if (members.length === 0) return Promise.resolve(null);
+    const headId = members.some(member => member.id === suggestion.headId) ? suggestion.headId : undefined;
+    return createHousehold(members, headId);
+  };
+
+  const acceptSuggestion = (suggestion: HouseholdSuggestion) =>
+    run('Create household', () => createFromSuggestion(suggestion));
+
+  const acceptAll = () =>
+    run('Create households', async () => {
+      for (const suggestion of suggestions) {
+        const failure = await createFromSuggestion(suggestion);
+        if (failure) return `${suggestion.name}: ${failure}`;
+      }
+      return null;
+    });
+
+  const startHousehold = (personId: string) => {
+    const person = peopleById.get(personId);
+    if (person) return run('Create household', () => createHousehold([person]));
+  };
+
+  const addMember = (household: Household, personId: string) => {
+    const person = peopleById.get(personId);
+    if (person && household.id) return run('Add member', () => assign([person], household.id!));
+  };
+
+  const removeMember = (household: Household, person: Person) =>
+    run('Remove member', async () => {
+      const failure = await assign([person], '');
+      if (failure || person.id !== household.headId) return failure;
+      // The head left - hand the house to the next oldest member
+      const nextHeadId = defaultHeadId(membersOf(household.id, people).filter(member => member.id !== person.id));
+      const updated = await dataService.updateHousehold(household.id!, { headId: nextHeadId || '' });
+      return updated.ok ? null : updated.error.message;
+    });
+
+  // A household still named after its old head follows the new one
+  const setHead = (household: Household, person: Person) =>
+    run('Change head', async () => {
+      const previousHead = peopleById.get(household.headId);
+      const renamed = household.name === householdName(previousHead) ? { name: householdName(person) } : {};
+      const updated = await dataService.updateHousehold(household.id!, { headId: person.id, ...renamed });
+      return updated.ok ? null : updated.error.message;
+    });
+
+  const deleteHousehold = (household: Household) => {
+    if (!window.confirm(`Delete "${household.name}"? Its members stay in People without a household.`)) return;
+    return run('Delete household', async () => {
+      const members = membersOf(household.id, people);
+      if (members.length > 0) {
+        const failure = await assign(members, '');
+        if (failure) return failure;
+      }
+      const deleted = await dataService.deleteHousehold(household.id!, { idempotencyKey: createIdempotencyKey() });
+      return deleted.ok ? null : deleted.error.message;
+    });
+  };
+
+  const toggleSuggestionMember = (key: string, personId: string) => {
+    setExcluded(prev => {
+      const current = prev[key] || [];
+      return { ...prev, [key]: current.includes(personId) ? current.filter(id => id !== personId) : [...current, personId] };
+    });
+  };
+
+  // Unassigned people at the same address come first in the "add member" list
+  const candidatesFor = (household: Household) => {
+    const key = householdKey(household);
+    return [...unassigned].sort((a, b) => {
+      const aMatch = key !== null && householdKey(a) === key ? 0 : 1;
+      const bMatch = key !== null && householdKey(b) === key ? 0 : 1;
+      return aMatch - bMatch || a.name.localeCompare(b.name);
+    });
+  };
+
+  const loading = peopleQuery.loading || householdsQuery.loading;
+  const loadError = peopleQuery.error || householdsQuery.error;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-lg bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Households</h3>
+            <p className="text-xs text-gray-500">
+              {households.length} households · {unassigned.length} people not in a household
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 border-b px-6 pt-3 text-sm">
+          {(['households', 'suggestions'] as Tab[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setTab(option)}
+              className={`-mb-px border-b-2 px-3 pb-2 ${
+                tab === option ? 'border-primary-600 font-medium text-primary-700' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {option === 'households' ? 'Households' : `Suggestions (${suggestions.length})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 space-y-3 overflow-y-auto px-6 py-4">
+          {error && (
+            <div className="flex items-center gap-2 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4" /> {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="py-8 text-center text-sm text-gray-500">Loading households...</p>
+          ) : loadError && (!peopleQuery.data || !householdsQuery.data) ? (
+            <p className="py-8 text-center text-sm text-red-600">{loadError.message}</p>
+          ) : tab === 'households' ? (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={search}
+                  onChange={event => setSearch(event.target.value)}
+                  placeholder="Search by name, address or ward"
+                  className="input-field flex-1 py-1"
+                />
+                <select
+                  value=""
+                  onChange={event => startHousehold(event.target.value)}
+                  disabled={busy || unassigned.length === 0}
+                  className="input-field w-56 py-1"
+                >
+                  <option value="">+ New household headed by...</option>
+                  {unassigned.map(person => <option key={person.id} value={person.id}>{person.name}</option>)}
+                </select>
+              </div>
+
+              {visibleHouseholds.length === 0 && (
+                <p className="py-6 text-center text-sm text-gray-500">
+                  {households.length === 0 ? 'No households yet. Check the Suggestions tab to group people by address.' : 'No households match the search.'}
+                </p>
+              )}
+
+              {visibleHouseholds.map(household => {
+                const members = membersOf(household.id, people);
+                return (
+                  <div key={household.id} className="rounded-lg border border-gray-200 p-3 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="flex items-center gap-2 font-medium text-gray-900">
+                          <Home className="h-4 w-4 text-primary-600" /> {household.name}
+                        </p>
+                        <p className="text-xs text-gray-500">{describeAddress(household)}</p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => deleteHousehold(household)}
+                        disabled={busy}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete household"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+
+                    <ul className="mt-2 divide-y divide-gray-100">
+                      {members.map(member => (
+                        <li key={member.id} className="flex items-center justify-between py-1">
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="radio"
+                              name={`head-${household.id}`}
+                              checked={member.id === household.headId}
+                              onChange={() => setHead(household, member)}
+                              disabled={busy}
+                              title="Head of household"
+                            />
+                            {member.name}
+                            {member.age ? <span className="text-xs text-gray-500">{String(member.age)}</span> : null}
+                            {member.id === household.headId && <span className="rounded-full bg-primary-50 px-2 text-xs text-primary-700">Head</span>}
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => removeMember(household, member)}
+                            disabled={busy}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Remove from household"
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </button>
+                        </li>
+                      ))}
+                      {members.length === 0 && <li className="py-1 text-xs text-gray-500">No members</li>}
+                    </ul>
+
+                    <select
+                      value=""
+                      onChange={event => addMember(household, event.target.value)}
+                      disabled={busy || unassigned.length === 0}
+                      className="input-field mt-2 py-1 text-xs"
+                    >
+                      <option value="">+ Add member...</option>
+                      {candidatesFor(household).map(person => (
+                        <option key={person.id} value={person.id}>{person.name} — {describeAddress(person)}</option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-600">
+                <span className="flex items-center gap-1">
+                  <Sparkles className="h-4 w-4 text-amber-500" />
+                  People without a household who share a ward, street and address (spelling differences ignored).
+                </span>
+                {suggestions.length > 1 && (
+                  <button type="button" onClick={acceptAll} disabled={busy} className="btn-secondary whitespace-nowrap py-1">
+                    Create all {suggestions.length}
+                  </button>
+                )}
+              </div>
+
+              {suggestions.length === 0 && (
+                <p className="py-6 text-center text-sm text-gray-500">No suggestions - everyone sharing an address is already grouped.</p>
+              )}
+
+              {suggestions.map(suggestion => {
+                const skipped = excluded[suggestion.key] || [];
+                return (
+                  <div key={suggestion.key} className="rounded-lg border border-gray-200 p-3 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-gray-900">{suggestion.name}</p>
+                        <p className="text-xs text-gray-500">{describeAddress(suggestion)}</p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => acceptSuggestion(suggestion)}
+                        disabled={busy || skipped.length === suggestion.members.length}
+                        className="btn-primary flex items-center gap-1 py-1"
+                      >
+                        <Plus className="h-4 w-4" /> Create household
+                      </button>
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-3">
+                      {suggestion.members.map(member => (
+                        <label key={member.id} className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={!skipped.includes(member.id!)}
+                            onChange={() => toggleSuggestionMember(suggestion.key, member.id!)}
+                          />
+                          {member.name}
+                          {member.id === suggestion.headId && <span className="text-xs text-gray-500">(head)</span>}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end border-t px-6 py-4">
+          <button onClick={onClose} className="btn-secondary">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HouseholdsDialog;
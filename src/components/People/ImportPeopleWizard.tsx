@@ -0,0 +1,357 @@
+// src/components/People/ImportPeopleWizard.tsx - Upload, map, preview and commit a CSV/XLSX of people
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { useWardsQuery } from '../../hooks/useQuery';
+import { dataService } from '../../services/dataSource';
+import { createIdempotencyKey } from '../../utils/idempotency';
+import { downloadFile } from '../../utils/download';
+import { DIRECTIONS } from '../../utils/typeHelpers';
+import type { Person } from '../../types';
+import {
+  IMPORT_FIELDS,
+  guessMapping,
+  identityLookups,
+  mappingProblems,
+  readImportFile,
+  toRejectionCsv,
+  validateImport
+} from '../../utils/peopleImport';
+import type { ColumnMapping, ImportField, ImportRow, ImportTable } from '../../utils/peopleImport';
+
+interface ImportPeopleWizardProps {
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+// Sheets chunks each batch further by payload size; this bounds how much one failure can affect
+const IMPORT_BATCH_SIZE = 250;
+const PREVIEW_LIMIT = 200;
+
+const ImportPeopleWizard: React.FC<ImportPeopleWizardProps> = ({ onClose }) => {
+  const { user } = useAuth();
+  const adminDirection = user?.role === 'admin' ? user.direction : undefined;
+  const { data: addressData } = useWardsQuery();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [defaultDirection, setDefaultDirection] = useState<string>(adminDirection || '');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [imported, setImported] = useState(0);
+
+  const problems = useMemo(
+    () => (table ? mappingProblems(mapping, { direction: defaultDirection }) : []),
+    [table, mapping, defaultDirection]
+  );
+  const validRows = rows.filter(row => row.person);
+  const rejectedRows = rows.filter(row => !row.person);
+  const previewRows = (onlyErrors ? rejectedRows : rows).slice(0, PREVIEW_LIMIT);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    setFileError(null);
+    try {
+      const parsed = await readImportFile(file);
+      console.log(`📥 Import file ${file.name}: ${parsed.rows.length} rows, ${parsed.headers.length} columns`);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('❌ Could not read import file:', error);
+      setFileError(error instanceof Error ? error.message : 'Could not read the file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setColumn = (column: number, field: ImportField | '') => {
+    setMapping(prev => prev.map((mapped, index) => (index === column ? field : mapped)));
+  };
+
+  // ✅ The file's numbers are looked up on the backend in the admin's direction (or everywhere, for superadmins).
+  // Loading the list instead would compare against masked numbers, and duplicates would get through.
+  const runValidation = async () => {
+    if (!table) return;
+    setBusy(true);
+    setFileError(null);
+    try {
+      const existing: Person[] = [];
+      for (const lookup of identityLookups(table, mapping)) {
+        const response = await dataService.getPeople({ direction: adminDirection || null, lookup });
+        if (!response.ok) {
+          setFileError(`Could not check existing people for duplicates: ${response.error.message}`);
+          return;
+        }
+        existing.push(...response.value);
+      }
+      setRows(validateImport(table, mapping, existing, {
+        createdBy: user?.email || 'unknown@example.com',
+        direction: defaultDirection || undefined,
+        forceDirection: !!adminDirection,
+        wards: addressData?.wards,
+        streets: addressData?.streets
+      }));
+      setOnlyErrors(false);
+      setStep('preview');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ One idempotency key per batch so a retried request cannot create the same rows twice
+  const commit = async () => {
+    const pending = [...validRows];
+    setStep('importing');
+    setProgress({ done: 0, total: pending.length });
+    let written = 0;
+
+    for (let start = 0; start < pending.length; start += IMPORT_BATCH_SIZE) {
+      const batch = pending.slice(start, start + IMPORT_BATCH_SIZE);
+      const result = await dataService.createPeople(batch.map(row => row.person!), {
+        idempotencyKey: createIdempotencyKey()
+      });
+
+      if (!result.ok) {
+        console.error(`❌ Import batch ${start / IMPORT_BATCH_SIZE + 1} failed:`, result.error.message);
+        const savedIds = new Set((result.partial || []).map(person => person.id));
+        written += savedIds.size;
+        // Everything not confirmed as written goes to the rejection file with the reason
+        const failed = new Set(pending.slice(start).filter(row => !savedIds.has(row.person!.id)));
+        setRows(prev => prev.map(row => failed.has(row)
+          ? { ...row, person: undefined, errors: [`Not imported: ${result.error.message}`] }
+          : row
+        ));
+        break;
+      }
+
+      written += batch.length;
+      setProgress({ done: written, total: pending.length });
+    }
+
+    console.log(`✅ Imported ${written} of ${pending.length} people`);
+    setImported(written);
+    setStep('done');
+  };
+
+  const downloadRejections = () => {
+    if (!table) return;
+    downloadFile(
+      `${table.fileName.replace(/\.[^.]+$/, '')}-rejected.csv`,
+      toRejectionCsv(table, rejectedRows),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const mappedColumns = mapping
+    .map((field, column) => ({ field, column }))
+    .filter((entry): entry is { field: ImportField; column: number } => entry.field !== '');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-5xl flex-col rounded-lg bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Import People</h3>
+            <p className="text-xs text-gray-500">
+              {table ? `${table.fileName} · ${table.rows.length} rows` : 'CSV or Excel, first row must be the column headings'}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={step === 'importing'} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4">
+          {fileError && (
+            <div className="mb-4 flex items-center gap-2 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4" />
+              {fileError}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-300 py-16 text-center hover:border-primary-500">
+              <FileSpreadsheet className="mb-3 h-12 w-12 text-gray-400" />
+              <span className="font-medium text-gray-700">{busy ? 'Reading file...' : 'Choose a .csv, .xlsx or .xls file'}</span>
+              <span className="mt-1 text-xs text-gray-500">Only the first sheet is imported</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                disabled={busy}
+                onChange={event => handleFile(event.target.files?.[0])}
+              />
+            </label>
+          )}
+
+          {step === 'map' && table && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">Match each column in the file to a person field. Unmapped columns are ignored.</p>
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b text-xs uppercase text-gray-500">
+                    <th className="py-2 pr-4">Column in file</th>
+                    <th className="py-2 pr-4">Sample</th>
+                    <th className="py-2">Person field</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.headers.map((header, column) => (
+                    <tr key={`${header}-${column}`} className="border-b">
+                      <td className="py-2 pr-4 font-medium">{header || `Column ${column + 1}`}</td>
+                      <td className="py-2 pr-4 text-gray-500">{table.rows.find(row => row[column])?.[column] || '—'}</td>
+                      <td className="py-2">
+                        <select
+                          value={mapping[column] || ''}
+                          onChange={event => setColumn(column, event.target.value as ImportField | '')}
+                          className="input-field py-1"
+                        >
+                          <option value="">Ignore</option>
+                          {IMPORT_FIELDS
+                            .filter(({ field }) => field !== 'direction' || !adminDirection)
+                            .map(({ field, label, required }) => (
+                              <option key={field} value={field}>{label}{required ? ' *' : ''}</option>
+                            ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex items-center gap-3 text-sm">
+                <span className="text-gray-700">Direction:</span>
+                {adminDirection ? (
+                  <span className="font-medium">{adminDirection} (all rows)</span>
+                ) : (
+                  <select value={defaultDirection} onChange={event => setDefaultDirection(event.target.value)} className="input-field w-auto py-1">
+                    <option value="">From the file</option>
+                    {DIRECTIONS.map(direction => (
+                      <option key={direction} value={direction}>{direction} (rows without one)</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {problems.length > 0 && (
+                <ul className="space-y-1 text-sm text-red-600">
+                  {problems.map(problem => <li key={problem}>• {problem}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {step === 'preview' && table && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="flex items-center gap-1 text-green-700">
+                  <CheckCircle className="h-4 w-4" /> {validRows.length} ready to import
+                </span>
+                <span className="flex items-center gap-1 text-red-700">
+                  <AlertCircle className="h-4 w-4" /> {rejectedRows.length} with errors
+                </span>
+                <label className="ml-auto flex items-center gap-2 text-gray-600">
+                  <input type="checkbox" checked={onlyErrors} onChange={event => setOnlyErrors(event.target.checked)} />
+                  Only rows with errors
+                </label>
+              </div>
+
+              <div className="overflow-auto rounded border">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-2 py-2">Line</th>
+                      {mappedColumns.map(({ field }) => (
+                        <th key={field} className="px-2 py-2">{IMPORT_FIELDS.find(entry => entry.field === field)?.label}</th>
+                      ))}
+                      <th className="px-2 py-2">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map(row => (
+                      <tr key={row.line} className={`border-t ${row.person ? '' : 'bg-red-50'}`}>
+                        <td className="px-2 py-1 text-gray-500">{row.line}</td>
+                        {mappedColumns.map(({ field, column }) => (
+                          <td key={field} className="px-2 py-1">{row.cells[column]}</td>
+                        ))}
+                        <td className="px-2 py-1">
+                          <span className="text-red-700">{row.errors.join('; ')}</span>
+                          {row.warnings.length > 0 && <span className="block text-amber-700">{row.warnings.join('; ')}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {(onlyErrors ? rejectedRows : rows).length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500">
+                  Showing the first {PREVIEW_LIMIT} rows. Download the rejection file for the full list of errors.
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <div className="py-12 text-center">
+              <p className="mb-3 text-sm text-gray-700">Importing {progress.done} of {progress.total}...</p>
+              <div className="mx-auto h-2 max-w-md overflow-hidden rounded bg-gray-200">
+                <div
+                  className="h-full bg-primary-600 transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="py-12 text-center">
+              <CheckCircle className="mx-auto mb-3 h-12 w-12 text-green-500" />
+              <p className="text-lg font-semibold text-gray-900">{imported} people imported</p>
+              {rejectedRows.length > 0 && (
+                <p className="mt-1 text-sm text-red-600">{rejectedRows.length} rows were not imported.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t px-6 py-4">
+          <div>
+            {(step === 'preview' || step === 'done') && rejectedRows.length > 0 && (
+              <button onClick={downloadRejections} className="btn-secondary flex items-center gap-2">
+                <Download className="h-4 w-4" /> Download rejected rows
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            {step === 'map' && (
+              <>
+                <button onClick={() => setStep('upload')} className="btn-secondary">Back</button>
+                <button onClick={runValidation} disabled={busy || problems.length > 0} className="btn-primary">
+                  {busy ? 'Checking...' : 'Check rows'}
+                </button>
+              </>
+            )}
+            {step === 'preview' && (
+              <>
+                <button onClick={() => setStep('map')} className="btn-secondary">Back</button>
+                <button onClick={commit} disabled={validRows.length === 0} className="btn-primary flex items-center gap-2">
+                  <Upload className="h-4 w-4" /> Import {validRows.length} people
+                </button>
+              </>
+            )}
+            {step === 'done' && <button onClick={onClose} className="btn-primary">Close</button>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPeopleWizard;
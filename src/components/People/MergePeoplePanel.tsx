@@ -0,0 +1,134 @@
+// src/components/People/MergePeoplePanel.tsx - Side-by-side merge of two probable duplicates
+import React, { useEffect, useState } from 'react';
+import { GitMerge, SkipForward, UserX } from 'lucide-react';
+import { MERGE_FIELDS, defaultChoices, isMaskedInPair, strandedMaskedFields } from '../../utils/duplicates';
+import { isSensitiveField } from '../../utils/masking';
+import IdentityValue from '../IdentityValue';
+import type { DuplicateCandidate, MergeSide } from '../../utils/duplicates';
+import type { Person } from '../../types';
+
+interface MergePeoplePanelProps {
+  candidate: DuplicateCandidate;
+  busy: boolean;
+  blockedReason?: string;      // e.g. offline or pending changes; disables the merge button
+  onMerge: (choices: Record<string, MergeSide>, keep: MergeSide) => void;
+  onDismiss: () => void;
+  onSkip: () => void;
+}
+
+// Identity numbers stay masked until revealed, like everywhere else
+const display = (person: Person, field: string) => {
+  const text = String(person[field] ?? '').trim();
+  if (!text) return <span className="italic text-gray-400">blank</span>;
+  return isSensitiveField(field) ? <IdentityValue person={person} field={field} /> : text;
+};
+
+const MergePeoplePanel: React.FC<MergePeoplePanelProps> = ({ candidate, busy, blockedReason, onMerge, onDismiss, onSkip }) => {
+  const { left, right } = candidate;
+  const [choices, setChoices] = useState(() => defaultChoices(left, right));
+  const [keep, setKeep] = useState<MergeSide>('left');
+
+  // Start fresh whenever another pair is opened
+  useEffect(() => {
+    setChoices(defaultChoices(left, right));
+    setKeep('left');
+  }, [left, right]);
+
+  const stranded = strandedMaskedFields(left, right, keep);
+
+  const sideHeader = (side: MergeSide) => {
+    const person = side === 'left' ? left : right;
+    return (
+      <th className="w-5/12 px-3 py-2 text-left">
+        <label className="flex items-center gap-2">
+          <input type="radio" name="keep" checked={keep === side} onChange={() => setKeep(side)} />
+          <span>
+            <span className="block font-semibold text-gray-900">Keep {person.id}</span>
+            <span className="block text-xs font-normal text-gray-500">
+              Added {person.createdAt ? new Date(person.createdAt).toLocaleDateString() : 'unknown'} by {person.createdBy || 'unknown'}
+            </span>
+          </span>
+        </label>
+      </th>
+    );
+  };
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Review pair · {candidate.score}% match</h2>
+          <p className="text-xs text-gray-500">{candidate.reasons.join(' · ')}</p>
+        </div>
+        <div className="flex gap-2">
+          <button type="button" onClick={onSkip} disabled={busy} className="btn-secondary flex items-center gap-1">
+            <SkipForward className="h-4 w-4" /> Skip
+          </button>
+          <button type="button" onClick={onDismiss} disabled={busy} className="btn-secondary flex items-center gap-1">
+            <UserX className="h-4 w-4" /> Not a duplicate
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="w-2/12 px-3 py-2 text-left text-gray-600">Field</th>
+              {sideHeader('left')}
+              {sideHeader('right')}
+            </tr>
+          </thead>
+          <tbody>
+            {MERGE_FIELDS.map(({ field, label }) => {
+              const same = String(left[field] ?? '').trim() === String(right[field] ?? '').trim();
+              // Masked numbers can't be chosen; the kept record's stored value stays
+              const masked = isMaskedInPair(left, right, field);
+              return (
+                <tr key={field} className={`border-t border-gray-100 ${same ? 'text-gray-500' : 'bg-amber-50/40'}`}>
+                  <td className="px-3 py-2 font-medium text-gray-700">{label}</td>
+                  {(['left', 'right'] as MergeSide[]).map(side => (
+                    <td key={side} className="px-3 py-2">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          name={`field-${field}`}
+                          checked={masked ? keep === side : choices[field] === side}
+                          onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                          disabled={same || masked}
+                        />
+                        {display(side === 'left' ? left : right, field)}
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 border-t pt-4">
+        <div className="text-xs text-gray-500">
+          <p>{blockedReason || `The ${keep} record keeps its id with the chosen values; the other record goes to the recycle bin.`}</p>
+          {stranded.length > 0 && (
+            <p className="mt-1 text-amber-700">
+              {stranded.join(', ')} can't be copied while masked and will stay on the record that goes to the recycle bin.
+              Keep the other record to keep {stranded.length === 1 ? 'it' : 'them'}.
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => onMerge(choices, keep)}
+          disabled={busy || !!blockedReason}
+          className="btn-primary flex items-center gap-2"
+        >
+          <GitMerge className="h-4 w-4" /> {busy ? 'Merging...' : 'Merge'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MergePeoplePanel;
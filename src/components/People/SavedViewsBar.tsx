@@ -0,0 +1,58 @@
+// src/components/People/SavedViewsBar.tsx - One-click named People filters for the logged-in user
+import React, { useState } from 'react';
+import { Bookmark, BookmarkPlus, X } from 'lucide-react';
+import { savedViewsService } from '../../services/savedViews';
+import type { PeopleView } from '../../services/savedViews';
+
+interface SavedViewsBarProps {
+  userKey: string;
+  current: Omit<PeopleView, 'id' | 'name' | 'createdAt'>;
+  canSave: boolean;                    // nothing to save when no filter or search is applied
+  onOpen: (view: PeopleView) => void;
+}
+
+const SavedViewsBar: React.FC<SavedViewsBarProps> = ({ userKey, current, canSave, onOpen }) => {
+  const [views, setViews] = useState<PeopleView[]>(() => savedViewsService.list(userKey));
+
+  const saveCurrent = () => {
+    const name = window.prompt('Name this view (e.g. "Ward 12 women 18-25")')?.trim();
+    if (!name) return;
+    const existing = views.find(view => view.name.toLowerCase() === name.toLowerCase());
+    if (existing && !window.confirm(`Replace the saved view "${existing.name}"?`)) return;
+    savedViewsService.save(userKey, { ...current, name });
+    setViews(savedViewsService.list(userKey));
+  };
+
+  const removeView = (view: PeopleView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) return;
+    savedViewsService.remove(userKey, view.id);
+    setViews(savedViewsService.list(userKey));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <Bookmark className="h-4 w-4 text-gray-500" />
+      {views.length === 0 && <span className="text-gray-500">No saved views yet</span>}
+      {views.map(view => (
+        <span key={view.id} className="flex items-center rounded-full border border-gray-300 bg-white">
+          <button type="button" onClick={() => onOpen(view)} className="py-1 pl-3 pr-1 text-gray-700 hover:text-primary-700">
+            {view.name}
+          </button>
+          <button type="button" onClick={() => removeView(view)} className="py-1 pl-1 pr-2 text-gray-400 hover:text-red-600" title="Delete view">
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <button
+        type="button"
+        onClick={saveCurrent}
+        disabled={!canSave}
+        className="flex items-center gap-1 text-primary-600 hover:underline disabled:cursor-not-allowed disabled:text-gray-400 disabled:no-underline"
+      >
+        <BookmarkPlus className="h-4 w-4" /> Save current view
+      </button>
+    </div>
+  );
+};
+
+export default SavedViewsBar;
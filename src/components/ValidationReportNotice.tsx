@@ -0,0 +1,67 @@
+// src/components/ValidationReportNotice.tsx - Shows rows the schema rejected or flagged
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import type { ValidationReport } from '../utils/schema';
+
+interface ValidationReportNoticeProps {
+  report?: ValidationReport;
+}
+
+const ValidationReportNotice: React.FC<ValidationReportNoticeProps> = ({ report }) => {
+  const [open, setOpen] = useState(false);
+
+  if (!report || report.issues.length === 0) return null;
+
+  const warnings = report.issues.filter(issue => issue.severity === 'warning').length;
+
+  return (
+    <div className="mb-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <AlertTriangle size={16} />
+          <span>
+            {report.rejected > 0 && `${report.rejected} of ${report.total} ${report.entity} rows were skipped. `}
+            {warnings > 0 && `${warnings} value(s) look wrong and are shown as stored.`}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => setOpen(prev => !prev)}
+          className="flex items-center gap-1 font-medium text-amber-800 hover:underline"
+        >
+          {open ? 'Hide details' : 'Show details'}
+          {open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 max-h-64 overflow-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="border-b border-amber-200">
+                <th className="py-1 pr-3">Row</th>
+                <th className="py-1 pr-3">ID</th>
+                <th className="py-1 pr-3">Field</th>
+                <th className="py-1 pr-3">Problem</th>
+                <th className="py-1">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.issues.map((issue, index) => (
+                <tr key={`${issue.row}-${issue.field}-${index}`} className="border-b border-amber-100">
+                  <td className="py-1 pr-3">{issue.row + 1}</td>
+                  <td className="py-1 pr-3">{issue.id || '—'}</td>
+                  <td className="py-1 pr-3">{issue.field}</td>
+                  <td className="py-1 pr-3">{issue.message}</td>
+                  <td className="py-1">{issue.severity === 'error' ? 'Skipped' : 'Kept'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReportNotice;
@@ -0,0 +1,155 @@
+// src/config/appConfig.ts - SINGLE SOURCE OF ENDPOINTS AND ENVIRONMENT SETTINGS
+// Everything is read from import.meta.env once, merged over the profile defaults and validated at startup.
+
+export type AppProfile = 'development' | 'staging' | 'production';
+export type DataSourceKind = 'sheets' | 'rest';
+export type DataResource = 'people' | 'users' | 'messages' | 'templates' | 'households' | 'audit' | 'fields' | 'wards' | 'segments';
+
+export interface AppConfig {
+  profile: AppProfile;
+  useMockApi: boolean;
+  apiBaseUrl: string;          // REST backend including the /api prefix, no trailing slash
+  sheetsScriptUrl: string;     // Apps Script web app /exec URL
+  dataSource: DataSourceKind;
+  dataSourceOverrides: Partial<Record<DataResource, DataSourceKind>>;
+  recycleRetentionDays: number;  // deleted people and templates are purged after this long; 0 = never
+  storageKeys: {
+    authToken: string;
+    authUser: string;
+  };
+}
+
+export interface ConfigIssue {
+  key: string;
+  message: string;
+  severity: 'error' | 'warning';   // error = app refuses to start
+}
+
+export const DATA_RESOURCES: DataResource[] = ['people', 'users', 'messages', 'templates', 'households', 'audit', 'fields', 'wards', 'segments'];
+
+const PROFILES: AppProfile[] = ['development', 'staging', 'production'];
+
+// Same paths the mock plugin mounts (mock/mockApi.ts)
+const MOCK_API_URL = '/__mock/api';
+const MOCK_SHEETS_URL = '/__mock/sheets';
+
+const LIVE_API_URL = 'https://mugesh-backend-7331.vercel.app/api';
+const LIVE_SHEETS_URL = 'https://script.google.com/macros/s/AKfycbwh9LCvaGVbKFMIe0OlsroEAQOJLnyNivgakDtEdkxwM8NpurPpC9FB2vAW63iAbw/exec';
+
+// ✅ Staging has no deployment of its own yet, so its URLs must come from the environment
+const PROFILE_DEFAULTS: Record<AppProfile, { apiBaseUrl: string; sheetsScriptUrl: string }> = {
+  development: { apiBaseUrl: LIVE_API_URL, sheetsScriptUrl: LIVE_SHEETS_URL },
+  staging: { apiBaseUrl: '', sheetsScriptUrl: '' },
+  production: { apiBaseUrl: LIVE_API_URL, sheetsScriptUrl: LIVE_SHEETS_URL }
+};
+
+const DEFAULT_RECYCLE_RETENTION_DAYS = 30;
+
+const parseRetentionDays = (value: string | undefined): number | undefined =>
+  value !== undefined && /^\d+$/.test(value.trim()) ? Number(value.trim()) : undefined;
+
+const isDataSourceKind = (value: unknown): value is DataSourceKind =>
+  value === 'sheets' || value === 'rest';
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+// VITE_APP_PROFILE wins; otherwise the Vite mode (`vite --mode staging`) picks the profile
+const resolveProfile = (env: ImportMetaEnv): AppProfile => {
+  const requested = env.VITE_APP_PROFILE || env.MODE;
+  return PROFILES.includes(requested as AppProfile) ? requested as AppProfile : env.PROD ? 'production' : 'development';
+};
+
+export const loadConfig = (env: ImportMetaEnv = import.meta.env): AppConfig => {
+  const profile = resolveProfile(env);
+  const defaults = PROFILE_DEFAULTS[profile];
+  const useMockApi = env.VITE_USE_MOCK_API === 'true';
+
+  const dataSourceOverrides: AppConfig['dataSourceOverrides'] = {};
+  for (const resource of DATA_RESOURCES) {
+    const override = env[`VITE_DATA_SOURCE_${resource.toUpperCase()}` as keyof ImportMetaEnv];
+    if (isDataSourceKind(override)) dataSourceOverrides[resource] = override;
+  }
+
+  return {
+    profile,
+    useMockApi,
+    apiBaseUrl: useMockApi ? MOCK_API_URL : trimSlash(env.VITE_API_BASE_URL || defaults.apiBaseUrl),
+    sheetsScriptUrl: useMockApi ? MOCK_SHEETS_URL : (env.VITE_SHEETS_SCRIPT_URL || defaults.sheetsScriptUrl).trim(),
+    dataSource: isDataSourceKind(env.VITE_DATA_SOURCE) ? env.VITE_DATA_SOURCE : 'sheets',
+    dataSourceOverrides,
+    recycleRetentionDays: parseRetentionDays(env.VITE_RECYCLE_RETENTION_DAYS) ?? DEFAULT_RECYCLE_RETENTION_DAYS,
+    storageKeys: {
+      authToken: 'auth_token',
+      authUser: 'auth_user'
+    }
+  };
+};
+
+const checkUrl = (issues: ConfigIssue[], key: string, url: string, config: AppConfig) => {
+  if (!url) {
+    issues.push({ key, message: `${key} is not set for the ${config.profile} profile`, severity: 'error' });
+    return;
+  }
+  if (config.useMockApi) return;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    issues.push({ key, message: `"${url}" is not an absolute URL`, severity: 'error' });
+    return;
+  }
+  if (parsed.protocol !== 'https:' && config.profile !== 'development') {
+    issues.push({ key, message: `${key} must use https outside development`, severity: 'error' });
+  }
+};
+
+// ✅ Everything that would otherwise fail later as a confusing network error
+export const validateConfig = (config: AppConfig, env: ImportMetaEnv = import.meta.env): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+
+  checkUrl(issues, 'VITE_API_BASE_URL', config.apiBaseUrl, config);
+  checkUrl(issues, 'VITE_SHEETS_SCRIPT_URL', config.sheetsScriptUrl, config);
+
+  if (config.useMockApi && config.profile === 'production') {
+    issues.push({ key: 'VITE_USE_MOCK_API', message: 'The mock backend only exists on the dev server', severity: 'error' });
+  }
+  if (!config.useMockApi && config.sheetsScriptUrl && !/\/exec$/.test(config.sheetsScriptUrl)) {
+    issues.push({ key: 'VITE_SHEETS_SCRIPT_URL', message: 'Apps Script web app URLs normally end in /exec', severity: 'warning' });
+  }
+  if (!config.useMockApi && config.apiBaseUrl && !/\/api$/.test(config.apiBaseUrl)) {
+    issues.push({ key: 'VITE_API_BASE_URL', message: 'REST base URL normally ends in /api', severity: 'warning' });
+  }
+
+  // Typos used to fall back to Sheets silently
+  const sourceKeys: (keyof ImportMetaEnv)[] = [
+    'VITE_DATA_SOURCE',
+    ...DATA_RESOURCES.map(resource => `VITE_DATA_SOURCE_${resource.toUpperCase()}` as keyof ImportMetaEnv)
+  ];
+  for (const key of sourceKeys) {
+    const value = env[key];
+    if (value !== undefined && value !== '' && !isDataSourceKind(value)) {
+      issues.push({ key: String(key), message: `"${String(value)}" is not "sheets" or "rest"`, severity: 'error' });
+    }
+  }
+
+  if (env.VITE_RECYCLE_RETENTION_DAYS && parseRetentionDays(env.VITE_RECYCLE_RETENTION_DAYS) === undefined) {
+    issues.push({
+      key: 'VITE_RECYCLE_RETENTION_DAYS',
+      message: `"${env.VITE_RECYCLE_RETENTION_DAYS}" is not a whole number of days, using ${DEFAULT_RECYCLE_RETENTION_DAYS}`,
+      severity: 'warning'
+    });
+  }
+
+  if (env.VITE_APP_PROFILE && !PROFILES.includes(env.VITE_APP_PROFILE as AppProfile)) {
+    issues.push({ key: 'VITE_APP_PROFILE', message: `"${env.VITE_APP_PROFILE}" is not one of ${PROFILES.join(', ')}`, severity: 'error' });
+  }
+
+  return issues;
+};
+
+export const appConfig = loadConfig();
+export const configIssues = validateConfig(appConfig);
+
+export const resolveDataSourceKind = (resource: DataResource, config: AppConfig = appConfig): DataSourceKind =>
+  config.dataSourceOverrides[resource] || config.dataSource;
@@ -1,6 +1,11 @@
 // src/contexts/AuthContext.tsx - FIXED VERSION
 import React, { createContext, useState, useEffect, useContext } from 'react';
 import type { ReactNode } from 'react';
+import { clearQueryCache } from '../services/queryCache';
+import { revealService } from '../services/identityReveal';
+import { errorFromException, err, fail, kindFromStatus, ok } from '../utils/result';
+import type { ApiError, Result } from '../utils/result';
+import { appConfig } from '../config/appConfig';
 
 interface User {
   id?: string;
@@ -14,18 +19,65 @@ interface User {
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<boolean>;
-  register: (email: string, password: string, role: string, direction?: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<Result<User>>;
+  register: (email: string, password: string, role: string, direction?: string) => Promise<Result<User>>;
   logout: () => void;
   loading: boolean;
-  error: string | null;
+  error: ApiError | null;
   clearError: () => void;
-  getAllUsers: () => Promise<{ success: boolean; users?: User[]; message?: string }>;
-  updateUser: (userId: string, email: string, direction?: string) => Promise<{ success: boolean; message?: string }>;
-  deleteUser: (userId: string) => Promise<{ success: boolean; message?: string }>;
-  changePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; message?: string }>;
+  getAllUsers: () => Promise<Result<User[]>>;
+  updateUser: (userId: string, email: string, direction?: string) => Promise<Result<null>>;
+  deleteUser: (userId: string) => Promise<Result<null>>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<Result<null>>;
 }
 
+// Body every /auth and /users endpoint answers with
+interface AuthBody {
+  success?: boolean;
+  message?: string;
+  token?: string;
+  user?: User;
+  users?: User[];
+}
+
+// ✅ Same REST backend the data services use (config/appConfig.ts)
+const API_BASE_URL = appConfig.apiBaseUrl;
+const { authToken: TOKEN_KEY, authUser: USER_KEY } = appConfig.storageKeys;
+
+// ✅ Auth calls resolve to a Result with the same error categories as the data services
+const authRequest = async (path: string, init: RequestInit = {}): Promise<Result<AuthBody>> => {
+  try {
+    const token = localStorage.getItem(TOKEN_KEY);
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { 'Authorization': `Bearer ${token}` })
+      }
+    });
+    const body: AuthBody = await response.json().catch(() => ({}));
+
+    if (!response.ok || body.success === false) {
+      const kind = response.ok ? 'validation' : kindFromStatus(response.status);
+      return err(kind, body.message || `HTTP ${response.status}: ${response.statusText}`, response.status);
+    }
+    return ok(body, body.message);
+  } catch (error: unknown) {
+    return fail(errorFromException(error));
+  }
+};
+
+const requireToken = (): Result<null> =>
+  localStorage.getItem(TOKEN_KEY) ? ok(null) : err('auth', 'No authentication token');
+
+const requireUserId = (userId: string): Result<null> => {
+  if (!userId || userId === 'undefined') {
+    console.error('❌ Invalid userId:', userId);
+    return err('validation', 'Invalid user ID');
+  }
+  return ok(null);
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
@@ -35,49 +87,41 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // ✅ FIXED: Correct API URL without trailing slash
-  const API_BASE_URL = 'https://mugesh-backend-7331.vercel.app/api';
+  const [error, setError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     const initializeAuth = async () => {
       console.log('🔍 Initializing authentication...');
       
       try {
-        const token = localStorage.getItem('auth_token');
+        const token = localStorage.getItem(TOKEN_KEY);
         
         if (token) {
           console.log('🔐 Token found, verifying...');
           
           // ✅ FIXED: Correct endpoint path
-          const response = await fetch(`${API_BASE_URL}/auth/verify`, {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json'
-            }
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            
-            if (data.success) {
-              setUser(data.user);
-              console.log('✅ User session restored:', data.user.email);
-            } else {
-              localStorage.removeItem('auth_token');
-              localStorage.removeItem('auth_user');
-            }
+          const result = await authRequest('/auth/verify');
+
+          if (result.ok && result.value.user) {
+            setUser(result.value.user);
+            console.log('✅ User session restored:', result.value.user.email);
+          } else if (!result.ok && (result.error.kind === 'auth' || result.error.kind === 'validation')) {
+            console.log('❌ Token verification failed:', result.error.message);
+            localStorage.removeItem(TOKEN_KEY);
+            localStorage.removeItem(USER_KEY);
           } else {
-            console.log('❌ Token verification failed');
-            localStorage.removeItem('auth_token');
-            localStorage.removeItem('auth_user');
+            // Backend unreachable - keep the session we had so offline work can continue
+            const cachedUser = localStorage.getItem(USER_KEY);
+            console.warn('⚠️ Could not verify token, using cached session:', result.ok ? 'no user' : result.error.message);
+            if (cachedUser) {
+              setUser(JSON.parse(cachedUser) as User);
+            }
           }
         }
       } catch (error) {
         console.error('❌ Auth initialization error:', error);
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('auth_user');
+        localStorage.removeItem(TOKEN_KEY);
+        localStorage.removeItem(USER_KEY);
       } finally {
         setLoading(false);
         console.log('✅ Authentication initialization completed');
@@ -90,56 +134,49 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const clearError = () => setError(null);
 
   // ✅ FIXED: Login function with correct URL
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<Result<User>> => {
     try {
       setLoading(true);
       setError(null);
       
       console.log('🔐 Login attempt:', email);
       
-      // ✅ FIXED: Correct endpoint URL
-      const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      const result = await authRequest('/auth/login', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
         body: JSON.stringify({ email, password }),
       });
 
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        console.log('✅ Login successful:', data.user.email, data.user.role);
-        
-        localStorage.setItem('auth_token', data.token);
-        localStorage.setItem('auth_user', JSON.stringify(data.user));
-        setUser(data.user);
-        
-        return true;
-      } else {
-        console.log('❌ Login failed:', data.message);
-        setError(data.message || 'Login failed');
-        return false;
+      if (!result.ok) {
+        console.log('❌ Login failed:', result.error.message);
+        setError(result.error);
+        return fail(result.error);
       }
-      
-    } catch (error: any) {
-      console.error('❌ Login error:', error);
-      setError('Network error. Please check your connection and try again.');
-      return false;
+
+      const { token, user: loggedIn } = result.value;
+      if (!token || !loggedIn) {
+        const invalid: ApiError = { kind: 'server', message: 'Login response did not include a session' };
+        setError(invalid);
+        return fail(invalid);
+      }
+
+      console.log('✅ Login successful:', loggedIn.email, loggedIn.role);
+      localStorage.setItem(TOKEN_KEY, token);
+      localStorage.setItem(USER_KEY, JSON.stringify(loggedIn));
+      setUser(loggedIn);
+      return ok(loggedIn);
     } finally {
       setLoading(false);
     }
   };
 
   // ✅ FIXED: Register function with correct URL
-  const register = async (email: string, password: string, role: string, direction?: string): Promise<boolean> => {
+  const register = async (email: string, password: string, role: string, direction?: string): Promise<Result<User>> => {
     try {
       setLoading(true);
       setError(null);
       
       console.log('📝 Registration attempt:', { email, role, direction });
       
-      const token = localStorage.getItem('auth_token');
       const requestBody = {
         email,
         password,
@@ -147,220 +184,133 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         direction: role === 'admin' ? direction : undefined
       };
       
-      // ✅ FIXED: Correct endpoint URL
-      const response = await fetch(`${API_BASE_URL}/auth/register`, {
+      const result = await authRequest('/auth/register', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': token ? `Bearer ${token}` : '',
-        },
         body: JSON.stringify(requestBody),
       });
 
-      const data = await response.json();
+      if (!result.ok) {
+        console.log('❌ Registration failed:', result.error.message);
+        setError(result.error);
+        return fail(result.error);
+      }
+
+      const { token, user: registered } = result.value;
+      if (!registered) {
+        return err('server', 'Registration response did not include the new user');
+      }
+      console.log('✅ Registration successful:', registered.email);
       
-      if (response.ok && data.success) {
-        console.log('✅ Registration successful:', data.user.email);
-        
-        if (role !== 'superadmin') {
-          return true;
-        }
-        
-        localStorage.setItem('auth_token', data.token);
-        localStorage.setItem('auth_user', JSON.stringify(data.user));
-        setUser(data.user);
-        
-        return true;
-      } else {
-        console.log('❌ Registration failed:', data.message);
-        setError(data.message || 'Registration failed');
-        return false;
+      // Superadmins registering themselves are logged straight in
+      if (role === 'superadmin' && token) {
+        localStorage.setItem(TOKEN_KEY, token);
+        localStorage.setItem(USER_KEY, JSON.stringify(registered));
+        setUser(registered);
       }
       
-    } catch (error: any) {
-      console.error('❌ Registration error:', error);
-      setError('Network error. Please check your connection and try again.');
-      return false;
+      return ok(registered);
     } finally {
       setLoading(false);
     }
   };
 
   // ✅ FIXED: Get all users function
-  const getAllUsers = async (): Promise<{ success: boolean; users?: User[]; message?: string }> => {
-    try {
-      const token = localStorage.getItem('auth_token');
-      if (!token) {
-        return { success: false, message: 'No authentication token' };
-      }
+  const getAllUsers = async (): Promise<Result<User[]>> => {
+    const tokenCheck = requireToken();
+    if (!tokenCheck.ok) return fail(tokenCheck.error);
 
-      console.log('👥 Fetching all users...');
-      
-      const response = await fetch(`${API_BASE_URL}/auth/users`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        
-        if (data.success) {
-          const mappedUsers = data.users.map((user: any) => ({
-            ...user,
-            id: user.id || user._id?.toString() || user._id,
-            _id: user._id
-          }));
-          
-          console.log('✅ Users fetched and mapped:', mappedUsers.length);
-          
-          return { success: true, users: mappedUsers };
-        } else {
-          console.log('❌ Failed to fetch users:', data.message);
-          return { success: false, message: data.message };
-        }
-      } else {
-        console.log('❌ Response not OK:', response.status);
-        return { success: false, message: 'Failed to fetch users' };
-      }
-    } catch (error: any) {
-      console.error('❌ Get users error:', error);
-      return { success: false, message: 'Network error occurred' };
+    console.log('👥 Fetching all users...');
+    const result = await authRequest('/auth/users');
+    if (!result.ok) {
+      console.log('❌ Failed to fetch users:', result.error.message);
+      return fail(result.error);
     }
+
+    const mappedUsers = (result.value.users || []).map(user => ({
+      ...user,
+      id: user.id || user._id?.toString() || user._id,
+      _id: user._id
+    }));
+    console.log('✅ Users fetched and mapped:', mappedUsers.length);
+    return ok(mappedUsers);
   };
 
   // ✅ FIXED: Update user function
-  const updateUser = async (userId: string, email: string, direction?: string): Promise<{ success: boolean; message?: string }> => {
-    try {
-      const token = localStorage.getItem('auth_token');
-      if (!token) {
-        return { success: false, message: 'No authentication token' };
-      }
+  const updateUser = async (userId: string, email: string, direction?: string): Promise<Result<null>> => {
+    const check = requireToken().ok ? requireUserId(userId) : requireToken();
+    if (!check.ok) return check;
 
-      console.log('✏️ Updating user:', { userId, email, direction });
-      
-      if (!userId || userId === 'undefined') {
-        console.error('❌ Invalid userId:', userId);
-        return { success: false, message: 'Invalid user ID' };
-      }
-      
-      // ✅ FIXED: Correct endpoint URL (note: /api/users, not /api/auth/users)
-      const response = await fetch(`https://mugesh-backend-7331.vercel.app/api/users/${userId}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          email,
-          role: 'admin',
-          direction
-        })
-      });
+    console.log('✏️ Updating user:', { userId, email, direction });
+    
+    // ✅ FIXED: Correct endpoint URL (note: /api/users, not /api/auth/users)
+    const result = await authRequest(`/users/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        email,
+        role: 'admin',
+        direction
+      })
+    });
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log('✅ User updated successfully:', data);
-        return { success: true, message: 'User updated successfully' };
-      } else {
-        const data = await response.json();
-        console.log('❌ Failed to update user:', data);
-        return { success: false, message: data.message || 'Failed to update user' };
-      }
-    } catch (error: any) {
-      console.error('❌ Update user error:', error);
-      return { success: false, message: 'Network error occurred' };
+    if (!result.ok) {
+      console.log('❌ Failed to update user:', result.error.message);
+      return fail(result.error);
     }
+    console.log('✅ User updated successfully');
+    return ok(null, 'User updated successfully');
   };
 
   // ✅ FIXED: Delete user function
-  const deleteUser = async (userId: string): Promise<{ success: boolean; message?: string }> => {
-    try {
-      const token = localStorage.getItem('auth_token');
-      if (!token) {
-        return { success: false, message: 'No authentication token' };
-      }
+  const deleteUser = async (userId: string): Promise<Result<null>> => {
+    const check = requireToken().ok ? requireUserId(userId) : requireToken();
+    if (!check.ok) return check;
 
-      console.log('🗑️ Deleting user:', userId);
-      
-      if (!userId || userId === 'undefined') {
-        console.error('❌ Invalid userId:', userId);
-        return { success: false, message: 'Invalid user ID' };
-      }
-      
-      // ✅ FIXED: Correct endpoint URL
-      const response = await fetch(`https://mugesh-backend-7331.vercel.app/api/users/${userId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.ok) {
-        console.log('✅ User deleted successfully');
-        return { success: true, message: 'User deleted successfully' };
-      } else {
-        const data = await response.json();
-        console.log('❌ Failed to delete user:', data);
-        return { success: false, message: data.message || 'Failed to delete user' };
-      }
-    } catch (error: any) {
-      console.error('❌ Delete user error:', error);
-      return { success: false, message: 'Network error occurred' };
+    console.log('🗑️ Deleting user:', userId);
+    
+    const result = await authRequest(`/users/${userId}`, { method: 'DELETE' });
+    if (!result.ok) {
+      console.log('❌ Failed to delete user:', result.error.message);
+      return fail(result.error);
     }
+    console.log('✅ User deleted successfully');
+    return ok(null, 'User deleted successfully');
   };
 
   // ✅ FIXED: Change password function
-  const changePassword = async (currentPassword: string, newPassword: string): Promise<{ success: boolean; message?: string }> => {
-    try {
-      const token = localStorage.getItem('auth_token');
-      if (!token) {
-        return { success: false, message: 'No authentication token' };
-      }
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<Result<null>> => {
+    const tokenCheck = requireToken();
+    if (!tokenCheck.ok) return fail(tokenCheck.error);
 
-      if (!user?.id && !user?._id) {
-        return { success: false, message: 'User not found' };
-      }
+    if (!user?.id && !user?._id) {
+      return err('auth', 'User not found');
+    }
 
-      console.log('🔐 Changing password for user:', user.email);
-      
-      const response = await fetch(`${API_BASE_URL}/auth/change-password`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          currentPassword,
-          newPassword,
-          userId: user.id || user._id
-        })
-      });
+    console.log('🔐 Changing password for user:', user.email);
+    
+    const result = await authRequest('/auth/change-password', {
+      method: 'PUT',
+      body: JSON.stringify({
+        currentPassword,
+        newPassword,
+        userId: user.id || user._id
+      })
+    });
 
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        console.log('✅ Password changed successfully');
-        return { success: true, message: 'Password updated successfully' };
-      } else {
-        console.log('❌ Password change failed:', data.message);
-        return { success: false, message: data.message || 'Failed to change password' };
-      }
-      
-    } catch (error: any) {
-      console.error('❌ Change password error:', error);
-      return { success: false, message: 'Network error occurred' };
+    if (!result.ok) {
+      console.log('❌ Password change failed:', result.error.message);
+      return fail(result.error);
     }
+    console.log('✅ Password changed successfully');
+    return ok(null, 'Password updated successfully');
   };
 
   const logout = () => {
     console.log('🚪 Logging out user:', user?.email);
     
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+    clearQueryCache(); // ✅ Next user must never see the previous user's cached rows
+    revealService.hideAll();
     setUser(null);
     setError(null);
     
@@ -0,0 +1,103 @@
+// src/contexts/OutboxContext.tsx - Offline write queue state shared across pages
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import * as outbox from '../services/outbox';
+import type { OutboxEntry, ReplaySummary } from '../services/outbox';
+
+interface OutboxContextType {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  syncing: boolean;
+  // Latest queued entry per person id, for pending badges
+  pendingByPerson: Map<string, OutboxEntry>;
+  conflicts: OutboxEntry[];
+  queue: (entry: Omit<OutboxEntry, 'seq' | 'status' | 'queuedAt'>) => Promise<void>;
+  replay: () => Promise<ReplaySummary>;
+  discard: (seq: number) => Promise<void>;
+  retry: (seq: number) => Promise<void>;
+}
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const OutboxProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+
+  const replay = useCallback(async () => {
+    setSyncing(true);
+    try {
+      return await outbox.replay();
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => outbox.subscribe(setEntries), []);
+
+  // ✅ The queue on this device is split by user: switching user lists (and replays) only the new user's entries
+  useEffect(() => {
+    outbox.setOwner(user?.email)
+      .catch(error => console.error('❌ Could not read offline queue:', error));
+  }, [user?.email]);
+
+  useEffect(() => {
+    const handleOffline = () => {
+      console.log('📴 Connection lost - writes will be queued');
+      setIsOnline(false);
+    };
+    const handleOnline = () => setIsOnline(true);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // ✅ Replay only for a signed-in user (the backend would reject everything otherwise):
+  // once after login / page load to flush a previous session, and again on every reconnect
+  useEffect(() => {
+    if (!user || !isOnline) return;
+    console.log('🌐 Online - replaying offline queue');
+    replay().catch(error => console.error('❌ Outbox replay failed:', error));
+  }, [user, isOnline, replay]);
+
+  const pendingByPerson = useMemo(() => {
+    const map = new Map<string, OutboxEntry>();
+    entries.forEach(entry => map.set(entry.personId, entry));
+    return map;
+  }, [entries]);
+
+  const conflicts = useMemo(() => entries.filter(entry => entry.status === 'conflict'), [entries]);
+
+  return (
+    <OutboxContext.Provider value={{
+      entries,
+      isOnline,
+      syncing,
+      pendingByPerson,
+      conflicts,
+      queue: outbox.enqueue,
+      replay,
+      discard: outbox.discardEntry,
+      retry: async (seq: number) => {
+        await outbox.retryEntry(seq);
+        await replay();
+      }
+    }}>
+      {children}
+    </OutboxContext.Provider>
+  );
+};
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+  if (context === undefined) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
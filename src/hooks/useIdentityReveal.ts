@@ -0,0 +1,6 @@
+// src/hooks/useIdentityReveal.ts - Which masked identity numbers are shown in full right now
+import { useSyncExternalStore } from 'react';
+import { revealService } from '../services/identityReveal';
+
+// Keys from revealKey(personId, field); a reveal expires on its own after a couple of minutes
+export const useRevealedIdentities = () => useSyncExternalStore(revealService.subscribe, revealService.snapshot);
@@ -0,0 +1,5 @@
+// src/hooks/useOutbox.ts
+import { useOutbox as useOutboxContext } from '../contexts/OutboxContext';
+
+// Re-export the useOutbox hook from OutboxContext
+export const useOutbox = useOutboxContext;
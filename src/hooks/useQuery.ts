@@ -0,0 +1,198 @@
+// src/hooks/useQuery.ts - Read a cached query and revalidate it in the background
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { useAuth } from './useAuth';
+import { dataService } from '../services/dataSource';
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  isStale,
+  queryKey,
+  subscribeQuery,
+  unwrap
+} from '../services/queryCache';
+import type { Household, Message } from '../types';
+import type { PeopleQuery } from '../utils/peopleQuery';
+import { sortAuditEvents } from '../utils/audit';
+import { fieldsForDirection } from '../utils/customFields';
+import { sortWards } from '../utils/wards';
+import { segmentsForDirection } from '../utils/segments';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+  keepPreviousData?: boolean;   // keep showing the last key's data while a new key loads (paging)
+}
+
+export const useQuery = <T>(key: string, fetcher: () => Promise<T>, options: UseQueryOptions = {}) => {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME, keepPreviousData = false } = options;
+
+  // Always call the latest fetcher without making it an effect dependency
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback((listener: () => void) => subscribeQuery(key, listener), [key]);
+  const state = useSyncExternalStore(subscribe, () => getQueryState<T>(key));
+
+  const [previousData, setPreviousData] = useState<T | undefined>(undefined);
+  useEffect(() => {
+    if (state.data !== undefined) setPreviousData(state.data);
+  }, [state.data]);
+  const data = state.data !== undefined ? state.data : keepPreviousData ? previousData : undefined;
+
+  const refetch = useCallback(() => fetchQuery(key, () => fetcherRef.current()), [key]);
+
+  // ✅ Cached data renders immediately; stale data is refreshed behind it
+  useEffect(() => {
+    if (enabled && isStale(key, staleTime)) {
+      refetch().catch(() => undefined);
+    }
+  }, [key, enabled, staleTime, refetch]);
+
+  return {
+    data,
+    error: state.error,
+    loading: data === undefined && !state.error,
+    refreshing: state.fetching && data !== undefined,
+    refetch
+  };
+};
+
+// Admins only ever see their own direction; superadmins share the "all" entry
+const useDirection = () => {
+  const { user } = useAuth();
+  return {
+    enabled: !!user,
+    direction: user?.role === 'admin' && user.direction ? user.direction : null
+  };
+};
+
+// ✅ Per-resource queries shared by every page, so Dashboard, People and Messages reuse one fetch
+export const usePeopleQuery = () => {
+  const { enabled, direction } = useDirection();
+  const fetchPeople = useCallback(async () => {
+    console.log('🔄 Fetching people...');
+    // Direction is filtered by the backend, so admins never download other directions' rows
+    const people = unwrap(await dataService.getPeople({ direction }));
+    console.log('✅ People data loaded:', people.length, 'people');
+    return people;
+  }, [direction]);
+  const key = queryKey('people', direction);
+  return { key, ...useQuery(key, fetchPeople, { enabled }) };
+};
+
+// ✅ One person for their own page, without downloading the rest of the direction. null when not found
+// (or, for an admin, in another direction).
+export const usePersonQuery = (id: string) => {
+  const { enabled, direction } = useDirection();
+  const fetchPerson = useCallback(async () => {
+    const people = unwrap(await dataService.getPeople({ direction, ids: [id] }));
+    return people.find(person => person.id === id) ?? null;
+  }, [direction, id]);
+  const key = queryKey('people', direction, { id });
+  return { key, ...useQuery(key, fetchPerson, { enabled: enabled && !!id }) };
+};
+
+// ✅ One page of people plus totals; the admin's direction always overrides the query's
+export const usePeoplePageQuery = (query: PeopleQuery) => {
+  const { enabled, direction } = useDirection();
+  const scoped = useMemo(() => ({ ...query, direction: direction ?? query.direction }), [query, direction]);
+  const fetchPage = useCallback(async () => {
+    const response = await dataService.getPeople(scoped);
+    const people = unwrap(response);
+    const pageInfo = response.pageInfo || { total: people.length, page: 1, pageSize: people.length };
+    console.log(`✅ People page ${pageInfo.page} loaded:`, people.length, 'of', pageInfo.total);
+    return { people, pageInfo, report: response.report };
+  }, [scoped]);
+  const key = queryKey('people', direction, scoped);
+  return { key, ...useQuery(key, fetchPage, { enabled, keepPreviousData: true }) };
+};
+
+export const useMessagesQuery = () => {
+  const { enabled, direction } = useDirection();
+  const fetchMessages = useCallback(async () => {
+    const messages = unwrap(await dataService.getMessages());
+    return direction
+      ? messages.filter((message: Message) => !message.direction || message.direction === direction || message.direction === 'All')
+      : messages;
+  }, [direction]);
+  const key = queryKey('messages', direction);
+  return { key, ...useQuery(key, fetchMessages, { enabled }) };
+};
+
+export const useTemplatesQuery = () => {
+  const { enabled } = useDirection();
+  // Templates are shared across directions
+  const fetchTemplates = useCallback(async () => unwrap(await dataService.getTemplates()), []);
+  const key = queryKey('templates');
+  return { key, ...useQuery(key, fetchTemplates, { enabled }) };
+};
+
+// ✅ Households carry the direction of their address, so admins only see their own
+export const useHouseholdsQuery = () => {
+  const { enabled, direction } = useDirection();
+  const fetchHouseholds = useCallback(async () => {
+    const households = unwrap(await dataService.getHouseholds());
+    return direction ? households.filter((household: Household) => household.direction === direction) : households;
+  }, [direction]);
+  const key = queryKey('households', direction);
+  return { key, ...useQuery(key, fetchHouseholds, { enabled }) };
+};
+
+// ✅ The audit trail is superadmin-only, so nobody else ever downloads it
+export const useAuditQuery = () => {
+  const { user } = useAuth();
+  const fetchAudit = useCallback(async () => sortAuditEvents(unwrap(await dataService.getAuditEvents())), []);
+  const key = queryKey('audit');
+  return { key, ...useQuery(key, fetchAudit, { enabled: user?.role === 'superadmin' }) };
+};
+
+// ✅ Recycle bin contents, superadmins only: deleted people from every direction and deleted templates
+export const useDeletedPeopleQuery = () => {
+  const { user } = useAuth();
+  const fetchDeleted = useCallback(async () => unwrap(await dataService.getPeople({ deleted: 'only' })), []);
+  const key = queryKey('people', null, { deleted: 'only' });
+  return { key, ...useQuery(key, fetchDeleted, { enabled: user?.role === 'superadmin' }) };
+};
+
+export const useDeletedTemplatesQuery = () => {
+  const { user } = useAuth();
+  const fetchDeleted = useCallback(async () => unwrap(await dataService.getTemplates({ deleted: 'only' })), []);
+  const key = queryKey('templates', null, { deleted: 'only' });
+  return { key, ...useQuery(key, fetchDeleted, { enabled: user?.role === 'superadmin' }) };
+};
+
+// ✅ Field definitions are small and shared; admins only get the fields shown in their direction
+export const useCustomFieldsQuery = () => {
+  const { enabled, direction } = useDirection();
+  const fetchFields = useCallback(
+    async () => fieldsForDirection(unwrap(await dataService.getCustomFields()), direction),
+    [direction]
+  );
+  const key = queryKey('fields', direction);
+  return { key, ...useQuery(key, fetchFields, { enabled }) };
+};
+
+// ✅ Wards and streets load together; every signed-in user needs them for the People forms
+export const useWardsQuery = () => {
+  const { enabled } = useDirection();
+  const fetchWards = useCallback(async () => {
+    const [wards, streets] = await Promise.all([dataService.getWards(), dataService.getStreets()]);
+    return { wards: sortWards(unwrap(wards)), streets: unwrap(streets) };
+  }, []);
+  const key = queryKey('wards');
+  return { key, ...useQuery(key, fetchWards, { enabled }) };
+};
+
+// ✅ Segments are shared rules; admins get the superadmins' segments and their own direction's
+export const useSegmentsQuery = () => {
+  const { enabled, direction } = useDirection();
+  const fetchSegments = useCallback(
+    async () => segmentsForDirection(unwrap(await dataService.getSegments()), direction),
+    [direction]
+  );
+  const key = queryKey('segments', direction);
+  return { key, ...useQuery(key, fetchSegments, { enabled }) };
+};
@@ -0,0 +1,60 @@
+// src/hooks/useVirtualRows.ts - Render only the table rows inside the scroll viewport
+import { useCallback, useEffect, useState } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  rowHeight: number;   // estimated height of one row in px; rows taller than this only shift the window slightly
+  overscan?: number;   // extra rows rendered above and below the viewport
+}
+
+export interface VirtualRows {
+  containerRef: (element: HTMLDivElement | null) => void;   // callback ref: the box may mount after a loading state
+  start: number;       // first rendered index (inclusive)
+  end: number;         // last rendered index (exclusive)
+  paddingTop: number;  // height of the rows skipped above
+  paddingBottom: number;
+  scrollToTop: () => void;
+}
+
+// ✅ Windowing for a plain <table>: callers render rows[start..end) between two spacer rows
+export const useVirtualRows = ({ count, rowHeight, overscan = 10 }: VirtualRowsOptions): VirtualRows => {
+  const [container, containerRef] = useState<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+
+  useEffect(() => {
+    if (!container) return;
+
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setScrollTop(container.scrollTop));
+    };
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+
+    container.addEventListener('scroll', onScroll, { passive: true });
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('scroll', onScroll);
+      observer.disconnect();
+    };
+  }, [container]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  const scrollToTop = useCallback(() => {
+    if (container) container.scrollTop = 0;
+  }, [container]);
+
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, (count - end) * rowHeight),
+    scrollToTop
+  };
+};
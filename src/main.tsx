@@ -3,12 +3,25 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
+import ConfigErrorScreen from './components/ConfigErrorScreen'
+import { appConfig, configIssues } from './config/appConfig'
 import './index.css'
 
+// ✅ Validate the environment once before anything talks to a backend
+const configErrors = configIssues.filter(issue => issue.severity === 'error')
+configIssues
+  .filter(issue => issue.severity === 'warning')
+  .forEach(issue => console.warn(`⚠️ Config ${issue.key}: ${issue.message}`))
+console.log(`⚙️ Profile: ${appConfig.profile}${appConfig.useMockApi ? ' (mock backend)' : ''}`)
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <BrowserRouter>  {/* ✅ Router here */}
-      <App />
-    </BrowserRouter>
+    {configErrors.length > 0 ? (
+      <ConfigErrorScreen profile={appConfig.profile} issues={configErrors} />
+    ) : (
+      <BrowserRouter>  {/* ✅ Router here */}
+        <App />
+      </BrowserRouter>
+    )}
   </React.StrictMode>,
 )
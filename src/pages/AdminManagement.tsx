@@ -55,9 +55,9 @@ const AdminManagement: React.FC = () => {
       
       const result = await getAllUsers();
       
-      if (result.success && result.users) {
+      if (result.ok) {
         // Filter only admin users that are active
-        const adminUsers = result.users.filter((u: User) => 
+        const adminUsers = result.value.filter((u: User) => 
           u.role === 'admin' && (u.isActive !== false)
         );
         setAdmins(adminUsers);
@@ -65,7 +65,7 @@ const AdminManagement: React.FC = () => {
         console.log('🔍 Sample admin:', adminUsers[0]); // Debug log
         setMessage(null);
       } else {
-        setMessage({ type: 'error', text: result.message || 'Failed to fetch admins' });
+        setMessage({ type: 'error', text: result.error.message });
         setAdmins([]);
       }
     } catch (error) {
@@ -127,7 +127,7 @@ const AdminManagement: React.FC = () => {
       
       const result = await updateUser(userId, data.email, data.direction);
       
-      if (result.success) {
+      if (result.ok) {
         setShowEditModal(false);
         setEditingUser(null);
         resetEdit();
@@ -137,7 +137,7 @@ const AdminManagement: React.FC = () => {
         // Auto-hide success message after 5 seconds
         setTimeout(() => setMessage(null), 5000);
       } else {
-        setMessage({ type: 'error', text: result.message || 'Failed to update admin. Please try again.' });
+        setMessage({ type: 'error', text: result.error.message });
       }
     } catch (error) {
       console.error('❌ Error updating admin:', error);
@@ -202,14 +202,14 @@ const AdminManagement: React.FC = () => {
       
       const result = await deleteUser(userId);
       
-      if (result.success) {
+      if (result.ok) {
         await fetchAdmins(); // Refresh the list
         setMessage({ type: 'success', text: 'Admin deleted successfully!' });
         
         // Auto-hide success message after 5 seconds
         setTimeout(() => setMessage(null), 5000);
       } else {
-        setMessage({ type: 'error', text: result.message || 'Failed to delete admin. Please try again.' });
+        setMessage({ type: 'error', text: result.error.message });
       }
     } catch (error) {
       console.error('❌ Error deleting admin:', error);
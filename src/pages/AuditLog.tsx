@@ -0,0 +1,150 @@
+// src/pages/AuditLog.tsx - Superadmin view of every create, update and delete of people, and every identity reveal
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Eye, History, RefreshCw, Shield } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useAuditQuery } from '../hooks/useQuery';
+import { AUDIT_ACTIONS, changesOf, matchesAuditFilter } from '../utils/audit';
+import type { AuditAction, AuditFilter } from '../utils/audit';
+import Layout from '../components/Layout/Layout';
+import ErrorState from '../components/ErrorState';
+import AuditEventList from '../components/AuditEventList';
+import type { AuditEvent } from '../types';
+
+const NO_EVENTS: AuditEvent[] = [];
+const PAGE_SIZE = 100;
+
+// URL parameter for each filter, so a filtered log can be bookmarked or linked from a person's page
+const FILTER_PARAMS: (keyof AuditFilter)[] = ['personId', 'actor', 'action', 'field', 'from', 'to', 'search'];
+
+const AuditLog: React.FC = () => {
+  const { user } = useAuth();
+  const { data, error, loading, refreshing, refetch } = useAuditQuery();
+  const events = data || NO_EVENTS;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  const filter = useMemo(() => {
+    const current: AuditFilter = {};
+    for (const param of FILTER_PARAMS) {
+      const value = searchParams.get(param);
+      if (value) (current as Record<string, string>)[param] = value;
+    }
+    if (current.action && !AUDIT_ACTIONS.includes(current.action)) delete current.action;
+    return current;
+  }, [searchParams]);
+
+  const setFilter = (param: keyof AuditFilter, value: string) => {
+    setShown(PAGE_SIZE);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) next.set(param, value);
+      else next.delete(param);
+      return next;
+    }, { replace: true });
+  };
+
+  // Choices come from the log itself, so only actors and fields that appear are offered
+  const actors = useMemo(() => [...new Set(events.map(event => event.actor).filter(Boolean) as string[])].sort(), [events]);
+  const fields = useMemo(() => [...new Set(events.flatMap(event => changesOf(event).map(change => change.field)))].sort(), [events]);
+
+  const matching = useMemo(() => events.filter(event => matchesAuditFilter(event, filter)), [events, filter]);
+
+  if (user?.role !== 'superadmin') {
+    return (
+      <Layout>
+        <div className="flex min-h-96 flex-col items-center justify-center p-6 text-center">
+          <div className="mb-6 rounded-full bg-red-100 p-4">
+            <Shield className="h-12 w-12 text-red-600" />
+          </div>
+          <h2 className="mb-2 text-2xl font-bold text-gray-900">Access Denied</h2>
+          <p className="text-gray-500">Only Super Admins can view the audit log.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error && !data) {
+    return (
+      <Layout>
+        <ErrorState error={error} title="Could not load the audit log" onRetry={refetch} />
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-gray-900">
+              <History className="h-7 w-7 text-primary-600" /> Audit Log
+            </h1>
+            <p className="mt-1 text-gray-600">Who created, changed or deleted people, what each field was before, and who revealed identity numbers</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setFilter('action', filter.action === 'reveal' ? '' : 'reveal')}
+              className={`btn-secondary flex items-center gap-2 ${filter.action === 'reveal' ? 'ring-2 ring-primary-500' : ''}`}
+            >
+              <Eye className="h-4 w-4" /> Identity reveals
+            </button>
+            <button onClick={() => refetch()} disabled={refreshing} className="btn-secondary flex items-center gap-2">
+              <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} /> Refresh
+            </button>
+          </div>
+        </div>
+
+        <div className="card grid grid-cols-1 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+          <input
+            value={filter.search || ''}
+            onChange={e => setFilter('search', e.target.value)}
+            placeholder="Person name or id"
+            className="input-field lg:col-span-2"
+          />
+          <select value={filter.actor || ''} onChange={e => setFilter('actor', e.target.value)} className="input-field">
+            <option value="">Anyone</option>
+            {actors.map(actor => <option key={actor} value={actor}>{actor}</option>)}
+          </select>
+          <select value={filter.action || ''} onChange={e => setFilter('action', e.target.value as AuditAction | '')} className="input-field">
+            <option value="">Any action</option>
+            {AUDIT_ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+          </select>
+          <select value={filter.field || ''} onChange={e => setFilter('field', e.target.value)} className="input-field">
+            <option value="">Any field</option>
+            {fields.map(field => <option key={field} value={field}>{field}</option>)}
+          </select>
+          <div className="flex gap-2">
+            <input type="date" value={filter.from || ''} onChange={e => setFilter('from', e.target.value)} className="input-field" title="From" />
+            <input type="date" value={filter.to || ''} onChange={e => setFilter('to', e.target.value)} className="input-field" title="To" />
+          </div>
+          {filter.personId && (
+            <p className="text-sm text-gray-600 sm:col-span-3 lg:col-span-6">
+              Only person {filter.personId}.{' '}
+              <button type="button" onClick={() => setFilter('personId', '')} className="text-primary-600 hover:underline">Show everyone</button>
+            </p>
+          )}
+        </div>
+
+        <div className="card">
+          <p className="mb-2 text-sm text-gray-500">
+            {loading ? 'Loading...' : `${matching.length} of ${events.length} events`}
+          </p>
+          {!loading && (
+            <AuditEventList
+              events={matching.slice(0, shown)}
+              emptyText={events.length === 0 ? 'Nothing has been recorded yet.' : 'No events match these filters.'}
+            />
+          )}
+          {matching.length > shown && (
+            <button type="button" onClick={() => setShown(count => count + PAGE_SIZE)} className="btn-secondary mt-3 w-full">
+              Show {Math.min(PAGE_SIZE, matching.length - shown)} more
+            </button>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default AuditLog;
@@ -1,123 +1,92 @@
 // src/pages/Dashboard.tsx - UPDATED WITH ROLE-BASED PEOPLE COUNT
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../hooks/useAuth';
-import { sheetsService } from '../services/googleSheets';
+import { useHouseholdsQuery, useMessagesQuery, usePeoplePageQuery, useSegmentsQuery, useTemplatesQuery, useWardsQuery } from '../hooks/useQuery';
+import { countHouseholdsByWard } from '../utils/households';
+import { canonicalWardName } from '../utils/wards';
+import { findSegment, segmentRule } from '../utils/segments';
+import type { PeopleQuery } from '../utils/peopleQuery';
 import Layout from '../components/Layout/Layout';
-import { Users, MessageSquare, FileText, TrendingUp, Activity } from 'lucide-react';
-import { convertToMessages, convertToTemplates } from '../utils/typeHelpers';
+import ErrorState from '../components/ErrorState';
+import type { Segment } from '../types';
+import { Users, MessageSquare, FileText, TrendingUp, Activity, Home, Target } from 'lucide-react';
+
+// Only the total is needed, so ask for a single row
+const COUNT_QUERY: PeopleQuery = { pageSize: 1 };
+const NO_SEGMENTS: Segment[] = [];
 
 const Dashboard: React.FC = () => {
   const { user, getAllUsers } = useAuth();
-  const [stats, setStats] = useState({
-    totalPeople: 0,
-    totalMessages: 0,
-    totalTemplates: 0,
-    totalAdmins: 0,
-    recentActivity: 0
-  });
-  const [loading, setLoading] = useState(true);
+  const [totalAdmins, setTotalAdmins] = useState(0);
+  const [segmentId, setSegmentId] = useState('');
 
-  useEffect(() => {
-    fetchDashboardData();
-  }, [user]);
+  // ✅ A saved segment narrows the people count to its current members
+  const segmentsQuery = useSegmentsQuery();
+  const segments = segmentsQuery.data || NO_SEGMENTS;
+  const activeSegment = findSegment(segments, segmentId);
+  const countQuery = useMemo<PeopleQuery>(
+    () => (activeSegment ? { ...COUNT_QUERY, segment: segmentRule(activeSegment) } : COUNT_QUERY),
+    [activeSegment]
+  );
 
-  const fetchDashboardData = async () => {
-    try {
-      console.log('🔍 Fetching dashboard data for user:', user?.role, user?.direction);
-      
-      let peopleCount = 0;
-      let messagesCount = 0;
-      let templatesCount = 0;
-      let adminsCount = 0;
+  // ✅ Counts come from the shared query cache, so returning to the dashboard is instant.
+  // The hooks already scope people and messages to the admin's direction.
+  const peopleQuery = usePeoplePageQuery(countQuery);
+  const messagesQuery = useMessagesQuery();
+  const templatesQuery = useTemplatesQuery();
+  const loading = peopleQuery.loading || messagesQuery.loading || templatesQuery.loading;
+  const loadError = [peopleQuery, messagesQuery, templatesQuery].find(query => query.error && !query.data)?.error;
+  const retryAll = () => Promise.all([peopleQuery.refetch(), messagesQuery.refetch(), templatesQuery.refetch()]);
+  // Households are optional - a backend without the Households sheet just hides the panel
+  const householdsQuery = useHouseholdsQuery();
+  // "Ward 05" and "5" count as one ward once the master list has it
+  const wardsQuery = useWardsQuery();
+  const householdsByWard = useMemo(() => {
+    const wards = wardsQuery.data?.wards || [];
+    return countHouseholdsByWard(householdsQuery.data || [], wards.length ? ward => canonicalWardName(wards, ward) : undefined);
+  }, [householdsQuery.data, wardsQuery.data]);
 
-      // ✅ FETCH PEOPLE COUNT BASED ON USER ROLE
-      try {
-        const peopleResponse = await sheetsService.getPeople();
-        
-        if (peopleResponse.success && Array.isArray(peopleResponse.data)) {
-          if (user?.role === 'superadmin') {
-            // SuperAdmin: Show all people from all directions
-            peopleCount = peopleResponse.data.length;
-            console.log('👑 SuperAdmin: Showing all people count:', peopleCount);
-          } else if (user?.role === 'admin' && user?.direction) {
-            // Admin: Show only people from their specific direction
-            const filteredPeople = peopleResponse.data.filter((person: any) => 
-              person.direction === user.direction
-            );
-            peopleCount = filteredPeople.length;
-            console.log(`👤 Admin (${user.direction}): Showing direction-specific count:`, peopleCount);
-          }
-        }
-      } catch (error) {
-        console.log('⚠️ People data not ready yet:', error);
-      }
-
-      // ✅ FETCH ADMIN COUNT (Only for SuperAdmin)
-      if (user?.role === 'superadmin') {
-        try {
-          const usersResult = await getAllUsers();
-          if (usersResult.success && usersResult.users) {
-            adminsCount = usersResult.users.filter((u: any) => u.role === 'admin' && u.isActive !== false).length;
-            console.log('👑 SuperAdmin: Admins count:', adminsCount);
-          }
-        } catch (error) {
-          console.log('⚠️ Admins data not ready yet:', error);
-        }
-      }
+  const peopleCount = peopleQuery.data?.pageInfo.total || 0;
+  const messagesCount = messagesQuery.data?.length || 0;
+  const templatesCount = templatesQuery.data?.length || 0;
+  const stats = {
+    totalPeople: peopleCount,
+    totalMessages: messagesCount,
+    totalTemplates: templatesCount,
+    totalAdmins,
+    recentActivity: peopleCount + messagesCount + templatesCount + totalAdmins
+  };
 
-      // ✅ FETCH MESSAGES COUNT (Role-based filtering)
-      try {
-        const messagesResponse = await sheetsService.getMessages();
-        if (messagesResponse.success && Array.isArray(messagesResponse.data)) {
-          const messages = convertToMessages(messagesResponse.data);
-          
-          if (user?.role === 'superadmin') {
-            // SuperAdmin: Show all messages
-            messagesCount = messages.length;
-          } else if (user?.role === 'admin' && user?.direction) {
-            // Admin: Show only messages from their direction
-            const filteredMessages = messages.filter((message: any) => 
-              message.direction === user.direction || message.direction === 'All'
-            );
-            messagesCount = filteredMessages.length;
-          }
-        }
-      } catch (error) {
-        console.log('⚠️ Messages sheet not ready yet:', error);
-      }
+  // ✅ FETCH ADMIN COUNT (Only for SuperAdmin)
+  useEffect(() => {
+    if (user?.role !== 'superadmin') {
+      setTotalAdmins(0);
+      return;
+    }
 
-      // ✅ FETCH TEMPLATES COUNT (Shared across all users)
+    const fetchAdminCount = async () => {
       try {
-        const templatesResponse = await sheetsService.getTemplates();
-        if (templatesResponse.success && Array.isArray(templatesResponse.data)) {
-          const templates = convertToTemplates(templatesResponse.data);
-          templatesCount = templates.length;
+        const usersResult = await getAllUsers();
+        if (usersResult.ok) {
+          const adminsCount = usersResult.value.filter((u: any) => u.role === 'admin' && u.isActive !== false).length;
+          console.log('👑 SuperAdmin: Admins count:', adminsCount);
+          setTotalAdmins(adminsCount);
         }
       } catch (error) {
-        console.log('⚠️ Templates sheet not ready yet:', error);
+        console.log('⚠️ Admins data not ready yet:', error);
       }
+    };
 
-      setStats({
-        totalPeople: peopleCount,
-        totalMessages: messagesCount,
-        totalTemplates: templatesCount,
-        totalAdmins: adminsCount,
-        recentActivity: peopleCount + messagesCount + templatesCount + adminsCount
-      });
-
-      console.log('✅ Dashboard stats updated:', {
-        people: peopleCount,
-        messages: messagesCount,
-        templates: templatesCount,
-        admins: adminsCount
-      });
+    fetchAdminCount();
+  }, [user]);
 
-    } catch (error) {
-      console.error('❌ Error fetching dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  if (loadError) {
+    return (
+      <Layout>
+        <ErrorState error={loadError} title="Could not load the dashboard" onRetry={retryAll} />
+      </Layout>
+    );
+  }
 
   if (loading) {
     return (
@@ -134,7 +103,9 @@ const Dashboard: React.FC = () => {
   const getStatCards = () => {
     const baseCards = [
       {
-        title: user?.role === 'superadmin' ? 'Total People (All Directions)' : `People (${user?.direction} Direction)`,
+        title: activeSegment
+          ? `People in "${activeSegment.name}"`
+          : user?.role === 'superadmin' ? 'Total People (All Directions)' : `People (${user?.direction} Direction)`,
         value: stats.totalPeople,
         icon: Users,
         color: 'bg-blue-500',
@@ -218,6 +189,18 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Segment filter */}
+        {segments.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Target className="h-4 w-4 text-gray-500" />
+            <span className="text-gray-700">Count people in</span>
+            <select value={segmentId} onChange={(e) => setSegmentId(e.target.value)} className="input-field w-auto py-1">
+              <option value="">Everyone</option>
+              {segments.map(segment => <option key={segment.id} value={segment.id}>{segment.name}</option>)}
+            </select>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4 sm:gap-6">
           {statCards.map((stat, index) => {
@@ -238,6 +221,31 @@ const Dashboard: React.FC = () => {
           })}
         </div>
 
+        {/* Households */}
+        {householdsQuery.data && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 sm:p-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900 flex items-center">
+                <Home className="h-6 w-6 mr-3 text-teal-600" />
+                Households
+              </h2>
+              <span className="text-3xl font-bold text-gray-900">{householdsQuery.data.length}</span>
+            </div>
+            {householdsByWard.length === 0 ? (
+              <p className="text-gray-500 text-sm">No households yet. Group people by address from People → Households.</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+                {householdsByWard.map(({ ward, households }) => (
+                  <div key={ward || 'none'} className="rounded-xl bg-teal-50 p-3 text-center">
+                    <p className="text-2xl font-bold text-teal-900">{households}</p>
+                    <p className="text-teal-700 text-xs">{ward ? `Ward ${ward}` : 'No ward'}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 sm:p-8">
           <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-6 flex items-center">
@@ -0,0 +1,272 @@
+// src/pages/Duplicates.tsx - Review queue of probable duplicate people and the merge screen
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, History, RefreshCw, Users } from 'lucide-react';
+import { useOutbox } from '../hooks/useOutbox';
+import { useAuditQuery, usePeopleQuery } from '../hooks/useQuery';
+import { dataService } from '../services/dataSource';
+import { changesOf } from '../utils/audit';
+import { createIdempotencyKey } from '../utils/idempotency';
+import { clearDismissalUpdates, dismissalUpdates, dismissedKeys, mergePeople, scanForDuplicates } from '../utils/duplicates';
+import type { DuplicateCandidate, MergeSide } from '../utils/duplicates';
+import Layout from '../components/Layout/Layout';
+import ErrorState from '../components/ErrorState';
+import MergePeoplePanel from '../components/People/MergePeoplePanel';
+import type { AuditEvent, Person } from '../types';
+
+const NO_PEOPLE: Person[] = [];
+const NO_EVENTS: AuditEvent[] = [];
+
+// Merge history and "Not a duplicate" decisions used to be kept in the browser, the history with full identity numbers
+const LEGACY_KEYS = ['people_merge_history', 'people_duplicates_dismissed'];
+
+const Duplicates: React.FC = () => {
+  const { isOnline, pendingByPerson } = useOutbox();
+  const { data, error: loadError, loading, refetch } = usePeopleQuery();
+  const people = data || NO_PEOPLE;
+  // ✅ Merges are audit events, so superadmins see every merge from every device
+  const { data: auditData } = useAuditQuery();
+  const auditEvents = auditData || NO_EVENTS;
+
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [scanning, setScanning] = useState(false);
+  const [scanRun, setScanRun] = useState(0);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const dismissed = useMemo(() => dismissedKeys(people), [people]);
+  const history = useMemo(() => auditEvents.filter(event => event.action === 'merge'), [auditEvents]);
+  // The removed record's name is on its delete event
+  const namesById = useMemo(() => new Map(auditEvents.map(event => [event.personId, event.personName || event.personId])), [auditEvents]);
+
+  useEffect(() => {
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  }, []);
+
+  // ✅ Rescan in the background whenever the list changes (including after a merge); a newer scan cancels the old one
+  useEffect(() => {
+    if (!data) return;
+    const controller = new AbortController();
+    setScanning(true);
+    scanForDuplicates(data, {
+      signal: controller.signal,
+      onProgress: (done, total) => setProgress({ done, total })
+    }).then(found => {
+      if (controller.signal.aborted) return;
+      console.log('🔍 Duplicate scan finished:', found.length, 'probable pairs in', data.length, 'people');
+      setCandidates(found);
+      setScanning(false);
+    });
+    return () => controller.abort();
+  }, [data, scanRun]);
+
+  // Skipped pairs go to the back of the queue rather than disappearing
+  const queue = useMemo(() => {
+    const open = candidates.filter(candidate => !dismissed.has(candidate.key));
+    return [...open.filter(candidate => !skipped.includes(candidate.key)), ...open.filter(candidate => skipped.includes(candidate.key))];
+  }, [candidates, dismissed, skipped]);
+
+  const selected = queue.find(candidate => candidate.key === selectedKey) || queue[0];
+
+  const blockedReason = !isOnline
+    ? 'Merging needs a connection.'
+    : selected && [selected.left.id, selected.right.id].some(id => id && pendingByPerson.has(id))
+      ? 'One of these people has offline changes waiting to sync. Sync them first.'
+      : undefined;
+
+  const dismissSelected = async () => {
+    if (!selected || merging) return;
+    setMerging(true);
+    setMessage(null);
+    try {
+      const result = await dataService.updatePeople(dismissalUpdates(selected.left, selected.right), { idempotencyKey: createIdempotencyKey() });
+      if (!result.ok) {
+        setMessage({ tone: 'error', text: `Could not mark them as different people: ${result.error.message}` });
+        return;
+      }
+      console.log('🙅 Marked as not a duplicate:', selected.key);
+      setCandidates(prev => prev.filter(candidate => candidate.key !== selected.key));
+      setSelectedKey(null);
+      await refetch();
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const skipSelected = () => {
+    if (!selected) return;
+    setSkipped(prev => [...prev.filter(key => key !== selected.key), selected.key]);
+    setSelectedKey(null);
+  };
+
+  const restoreDismissed = async () => {
+    if (!window.confirm('Put every pair marked "Not a duplicate" back in the queue?')) return;
+    const result = await dataService.updatePeople(clearDismissalUpdates(people), { idempotencyKey: createIdempotencyKey() });
+    if (!result.ok) {
+      setMessage({ tone: 'error', text: `Could not restore dismissed pairs: ${result.error.message}` });
+    }
+    await refetch();
+  };
+
+  // ✅ Update the kept record first: if deleting the other one then fails, nothing has been lost
+  const mergeSelected = async (choices: Record<string, MergeSide>, keep: MergeSide) => {
+    if (!selected || merging) return;
+    const { merged, removed } = mergePeople(selected.left, selected.right, choices, keep);
+    const kept = keep === 'left' ? selected.left : selected.right;
+    if (!window.confirm(`Merge "${removed.name}" into "${kept.name}"? The record ${removed.id} will be moved to the recycle bin.`)) return;
+
+    setMerging(true);
+    setMessage(null);
+    try {
+      const updated = await dataService.updatePerson(kept.id!, merged, { idempotencyKey: createIdempotencyKey() });
+      if (!updated.ok) {
+        setMessage({ tone: 'error', text: `Could not update ${kept.name}: ${updated.error.message}` });
+        return;
+      }
+      const deleted = await dataService.deletePerson(removed.id!, { idempotencyKey: createIdempotencyKey() });
+      dataService.recordMerge({ id: kept.id!, name: String(merged.name || kept.name), direction: kept.direction }, removed.id!);
+      // Pairs involving either person are stale until the rescan that follows the refetch
+      setCandidates(prev => prev.filter(candidate => ![candidate.left.id, candidate.right.id].some(id => id === kept.id || id === removed.id)));
+      setSelectedKey(null);
+      setMessage(deleted.ok
+        ? { tone: 'success', text: `Merged ${removed.name} into ${String(merged.name || kept.name)}.` }
+        : { tone: 'error', text: `${kept.name} was updated, but ${removed.id} could not be deleted: ${deleted.error.message}. Delete it from People.` });
+    } catch (error) {
+      console.error('❌ Merge failed:', error);
+      setMessage({ tone: 'error', text: error instanceof Error ? error.message : 'Merge failed' });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (loadError && !data) {
+    return (
+      <Layout>
+        <ErrorState error={loadError} title="Could not load people" onRetry={refetch} />
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link to="/people" className="mb-1 flex items-center gap-1 text-sm text-primary-600 hover:underline">
+              <ArrowLeft className="h-4 w-4" /> People
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Duplicate People</h1>
+            <p className="mt-1 text-gray-600">Probable duplicates by similar name, phone, IDs, address and age</p>
+          </div>
+          <div className="flex gap-2">
+            {dismissed.size > 0 && (
+              <button onClick={restoreDismissed} className="btn-secondary text-sm">
+                Restore {dismissed.size} dismissed
+              </button>
+            )}
+            <button
+              onClick={() => setScanRun(run => run + 1)}
+              disabled={scanning || loading}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <RefreshCw className={`h-4 w-4 ${scanning ? 'animate-spin' : ''}`} /> Rescan
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div className={`rounded border p-3 text-sm ${message.tone === 'success' ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <div className="card lg:col-span-1">
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="flex items-center gap-2 font-semibold text-gray-900">
+                <Users className="h-5 w-5 text-primary-600" /> Review queue
+              </h2>
+              <span className="text-sm text-gray-500">{queue.length}</span>
+            </div>
+            {(loading || scanning) && (
+              <div className="mb-3 text-xs text-gray-500">
+                {loading ? 'Loading people...' : `Scanning ${people.length} people${progress.total ? ` (${Math.round((progress.done / progress.total) * 100)}%)` : ''}...`}
+                <div className="mt-1 h-1 rounded bg-gray-100">
+                  <div className="h-1 rounded bg-primary-500" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+                </div>
+              </div>
+            )}
+            {!scanning && !loading && queue.length === 0 && (
+              <p className="flex items-center gap-2 py-6 text-sm text-gray-500">
+                <CheckCircle className="h-4 w-4 text-green-600" /> No probable duplicates left to review.
+              </p>
+            )}
+            <ul className="max-h-[60vh] divide-y divide-gray-100 overflow-y-auto">
+              {queue.map(candidate => (
+                <li key={candidate.key}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedKey(candidate.key)}
+                    className={`w-full px-2 py-2 text-left text-sm ${candidate.key === selected?.key ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <span className="flex justify-between gap-2">
+                      <span className="truncate font-medium text-gray-900">{candidate.left.name} / {candidate.right.name}</span>
+                      <span className="text-xs text-gray-500">{candidate.score}%</span>
+                    </span>
+                    <span className="block truncate text-xs text-gray-500">
+                      {skipped.includes(candidate.key) ? 'Skipped · ' : ''}{candidate.reasons.join(' · ')}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="lg:col-span-2">
+            {selected ? (
+              <MergePeoplePanel
+                candidate={selected}
+                busy={merging}
+                blockedReason={blockedReason}
+                onMerge={mergeSelected}
+                onDismiss={dismissSelected}
+                onSkip={skipSelected}
+              />
+            ) : (
+              <div className="card py-12 text-center text-gray-500">Pick a pair from the queue to compare them.</div>
+            )}
+          </div>
+        </div>
+
+        {history.length > 0 && (
+          <div className="card">
+            <h2 className="mb-3 flex items-center gap-2 font-semibold text-gray-900">
+              <History className="h-5 w-5 text-gray-500" /> Merge history
+            </h2>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {history.map(entry => {
+                const removedId = changesOf(entry).find(change => change.field === 'mergedFrom')?.after || '';
+                return (
+                  <li key={entry.id} className="flex flex-wrap justify-between gap-2 py-2">
+                    <span>
+                      <strong>{namesById.get(removedId) || removedId}</strong> ({removedId}) merged into{' '}
+                      <strong>{entry.personName || entry.personId}</strong> ({entry.personId})
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(entry.at).toLocaleString()}{entry.actor ? ` by ${entry.actor}` : ''}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Duplicates;
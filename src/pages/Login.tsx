@@ -32,8 +32,8 @@ const Login: React.FC = () => {
 
     try {
       setLoading(true);
-      const success = await login(formData.email, formData.password);
-      if (success) {
+      const result = await login(formData.email, formData.password);
+      if (result.ok) {
         navigate('/dashboard');
       }
     } catch (error) {
@@ -104,7 +104,7 @@ const Login: React.FC = () => {
 
           {error && (
             <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4">
-              <div className="text-red-800 text-sm font-medium">{error}</div>
+              <div className="text-red-800 text-sm font-medium">{error.message}</div>
             </div>
           )}
 
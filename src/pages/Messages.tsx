@@ -1,18 +1,21 @@
 // src/pages/Messages.tsx - FIXED WITH PROPER TYPE HANDLING
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '../hooks/useAuth';
-import { sheetsService } from '../services/googleSheets';
+import { dataService } from '../services/dataSource';
+import { useHouseholdsQuery, useMessagesQuery, usePeopleQuery, useSegmentsQuery, useTemplatesQuery } from '../hooks/useQuery';
+import { onePerHousehold } from '../utils/households';
+import { findSegment, segmentMembers, segmentsForDirection } from '../utils/segments';
+import { maskIdentityText } from '../utils/masking';
 import Layout from '../components/Layout/Layout';
+import ErrorState from '../components/ErrorState';
+import { useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
-import { Send, MessageSquare, Users, X } from 'lucide-react';
-import type { Message, Person, Template } from '../types';
-import { 
-  convertToMessages, 
-  convertToPeople, 
-  convertToTemplates, 
-  ensureArray, 
-  handleApiError 
-} from '../utils/typeHelpers';
+import { Send, MessageSquare, Target, Users, X } from 'lucide-react';
+import type { Message, Person, Segment, Template } from '../types';
+import { handleApiError } from '../utils/typeHelpers';
+import { appConfig, resolveDataSourceKind } from '../config/appConfig';
+
+const MESSAGES_URL = `${appConfig.apiBaseUrl}/messages`;
 
 interface MessageForm {
   recipients: string[];
@@ -20,97 +23,87 @@ interface MessageForm {
   templateId?: string;
 }
 
+// Stable fallbacks while the first fetch is running
+const NO_MESSAGES: Message[] = [];
+const NO_PEOPLE: Person[] = [];
+const NO_TEMPLATES: Template[] = [];
+const NO_SEGMENTS: Segment[] = [];
+
 const Messages: React.FC = () => {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [people, setPeople] = useState<Person[]>([]);
-  const [templates, setTemplates] = useState<Template[]>([]);
-  const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [selectedPeople, setSelectedPeople] = useState<string[]>([]);
+  const [audienceSegmentId, setAudienceSegmentId] = useState('');
   const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<MessageForm>();
   const watchTemplateId = watch('templateId');
 
-  // ✅ IMPROVED: Function to get auth token with debugging
+  // ✅ Same storage key AuthContext writes the session token to
   const getAuthToken = (): string | null => {
-    console.log('🔍 Checking for auth tokens in localStorage...');
-    
-    // Check common token key names
-    const possibleKeys = ['authToken', 'token', 'accessToken', 'jwt', 'bearer_token'];
-    
-    for (const key of possibleKeys) {
-      const token = localStorage.getItem(key);
-      if (token) {
-        console.log(`✅ Found token with key: ${key}`);
-        console.log(`🔑 Token preview: ${token.substring(0, 20)}...`);
-        return token;
-      }
+    const token = localStorage.getItem(appConfig.storageKeys.authToken);
+    if (!token) {
+      console.log('❌ No auth token found in localStorage');
     }
-    
-    console.log('❌ No auth token found in localStorage');
-    console.log('📋 Available localStorage keys:', Object.keys(localStorage));
-    return null;
+    return token;
   };
 
-  // ✅ FIXED: Fetch data with proper type handling
+  // ✅ Messages, people and templates come from the shared query cache (People and Dashboard reuse the same entries)
+  const messagesQuery = useMessagesQuery();
+  const peopleQuery = usePeopleQuery();
+  const templatesQuery = useTemplatesQuery();
+  const messages = messagesQuery.data || NO_MESSAGES;
+  const people = peopleQuery.data || NO_PEOPLE;
+  const templates = templatesQuery.data || NO_TEMPLATES;
+  const loading = messagesQuery.loading || peopleQuery.loading || templatesQuery.loading;
+  // Optional: without households every person counts as their own home
+  const householdsQuery = useHouseholdsQuery();
+  // Optional as well: saved segments pick the recipients from whoever matches right now
+  const segmentsQuery = useSegmentsQuery();
+  // ✅ Only segments of the sender's direction (and shared ones) can pick recipients here
+  const userDirection = user?.role === 'admin' ? user.direction : null;
+  const segments = useMemo(
+    () => segmentsForDirection(segmentsQuery.data || NO_SEGMENTS, userDirection),
+    [segmentsQuery.data, userDirection]
+  );
+
   const fetchData = useCallback(async () => {
     try {
-      console.log('🔄 Fetching data...');
-      setLoading(true);
-      
-      const [messagesRes, peopleRes, templatesRes] = await Promise.all([
-        sheetsService.getMessages(),
-        sheetsService.getPeople(),
-        sheetsService.getTemplates()
-      ]);
-
-      // ✅ FIXED: Use ensureArray to handle both object and array responses
-      const messagesData = ensureArray(messagesRes?.data || messagesRes || []);
-      const peopleData = ensureArray(peopleRes?.data || peopleRes || []);
-      const templatesData = ensureArray(templatesRes?.data || templatesRes || []);
-
-      console.log('📊 Messages data type:', Array.isArray(messagesData), messagesData.length);
-      console.log('📊 People data type:', Array.isArray(peopleData), peopleData.length);
-      console.log('📊 Templates data type:', Array.isArray(templatesData), templatesData.length);
-
-      // Convert data using the helper functions
-      let allMessages = convertToMessages(messagesData);
-      let allPeople = convertToPeople(peopleData);
-      const allTemplates = convertToTemplates(templatesData);
-
-      // Filter by user role if needed
-      if (user?.role === 'admin' && user.direction) {
-        allMessages = allMessages.filter((msg: Message) => 
-          msg.direction === user.direction || !msg.direction
-        );
-        allPeople = allPeople.filter((person: Person) => 
-          person.direction === user.direction
-        );
-      }
-
-      setMessages(allMessages);
-      setPeople(allPeople);
-      setTemplates(allTemplates);
-
-      console.log('✅ Data fetched successfully:', {
-        messages: allMessages.length,
-        people: allPeople.length,
-        templates: allTemplates.length
-      });
-
+      await Promise.all([messagesQuery.refetch(), peopleQuery.refetch(), templatesQuery.refetch()]);
     } catch (error) {
       console.error('❌ Error fetching data:', error);
-      const errorMessage = handleApiError(error);
-      alert(`Failed to fetch data: ${errorMessage}`);
-    } finally {
-      setLoading(false);
     }
-  }, [user]);
+  }, [messagesQuery.refetch, peopleQuery.refetch, templatesQuery.refetch]);
 
+  // A failed first load replaces the page; background revalidation errors keep the cached rows
+  const loadError = [messagesQuery, peopleQuery, templatesQuery].find(query => query.error && !query.data)?.error;
+
+  // ✅ /messages?to=<person id> (Message on a person's page) opens the composer with them selected
+  const [searchParams, setSearchParams] = useSearchParams();
+  const preselected = searchParams.get('to');
+  useEffect(() => {
+    if (!preselected) return;
+    setSelectedPeople([preselected]);
+    setShowModal(true);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete('to');
+      return next;
+    }, { replace: true });
+  }, [preselected, setSearchParams]);
+
+  // /messages?segment=<segment id> (Message on the Segments page) opens the composer addressed to its members
+  const preselectedSegment = findSegment(segments, searchParams.get('segment'));
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+    if (!preselectedSegment || !peopleQuery.data) return;
+    setAudienceSegmentId(preselectedSegment.id!);
+    setSelectedPeople(segmentMembers(peopleQuery.data, preselectedSegment).map(p => p.id || p.name));
+    setShowModal(true);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete('segment');
+      return next;
+    }, { replace: true });
+  }, [preselectedSegment, peopleQuery.data, setSearchParams]);
 
   // ✅ Auto-fill message content when template is selected
   useEffect(() => {
@@ -122,6 +115,14 @@ const Messages: React.FC = () => {
     }
   }, [watchTemplateId, templates, setValue]);
 
+  // ✅ Persist the message record through the data source (throws so onSubmit reports it)
+  const saveMessageRecord = async (messageData: Partial<Message>) => {
+    const result = await dataService.createMessage(messageData);
+    if (!result.ok) {
+      throw new Error(result.error.message);
+    }
+  };
+
   // ✅ IMPROVED: Send message with better error handling
   const onSubmit = async (data: MessageForm) => {
     setSending(true);
@@ -148,12 +149,13 @@ const Messages: React.FC = () => {
           status: 'sent' as const
         };
 
-        await sheetsService.createMessage(sheetsMessageData);
+        await saveMessageRecord(sheetsMessageData);
         console.log('✅ Message saved to Google Sheets only');
         
         // Reset form and close modal
         setShowModal(false);
         setSelectedPeople([]);
+        setAudienceSegmentId('');
         reset();
         await fetchData();
         
@@ -169,10 +171,10 @@ const Messages: React.FC = () => {
       };
 
       console.log('📤 Frontend: Calling backend API...');
-      console.log('🌐 Frontend: API URL:', '/api/messages');
+      console.log('🌐 Frontend: API URL:', MESSAGES_URL);
 
       // Call backend API
-      const response = await fetch('/api/messages', {
+      const response = await fetch(MESSAGES_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -200,10 +202,11 @@ const Messages: React.FC = () => {
             status: 'sent' as const
           };
           
-          await sheetsService.createMessage(sheetsMessageData);
+          await saveMessageRecord(sheetsMessageData);
           
           setShowModal(false);
           setSelectedPeople([]);
+          setAudienceSegmentId('');
           reset();
           await fetchData();
           
@@ -228,12 +231,16 @@ const Messages: React.FC = () => {
         status: 'sent' as const
       };
 
-      await sheetsService.createMessage(sheetsMessageData);
-      console.log('✅ Frontend: Google Sheets save successful');
+      // When messages are read from REST the API call above already stored the record
+      if (resolveDataSourceKind('messages') === 'sheets') {
+        await saveMessageRecord(sheetsMessageData);
+        console.log('✅ Frontend: Google Sheets save successful');
+      }
 
       // Reset form and close modal
       setShowModal(false);
       setSelectedPeople([]);
+      setAudienceSegmentId('');
       reset();
       await fetchData();
       
@@ -252,6 +259,23 @@ const Messages: React.FC = () => {
   };
 
   // ✅ Toggle person selection
+  // ✅ Message each home once - the head of household where possible
+  const selectOnePerHousehold = () => {
+    const recipients = onePerHousehold(people, householdsQuery.data || []);
+    console.log('🏠 One recipient per household:', recipients.length, 'of', people.length);
+    setSelectedPeople(recipients.map(p => p.id || p.name));
+  };
+
+  // ✅ Choosing a segment replaces the selection with its current members; people can still be ticked on or off after
+  const chooseSegment = (segmentId: string) => {
+    setAudienceSegmentId(segmentId);
+    const segment = findSegment(segments, segmentId);
+    if (!segment) return;
+    const members = segmentMembers(people, segment);
+    console.log('🎯 Segment audience:', segment.name, members.length, 'people');
+    setSelectedPeople(members.map(p => p.id || p.name));
+  };
+
   const togglePersonSelection = (personId: string) => {
     setSelectedPeople(prev => 
       prev.includes(personId)
@@ -285,6 +309,14 @@ const Messages: React.FC = () => {
   };
 
   // ✅ Loading state
+  if (loadError) {
+    return (
+      <Layout>
+        <ErrorState error={loadError} title="Could not load messages" onRetry={fetchData} />
+      </Layout>
+    );
+  }
+
   if (loading) {
     return (
       <Layout>
@@ -336,7 +368,7 @@ const Messages: React.FC = () => {
                 <div key={message.id || `message-${index}`} className="border rounded-lg p-4 bg-gray-50">
                   <div className="flex justify-between items-start">
                     <div className="flex-1">
-                      <p className="font-medium text-gray-900">{message.message}</p>
+                      <p className="font-medium text-gray-900">{maskIdentityText(message.message)}</p>
                       <p className="text-sm text-gray-600 mt-1">
                         To: {Array.isArray(message.recipients) 
                           ? message.recipients.join(', ') 
@@ -421,27 +453,58 @@ const Messages: React.FC = () => {
                     <Users className="h-4 w-4 inline mr-1" />
                     Select Recipients ({selectedPeople.length} selected)
                   </label>
+                  {segments.length > 0 && (
+                    <div className="mb-2 flex items-center gap-2 text-sm">
+                      <Target className="h-4 w-4 text-gray-500" />
+                      <select
+                        value={audienceSegmentId}
+                        onChange={(e) => chooseSegment(e.target.value)}
+                        className="input-field py-1"
+                        disabled={sending}
+                      >
+                        <option value="">Pick people by hand</option>
+                        {segments.map(segment => (
+                          <option key={segment.id} value={segment.id}>
+                            {segment.name} ({segmentMembers(people, segment).length})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
                   <div className="border rounded-lg p-3 max-h-40 overflow-y-auto">
                     {people.length === 0 ? (
                       <p className="text-gray-500 text-sm">No people available</p>
                     ) : (
                       <div className="space-y-2">
-                        <label className="flex items-center">
-                          <input
-                            type="checkbox"
-                            className="rounded border-gray-300"
-                            checked={selectedPeople.length === people.length}
-                            onChange={(e) => {
-                              if (e.target.checked) {
-                                setSelectedPeople(people.map(p => p.id || p.name));
-                              } else {
-                                setSelectedPeople([]);
-                              }
-                            }}
-                            disabled={sending}
-                          />
-                          <span className="ml-2 text-sm font-medium">Select All</span>
-                        </label>
+                        <div className="flex items-center justify-between">
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              className="rounded border-gray-300"
+                              checked={selectedPeople.length === people.length}
+                              onChange={(e) => {
+                                if (e.target.checked) {
+                                  setSelectedPeople(people.map(p => p.id || p.name));
+                                } else {
+                                  setSelectedPeople([]);
+                                  setAudienceSegmentId('');
+                                }
+                              }}
+                              disabled={sending}
+                            />
+                            <span className="ml-2 text-sm font-medium">Select All</span>
+                          </label>
+                          {householdsQuery.data && householdsQuery.data.length > 0 && (
+                            <button
+                              type="button"
+                              onClick={selectOnePerHousehold}
+                              className="text-xs text-primary-600 hover:underline"
+                              disabled={sending}
+                            >
+                              One per household
+                            </button>
+                          )}
+                        </div>
                         <hr />
                         {people.map((person, index) => (
                           <label key={person.id || `person-${index}`} className="flex items-center">
@@ -1,11 +1,46 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { sheetsService } from '../services/googleSheets'; // FIXED: Named import instead of default
+import { dataService } from '../services/dataSource';
+import { setQueryData } from '../services/queryCache';
+import { applyOutbox } from '../services/outbox';
+import type { OutboxEntry, OutboxOperation } from '../services/outbox';
+import { useOutbox } from '../hooks/useOutbox';
+import { useCustomFieldsQuery, useHouseholdsQuery, usePeoplePageQuery, useSegmentsQuery, useWardsQuery } from '../hooks/useQuery';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { useRevealedIdentities } from '../hooks/useIdentityReveal';
+import { revealKey } from '../services/identityReveal';
+import { createIdempotencyKey } from '../utils/idempotency';
+import { CONDITION_FIELDS, fromSearchParams, isActiveCondition, matchesPeopleQuery, toSearchParams } from '../utils/peopleQuery';
+import type { PageInfo, PeopleCondition, PeopleFilterField, PeopleQuery, PeopleSort, PeopleSortField } from '../utils/peopleQuery';
+import { checkAadhaar, checkEpic, checkMobile, checkPan, identityIssues, normaliseAadhaar, normaliseEpic, normaliseMobile, normalisePan } from '../utils/identityNumbers';
+import type { IdentityField, IdentityIssue } from '../utils/identityNumbers';
+import { joinTags, tagCounts, tagsOf } from '../utils/tags';
+import { findWard, streetsOfWard, wardsForDirection } from '../utils/wards';
+import { describeRule, findSegment, segmentRule } from '../utils/segments';
+import {
+  conditionDefinitions, customFieldIssues, customInputValue, fieldsForDirection, formatCustomValue, isVisibleIn,
+  validateCustomValue, withCustomValues
+} from '../utils/customFields';
+import { SENSITIVE_FIELDS, isMaskedValue, isSensitiveField, maskingPolicyFor } from '../utils/masking';
+import type { SensitiveField } from '../utils/masking';
+import type { ValidationReport } from '../utils/schema';
+import type { Result } from '../utils/result';
 import Layout from '../components/Layout/Layout';
+import ValidationReportNotice from '../components/ValidationReportNotice';
+import ErrorState from '../components/ErrorState';
+import ImportPeopleWizard from '../components/People/ImportPeopleWizard';
+import ExportPeopleDialog from '../components/People/ExportPeopleDialog';
+import FilterBuilder from '../components/People/FilterBuilder';
+import SavedViewsBar from '../components/People/SavedViewsBar';
+import HouseholdsDialog from '../components/People/HouseholdsDialog';
+import BulkEditBar from '../components/People/BulkEditBar';
+import IdentityValue from '../components/IdentityValue';
+import CustomFieldInput from '../components/People/CustomFieldInput';
+import type { PeopleView } from '../services/savedViews';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
-import { Plus, Search, Edit, Trash2, X, Save, AlertCircle } from 'lucide-react';
-import type { Person } from '../types';
-import { convertToPeople } from '../utils/typeHelpers';
+import { Plus, Search, Edit, Trash2, X, Save, AlertCircle, WifiOff, RefreshCw, Upload, Download, Filter, ArrowUp, ArrowDown, Columns, Home, Copy, Target } from 'lucide-react';
+import type { CustomField, Person, Segment, Street, Ward } from '../types';
 
 // Form data type with optional fields for form validation
 interface PersonFormData {
@@ -23,20 +58,108 @@ interface PersonFormData {
   direction: string;
   caste: string;
   religion: string;
+  tags?: string;            // comma-separated
   [key: string]: unknown;
 }
 
+// Stable fallback so memoized values don't recompute while the first fetch is running
+const NO_PEOPLE: Person[] = [];
+const NO_CONDITIONS: PeopleCondition[] = [];
+const NO_SORT: PeopleSort[] = [];
+const NO_FIELDS: CustomField[] = [];
+const NO_WARDS: Ward[] = [];
+const NO_STREETS: Street[] = [];
+const NO_SEGMENTS: Segment[] = [];
+
+// Inline-edit options; a value that isn't a master name yet stays selectable so opening a row never changes it
+const addressOptions = (names: string[], current: unknown) => {
+  const value = current === null || current === undefined ? '' : String(current).trim();
+  return [
+    <option key="" value="">—</option>,
+    ...(value && !names.includes(value) ? [<option key={`current:${value}`} value={value}>{value} (not in list)</option>] : []),
+    ...names.map(name => <option key={name} value={name}>{name}</option>)
+  ];
+};
+
+// ✅ Server rows with queued offline writes applied. Only rows those writes touched are matched again here:
+// the rest already passed the server's filter, which may have matched an identity number it then masked.
+const withQueuedWrites = (people: Person[], entries: OutboxEntry[], query: PeopleQuery) => {
+  const queued = new Set(entries.map(entry => entry.personId));
+  return applyOutbox(people, entries).filter(person => !queued.has(person.id || '') || matchesPeopleQuery(person, query));
+};
+const PAGE_SIZE = 50;
+
+// 'all' loads every matching row; virtualization keeps the table responsive at that size
+type PageSizeChoice = number | 'all';
+const PAGE_SIZE_OPTIONS: PageSizeChoice[] = [25, 50, 100, 250, 500, 'all'];
+
+// Estimated row height for virtualization (edit rows with an error message are a little taller)
+const ROW_HEIGHT = 41;
+
+type ColumnId =
+  | 'name' | 'phone' | 'aadharNumber' | 'panNumber' | 'voterIdNumber' | 'gender' | 'community' | 'ward' | 'direction'
+  | 'age' | 'street' | 'caste' | 'religion' | 'household' | 'tags' | 'createdBy' | 'createdAt'
+  | `cf_${string}`;   // superadmin-defined fields, optional columns after the built-in ones
+
+// react-hook-form rule from an identity check: errors block the form, warnings are shown under the field
+const identityRule = (check: (value: unknown) => IdentityIssue | null) => (value: unknown) => {
+  // The checks let masked values from the backend through; a new record needs the full number
+  if (isMaskedValue(value)) return 'Enter the full number, not a masked one';
+  const issue = check(value);
+  return issue?.severity === 'error' ? issue.message : true;
+};
+
+// Core columns first (each has its own cell markup below), then the generic optional ones
+const TABLE_COLUMNS: { id: ColumnId; label: string; sortField?: PeopleSortField; hidden?: boolean; editable?: boolean }[] = [
+  { id: 'name', label: 'Name', sortField: 'name' },
+  { id: 'phone', label: 'Phone', sortField: 'phone' },
+  { id: 'aadharNumber', label: 'Aadhar' },
+  { id: 'panNumber', label: 'PAN' },
+  { id: 'voterIdNumber', label: 'Voter ID' },
+  { id: 'gender', label: 'Gender', sortField: 'gender' },
+  { id: 'community', label: 'Community', sortField: 'community' },
+  { id: 'ward', label: 'Ward', sortField: 'ward' },
+  { id: 'direction', label: 'Direction', sortField: 'direction' },
+  { id: 'age', label: 'Age', sortField: 'age', hidden: true, editable: true },
+  { id: 'street', label: 'Street', sortField: 'street', hidden: true, editable: true },
+  { id: 'caste', label: 'Caste', hidden: true, editable: true },
+  { id: 'religion', label: 'Religion', hidden: true, editable: true },
+  { id: 'household', label: 'Household', hidden: true },
+  { id: 'tags', label: 'Tags', hidden: true, editable: true },
+  { id: 'createdBy', label: 'Created By', hidden: true },
+  { id: 'createdAt', label: 'Created', sortField: 'createdAt', hidden: true }
+];
+const EXTRA_COLUMNS = TABLE_COLUMNS.filter(column => column.hidden);
+const COLUMNS_STORAGE_KEY = 'people_columns';
+
+const loadVisibleColumns = (): Set<ColumnId> => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) || 'null');
+    if (Array.isArray(stored)) return new Set(['name', ...stored] as ColumnId[]);
+  } catch {
+    // fall through to the defaults
+  }
+  return new Set(TABLE_COLUMNS.filter(column => !column.hidden).map(column => column.id));
+};
+
 const People: React.FC = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { entries, isOnline, syncing, pendingByPerson, conflicts, queue, replay, discard, retry } = useOutbox();
   
-  // States - ONLY Google Sheets
-  const [people, setPeople] = useState<Person[]>([]);
-  const [loading, setLoading] = useState(true);
+  // States - server data lives in the query cache; queued offline writes are overlaid in visiblePeople below
   const [showModal, setShowModal] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showHouseholds, setShowHouseholds] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editData, setEditData] = useState<Partial<Person>>({});
-  const [searchTerm, setSearchTerm] = useState('');
+  // ✅ Search, filter conditions and page live in the URL so a filtered list can be bookmarked or shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlQuery = useMemo(() => fromSearchParams(Object.fromEntries(searchParams)), [searchParams]);
+  const [searchTerm, setSearchTerm] = useState(urlQuery.search || '');
+  const [showFilters, setShowFilters] = useState(() => !!urlQuery.conditions?.length);
 
   // SEPARATED VALIDATION STATES FOR ADD AND EDIT - FIXED
   const [addValidationErrors, setAddValidationErrors] = useState({
@@ -60,7 +183,11 @@ const People: React.FC = () => {
     voterIdNumber: false
   });
 
-  const { register, handleSubmit, reset, formState: { errors }, watch } = useForm<PersonFormData>();
+  const { register, handleSubmit, reset, formState: { errors }, watch, setValue } = useForm<PersonFormData>();
+
+  // Pending create kept across re-clicks: a retried "Add" reuses the same id and idempotency key,
+  // so a create whose response was lost is not written twice. Cleared on success or when the modal closes.
+  const pendingCreateRef = useRef<{ id: string; idempotencyKey: string } | null>(null);
 
   // SAFE STRING CONVERSION HELPER - PREVENTS TRIM ERRORS
   const safeString = useCallback((value: any): string => {
@@ -81,56 +208,250 @@ const People: React.FC = () => {
     }
   }, [user]);
 
-  // OPTIMIZED: Fetch data from Google Sheets only - PREVENTS DUPLICATE CALLS
-  const fetchData = useCallback(async () => {
-    if (!user) return;
-    
-    try {
-      setLoading(true);
-      console.log('🔄 Fetching people from Google Sheets...');
-      
-      const sheetsResponse = await sheetsService.getPeople();
-
-      if (sheetsResponse.success && sheetsResponse.data) {
-        const dataArray = Array.isArray(sheetsResponse.data) ? sheetsResponse.data : [sheetsResponse.data];
-        const convertedData = convertToPeople(dataArray);
-        const userDirection = getUserDirection();
-        const filteredSheets = userDirection 
-          ? convertedData.filter((person: Person) => person.direction === userDirection)
-          : convertedData;
-        setPeople(filteredSheets);
-        console.log('✅ Google Sheets data loaded:', filteredSheets.length, 'people');
-      } else {
-        console.error('❌ Google Sheets fetch failed:', sheetsResponse.error);
-        setPeople([]);
-      }
-      
-    } catch (error) {
-      console.error('❌ Error fetching data:', error);
-      setPeople([]);
-    } finally {
-      setLoading(false);
+  // ✅ One page of people from the shared query cache; search, direction and paging run on the backend
+  const page = urlQuery.page || 1;
+  const pageSize: PageSizeChoice = searchParams.get('pageSize') === 'all' ? 'all' : urlQuery.pageSize || PAGE_SIZE;
+  const debouncedSearch = urlQuery.search || '';
+  const conditions = urlQuery.conditions || NO_CONDITIONS;
+  const match = urlQuery.match || 'all';
+  const sort = urlQuery.sort || NO_SORT;
+  const conditionsKey = JSON.stringify(conditions);
+  const sortKey = JSON.stringify(sort);
+  // ✅ ?segmentId= narrows the table to a saved segment; its rules go to the backend, so membership is always current
+  const { data: segments = NO_SEGMENTS, loading: segmentsLoading } = useSegmentsQuery();
+  const segmentId = searchParams.get('segmentId') || '';
+  const activeSegment = findSegment(segments, segmentId);
+  const segmentKey = activeSegment ? JSON.stringify(segmentRule(activeSegment)) : '';
+  const pageQuery = useMemo<PeopleQuery>(
+    () => ({
+      ...(pageSize !== 'all' && { page, pageSize }),
+      search: debouncedSearch || undefined,
+      conditions: JSON.parse(conditionsKey),
+      match,
+      sort: JSON.parse(sortKey),
+      ...(segmentKey && { segment: JSON.parse(segmentKey) })
+    }),
+    [page, pageSize, debouncedSearch, conditionsKey, match, sortKey, segmentKey]
+  );
+
+  // Changing what is shown starts again from page 1; typing replaces the history entry instead of adding one per word
+  const updateUrl = useCallback((
+    patch: Omit<Partial<PeopleQuery>, 'pageSize'> & { pageSize?: PageSizeChoice },
+    replace = false
+  ) => {
+    setSearchParams(prev => {
+      const current = fromSearchParams(Object.fromEntries(prev));
+      const { pageSize: sizePatch, ...rest } = patch;
+      const size = 'pageSize' in patch ? sizePatch : prev.get('pageSize') === 'all' ? 'all' : current.pageSize;
+      const params = toSearchParams({
+        search: current.search,
+        conditions: current.conditions,
+        match: current.match,
+        sort: current.sort,
+        ...rest,
+        page: patch.page && patch.page > 1 ? patch.page : undefined,
+        pageSize: typeof size === 'number' && size !== PAGE_SIZE ? size : undefined
+      });
+      if (size === 'all') params.pageSize = 'all';
+      const segment = prev.get('segmentId');
+      if (segment) params.segmentId = segment;
+      return params;
+    }, { replace });
+  }, [setSearchParams]);
+
+  const chooseSegment = (id: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (id) next.set('segmentId', id);
+      else next.delete('segmentId');
+      next.delete('page');
+      return next;
+    });
+  };
+
+  // ✅ Click sorts by one column (asc → desc → off); shift+click adds or cycles a secondary key
+  const toggleSort = (field: PeopleSortField, additive: boolean) => {
+    const existing = sort.find(key => key.field === field);
+    let next: PeopleSort[];
+    if (!additive) {
+      next = existing && sort.length === 1
+        ? (existing.order === 'asc' ? [{ field, order: 'desc' }] : [])
+        : [{ field, order: 'asc' }];
+    } else if (!existing) {
+      next = [...sort, { field, order: 'asc' }];
+    } else if (existing.order === 'asc') {
+      next = sort.map(key => (key.field === field ? { field, order: 'desc' } : key));
+    } else {
+      next = sort.filter(key => key.field !== field);
     }
-  }, [user, getUserDirection]);
+    updateUrl({ sort: next.length > 0 ? next : undefined });
+  };
+
+  const [visibleColumns, setVisibleColumns] = useState<Set<ColumnId>>(loadVisibleColumns);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const isVisible = (id: ColumnId) => visibleColumns.has(id);
+  const toggleColumn = (id: ColumnId) => {
+    setVisibleColumns(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      next.add('name');
+      localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify([...next]));
+      return next;
+    });
+  };
+
+  const setPage = (update: (prev: number) => number) => updateUrl({ page: update(page) });
+  const { key: peopleKey, data: peoplePage, error: loadError, loading, refetch: fetchData } = usePeoplePageQuery(pageQuery);
+  const people = peoplePage?.people || NO_PEOPLE;
+  const pageInfo = peoplePage?.pageInfo;
+  // Pages are requested by number; backends that don't hand out cursors still report the total
+  const hasNextPage = !!pageInfo && (!!pageInfo.nextCursor || pageInfo.page * pageInfo.pageSize < pageInfo.total);
+  // Tags seen on this page, offered while typing a tag filter
+  const pageTags = useMemo(() => tagCounts(people).map(({ tag }) => tag), [people]);
+
+  // Names for the optional Household column
+  const { data: households } = useHouseholdsQuery();
+  const householdNames = useMemo(
+    () => new Map((households || []).map(household => [household.id || '', household.name])),
+    [households]
+  );
 
-  // FIXED useEffect to prevent duplicate calls
+  // ✅ Superadmin-defined fields: optional columns, filter fields and form inputs (admins only get their direction's)
+  const { data: customFields = NO_FIELDS } = useCustomFieldsQuery();
+  const customConditionFields = useMemo(() => conditionDefinitions(customFields), [customFields]);
+  const visibleCustomFields = customFields.filter(field => isVisible(field.key));
+  const columnCount = TABLE_COLUMNS.filter(column => isVisible(column.id)).length + visibleCustomFields.length;
+
+  // ✅ Ward and street master data: cascading dropdowns once a superadmin has defined wards, free text until then
+  const { data: addressData } = useWardsQuery();
+  const masterWards = addressData?.wards || NO_WARDS;
+  const masterStreets = addressData?.streets || NO_STREETS;
+  const editStreets = streetsOfWard(masterStreets, findWard(masterWards, editData.ward));
+
+  // Search hits the server, so wait for the user to stop typing
   useEffect(() => {
-    let mounted = true;
-    
-    if (!user) return;
-    
-    const loadData = async () => {
-      if (mounted) {
-        await fetchData();
+    const timeoutId = setTimeout(() => {
+      if (searchTerm.trim() !== debouncedSearch) {
+        updateUrl({ search: searchTerm.trim() || undefined }, true);
       }
+    }, 400);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm, debouncedSearch, updateUrl]);
+
+  // Back / forward or an opened view changed the search underneath the input
+  useEffect(() => {
+    setSearchTerm(prev => (prev.trim() === debouncedSearch ? prev : debouncedSearch));
+  }, [debouncedSearch]);
+
+  const applyFilters = (nextConditions: PeopleCondition[], nextMatch: 'all' | 'any') => {
+    updateUrl({ conditions: nextConditions.filter(isActiveCondition), match: nextMatch });
+  };
+
+  const openView = (view: PeopleView) => {
+    setSearchTerm(view.search || '');
+    updateUrl({ search: view.search || undefined, conditions: view.conditions, match: view.match });
+    setShowFilters(view.conditions.length > 0);
+  };
+
+  // Local edits go straight into the cached page so the table updates before the refetch lands
+  const setPeople = (update: (prev: Person[]) => Person[]) => {
+    setQueryData<{ people: Person[]; pageInfo: PageInfo; report?: ValidationReport }>(peopleKey, prev => ({
+      ...prev,
+      people: update(prev?.people || []),
+      pageInfo: prev?.pageInfo || { total: 0, page: 1, pageSize: pageSize === 'all' ? 0 : pageSize }
+    }));
+  };
+
+  // ✅ Server rows with queued offline writes applied on top. Queued creates only show on the first page,
+  // and the search is re-applied locally because queued rows never went through the server's filter.
+  const visiblePeople = useMemo(() => {
+    const overlay = page === 1 ? entries : entries.filter(entry => entry.operation !== 'create');
+    return withQueuedWrites(people, overlay, { search: debouncedSearch, conditions, match, revealable: [...maskingPolicyFor(user?.role).reveal] });
+  }, [people, entries, page, debouncedSearch, conditions, match, user?.role]);
+
+  // ✅ Selection for bulk edits survives paging and searching; rows on screen replace the stored copies
+  const [selected, setSelected] = useState<Map<string, Person>>(() => new Map());
+  const selectedPeople = useMemo(() => {
+    const current = new Map(visiblePeople.map(person => [person.id, person]));
+    return [...selected.values()].map(person => current.get(person.id) || person);
+  }, [selected, visiblePeople]);
+  const selectablePeople = visiblePeople.filter(person => person.id);
+  const allSelected = selectablePeople.length > 0 && selectablePeople.every(person => selected.has(person.id!));
+
+  const toggleSelected = (person: Person) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(person.id!)) next.delete(person.id!);
+      else next.set(person.id!, person);
+      return next;
+    });
+  };
+
+  const toggleAllSelected = () => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      for (const person of selectablePeople) {
+        if (allSelected) next.delete(person.id!);
+        else next.set(person.id!, person);
+      }
+      return next;
+    });
+  };
+
+  const clearSelection = useCallback(() => setSelected(new Map()), []);
+
+  // Queued writes must reach the server before a bulk edit overwrites the same person
+  const bulkSkipReason = useCallback((person: Person) => {
+    if (pendingByPerson.has(person.id!)) return 'has unsynced offline changes';
+    const direction = getUserDirection();
+    if (direction && person.direction !== direction) return `not in ${direction}`;
+    return undefined;
+  }, [pendingByPerson, getUserDirection]);
+
+  // ✅ A stored identity number can only be edited while it is revealed; an empty one can simply be filled in
+  const revealedIdentities = useRevealedIdentities();
+  const mayEditIdentity = (person: Person, field: SensitiveField) =>
+    !safeString(person[field]) || (!!person.id && revealedIdentities.has(revealKey(person.id, field)));
+
+  // ✅ Windowed rendering so 'All' with tens of thousands of rows still scrolls smoothly
+  const virtualRows = useVirtualRows({ count: visiblePeople.length, rowHeight: ROW_HEIGHT });
+  const { scrollToTop } = virtualRows;
+  useEffect(() => {
+    scrollToTop();
+  }, [pageQuery, scrollToTop]);
+
+  // ✅ Exports cover every row matching the current search and direction, not just the loaded page
+  const loadExportRows = useCallback(async (): Promise<Result<Person[]>> => {
+    const query: PeopleQuery = {
+      direction: getUserDirection(),
+      search: debouncedSearch || undefined,
+      conditions,
+      match,
+      sort,
+      ...(activeSegment && { segment: segmentRule(activeSegment) })
     };
-    
-    loadData();
-    
-    return () => {
-      mounted = false;
-    };
-  }, [user]); // Only depend on user
+    const result = await dataService.getPeople(query);
+    if (!result.ok) return result;
+    return { ok: true, value: withQueuedWrites(result.value, entries, query) };
+  }, [getUserDirection, debouncedSearch, conditions, match, sort, activeSegment, entries]);
+
+  // ✅ Reload once a replay finishes so synced rows come from the server again
+  const wasSyncingRef = useRef(false);
+  useEffect(() => {
+    if (wasSyncingRef.current && !syncing) {
+      fetchData().catch(() => undefined);
+    }
+    wasSyncingRef.current = syncing;
+  }, [syncing, fetchData]);
+
+  // ✅ Queue a write in the offline outbox instead of sending it now
+  const queueOffline = async (operation: OutboxOperation, personId: string, payload: Partial<Person>, idempotencyKey: string) => {
+    await queue({ operation, personId, payload, idempotencyKey, queuedBy: user?.email });
+  };
+
+  // Offline, or the person still has queued writes (those must reach the server first)
+  const shouldQueue = (personId?: string) => !isOnline || (!!personId && pendingByPerson.has(personId));
 
   // FIXED: Enhanced validation function with SAFE STRING CONVERSION and proper mode separation
   const validateUniqueFields = useCallback(async (
@@ -153,57 +474,53 @@ const People: React.FC = () => {
       voterIdNumber: !!data.voterIdNumber
     });
 
-    // Check Aadhaar number uniqueness - FIXED with safe string conversion
-    const aadharStr = safeString(data.aadharNumber);
-    if (aadharStr && aadharStr !== '') {
-      const aadharDuplicate = people.find(person => 
-        person.id !== excludeId && 
-        safeString(person.aadharNumber) === aadharStr &&
-        safeString(person.aadharNumber) !== ''
-      );
-      if (aadharDuplicate) {
-        errors.aadharNumber = `Already registered for ${aadharDuplicate.name}`;
-      }
-    }
+    // ✅ Only one page is loaded, so look each value up on the backend (plus queued offline rows)
+    const findDuplicate = async (field: PeopleFilterField, value: string) => {
+      const sameValue = (person: Person) =>
+        person.id !== excludeId && safeString(person[field]).toUpperCase() === value.toUpperCase();
 
-    // Check PAN number uniqueness - FIXED with safe string conversion
-    const panStr = safeString(data.panNumber).toUpperCase();
-    if (panStr && panStr !== '') {
-      const panDuplicate = people.find(person => 
-        person.id !== excludeId && 
-        safeString(person.panNumber || '').toUpperCase() === panStr &&
-        safeString(person.panNumber || '') !== ''
-      );
-      if (panDuplicate) {
-        errors.panNumber = `Already registered for ${panDuplicate.name}`;
-      }
-    }
+      const queued = visiblePeople.find(sameValue);
+      if (queued) return queued;
 
-    // Check Voter ID uniqueness - FIXED with safe string conversion
-    const voterIdStr = safeString(data.voterIdNumber).toUpperCase();
-    if (voterIdStr && voterIdStr !== '') {
-      const voterIdDuplicate = people.find(person => 
-        person.id !== excludeId && 
-        safeString(person.voterIdNumber || '').toUpperCase() === voterIdStr &&
-        safeString(person.voterIdNumber || '') !== ''
+      const response = await dataService.getPeople({
+        direction: getUserDirection(),
+        filters: { [field]: value },
+        pageSize: 10
+      });
+      // The backend matches identity numbers whole and may send them back masked; a masked hit is still a hit
+      return (response.ok ? response.value : []).find(person =>
+        sameValue(person) || (person.id !== excludeId && isSensitiveField(field) && isMaskedValue(person[field]))
       );
-      if (voterIdDuplicate) {
-        errors.voterIdNumber = `Already registered for ${voterIdDuplicate.name}`;
-      }
-    }
+    };
 
-    // Check Phone number uniqueness - FIXED with safe string conversion
-    const phoneStr = safeString(data.phone);
-    if (phoneStr && phoneStr !== '') {
-      const phoneDuplicate = people.find(person => 
-        person.id !== excludeId && 
-        safeString(person.phone) === phoneStr &&
-        safeString(person.phone) !== ''
-      );
-      if (phoneDuplicate) {
-        errors.phone = `Already registered for ${phoneDuplicate.name}`;
+    const checks: [IdentityField, (value: unknown) => string][] = [
+      ['aadharNumber', normaliseAadhaar],
+      ['panNumber', normalisePan],
+      ['voterIdNumber', normaliseEpic],
+      ['phone', normaliseMobile]
+    ];
+
+    // ✅ An edit only checks the numbers it changes; a stored number that fails a newer rule doesn't block other edits
+    const stored = excludeId ? visiblePeople.find(person => person.id === excludeId) : undefined;
+
+    // ✅ Format first (checksum, holder type, prefix) - a number that can't exist needs no duplicate lookup
+    const formatIssues = identityIssues(data);
+
+    await Promise.all(checks.map(async ([field, normalise]) => {
+      const value = normalise(data[field]);
+      // A masked number is the stored value shown back to a role that can't reveal it - nothing to check
+      if (!value || isMaskedValue(data[field])) return;
+      if (stored && normalise(stored[field]) === value) return;
+      const issue = formatIssues[field];
+      if (issue?.severity === 'error') {
+        errors[field] = issue.message;
+        return;
       }
-    }
+      const duplicate = await findDuplicate(field, value);
+      if (duplicate) {
+        errors[field as keyof typeof errors] = `Already registered for ${duplicate.name}`;
+      }
+    }));
 
     // FIXED: Set validation errors to the correct state based on mode
     if (isEditMode) {
@@ -223,7 +540,7 @@ const People: React.FC = () => {
     }, 300);
 
     return Object.values(errors).filter(error => error !== '');
-  }, [people, safeString]);
+  }, [visiblePeople, safeString, getUserDirection]);
 
   // IMPROVED: Create person in Google Sheets only
   const onSubmit = async (data: PersonFormData) => {
@@ -244,23 +561,45 @@ const People: React.FC = () => {
         assignedDirection = user.direction;
       }
 
+      if (!pendingCreateRef.current) {
+        pendingCreateRef.current = {
+          id: `person_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          idempotencyKey: createIdempotencyKey()
+        };
+      }
+
       const personData: Person = {
-        ...data,
-        id: `person_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        ...withCustomValues(customFields, { ...data, direction: assignedDirection }),
+        id: pendingCreateRef.current.id,
         direction: assignedDirection,
         createdBy: user?.email || 'unknown@example.com',
-        panNumber: safeString(data.panNumber).toUpperCase() || '',
-        voterIdNumber: safeString(data.voterIdNumber).toUpperCase() || '',
-        gender: (safeString(data.gender) as 'Male' | 'Female' | 'Other') || 'Other',
+        phone: normaliseMobile(data.phone),
+        aadharNumber: normaliseAadhaar(data.aadharNumber),
+        panNumber: normalisePan(data.panNumber),
+        voterIdNumber: normaliseEpic(data.voterIdNumber),
+        gender: (safeString(data.gender) as 'Male' | 'Female' | 'Other') || undefined,
+        tags: joinTags(tagsOf(data.tags)) || undefined,
         createdAt: new Date().toISOString()
       };
 
-      console.log('🔄 Creating person in Google Sheets:', personData);
+      console.log('🔄 Creating person:', personData);
+
+      if (shouldQueue()) {
+        await queueOffline('create', personData.id!, personData, pendingCreateRef.current.idempotencyKey);
+        pendingCreateRef.current = null;
+        setShowModal(false);
+        reset();
+        alert('📴 You are offline. The person was saved on this device and will sync when you reconnect.');
+        return;
+      }
 
-      const sheetsResult = await sheetsService.createPerson(personData);
+      const result = await dataService.createPerson(personData, {
+        idempotencyKey: pendingCreateRef.current.idempotencyKey
+      });
 
-      if (sheetsResult.success) {
-        setPeople(prev => [personData, ...prev]);
+      if (result.ok) {
+        pendingCreateRef.current = null;
+        setPeople(prev => [personData, ...prev.filter(p => p.id !== personData.id)]);
         setShowModal(false);
         reset();
         setAddValidationErrors({
@@ -271,8 +610,15 @@ const People: React.FC = () => {
         });
         alert('✅ Person created successfully in Google Sheets!');
         console.log('✅ Person created successfully');
+      } else if (!navigator.onLine || result.error.kind === 'network') {
+        // Lost the connection mid-request - keep the same id/key so the replay cannot duplicate it
+        await queueOffline('create', personData.id!, personData, pendingCreateRef.current.idempotencyKey);
+        pendingCreateRef.current = null;
+        setShowModal(false);
+        reset();
+        alert('📴 Connection lost. The person was saved on this device and will sync when you reconnect.');
       } else {
-        alert(`❌ Failed to create person: ${sheetsResult.error}`);
+        alert(`❌ Failed to create person: ${result.error.message}`);
       }
       
     } catch (error: any) {
@@ -296,29 +642,49 @@ const People: React.FC = () => {
         return; // Stop update if validation fails
       }
 
+      const customIssues = customFieldIssues(customFields, editData);
+      if (customIssues.length > 0) {
+        alert(`❌ ${customIssues.join('\n')}\n\nCustom field columns can be shown under Columns.`);
+        return;
+      }
+
       console.log('🔄 Updating person:', personId, editData);
 
       // Fix: Normalize data with safe type handling - THIS FIXES THE TRIM ERROR
       const normalizedData: Partial<Person> = {
-        ...editData,
-        panNumber: editData.panNumber ? safeString(editData.panNumber).toUpperCase() : undefined,
-        voterIdNumber: editData.voterIdNumber ? safeString(editData.voterIdNumber).toUpperCase() : undefined,
+        ...withCustomValues(customFields, editData),
+        panNumber: editData.panNumber ? normalisePan(editData.panNumber) : undefined,
+        voterIdNumber: editData.voterIdNumber ? normaliseEpic(editData.voterIdNumber) : undefined,
         gender: editData.gender ? (safeString(editData.gender) as 'Male' | 'Female' | 'Other') : 'Other',
         // Ensure all string fields are properly converted
         name: editData.name ? safeString(editData.name) : undefined,
-        phone: editData.phone ? safeString(editData.phone) : undefined,
-        aadharNumber: editData.aadharNumber ? safeString(editData.aadharNumber) : undefined,
+        phone: editData.phone ? normaliseMobile(editData.phone) : undefined,
+        aadharNumber: editData.aadharNumber ? normaliseAadhaar(editData.aadharNumber) : undefined,
         community: editData.community ? safeString(editData.community) : undefined,
         ward: editData.ward ? safeString(editData.ward) : undefined,
         address: editData.address ? safeString(editData.address) : undefined,
         street: editData.street ? safeString(editData.street) : undefined,
         caste: editData.caste ? safeString(editData.caste) : undefined,
-        religion: editData.religion ? safeString(editData.religion) : undefined
+        religion: editData.religion ? safeString(editData.religion) : undefined,
+        tags: editData.tags !== undefined ? joinTags(tagsOf(editData.tags)) : undefined
       };
+      // ✅ Masked numbers were never edited; leave them out so the stored value stays as it is
+      SENSITIVE_FIELDS.forEach(field => {
+        if (isMaskedValue(editData[field])) delete normalizedData[field];
+      });
+
+      const updateKey = createIdempotencyKey();
+      if (shouldQueue(personId)) {
+        await queueOffline('update', personId, normalizedData, updateKey);
+        setEditingId(null);
+        setEditData({});
+        alert(isOnline ? '⏳ Update queued behind this person\'s pending changes.' : '📴 You are offline. The update will sync when you reconnect.');
+        return;
+      }
 
-      const sheetsResult = await sheetsService.updatePerson(personId, normalizedData);
+      const result = await dataService.updatePerson(personId, normalizedData, { idempotencyKey: updateKey });
 
-      if (sheetsResult.success) {
+      if (result.ok) {
         setPeople(prev => prev.map(p => 
           p.id === personId 
             ? { 
@@ -339,8 +705,13 @@ const People: React.FC = () => {
           voterIdNumber: ''
         });
         alert('✅ Person updated successfully!');
+      } else if (!navigator.onLine || result.error.kind === 'network') {
+        await queueOffline('update', personId, normalizedData, updateKey);
+        setEditingId(null);
+        setEditData({});
+        alert('📴 Connection lost. The update will sync when you reconnect.');
       } else {
-        alert(`❌ Failed to update person: ${sheetsResult.error}`);
+        alert(`❌ Failed to update person: ${result.error.message}`);
       }
       
     } catch (error: any) {
@@ -353,20 +724,29 @@ const People: React.FC = () => {
 
   // SIMPLIFIED: Delete person from Google Sheets only
   const deletePerson = async (personId: string, personName: string) => {
-    const confirmed = window.confirm(`Are you sure you want to delete ${personName}?`);
+    const confirmed = window.confirm(`Move ${personName} to the recycle bin? A superadmin can restore them until they are purged.`);
     if (!confirmed || submitting) return;
 
     try {
       setSubmitting(true);
       console.log('🗑️ Deleting person:', personId);
 
-      const sheetsResult = await sheetsService.deletePerson(personId);
+      const deleteKey = createIdempotencyKey();
+      if (shouldQueue(personId)) {
+        await queueOffline('delete', personId, {}, deleteKey);
+        return;
+      }
+
+      const result = await dataService.deletePerson(personId, { idempotencyKey: deleteKey });
 
-      if (sheetsResult.success) {
+      if (result.ok) {
         setPeople(prev => prev.filter(p => p.id !== personId));
-        alert('✅ Person deleted successfully!');
+        alert('✅ Person moved to the recycle bin.');
+      } else if (!navigator.onLine || result.error.kind === 'network') {
+        await queueOffline('delete', personId, {}, deleteKey);
+        alert('📴 Connection lost. The delete will sync when you reconnect.');
       } else {
-        alert(`❌ Failed to delete person: ${sheetsResult.error}`);
+        alert(`❌ Failed to delete person: ${result.error.message}`);
       }
       
     } catch (error: any) {
@@ -415,6 +795,27 @@ const People: React.FC = () => {
 
   // ENHANCED Real-time validation for ADD form with proper debouncing
   const watchedValues = watch();
+  const addDirection = user?.role === 'admin' ? user.direction : safeString(watchedValues.direction) || null;
+  const addFormFields = fieldsForDirection(customFields, addDirection);
+  const addWards = wardsForDirection(masterWards, addDirection);
+  const addStreets = streetsOfWard(masterStreets, masterWards.find(ward => ward.name === watchedValues.ward));
+
+  // A ward outside the chosen direction, or a street outside the chosen ward, is cleared instead of saved mismatched
+  useEffect(() => {
+    if (!showModal) return;
+    const wards = wardsForDirection(masterWards, addDirection);
+    if (watchedValues.ward && wards.length > 0 && !wards.some(ward => ward.name === watchedValues.ward)) {
+      setValue('ward', '');
+    }
+    const streets = streetsOfWard(masterStreets, masterWards.find(ward => ward.name === watchedValues.ward));
+    if (watchedValues.street && streets.length > 0 && !streets.some(street => street.name === watchedValues.street)) {
+      setValue('street', '');
+    }
+  }, [showModal, addDirection, watchedValues.ward, watchedValues.street, masterWards, masterStreets, setValue]);
+
+  // Well-formed PAN that doesn't fit the person (company PAN, other surname initial) - shown, not blocking
+  const panCheck = watchedValues.panNumber ? checkPan(watchedValues.panNumber, watchedValues.name) : null;
+  const panWarning = panCheck?.severity === 'warning' ? panCheck.message : '';
   useEffect(() => {
     if (!showModal) return;
 
@@ -452,35 +853,20 @@ const People: React.FC = () => {
     return () => clearTimeout(timeoutId);
   }, [editData?.aadharNumber, editData?.panNumber, editData?.voterIdNumber, editData?.phone, editingId, validateUniqueFields, safeString]);
 
-  // Filtered people for search
-  const filteredPeople = useMemo(() => {
-    if (!searchTerm || !searchTerm.trim()) return people;
-    
-    const searchLower = searchTerm.toLowerCase().trim();
-    return people.filter(person => {
-      const searchableFields = [
-        person.name,
-        person.phone,
-        person.ward,
-        person.address,
-        person.street,
-        person.direction,
-        person.aadharNumber,
-        person.panNumber,
-        person.voterIdNumber,
-        person.religion,
-        person.caste,
-        person.community,
-        person.gender,
-        String(person.age)
-      ];
-      
-      return searchableFields.some(field => {
-        const fieldStr = safeString(field);
-        return fieldStr.toLowerCase().includes(searchLower);
-      });
-    });
-  }, [people, searchTerm, safeString]);
+  // ✅ /people?edit=<id> (Edit on a person's page) opens that row for editing once the page has loaded
+  const editParam = searchParams.get('edit');
+  useEffect(() => {
+    if (!editParam || loading) return;
+    const person = visiblePeople.find(candidate => candidate.id === editParam);
+    if (person) startEdit(person);
+    else console.warn('⚠️ Person to edit is not on this page:', editParam);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete('edit');
+      return next;
+    }, { replace: true });
+  }, [editParam, loading, visiblePeople, setSearchParams]);
+
 
   // Helper functions
   const hasAddValidationErrors = Object.values(addValidationErrors).some(error => error !== '');
@@ -488,6 +874,15 @@ const People: React.FC = () => {
   const isStillValidating = Object.values(isValidating).some(validating => validating);
 
   // Loading state
+  // ✅ A failed first load is an error, not an empty table
+  if (loadError && !peoplePage) {
+    return (
+      <Layout>
+        <ErrorState error={loadError} title="Could not load people" onRetry={fetchData} />
+      </Layout>
+    );
+  }
+
   if (loading) {
     return (
       <Layout>
@@ -516,11 +911,100 @@ const People: React.FC = () => {
               {userDirection ? `Managing ${userDirection} direction people` : 'Managing all constituency members'}
             </p>
             <div style={{ marginTop: '4px', fontSize: '12px' }}>
-              <span style={{ color: '#059669' }}>📊 Google Sheets: {people.length} records</span>
+              <span style={{ color: '#059669' }}>📊 Records: {pageInfo?.total ?? people.length}</span>
+              {entries.length > 0 && (
+                <span style={{ color: '#b45309', marginLeft: '12px' }}>⏳ {entries.length} change(s) waiting to sync</span>
+              )}
             </div>
           </div>
           
           <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+            <button
+              onClick={() => setShowImport(true)}
+              disabled={submitting || !isOnline}
+              title={isOnline ? 'Import people from a CSV or Excel file' : 'Imports need a connection'}
+              style={{
+                backgroundColor: 'white',
+                color: '#374151',
+                padding: '12px 20px',
+                borderRadius: '8px',
+                border: '1px solid #d1d5db',
+                cursor: submitting || !isOnline ? 'not-allowed' : 'pointer',
+                opacity: submitting || !isOnline ? 0.5 : 1,
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                fontSize: '14px',
+                fontWeight: '500'
+              }}
+            >
+              <Upload size={16} />
+              Import
+            </button>
+            <button
+              onClick={() => setShowHouseholds(true)}
+              disabled={!isOnline}
+              title={isOnline ? 'Group people who live at the same address' : 'Households need a connection'}
+              style={{
+                backgroundColor: 'white',
+                color: '#374151',
+                padding: '12px 20px',
+                borderRadius: '8px',
+                border: '1px solid #d1d5db',
+                cursor: !isOnline ? 'not-allowed' : 'pointer',
+                opacity: !isOnline ? 0.5 : 1,
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                fontSize: '14px',
+                fontWeight: '500'
+              }}
+            >
+              <Home size={16} />
+              Households
+            </button>
+            <button
+              onClick={() => navigate('/people/duplicates')}
+              title="Find and merge probable duplicate records"
+              style={{
+                backgroundColor: 'white',
+                color: '#374151',
+                padding: '12px 20px',
+                borderRadius: '8px',
+                border: '1px solid #d1d5db',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                fontSize: '14px',
+                fontWeight: '500'
+              }}
+            >
+              <Copy size={16} />
+              Duplicates
+            </button>
+            <button
+              onClick={() => setShowExport(true)}
+              disabled={!isOnline}
+              title={isOnline ? 'Export the people matching the current search' : 'Exports need a connection'}
+              style={{
+                backgroundColor: 'white',
+                color: '#374151',
+                padding: '12px 20px',
+                borderRadius: '8px',
+                border: '1px solid #d1d5db',
+                cursor: !isOnline ? 'not-allowed' : 'pointer',
+                opacity: !isOnline ? 0.5 : 1,
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                fontSize: '14px',
+                fontWeight: '500'
+              }}
+            >
+              <Download size={16} />
+              Export
+            </button>
             <button 
               onClick={() => setShowModal(true)}
               disabled={submitting}
@@ -566,71 +1050,298 @@ const People: React.FC = () => {
           </div>
         )}
 
+        {/* OFFLINE / SYNC STATUS */}
+        {(!isOnline || entries.length > 0) && (
+          <div style={{ 
+            backgroundColor: isOnline ? '#eff6ff' : '#fffbeb', 
+            border: `1px solid ${isOnline ? '#93c5fd' : '#fcd34d'}`, 
+            borderRadius: '8px', 
+            padding: '12px', 
+            marginBottom: '16px', 
+            display: 'flex', 
+            alignItems: 'center', 
+            justifyContent: 'space-between',
+            gap: '12px',
+            fontSize: '14px'
+          }}>
+            <div style={{ display: 'flex', alignItems: 'center', color: isOnline ? '#1d4ed8' : '#92400e' }}>
+              {!isOnline && <WifiOff size={16} style={{ marginRight: '8px' }} />}
+              {isOnline
+                ? `${entries.length - conflicts.length} offline change(s) waiting to sync`
+                : `You are offline. Changes are saved on this device${entries.length ? ` (${entries.length} pending)` : ''} and will sync when you reconnect.`}
+            </div>
+            {isOnline && entries.length > conflicts.length && (
+              <button 
+                onClick={() => replay()}
+                disabled={syncing}
+                style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '6px 12px', border: '1px solid #93c5fd', borderRadius: '6px', backgroundColor: 'white', color: '#1d4ed8', cursor: syncing ? 'not-allowed' : 'pointer', fontSize: '12px' }}
+              >
+                <RefreshCw size={12} />
+                {syncing ? 'Syncing...' : 'Sync now'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* SYNC CONFLICTS */}
+        {conflicts.length > 0 && (
+          <div style={{ backgroundColor: '#fef2f2', border: '1px solid #fca5a5', borderRadius: '8px', padding: '12px', marginBottom: '16px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', color: '#dc2626', fontSize: '14px', fontWeight: '600', marginBottom: '8px' }}>
+              <AlertCircle size={16} style={{ marginRight: '8px' }} />
+              {conflicts.length} offline change(s) were rejected by the server
+            </div>
+            {conflicts.map(conflict => (
+              <div key={conflict.seq} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px', padding: '6px 0', borderTop: '1px solid #fecaca', fontSize: '12px' }}>
+                <div style={{ color: '#7f1d1d' }}>
+                  <strong style={{ textTransform: 'capitalize' }}>{conflict.operation}</strong> {safeString(conflict.payload.name) || conflict.personId}
+                  {' '}({new Date(conflict.queuedAt).toLocaleString()}): {conflict.error}
+                </div>
+                <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+                  <button 
+                    onClick={() => retry(conflict.seq!)}
+                    disabled={syncing || !isOnline}
+                    style={{ padding: '4px 10px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', cursor: 'pointer', fontSize: '12px' }}
+                  >
+                    Retry
+                  </button>
+                  <button 
+                    onClick={() => discard(conflict.seq!)}
+                    style={{ padding: '4px 10px', border: '1px solid #fca5a5', borderRadius: '6px', backgroundColor: 'white', color: '#dc2626', cursor: 'pointer', fontSize: '12px' }}
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* SEARCH BAR */}
         <div style={{ backgroundColor: 'white', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', padding: '16px', marginBottom: '24px' }}>
-          <div style={{ position: 'relative' }}>
-            <Search style={{ width: '20px', height: '20px', position: 'absolute', left: '12px', top: '12px', color: '#9ca3af' }} />
-            <input 
-              type="text"
-              placeholder="Search by name, phone, gender, community, etc..."
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-start' }}>
+            <div style={{ position: 'relative', flex: 1 }}>
+              <Search style={{ width: '20px', height: '20px', position: 'absolute', left: '12px', top: '12px', color: '#9ca3af' }} />
+              <input 
+                type="text"
+                placeholder="Search by name, phone, gender, community, etc..."
+                style={{
+                  width: '100%',
+                  paddingLeft: '40px',
+                  paddingRight: searchTerm ? '40px' : '12px',
+                  paddingTop: '12px',
+                  paddingBottom: '12px',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  boxSizing: 'border-box'
+                }}
+                value={searchTerm}
+                onChange={e => setSearchTerm(e.target.value)}
+              />
+              {searchTerm && (
+                <button 
+                  onClick={() => setSearchTerm('')}
+                  style={{ position: 'absolute', right: '12px', top: '12px', background: 'none', border: 'none', cursor: 'pointer', color: '#9ca3af' }}
+                >
+                  <X size={16} />
+                </button>
+              )}
+            </div>
+            <button
+              onClick={() => setShowFilters(prev => !prev)}
               style={{
-                width: '100%',
-                paddingLeft: '40px',
-                paddingRight: searchTerm ? '40px' : '12px',
-                paddingTop: '12px',
-                paddingBottom: '12px',
-                border: '1px solid #d1d5db',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '11px 16px',
                 borderRadius: '8px',
+                border: `1px solid ${conditions.length > 0 ? '#2563eb' : '#d1d5db'}`,
+                backgroundColor: conditions.length > 0 ? '#eff6ff' : 'white',
+                color: conditions.length > 0 ? '#1d4ed8' : '#374151',
+                cursor: 'pointer',
                 fontSize: '14px',
-                boxSizing: 'border-box'
+                whiteSpace: 'nowrap'
               }}
-              value={searchTerm}
-              onChange={e => setSearchTerm(e.target.value)}
-            />
-            {searchTerm && (
-              <button 
-                onClick={() => setSearchTerm('')}
-                style={{ position: 'absolute', right: '12px', top: '12px', background: 'none', border: 'none', cursor: 'pointer', color: '#9ca3af' }}
+            >
+              <Filter size={16} />
+              Filters{conditions.length > 0 && ` (${conditions.length})`}
+            </button>
+          </div>
+
+          {showFilters && (
+            <div style={{ marginTop: '12px' }}>
+              <FilterBuilder conditions={conditions} match={match} customFields={customConditionFields} tags={pageTags} onApply={applyFilters} />
+            </div>
+          )}
+
+          {(segments.length > 0 || segmentId) && (
+            <div style={{ marginTop: '12px', display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', fontSize: '14px' }}>
+              <Target size={16} color="#6b7280" />
+              <select
+                value={segmentId}
+                onChange={e => chooseSegment(e.target.value)}
+                style={{ padding: '6px 10px', border: `1px solid ${segmentId ? '#2563eb' : '#d1d5db'}`, borderRadius: '6px', fontSize: '14px' }}
               >
-                <X size={16} />
-              </button>
-            )}
+                <option value="">All people</option>
+                {segments.map(segment => <option key={segment.id} value={segment.id}>{segment.name}</option>)}
+                {segmentId && !activeSegment && <option value={segmentId}>{segmentsLoading ? 'Loading segment...' : 'Segment not found'}</option>}
+              </select>
+              {activeSegment && (
+                <span style={{ fontSize: '12px', color: '#6b7280' }}>
+                  {describeRule(segmentRule(activeSegment), { ...CONDITION_FIELDS, ...customConditionFields })}
+                </span>
+              )}
+            </div>
+          )}
+
+          <div style={{ marginTop: '12px' }}>
+            <SavedViewsBar
+              userKey={user?.id || user?.email || 'anonymous'}
+              current={{ search: debouncedSearch || undefined, conditions, match }}
+              canSave={!!debouncedSearch || conditions.length > 0}
+              onOpen={openView}
+            />
           </div>
-          {searchTerm && (
+
+          {(debouncedSearch || conditions.length > 0 || activeSegment) && (
             <div style={{ marginTop: '8px', fontSize: '12px', color: '#6b7280' }}>
-              Found {filteredPeople.length} people matching "{searchTerm}"
+              Found {pageInfo?.total ?? visiblePeople.length} people
+              {activeSegment && ` in "${activeSegment.name}"`}
+              {debouncedSearch && ` matching "${debouncedSearch}"`}
+              {conditions.length > 0 && ` with ${conditions.length} filter condition(s) (${match === 'any' ? 'any' : 'all'})`}
             </div>
           )}
         </div>
 
+        {/* ROWS THE SCHEMA REJECTED OR FLAGGED */}
+        <ValidationReportNotice report={peoplePage?.report} />
+
+        {/* BULK EDIT */}
+        <BulkEditBar
+          selected={selectedPeople}
+          canChangeDirection={user?.role === 'superadmin'}
+          direction={getUserDirection()}
+          wards={masterWards}
+          streets={masterStreets}
+          online={isOnline}
+          skipReason={bulkSkipReason}
+          onClearSelection={clearSelection}
+        />
+
         {/* PEOPLE TABLE */}
         <div style={{ backgroundColor: 'white', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', overflow: 'hidden' }}>
-          <div style={{ overflowX: 'auto' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '8px 12px', borderBottom: '1px solid #e5e7eb', fontSize: '12px', color: '#6b7280', gap: '12px', flexWrap: 'wrap' }}>
+            <span>
+              {sort.length > 0
+                ? `Sorted by ${sort.map(key => `${TABLE_COLUMNS.find(column => column.sortField === key.field)?.label || key.field} ${key.order === 'asc' ? '↑' : '↓'}`).join(', ')}`
+                : 'Click a column heading to sort, shift+click to add a second sort'}
+            </span>
+            <div style={{ position: 'relative' }}>
+              <button
+                onClick={() => setShowColumnMenu(prev => !prev)}
+                style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '4px 10px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', cursor: 'pointer', fontSize: '12px', color: '#374151' }}
+              >
+                <Columns size={14} />
+                Columns
+              </button>
+              {showColumnMenu && (
+                <div style={{ position: 'absolute', right: 0, top: '32px', zIndex: 20, backgroundColor: 'white', border: '1px solid #e5e7eb', borderRadius: '8px', boxShadow: '0 4px 12px rgba(0,0,0,0.1)', padding: '8px', width: '180px' }}>
+                  {TABLE_COLUMNS.map(column => (
+                    <label key={column.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px', fontSize: '13px', color: '#374151', cursor: column.id === 'name' ? 'default' : 'pointer' }}>
+                      <input
+                        type="checkbox"
+                        checked={isVisible(column.id)}
+                        disabled={column.id === 'name'}
+                        onChange={() => toggleColumn(column.id)}
+                      />
+                      {column.label}
+                    </label>
+                  ))}
+                  {customFields.map(field => (
+                    <label key={field.key} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px', fontSize: '13px', color: '#374151', cursor: 'pointer' }}>
+                      <input type="checkbox" checked={isVisible(field.key)} onChange={() => toggleColumn(field.key)} />
+                      {field.label}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          {/* ✅ Only the rows inside this scroll box are rendered; the header stays pinned while scrolling */}
+          <div ref={virtualRows.containerRef} style={{ overflow: 'auto', maxHeight: '70vh' }}>
+            <style>{`.people-row:hover { background-color: #f9fafb; }`}</style>
             <table style={{ width: '100%', borderCollapse: 'collapse', minWidth: '800px' }}>
-              <thead>
+              <thead style={{ position: 'sticky', top: 0, zIndex: 10 }}>
                 <tr style={{ backgroundColor: '#f9fafb', borderBottom: '1px solid #e5e7eb' }}>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Name</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Phone</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Aadhar</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>PAN</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Voter ID</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Gender</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Community</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Ward</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Direction</th>
-                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px' }}>Actions</th>
+                  <th style={{ width: '32px', padding: '12px 8px', backgroundColor: '#f9fafb' }}>
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAllSelected}
+                      disabled={selectablePeople.length === 0}
+                      title={allSelected ? 'Unselect everyone shown' : 'Select everyone shown'}
+                    />
+                  </th>
+                  {TABLE_COLUMNS.filter(column => isVisible(column.id)).map(column => {
+                    const sortIndex = sort.findIndex(key => key.field === column.sortField);
+                    const sorted = sortIndex >= 0 ? sort[sortIndex] : undefined;
+                    return (
+                      <th
+                        key={column.id}
+                        onClick={column.sortField ? e => toggleSort(column.sortField!, e.shiftKey) : undefined}
+                        title={column.sortField ? 'Sort (shift+click to add to the sort)' : undefined}
+                        style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px', backgroundColor: '#f9fafb', cursor: column.sortField ? 'pointer' : 'default', userSelect: 'none', whiteSpace: 'nowrap' }}
+                      >
+                        {column.label}
+                        {sorted && (
+                          <span style={{ display: 'inline-flex', alignItems: 'center', marginLeft: '4px', color: '#2563eb' }}>
+                            {sorted.order === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+                            {sort.length > 1 && <sup style={{ fontSize: '9px' }}>{sortIndex + 1}</sup>}
+                          </span>
+                        )}
+                      </th>
+                    );
+                  })}
+                  {visibleCustomFields.map(field => (
+                    <th key={field.key} style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px', backgroundColor: '#f9fafb', whiteSpace: 'nowrap' }}>
+                      {field.label}
+                    </th>
+                  ))}
+                  <th style={{ textAlign: 'left', padding: '12px 8px', fontWeight: '600', color: '#1f2937', fontSize: '12px', backgroundColor: '#f9fafb' }}>Actions</th>
                 </tr>
               </thead>
               <tbody>
-                {filteredPeople.length > 0 ? filteredPeople.map((person, index) => {
+                {virtualRows.paddingTop > 0 && (
+                  <tr style={{ height: `${virtualRows.paddingTop}px` }}><td colSpan={columnCount + 2} /></tr>
+                )}
+                {visiblePeople.length > 0 ? visiblePeople.slice(virtualRows.start, virtualRows.end).map((person, offset) => {
+                  const index = virtualRows.start + offset;
                   const isEditing = editingId === person.id;
+                  const pending = person.id ? pendingByPerson.get(person.id) : undefined;
                   return (
                     <tr 
                       key={person.id || index} 
-                      style={{ borderBottom: '1px solid #f3f4f6', backgroundColor: isEditing ? '#fef3c7' : 'transparent' }}
-                      onMouseEnter={e => { if (!isEditing) e.currentTarget.style.backgroundColor = '#f9fafb'; }}
-                      onMouseLeave={e => { if (!isEditing) e.currentTarget.style.backgroundColor = 'transparent'; }}
+                      className={isEditing ? undefined : 'people-row'}
+                      style={{ 
+                        height: `${ROW_HEIGHT}px`,
+                        borderBottom: '1px solid #f3f4f6', 
+                        backgroundColor: isEditing ? '#fef3c7' : undefined,
+                        opacity: pending?.operation === 'delete' ? 0.5 : 1,
+                        textDecoration: pending?.operation === 'delete' ? 'line-through' : 'none'
+                      }}
                     >
+                      {/* SELECT */}
+                      <td style={{ padding: '8px', fontSize: '12px' }}>
+                        {person.id && (
+                          <input
+                            type="checkbox"
+                            checked={selected.has(person.id)}
+                            onChange={() => toggleSelected(person)}
+                            aria-label={`Select ${safeString(person.name)}`}
+                          />
+                        )}
+                      </td>
+
                       {/* NAME */}
                       <td style={{ padding: '8px', fontSize: '12px' }}>
                         {isEditing ? (
@@ -641,237 +1352,330 @@ const People: React.FC = () => {
                             style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
                           />
                         ) : (
-                          <span style={{ fontWeight: '500' }}>{safeString(person.name) || 'NA'}</span>
+                          person.id ? (
+                            <Link to={`/people/${encodeURIComponent(person.id)}`} style={{ fontWeight: '500', color: '#1d4ed8', textDecoration: 'none' }}>
+                              {safeString(person.name) || 'NA'}
+                            </Link>
+                          ) : (
+                            <span style={{ fontWeight: '500' }}>{safeString(person.name) || 'NA'}</span>
+                          )
                         )}
-                      </td>
-
-                      {/* PHONE - ENHANCED WITH VALIDATION */}
-                      <td style={{ padding: '8px', fontSize: '12px' }}>
-                        {isEditing ? (
-                          <div>
-                            <input 
-                              type="tel"
-                              value={safeString(editData.phone)}
-                              onChange={e => handleEditChange('phone', e.target.value)}
-                              style={{ 
-                                width: '100%', 
-                                padding: '4px 6px', 
-                                border: editValidationErrors.phone ? '2px solid #dc2626' : '1px solid #d1d5db', 
-                                borderRadius: '4px', 
-                                fontSize: '12px',
-                                backgroundColor: editValidationErrors.phone ? '#fef2f2' : 'white'
-                              }}
-                            />
-                            {editValidationErrors.phone && (
-                              <div style={{ color: '#dc2626', fontSize: '10px', marginTop: '2px' }}>
-                                {editValidationErrors.phone}
-                              </div>
-                            )}
+                        {pending && (
+                          <div 
+                            title={pending.error || `Queued ${new Date(pending.queuedAt).toLocaleString()}`}
+                            style={{ 
+                              display: 'inline-block',
+                              marginTop: '2px',
+                              padding: '1px 6px', 
+                              borderRadius: '9999px', 
+                              fontSize: '10px', 
+                              fontWeight: '500',
+                              backgroundColor: pending.status === 'conflict' ? '#fee2e2' : '#fef3c7',
+                              color: pending.status === 'conflict' ? '#b91c1c' : '#92400e'
+                            }}
+                          >
+                            {pending.status === 'conflict' ? `⚠️ ${pending.operation} rejected` : `⏳ Pending ${pending.operation}`}
                           </div>
-                        ) : (
-                          <span style={{ 
-                            fontFamily: 'monospace', 
-                            backgroundColor: safeString(person.phone) ? '#dcfce7' : '#fecaca', 
-                            padding: '2px 4px', 
-                            borderRadius: '4px' 
-                          }}>
-                            {safeString(person.phone) || 'NA'}
-                          </span>
                         )}
                       </td>
 
+                      {/* PHONE - ENHANCED WITH VALIDATION */}
+                      {isVisible('phone') && (
+                        <td style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing ? (
+                            <div>
+                              <input 
+                                type="tel"
+                                value={safeString(editData.phone)}
+                                onChange={e => handleEditChange('phone', e.target.value)}
+                                style={{ 
+                                  width: '100%', 
+                                  padding: '4px 6px', 
+                                  border: editValidationErrors.phone ? '2px solid #dc2626' : '1px solid #d1d5db', 
+                                  borderRadius: '4px', 
+                                  fontSize: '12px',
+                                  backgroundColor: editValidationErrors.phone ? '#fef2f2' : 'white'
+                                }}
+                              />
+                              {editValidationErrors.phone && (
+                                <div style={{ color: '#dc2626', fontSize: '10px', marginTop: '2px' }}>
+                                  {editValidationErrors.phone}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <span style={{ 
+                              fontFamily: 'monospace', 
+                              backgroundColor: safeString(person.phone) ? '#dcfce7' : '#fecaca', 
+                              padding: '2px 4px', 
+                              borderRadius: '4px' 
+                            }}>
+                              {safeString(person.phone) || 'NA'}
+                            </span>
+                          )}
+                        </td>
+                      )}
+
                       {/* AADHAR - ENHANCED WITH VALIDATION */}
-                      <td style={{ padding: '8px', fontSize: '12px' }}>
-                        {isEditing ? (
-                          <div>
-                            <input 
-                              type="text"
-                              value={safeString(editData.aadharNumber)}
-                              onChange={e => handleEditChange('aadharNumber', e.target.value)}
-                              style={{ 
-                                width: '100%', 
-                                padding: '4px 6px', 
-                                border: editValidationErrors.aadharNumber ? '2px solid #dc2626' : '1px solid #d1d5db', 
-                                borderRadius: '4px', 
-                                fontSize: '12px',
-                                backgroundColor: editValidationErrors.aadharNumber ? '#fef2f2' : 'white'
-                              }}
-                            />
-                            {editValidationErrors.aadharNumber && (
-                              <div style={{ color: '#dc2626', fontSize: '10px', marginTop: '2px' }}>
-                                {editValidationErrors.aadharNumber}
-                              </div>
-                            )}
-                          </div>
-                        ) : (
-                          <span style={{ 
-                            fontFamily: 'monospace', 
-                            backgroundColor: safeString(person.aadharNumber) ? '#dbeafe' : '#fecaca', 
-                            padding: '2px 4px', 
-                            borderRadius: '4px' 
-                          }}>
-                            {safeString(person.aadharNumber) || 'NA'}
-                          </span>
-                        )}
-                      </td>
+                      {isVisible('aadharNumber') && (
+                        <td style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing && mayEditIdentity(person, 'aadharNumber') ? (
+                            <div>
+                              <input 
+                                type="text"
+                                value={safeString(editData.aadharNumber)}
+                                onChange={e => handleEditChange('aadharNumber', e.target.value)}
+                                style={{ 
+                                  width: '100%', 
+                                  padding: '4px 6px', 
+                                  border: editValidationErrors.aadharNumber ? '2px solid #dc2626' : '1px solid #d1d5db', 
+                                  borderRadius: '4px', 
+                                  fontSize: '12px',
+                                  backgroundColor: editValidationErrors.aadharNumber ? '#fef2f2' : 'white'
+                                }}
+                              />
+                              {editValidationErrors.aadharNumber && (
+                                <div style={{ color: '#dc2626', fontSize: '10px', marginTop: '2px' }}>
+                                  {editValidationErrors.aadharNumber}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <span style={{ 
+                              fontFamily: 'monospace', 
+                              backgroundColor: safeString(person.aadharNumber) ? '#dbeafe' : '#fecaca', 
+                              padding: '2px 4px', 
+                              borderRadius: '4px' 
+                            }}>
+                              {safeString(person.aadharNumber) ? <IdentityValue person={person} field="aadharNumber" /> : 'NA'}
+                            </span>
+                          )}
+                        </td>
+                      )}
 
                       {/* PAN - ENHANCED WITH VALIDATION */}
-                      <td style={{ padding: '8px', fontSize: '12px' }}>
-                        {isEditing ? (
-                          <div>
-                            <input 
-                              type="text"
-                              value={safeString(editData.panNumber)}
-                              onChange={e => handleEditChange('panNumber', e.target.value.toUpperCase())}
-                              style={{ 
-                                width: '100%', 
-                                padding: '4px 6px', 
-                                border: editValidationErrors.panNumber ? '2px solid #dc2626' : '1px solid #d1d5db', 
-                                borderRadius: '4px', 
-                                fontSize: '12px', 
-                                textTransform: 'uppercase',
-                                backgroundColor: editValidationErrors.panNumber ? '#fef2f2' : 'white'
-                              }}
-                            />
-                            {editValidationErrors.panNumber && (
-                              <div style={{ color: '#dc2626', fontSize: '10px', marginTop: '2px' }}>
-                                {editValidationErrors.panNumber}
-                              </div>
-                            )}
-                          </div>
-                        ) : (
-                          <span style={{ 
-                            fontFamily: 'monospace', 
-                            backgroundColor: safeString(person.panNumber) ? '#fef3c7' : '#fecaca', 
-                            padding: '2px 4px', 
-                            borderRadius: '4px' 
-                          }}>
-                            {safeString(person.panNumber) || 'NA'}
-                          </span>
-                        )}
-                      </td>
+                      {isVisible('panNumber') && (
+                        <td style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing && mayEditIdentity(person, 'panNumber') ? (
+                            <div>
+                              <input 
+                                type="text"
+                                value={safeString(editData.panNumber)}
+                                onChange={e => handleEditChange('panNumber', e.target.value.toUpperCase())}
+                                style={{ 
+                                  width: '100%', 
+                                  padding: '4px 6px', 
+                                  border: editValidationErrors.panNumber ? '2px solid #dc2626' : '1px solid #d1d5db', 
+                                  borderRadius: '4px', 
+                                  fontSize: '12px', 
+                                  textTransform: 'uppercase',
+                                  backgroundColor: editValidationErrors.panNumber ? '#fef2f2' : 'white'
+                                }}
+                              />
+                              {editValidationErrors.panNumber && (
+                                <div style={{ color: '#dc2626', fontSize: '10px', marginTop: '2px' }}>
+                                  {editValidationErrors.panNumber}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <span style={{ 
+                              fontFamily: 'monospace', 
+                              backgroundColor: safeString(person.panNumber) ? '#fef3c7' : '#fecaca', 
+                              padding: '2px 4px', 
+                              borderRadius: '4px' 
+                            }}>
+                              {safeString(person.panNumber) ? <IdentityValue person={person} field="panNumber" /> : 'NA'}
+                            </span>
+                          )}
+                        </td>
+                      )}
 
                       {/* VOTER ID - ENHANCED WITH VALIDATION */}
-                      <td style={{ padding: '8px', fontSize: '12px' }}>
-                        {isEditing ? (
-                          <div>
-                            <input 
-                              type="text"
-                              value={safeString(editData.voterIdNumber)}
-                              onChange={e => handleEditChange('voterIdNumber', e.target.value.toUpperCase())}
-                              style={{ 
-                                width: '100%', 
-                                padding: '4px 6px', 
-                                border: editValidationErrors.voterIdNumber ? '2px solid #dc2626' : '1px solid #d1d5db', 
-                                borderRadius: '4px', 
-                                fontSize: '12px', 
-                                textTransform: 'uppercase',
-                                backgroundColor: editValidationErrors.voterIdNumber ? '#fef2f2' : 'white'
-                              }}
-                            />
-                            {editValidationErrors.voterIdNumber && (
-                              <div style={{ color: '#dc2626', fontSize: '10px', marginTop: '2px' }}>
-                                {editValidationErrors.voterIdNumber}
-                              </div>
-                            )}
-                          </div>
-                        ) : (
-                          <span style={{ 
-                            fontFamily: 'monospace', 
-                            backgroundColor: safeString(person.voterIdNumber) ? '#fce7f3' : '#fecaca', 
-                            padding: '2px 4px', 
-                            borderRadius: '4px' 
-                          }}>
-                            {safeString(person.voterIdNumber) || 'NA'}
-                          </span>
-                        )}
-                      </td>
+                      {isVisible('voterIdNumber') && (
+                        <td style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing && mayEditIdentity(person, 'voterIdNumber') ? (
+                            <div>
+                              <input 
+                                type="text"
+                                value={safeString(editData.voterIdNumber)}
+                                onChange={e => handleEditChange('voterIdNumber', e.target.value.toUpperCase())}
+                                style={{ 
+                                  width: '100%', 
+                                  padding: '4px 6px', 
+                                  border: editValidationErrors.voterIdNumber ? '2px solid #dc2626' : '1px solid #d1d5db', 
+                                  borderRadius: '4px', 
+                                  fontSize: '12px', 
+                                  textTransform: 'uppercase',
+                                  backgroundColor: editValidationErrors.voterIdNumber ? '#fef2f2' : 'white'
+                                }}
+                              />
+                              {editValidationErrors.voterIdNumber && (
+                                <div style={{ color: '#dc2626', fontSize: '10px', marginTop: '2px' }}>
+                                  {editValidationErrors.voterIdNumber}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <span style={{ 
+                              fontFamily: 'monospace', 
+                              backgroundColor: safeString(person.voterIdNumber) ? '#fce7f3' : '#fecaca', 
+                              padding: '2px 4px', 
+                              borderRadius: '4px' 
+                            }}>
+                              {safeString(person.voterIdNumber) ? <IdentityValue person={person} field="voterIdNumber" /> : 'NA'}
+                            </span>
+                          )}
+                        </td>
+                      )}
 
                       {/* GENDER */}
-                      <td style={{ padding: '8px', fontSize: '12px' }}>
-                        {isEditing ? (
-                          <select 
-                            value={safeString(editData.gender)}
-                            onChange={e => handleEditChange('gender', e.target.value)}
-                            style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
-                          >
-                            <option value="">Select</option>
-                            <option value="Male">Male</option>
-                            <option value="Female">Female</option>
-                            <option value="Other">Other</option>
-                          </select>
-                        ) : (
-                          <span style={{ 
-                            padding: '2px 6px', 
-                            borderRadius: '4px', 
-                            fontSize: '11px', 
-                            fontWeight: '500',
-                            backgroundColor: person.gender === 'Male' ? '#dbeafe' : person.gender === 'Female' ? '#fce7f3' : '#f3f4f6',
-                            color: person.gender === 'Male' ? '#1e40af' : person.gender === 'Female' ? '#be185d' : '#374151'
-                          }}>
-                            {safeString(person.gender) || 'NA'}
-                          </span>
-                        )}
-                      </td>
+                      {isVisible('gender') && (
+                        <td style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing ? (
+                            <select 
+                              value={safeString(editData.gender)}
+                              onChange={e => handleEditChange('gender', e.target.value)}
+                              style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
+                            >
+                              <option value="">Select</option>
+                              <option value="Male">Male</option>
+                              <option value="Female">Female</option>
+                              <option value="Other">Other</option>
+                            </select>
+                          ) : (
+                            <span style={{ 
+                              padding: '2px 6px', 
+                              borderRadius: '4px', 
+                              fontSize: '11px', 
+                              fontWeight: '500',
+                              backgroundColor: person.gender === 'Male' ? '#dbeafe' : person.gender === 'Female' ? '#fce7f3' : '#f3f4f6',
+                              color: person.gender === 'Male' ? '#1e40af' : person.gender === 'Female' ? '#be185d' : '#374151'
+                            }}>
+                              {safeString(person.gender) || 'NA'}
+                            </span>
+                          )}
+                        </td>
+                      )}
 
                       {/* COMMUNITY */}
-                      <td style={{ padding: '8px', fontSize: '12px' }}>
-                        {isEditing ? (
-                          <select 
-                            value={safeString(editData.community)}
-                            onChange={e => handleEditChange('community', e.target.value)}
-                            style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
-                          >
-                            <option value="">Select</option>
-                            <option value="General">General</option>
-                            <option value="OBC">OBC</option>
-                            <option value="SC">SC</option>
-                            <option value="ST">ST</option>
-                            <option value="Other">Other</option>
-                          </select>
-                        ) : (
+                      {isVisible('community') && (
+                        <td style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing ? (
+                            <select 
+                              value={safeString(editData.community)}
+                              onChange={e => handleEditChange('community', e.target.value)}
+                              style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
+                            >
+                              <option value="">Select</option>
+                              <option value="General">General</option>
+                              <option value="OBC">OBC</option>
+                              <option value="SC">SC</option>
+                              <option value="ST">ST</option>
+                              <option value="Other">Other</option>
+                            </select>
+                          ) : (
+                            <span style={{ 
+                              padding: '2px 4px', 
+                              borderRadius: '4px', 
+                              fontSize: '11px', 
+                              fontWeight: '500',
+                              backgroundColor: person.community === 'General' ? '#dcfce7' : person.community === 'OBC' ? '#fef3c7' : person.community === 'SC' ? '#fed7aa' : person.community === 'ST' ? '#fecaca' : '#f3f4f6',
+                              color: person.community === 'General' ? '#166534' : person.community === 'OBC' ? '#92400e' : person.community === 'SC' ? '#c2410c' : person.community === 'ST' ? '#dc2626' : '#374151'
+                            }}>
+                              {safeString(person.community) || 'NA'}
+                            </span>
+                          )}
+                        </td>
+                      )}
+
+                      {/* WARD */}
+                      {isVisible('ward') && (
+                        <td style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing && masterWards.length > 0 ? (
+                            <select
+                              value={safeString(editData.ward)}
+                              onChange={e => handleEditChange('ward', e.target.value)}
+                              style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
+                            >
+                              {addressOptions(wardsForDirection(masterWards, safeString(editData.direction) || null).map(ward => ward.name), editData.ward)}
+                            </select>
+                          ) : isEditing ? (
+                            <input 
+                              type="text"
+                              value={safeString(editData.ward)}
+                              onChange={e => handleEditChange('ward', e.target.value)}
+                              style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
+                            />
+                          ) : (
+                            <span style={{ backgroundColor: '#f3f4f6', padding: '2px 4px', borderRadius: '4px' }}>
+                              {safeString(person.ward) || 'NA'}
+                            </span>
+                          )}
+                        </td>
+                      )}
+
+                      {/* DIRECTION */}
+                      {isVisible('direction') && (
+                        <td style={{ padding: '8px', fontSize: '12px' }}>
                           <span style={{ 
                             padding: '2px 4px', 
                             borderRadius: '4px', 
                             fontSize: '11px', 
                             fontWeight: '500',
-                            backgroundColor: person.community === 'General' ? '#dcfce7' : person.community === 'OBC' ? '#fef3c7' : person.community === 'SC' ? '#fed7aa' : person.community === 'ST' ? '#fecaca' : '#f3f4f6',
-                            color: person.community === 'General' ? '#166534' : person.community === 'OBC' ? '#92400e' : person.community === 'SC' ? '#c2410c' : person.community === 'ST' ? '#dc2626' : '#374151'
+                            backgroundColor: person.direction === 'East' ? '#dbeafe' : person.direction === 'West' ? '#dcfce7' : person.direction === 'North' ? '#fef3c7' : '#fecaca',
+                            color: person.direction === 'East' ? '#1e40af' : person.direction === 'West' ? '#166534' : person.direction === 'North' ? '#92400e' : '#dc2626'
                           }}>
-                            {safeString(person.community) || 'NA'}
-                          </span>
-                        )}
-                      </td>
-
-                      {/* WARD */}
-                      <td style={{ padding: '8px', fontSize: '12px' }}>
-                        {isEditing ? (
-                          <input 
-                            type="text"
-                            value={safeString(editData.ward)}
-                            onChange={e => handleEditChange('ward', e.target.value)}
-                            style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
-                          />
-                        ) : (
-                          <span style={{ backgroundColor: '#f3f4f6', padding: '2px 4px', borderRadius: '4px' }}>
-                            {safeString(person.ward) || 'NA'}
+                            {safeString(person.direction) || 'NA'}
                           </span>
-                        )}
-                      </td>
+                        </td>
+                      )}
 
-                      {/* DIRECTION */}
-                      <td style={{ padding: '8px', fontSize: '12px' }}>
-                        <span style={{ 
-                          padding: '2px 4px', 
-                          borderRadius: '4px', 
-                          fontSize: '11px', 
-                          fontWeight: '500',
-                          backgroundColor: person.direction === 'East' ? '#dbeafe' : person.direction === 'West' ? '#dcfce7' : person.direction === 'North' ? '#fef3c7' : '#fecaca',
-                          color: person.direction === 'East' ? '#1e40af' : person.direction === 'West' ? '#166534' : person.direction === 'North' ? '#92400e' : '#dc2626'
-                        }}>
-                          {safeString(person.direction) || 'NA'}
-                        </span>
-                      </td>
+                      {/* OPTIONAL COLUMNS */}
+                      {EXTRA_COLUMNS.filter(column => isVisible(column.id)).map(column => (
+                        <td key={column.id} style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing && column.id === 'street' && editStreets.length > 0 ? (
+                            <select
+                              value={safeString(editData.street)}
+                              onChange={e => handleEditChange('street', e.target.value)}
+                              style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
+                            >
+                              {addressOptions(editStreets.map(street => street.name), editData.street)}
+                            </select>
+                          ) : isEditing && column.editable ? (
+                            <input
+                              type={column.id === 'age' ? 'number' : 'text'}
+                              value={column.id === 'tags' && Array.isArray(editData.tags) ? editData.tags.join(', ') : safeString(editData[column.id])}
+                              onChange={e => handleEditChange(column.id, column.id === 'age' && e.target.value ? Number(e.target.value) : e.target.value)}
+                              style={{ width: '100%', padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' }}
+                            />
+                          ) : column.id === 'household' ? (
+                            householdNames.get(safeString(person.householdId)) || '—'
+                          ) : column.id === 'tags' ? (
+                            tagsOf(person.tags).join(', ') || '—'
+                          ) : column.id === 'createdAt' ? (
+                            person.createdAt ? new Date(person.createdAt).toLocaleDateString() : 'NA'
+                          ) : (
+                            safeString(person[column.id]) || 'NA'
+                          )}
+                        </td>
+                      ))}
+
+                      {/* CUSTOM FIELD COLUMNS - editable where the field applies to the person's direction */}
+                      {visibleCustomFields.map(field => (
+                        <td key={field.key} style={{ padding: '8px', fontSize: '12px' }}>
+                          {isEditing && isVisibleIn(field, safeString(editData.direction) || null) ? (
+                            <CustomFieldInput
+                              field={field}
+                              value={customInputValue(field, editData[field.key])}
+                              onChange={value => handleEditChange(field.key, value)}
+                              style={{ width: '100%', padding: '4px 6px', border: `1px solid ${validateCustomValue(field, editData[field.key]) ? '#dc2626' : '#d1d5db'}`, borderRadius: '4px', fontSize: '12px' }}
+                            />
+                          ) : (
+                            formatCustomValue(field, person[field.key]) || '—'
+                          )}
+                        </td>
+                      ))}
 
                       {/* ACTIONS */}
                       <td style={{ padding: '8px', fontSize: '12px' }}>
@@ -927,19 +1731,81 @@ const People: React.FC = () => {
                   );
                 }) : (
                   <tr>
-                    <td colSpan={10} style={{ textAlign: 'center', padding: '32px', color: '#6b7280', fontSize: '14px' }}>
-                      {people.length === 0 
+                    <td colSpan={columnCount + 2} style={{ textAlign: 'center', padding: '32px', color: '#6b7280', fontSize: '14px' }}>
+                      {!debouncedSearch && conditions.length === 0
                         ? `No ${userDirection ? userDirection + ' ' : ''}people found. Click "Add Person" to get started.`
-                        : `No people found matching "${searchTerm}".`
+                        : 'No people match the current search and filters.'
                       }
                     </td>
                   </tr>
                 )}
+                {virtualRows.paddingBottom > 0 && (
+                  <tr style={{ height: `${virtualRows.paddingBottom}px` }}><td colSpan={columnCount + 2} /></tr>
+                )}
               </tbody>
             </table>
           </div>
         </div>
 
+        {/* PAGINATION */}
+        {pageInfo && pageInfo.total > 0 && (
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px', gap: '12px', flexWrap: 'wrap', fontSize: '13px', color: '#4b5563' }}>
+            <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+              <span>
+                {pageSize === 'all'
+                  ? `Showing all ${pageInfo.total} people`
+                  : `Showing ${(pageInfo.page - 1) * pageInfo.pageSize + 1}–${Math.min(pageInfo.page * pageInfo.pageSize, pageInfo.total)} of ${pageInfo.total} people`}
+              </span>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                Rows per page
+                <select
+                  value={String(pageSize)}
+                  onChange={e => updateUrl({ pageSize: e.target.value === 'all' ? 'all' : Number(e.target.value) })}
+                  style={{ padding: '4px 6px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '13px' }}
+                >
+                  {PAGE_SIZE_OPTIONS.map(option => (
+                    <option key={option} value={String(option)}>{option === 'all' ? 'All' : option}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {pageSize !== 'all' && (
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <button
+                  onClick={() => setPage(prev => Math.max(1, prev - 1))}
+                  disabled={pageInfo.page <= 1}
+                  style={{ padding: '6px 12px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', cursor: pageInfo.page <= 1 ? 'not-allowed' : 'pointer', opacity: pageInfo.page <= 1 ? 0.5 : 1 }}
+                >
+                  Previous
+                </button>
+                <span>Page {pageInfo.page} of {Math.max(1, Math.ceil(pageInfo.total / pageInfo.pageSize))}</span>
+                <button
+                  onClick={() => setPage(prev => prev + 1)}
+                  disabled={!hasNextPage}
+                  style={{ padding: '6px 12px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', cursor: !hasNextPage ? 'not-allowed' : 'pointer', opacity: !hasNextPage ? 0.5 : 1 }}
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* IMPORT WIZARD */}
+        {showImport && <ImportPeopleWizard onClose={() => setShowImport(false)} />}
+
+        {/* HOUSEHOLDS */}
+        {showHouseholds && <HouseholdsDialog onClose={() => setShowHouseholds(false)} />}
+
+        {/* EXPORT DIALOG */}
+        {showExport && (
+          <ExportPeopleDialog
+            loadRows={loadExportRows}
+            scopeLabel={`${userDirection || 'All directions'}${activeSegment ? ` in "${activeSegment.name}"` : ''}${debouncedSearch ? ` matching "${debouncedSearch}"` : ''}${conditions.length > 0 ? ' (filtered)' : ''} · ${pageInfo?.total ?? visiblePeople.length} people`}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+
         {/* ADD PERSON MODAL */}
         {showModal && (
           <div style={{ position: 'fixed', top: '0', left: '0', right: '0', bottom: '0', backgroundColor: 'rgba(0, 0, 0, 0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: '50', padding: '16px' }}>
@@ -957,6 +1823,7 @@ const People: React.FC = () => {
                   <button 
                     onClick={() => {
                       setShowModal(false); 
+                      pendingCreateRef.current = null;
                       setAddValidationErrors({
                         phone: '',
                         aadharNumber: '',
@@ -994,9 +1861,9 @@ const People: React.FC = () => {
                     </label>
                     <div style={{ position: 'relative' }}>
                       <input 
-                        {...register('phone', { required: 'Phone is required', pattern: { value: /^[0-9]{10}$/, message: 'Phone must be 10 digits' } })}
+                        {...register('phone', { required: 'Phone is required', validate: identityRule(checkMobile) })}
                         type="tel"
-                        maxLength={10}
+                        maxLength={15}
                         style={{ 
                           width: '100%', 
                           padding: '8px 12px', 
@@ -1049,10 +1916,10 @@ const People: React.FC = () => {
                       <input 
                         {...register('aadharNumber', { 
                           required: 'Aadhar number is required',
-                          pattern: { value: /^[0-9]{12}$/, message: 'Aadhar must be exactly 12 digits' }
+                          validate: identityRule(checkAadhaar)
                         })}
                         type="text"
-                        maxLength={12}
+                        maxLength={14}
                         style={{ 
                           width: '100%', 
                           padding: '8px 12px', 
@@ -1105,7 +1972,7 @@ const People: React.FC = () => {
                       <input 
                         {...register('panNumber', { 
                           required: 'PAN number is required',
-                          pattern: { value: /^[A-Z]{5}[0-9]{4}[A-Z]{1}$/, message: 'Invalid PAN format (ABCDE1234F)' }
+                          validate: (value, formValues) => identityRule(pan => checkPan(pan, formValues.name))(value)
                         })}
                         style={{ 
                           width: '100%', 
@@ -1150,6 +2017,11 @@ const People: React.FC = () => {
                         {errors.panNumber.message}
                       </p>
                     )}
+                    {!errors.panNumber && !addValidationErrors.panNumber && panWarning && (
+                      <p style={{ color: '#b45309', fontSize: '12px', marginTop: '4px', margin: '0' }}>
+                        {panWarning}
+                      </p>
+                    )}
                   </div>
 
                   {/* VOTER ID - ENHANCED WITH VALIDATION */}
@@ -1161,7 +2033,7 @@ const People: React.FC = () => {
                       <input 
                         {...register('voterIdNumber', { 
                           required: 'Voter ID number is required',
-                          pattern: { value: /^[A-Z]{3}[0-9]{7}$/, message: 'Invalid Voter ID format (ABC1234567)' }
+                          validate: identityRule(checkEpic)
                         })}
                         style={{ 
                           width: '100%', 
@@ -1249,11 +2121,28 @@ const People: React.FC = () => {
                     <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
                       Ward *
                     </label>
-                    <input 
-                      {...register('ward', { required: 'Ward is required' })}
-                      style={{ width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', boxSizing: 'border-box' }}
-                      placeholder="Ward number or name"
-                    />
+                    {addWards.length > 0 ? (
+                      <select
+                        {...register('ward', {
+                          required: 'Ward is required',
+                          // Picking a ward first fills in its direction for superadmins
+                          onChange: event => {
+                            const ward = masterWards.find(candidate => candidate.name === event.target.value);
+                            if (user?.role === 'superadmin' && ward?.direction && !watchedValues.direction) setValue('direction', ward.direction);
+                          }
+                        })}
+                        style={{ width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', boxSizing: 'border-box' }}
+                      >
+                        <option value="">Select Ward</option>
+                        {addWards.map(ward => <option key={ward.id || ward.name} value={ward.name}>{ward.name}</option>)}
+                      </select>
+                    ) : (
+                      <input 
+                        {...register('ward', { required: 'Ward is required' })}
+                        style={{ width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', boxSizing: 'border-box' }}
+                        placeholder="Ward number or name"
+                      />
+                    )}
                     {errors.ward && <p style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px', margin: '0' }}>{errors.ward.message}</p>}
                   </div>
 
@@ -1312,11 +2201,21 @@ const People: React.FC = () => {
                     <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
                       Street *
                     </label>
-                    <input 
-                      {...register('street', { required: 'Street is required' })}
-                      style={{ width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', boxSizing: 'border-box' }}
-                      placeholder="Street name"
-                    />
+                    {addStreets.length > 0 ? (
+                      <select
+                        {...register('street', { required: 'Street is required' })}
+                        style={{ width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', boxSizing: 'border-box' }}
+                      >
+                        <option value="">Select Street</option>
+                        {addStreets.map(street => <option key={street.id || street.name} value={street.name}>{street.name}</option>)}
+                      </select>
+                    ) : (
+                      <input 
+                        {...register('street', { required: 'Street is required' })}
+                        style={{ width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', boxSizing: 'border-box' }}
+                        placeholder="Street name"
+                      />
+                    )}
                     {errors.street && <p style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px', margin: '0' }}>{errors.street.message}</p>}
                   </div>
 
@@ -1361,6 +2260,33 @@ const People: React.FC = () => {
                     />
                     {errors.address && <p style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px', margin: '0' }}>{errors.address.message}</p>}
                   </div>
+
+                  {/* TAGS - FULL WIDTH */}
+                  <div style={{ gridColumn: '1 / -1' }}>
+                    <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
+                      Tags
+                    </label>
+                    <input 
+                      {...register('tags')}
+                      style={{ width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', boxSizing: 'border-box' }}
+                      placeholder="Comma-separated, e.g. volunteer, senior citizen"
+                    />
+                  </div>
+
+                  {/* CUSTOM FIELDS - the ones shown for the chosen direction */}
+                  {addFormFields.map(field => (
+                    <div key={field.key}>
+                      <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
+                        {field.label}{field.required && field.type !== 'boolean' ? ' *' : ''}
+                      </label>
+                      <CustomFieldInput
+                        field={field}
+                        registration={register(field.key, { validate: value => validateCustomValue(field, value) ?? true })}
+                        style={{ width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', boxSizing: 'border-box' }}
+                      />
+                      {errors[field.key] && <p style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px', margin: '0' }}>{String(errors[field.key]?.message)}</p>}
+                    </div>
+                  ))}
                 </div>
 
                 {/* Validation Status Panel */}
@@ -1400,6 +2326,7 @@ const People: React.FC = () => {
                     type="button"
                     onClick={() => {
                       setShowModal(false); 
+                      pendingCreateRef.current = null;
                       setAddValidationErrors({
                         phone: '',
                         aadharNumber: '',
@@ -0,0 +1,375 @@
+// src/pages/PersonDetail.tsx - Everything about one person: full profile, messages received and record history
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Edit, History, MessageSquare, Trash2, User } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOutbox } from '../hooks/useOutbox';
+import { useAuditQuery, useCustomFieldsQuery, useHouseholdsQuery, useMessagesQuery, usePersonQuery } from '../hooks/useQuery';
+import { applyOutbox } from '../services/outbox';
+import { dataService } from '../services/dataSource';
+import { createIdempotencyKey } from '../utils/idempotency';
+import { toSearchParams } from '../utils/peopleQuery';
+import { isSensitiveField, maskIdentityText } from '../utils/masking';
+import { fieldsForDirection, formatCustomValue } from '../utils/customFields';
+import Layout from '../components/Layout/Layout';
+import ErrorState from '../components/ErrorState';
+import AuditEventList from '../components/AuditEventList';
+import IdentityValue from '../components/IdentityValue';
+import type { AuditEvent, Message, Person } from '../types';
+
+const NO_MESSAGES: Message[] = [];
+const NO_EVENTS: AuditEvent[] = [];
+
+// Profile sections, in display order; every Person field appears in exactly one
+const SECTIONS: { title: string; fields: { field: keyof Person & string; label: string }[] }[] = [
+  {
+    title: 'Personal',
+    fields: [
+      { field: 'name', label: 'Name' },
+      { field: 'age', label: 'Age' },
+      { field: 'gender', label: 'Gender' },
+      { field: 'phone', label: 'Phone' },
+      { field: 'community', label: 'Community' },
+      { field: 'caste', label: 'Caste' },
+      { field: 'religion', label: 'Religion' },
+      { field: 'tags', label: 'Tags' }
+    ]
+  },
+  {
+    title: 'Identity',
+    fields: [
+      { field: 'aadharNumber', label: 'Aadhaar Number' },
+      { field: 'panNumber', label: 'PAN Number' },
+      { field: 'voterIdNumber', label: 'Voter ID' }
+    ]
+  },
+  {
+    title: 'Address',
+    fields: [
+      { field: 'address', label: 'Address' },
+      { field: 'street', label: 'Street' },
+      { field: 'ward', label: 'Ward' },
+      { field: 'direction', label: 'Direction' }
+    ]
+  }
+];
+
+const text = (value: unknown) => (Array.isArray(value) ? value.join(', ') : String(value ?? '').trim());
+
+const formatDate = (value: unknown) => {
+  const date = new Date(text(value));
+  return text(value) && !isNaN(date.getTime()) ? date.toLocaleString() : '';
+};
+
+const recipientsOf = (message: Message) =>
+  (Array.isArray(message.recipients) ? message.recipients : text(message.recipients).split(','))
+    .map(recipient => String(recipient).trim())
+    .filter(Boolean);
+
+const Field: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div>
+    <dt className="text-xs font-medium uppercase tracking-wide text-gray-500">{label}</dt>
+    <dd className="mt-0.5 break-words text-sm text-gray-900">
+      {value || <span className="italic text-gray-400">Not recorded</span>}
+    </dd>
+  </div>
+);
+
+const MessageList: React.FC<{ messages: Message[] }> = ({ messages }) => (
+  <ul className="divide-y divide-gray-100">
+    {messages.map((message, index) => (
+      <li key={message.id || index} className="py-3">
+        <p className="whitespace-pre-wrap text-sm text-gray-900">{maskIdentityText(message.message)}</p>
+        <p className="mt-1 text-xs text-gray-500">
+          {formatDate(message.sentAt || message.createdAt) || 'Date unknown'}
+          {message.senderId ? ` · from ${message.senderId}` : ''}
+          {message.status ? ` · ${message.status}` : ''}
+          {recipientsOf(message).length > 1 ? ` · ${recipientsOf(message).length} recipients` : ''}
+        </p>
+      </li>
+    ))}
+  </ul>
+);
+
+const PersonDetail: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { entries, isOnline, pendingByPerson, queue } = useOutbox();
+  const personQuery = usePersonQuery(id);
+  const messagesQuery = useMessagesQuery();
+  // Optional: the household name is shown when households load
+  const householdsQuery = useHouseholdsQuery();
+  // Superadmin-defined fields, shown as an extra section when the person's direction has any
+  const customFieldsQuery = useCustomFieldsQuery();
+  // Superadmins only; for everyone else this query never runs
+  const auditQuery = useAuditQuery();
+  const isSuperadmin = user?.role === 'superadmin';
+  const [deleting, setDeleting] = useState(false);
+
+  // ✅ Same view as the People table: the server row with this device's queued changes laid over it
+  const person = useMemo(
+    () => applyOutbox(personQuery.data ? [personQuery.data] : [], entries).find(candidate => candidate.id === id),
+    [personQuery.data, entries, id]
+  );
+  const pending = pendingByPerson.get(id);
+
+  // ✅ Messages store recipients by id. Older ones stored names, which may belong to someone else with the
+  // same name, so those are listed apart as unverified.
+  const { received, unverified } = useMemo(() => {
+    if (!person) return { received: NO_MESSAGES, unverified: NO_MESSAGES };
+    const newestFirst = (messages: Message[]) =>
+      messages.sort((a, b) => text(b.sentAt || b.createdAt).localeCompare(text(a.sentAt || a.createdAt)));
+    const messages = messagesQuery.data || NO_MESSAGES;
+    const byId = messages.filter(message => recipientsOf(message).includes(id));
+    const byName = person.name
+      ? messages.filter(message => !byId.includes(message) && recipientsOf(message).includes(person.name))
+      : [];
+    return { received: newestFirst(byId), unverified: newestFirst(byName) };
+  }, [messagesQuery.data, person, id]);
+
+  // Already newest first
+  const history = useMemo(
+    () => (auditQuery.data || NO_EVENTS).filter(event => event.personId === id),
+    [auditQuery.data, id]
+  );
+  const lastEdit = history.find(event => event.action === 'update');
+
+  const household = person?.householdId
+    ? householdsQuery.data?.find(candidate => candidate.id === person.householdId)
+    : undefined;
+
+  // ✅ Offline (or behind this person's queued changes) the delete waits in the outbox, as on the People page
+  const deletePerson = async () => {
+    if (!person || deleting) return;
+    if (!window.confirm(`Move ${person.name} to the recycle bin? A superadmin can restore them until they are purged.`)) return;
+
+    setDeleting(true);
+    const deleteKey = createIdempotencyKey();
+    const queueDelete = () => queue({ operation: 'delete', personId: id, payload: {}, idempotencyKey: deleteKey, queuedBy: user?.email });
+    try {
+      if (!isOnline || pending) {
+        await queueDelete();
+        alert('📴 The delete was saved on this device and will sync when you reconnect.');
+        navigate('/people');
+        return;
+      }
+      const result = await dataService.deletePerson(id, { idempotencyKey: deleteKey });
+      if (result.ok) {
+        console.log('🗑️ Deleted person from detail page:', id);
+        navigate('/people');
+      } else if (!navigator.onLine || result.error.kind === 'network') {
+        await queueDelete();
+        alert('📴 Connection lost. The delete will sync when you reconnect.');
+        navigate('/people');
+      } else {
+        alert(`❌ Failed to delete person: ${result.error.message}`);
+      }
+    } catch (error) {
+      console.error('❌ Error deleting person:', error);
+      alert(`Error deleting person: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const backLink = (
+    <Link to="/people" className="mb-1 flex items-center gap-1 text-sm text-primary-600 hover:underline">
+      <ArrowLeft className="h-4 w-4" /> People
+    </Link>
+  );
+
+  if (personQuery.error && personQuery.data === undefined) {
+    return (
+      <Layout>
+        <ErrorState error={personQuery.error} title="Could not load this person" onRetry={personQuery.refetch} />
+      </Layout>
+    );
+  }
+
+  if (personQuery.loading) {
+    return (
+      <Layout>
+        <div className="flex h-64 items-center justify-center">
+          <div className="h-12 w-12 animate-spin rounded-full border-b-2 border-primary-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  // Admins only load their own direction, so someone else's person is "not found" here too
+  if (!person) {
+    return (
+      <Layout>
+        {backLink}
+        <div className="card py-12 text-center">
+          <User className="mx-auto mb-3 h-10 w-10 text-gray-300" />
+          <h1 className="text-lg font-semibold text-gray-900">Person not found</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            No one with id {id} is in your list. They may have been deleted or merged into another record.
+          </p>
+          {isSuperadmin && history.length > 0 && (
+            <Link to={`/audit?${new URLSearchParams({ personId: id })}`} className="mt-3 inline-block text-sm text-primary-600 hover:underline">
+              See what happened to them in the audit log
+            </Link>
+          )}
+          {isSuperadmin && (
+            <Link to="/recycle-bin" className="mt-3 block text-sm text-primary-600 hover:underline">
+              Look in the recycle bin
+            </Link>
+          )}
+        </div>
+      </Layout>
+    );
+  }
+
+  const mergedFrom = text(person.mergedFrom);
+
+  const personFields = fieldsForDirection(customFieldsQuery.data || [], person.direction);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            {backLink}
+            <h1 className="text-3xl font-bold text-gray-900">{person.name}</h1>
+            <p className="mt-1 text-gray-600">
+              {[person.age && `${person.age} yrs`, person.gender, person.ward && `Ward ${person.ward}`, person.direction].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => navigate(`/people?${new URLSearchParams({ ...toSearchParams({ search: person.name }), edit: id })}`)}
+              disabled={pending?.operation === 'delete'}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <Edit className="h-4 w-4" /> Edit
+            </button>
+            <button
+              onClick={() => navigate(`/messages?${new URLSearchParams({ to: id })}`)}
+              disabled={!person.phone}
+              title={person.phone ? undefined : 'No phone number recorded'}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <MessageSquare className="h-4 w-4" /> Message
+            </button>
+            <button
+              onClick={deletePerson}
+              disabled={deleting || pending?.operation === 'delete'}
+              className="btn-secondary flex items-center gap-2 text-red-600"
+            >
+              <Trash2 className="h-4 w-4" /> {deleting ? 'Deleting...' : 'Delete'}
+            </button>
+          </div>
+        </div>
+
+        {pending && (
+          <div className={`rounded border p-3 text-sm ${pending.status === 'conflict' ? 'border-red-200 bg-red-50 text-red-700' : 'border-amber-200 bg-amber-50 text-amber-800'}`}>
+            {pending.status === 'conflict'
+              ? `A queued ${pending.operation} could not sync: ${pending.error || 'conflict'}. Resolve it on the People page.`
+              : `A ${pending.operation} queued ${new Date(pending.queuedAt).toLocaleString()} is waiting to sync; this page shows it already applied.`}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <div className="space-y-6 lg:col-span-2">
+            {SECTIONS.map(section => (
+              <div key={section.title} className="card">
+                <h2 className="mb-4 font-semibold text-gray-900">{section.title}</h2>
+                <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  {section.fields.map(({ field, label }) => (
+                    <Field
+                      key={field}
+                      label={label}
+                      value={isSensitiveField(field) && text(person[field]) ? <IdentityValue person={person} field={field} /> : text(person[field])}
+                    />
+                  ))}
+                </dl>
+              </div>
+            ))}
+
+            {personFields.length > 0 && (
+              <div className="card">
+                <h2 className="mb-4 font-semibold text-gray-900">Other details</h2>
+                <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  {personFields.map(field => (
+                    <Field key={field.key} label={field.label} value={formatCustomValue(field, person[field.key])} />
+                  ))}
+                </dl>
+              </div>
+            )}
+
+            <div className="card">
+              <h2 className="mb-4 flex items-center justify-between font-semibold text-gray-900">
+                <span>Messages received</span>
+                <span className="text-sm font-normal text-gray-500">{messagesQuery.loading ? 'Loading...' : received.length}</span>
+              </h2>
+              {messagesQuery.error && !messagesQuery.data ? (
+                <p className="text-sm text-red-600">Could not load messages: {messagesQuery.error.message}</p>
+              ) : received.length === 0 ? (
+                !messagesQuery.loading && <p className="text-sm text-gray-500">No messages sent to {person.name} yet.</p>
+              ) : (
+                <MessageList messages={received} />
+              )}
+              {unverified.length > 0 && (
+                <div className="mt-4 border-t border-gray-100 pt-3">
+                  <h3 className="text-sm font-medium text-gray-700">Unverified: sent to the name "{person.name}" ({unverified.length})</h3>
+                  <p className="text-xs text-gray-500">
+                    Older messages recorded recipients by name only, so these may have gone to someone else with the same name.
+                  </p>
+                  <MessageList messages={unverified} />
+                </div>
+              )}
+            </div>
+
+            {isSuperadmin && (
+              <div className="card">
+                <h2 className="mb-2 flex items-center justify-between font-semibold text-gray-900">
+                  <span className="flex items-center gap-2"><History className="h-5 w-5 text-gray-500" /> History</span>
+                  <Link to={`/audit?${new URLSearchParams({ personId: id })}`} className="text-sm font-normal text-primary-600 hover:underline">
+                    Open in audit log
+                  </Link>
+                </h2>
+                {auditQuery.error && !auditQuery.data ? (
+                  <p className="text-sm text-red-600">Could not load history: {auditQuery.error.message}</p>
+                ) : auditQuery.loading ? (
+                  <p className="text-sm text-gray-500">Loading...</p>
+                ) : (
+                  <AuditEventList events={history.slice(0, 20)} showPerson={false} emptyText="No changes recorded for this person." />
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <div className="card">
+              <h2 className="mb-4 font-semibold text-gray-900">Household</h2>
+              <Field
+                label="Household"
+                value={person.householdId ? household?.name || person.householdId : ''}
+              />
+              {household && household.headId === person.id && (
+                <p className="mt-2 text-xs font-medium text-primary-700">Head of household</p>
+              )}
+            </div>
+
+            <div className="card">
+              <h2 className="mb-4 font-semibold text-gray-900">Record</h2>
+              <dl className="space-y-4">
+                <Field label="Id" value={person.id} />
+                <Field label="Created by" value={text(person.createdBy)} />
+                <Field label="Created" value={formatDate(person.createdAt)} />
+                <Field label="Last edited" value={formatDate(person.updatedAt)} />
+                {lastEdit && <Field label="Last edited by" value={lastEdit.actor} />}
+                {mergedFrom && <Field label="Merged from" value={mergedFrom} />}
+              </dl>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default PersonDetail;
@@ -0,0 +1,224 @@
+// src/pages/RecycleBin.tsx - Superadmin view of deleted people and templates: restore or purge for good
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { RotateCcw, Shield, Trash2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOutbox } from '../hooks/useOutbox';
+import { useDeletedPeopleQuery, useDeletedTemplatesQuery } from '../hooks/useQuery';
+import { dataService } from '../services/dataSource';
+import { recycleBinService } from '../services/recycleBin';
+import { appConfig } from '../config/appConfig';
+import { createIdempotencyKey } from '../utils/idempotency';
+import Layout from '../components/Layout/Layout';
+import ErrorState from '../components/ErrorState';
+import type { Person, Template } from '../types';
+import type { Result } from '../utils/result';
+
+type Tab = 'people' | 'templates';
+
+// One row of either list, with what the buttons need
+interface BinItem {
+  key: string;
+  title: string;
+  detail: string;
+  deletedAt?: string;
+  deletedBy?: string;
+  link?: string;
+  restore: () => Promise<Result<unknown>>;
+  purge: () => Promise<Result<null>>;
+}
+
+const NO_PEOPLE: Person[] = [];
+const NO_TEMPLATES: Template[] = [];
+
+const purgeLabel = (deletedAt?: string) => {
+  const purgeDate = recycleBinService.purgeDate(deletedAt);
+  if (!purgeDate) return 'Kept until purged';
+  const days = Math.ceil((purgeDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 0 ? 'Due for purge' : `Purged in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+const RecycleBin: React.FC = () => {
+  const { user } = useAuth();
+  const { isOnline } = useOutbox();
+  const peopleQuery = useDeletedPeopleQuery();
+  const templatesQuery = useDeletedTemplatesQuery();
+  const [tab, setTab] = useState<Tab>('people');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const people: BinItem[] = (peopleQuery.data || NO_PEOPLE).map(person => ({
+    key: `person:${person.id}`,
+    title: person.name,
+    detail: [person.phone, person.ward && `Ward ${person.ward}`, person.direction].filter(Boolean).join(' · '),
+    deletedAt: person.deletedAt,
+    deletedBy: person.deletedBy,
+    link: `/audit?${new URLSearchParams({ personId: person.id! })}`,
+    restore: () => dataService.restorePerson(person.id!, { idempotencyKey: createIdempotencyKey() }),
+    purge: () => dataService.purgePerson(person.id!, { idempotencyKey: createIdempotencyKey() })
+  }));
+
+  const templates: BinItem[] = (templatesQuery.data || NO_TEMPLATES).map(template => {
+    const id = template.id || template.title;
+    return {
+      key: `template:${id}`,
+      title: template.title,
+      detail: template.body.length > 80 ? `${template.body.slice(0, 80)}...` : template.body,
+      deletedAt: template.deletedAt,
+      deletedBy: template.deletedBy,
+      restore: () => dataService.restoreTemplate(id, { idempotencyKey: createIdempotencyKey() }),
+      purge: () => dataService.purgeTemplate(id, { idempotencyKey: createIdempotencyKey() })
+    };
+  });
+
+  const query = tab === 'people' ? peopleQuery : templatesQuery;
+  const items = tab === 'people' ? people : templates;
+
+  const run = async (item: BinItem, action: 'restore' | 'purge') => {
+    if (action === 'purge' && !window.confirm(`Permanently delete "${item.title}"? This cannot be undone.`)) return;
+    setBusyKey(item.key);
+    setMessage(null);
+    try {
+      const result = action === 'restore' ? await item.restore() : await item.purge();
+      setMessage(result.ok
+        ? { tone: 'success', text: action === 'restore' ? `Restored ${item.title}.` : `${item.title} was deleted for good.` }
+        : { tone: 'error', text: `Could not ${action} ${item.title}: ${result.error.message}` });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const purgeExpired = async () => {
+    setBusyKey('expired');
+    setMessage(null);
+    try {
+      const summary = await recycleBinService.purgeExpired();
+      setMessage({
+        tone: summary.failed ? 'error' : 'success',
+        text: `Purged ${summary.people} people and ${summary.templates} templates${summary.failed ? `; ${summary.failed} could not be purged` : ''}.`
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  if (user?.role !== 'superadmin') {
+    return (
+      <Layout>
+        <div className="flex min-h-96 flex-col items-center justify-center p-6 text-center">
+          <div className="mb-6 rounded-full bg-red-100 p-4">
+            <Shield className="h-12 w-12 text-red-600" />
+          </div>
+          <h2 className="mb-2 text-2xl font-bold text-gray-900">Access Denied</h2>
+          <p className="text-gray-500">Only Super Admins can open the recycle bin.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-gray-900">
+              <Trash2 className="h-7 w-7 text-primary-600" /> Recycle Bin
+            </h1>
+            <p className="mt-1 text-gray-600">
+              {appConfig.recycleRetentionDays > 0
+                ? `Deleted people and templates are purged ${appConfig.recycleRetentionDays} days after deletion.`
+                : 'Deleted people and templates stay here until purged by hand.'}
+            </p>
+          </div>
+          {appConfig.recycleRetentionDays > 0 && (
+            <button onClick={purgeExpired} disabled={!isOnline || busyKey !== null} className="btn-secondary">
+              {busyKey === 'expired' ? 'Purging...' : 'Purge expired now'}
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <div className={`rounded border p-3 text-sm ${message.tone === 'success' ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+        {!isOnline && (
+          <div className="rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            Restoring and purging need a connection.
+          </div>
+        )}
+
+        <div className="flex gap-2 border-b border-gray-200">
+          {(['people', 'templates'] as Tab[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setTab(option)}
+              className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium capitalize ${tab === option ? 'border-primary-600 text-primary-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+            >
+              {option} ({option === 'people' ? people.length : templates.length})
+            </button>
+          ))}
+        </div>
+
+        {query.error && !query.data ? (
+          <ErrorState error={query.error} title={`Could not load deleted ${tab}`} onRetry={query.refetch} />
+        ) : (
+          <div className="card overflow-x-auto p-0">
+            {query.loading ? (
+              <p className="p-6 text-sm text-gray-500">Loading...</p>
+            ) : items.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No deleted {tab}.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2">{tab === 'people' ? 'Person' : 'Template'}</th>
+                    <th className="px-4 py-2">Deleted</th>
+                    <th className="px-4 py-2">Retention</th>
+                    <th className="px-4 py-2 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(item => (
+                    <tr key={item.key} className="border-t border-gray-100">
+                      <td className="px-4 py-2">
+                        <span className="block font-medium text-gray-900">{item.title}</span>
+                        <span className="block text-xs text-gray-500">{item.detail}</span>
+                        {item.link && <Link to={item.link} className="text-xs text-primary-600 hover:underline">History</Link>}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {item.deletedAt ? new Date(item.deletedAt).toLocaleString() : 'unknown'}
+                        <span className="block text-xs text-gray-500">by {item.deletedBy || 'unknown'}</span>
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{purgeLabel(item.deletedAt)}</td>
+                      <td className="px-4 py-2 text-right">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => run(item, 'restore')}
+                            disabled={!isOnline || busyKey !== null}
+                            className="btn-secondary flex items-center gap-1 text-xs"
+                          >
+                            <RotateCcw className="h-3 w-3" /> Restore
+                          </button>
+                          <button
+                            onClick={() => run(item, 'purge')}
+                            disabled={!isOnline || busyKey !== null}
+                            className="btn-secondary flex items-center gap-1 text-xs text-red-600"
+                          >
+                            <Trash2 className="h-3 w-3" /> Purge
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default RecycleBin;
@@ -26,8 +26,8 @@ const Register: React.FC = () => {
     clearError();
     
     try {
-      const isSuccess = await registerUser(data.email, data.password, data.role, data.direction);
-      if (isSuccess) {
+      const result = await registerUser(data.email, data.password, data.role, data.direction);
+      if (result.ok) {
         setSuccess(true);
         // Redirect to login after 2 seconds to show success message
         setTimeout(() => {
@@ -145,7 +145,7 @@ const Register: React.FC = () => {
 
           {error && (
             <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-              {error}
+              {error.message}
             </div>
           )}
 
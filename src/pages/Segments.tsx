@@ -0,0 +1,385 @@
+// src/pages/Segments.tsx - Tags in use on people, and saved segments built from fields and tags
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Edit, MessageSquare, Plus, Tags, Target, Trash2, Users, X } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOutbox } from '../hooks/useOutbox';
+import { useCustomFieldsQuery, usePeopleQuery, useSegmentsQuery } from '../hooks/useQuery';
+import { dataService } from '../services/dataSource';
+import { createIdempotencyKey } from '../utils/idempotency';
+import { conditionDefinitions } from '../utils/customFields';
+import { CONDITION_FIELDS, isActiveCondition, toSearchParams } from '../utils/peopleQuery';
+import type { PeopleCondition } from '../utils/peopleQuery';
+import { canEditSegment, describeRule, segmentMembers, segmentRule, validateSegment } from '../utils/segments';
+import { retagUpdates, tagCounts } from '../utils/tags';
+import Layout from '../components/Layout/Layout';
+import ErrorState from '../components/ErrorState';
+import FilterBuilder from '../components/People/FilterBuilder';
+import type { CustomField, Person, Segment } from '../types';
+
+type Tab = 'segments' | 'tags';
+
+interface SegmentDraft {
+  id?: string;
+  name: string;
+  description: string;
+  conditions: PeopleCondition[];
+  match: 'all' | 'any';
+}
+
+const EMPTY_DRAFT: SegmentDraft = { name: '', description: '', conditions: [], match: 'all' };
+
+const NO_PEOPLE: Person[] = [];
+const NO_SEGMENTS: Segment[] = [];
+const NO_FIELDS: CustomField[] = [];
+
+// Same batch size as bulk edit; each person still gets an audit event
+const RETAG_BATCH_SIZE = 100;
+
+// ✅ Writes the new tag list for each person in batches; stops at the first failed batch
+const writeUpdates = async (updates: Partial<Person>[]): Promise<{ written: number; failure?: string }> => {
+  let written = 0;
+  for (let start = 0; start < updates.length; start += RETAG_BATCH_SIZE) {
+    const batch = updates.slice(start, start + RETAG_BATCH_SIZE);
+    const result = await dataService.updatePeople(batch, { idempotencyKey: createIdempotencyKey() });
+    if (!result.ok) {
+      console.error('❌ Retag batch failed:', result.error.message);
+      return { written: written + (result.partial?.length || 0), failure: result.error.message };
+    }
+    written += batch.length;
+  }
+  return { written };
+};
+
+const tagPeopleUrl = (tag: string) =>
+  `/people?${new URLSearchParams(toSearchParams({ conditions: [{ field: 'tags', op: 'has', value: tag }] }))}`;
+
+const toDraft = (segment: Segment): SegmentDraft => ({
+  id: segment.id,
+  name: segment.name,
+  description: segment.description || '',
+  ...segmentRule(segment),
+  match: segment.match === 'any' ? 'any' : 'all'
+});
+
+const Segments: React.FC = () => {
+  const { user } = useAuth();
+  const { isOnline } = useOutbox();
+  const segmentsQuery = useSegmentsQuery();
+  const peopleQuery = usePeopleQuery();
+  const { data: customFields = NO_FIELDS } = useCustomFieldsQuery();
+  const segments = segmentsQuery.data || NO_SEGMENTS;
+  const people = peopleQuery.data || NO_PEOPLE;
+
+  const [tab, setTab] = useState<Tab>('segments');
+  const [draft, setDraft] = useState<SegmentDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const customConditionFields = useMemo(() => conditionDefinitions(customFields), [customFields]);
+  const definitions = useMemo(() => ({ ...CONDITION_FIELDS, ...customConditionFields }), [customConditionFields]);
+  const tags = useMemo(() => tagCounts(people), [people]);
+  const tagNames = useMemo(() => tags.map(({ tag }) => tag), [tags]);
+  const memberCounts = useMemo(
+    () => new Map(segments.map(segment => [segment.id, segmentMembers(people, segment).length])),
+    [segments, people]
+  );
+  const draftMembers = useMemo(
+    () => (draft ? segmentMembers(people, { name: draft.name, conditions: draft.conditions, match: draft.match }).length : 0),
+    [draft, people]
+  );
+
+  const report = (ok: boolean, text: string) => setMessage({ tone: ok ? 'success' : 'error', text });
+
+  const openDraft = (next: SegmentDraft) => {
+    setDraft(next);
+    setMessage(null);
+  };
+
+  const saveSegment = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    const definition: Partial<Segment> = {
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      conditions: draft.conditions.filter(isActiveCondition),
+      match: draft.match
+    };
+    const invalid = validateSegment({ ...definition, id: draft.id }, segments);
+    if (invalid) {
+      report(false, invalid);
+      return;
+    }
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      // An admin's segment belongs to their direction; a superadmin's is shared with every direction
+      const result = draft.id
+        ? await dataService.updateSegment(draft.id, definition)
+        : await dataService.createSegment({
+            ...definition,
+            direction: user?.role === 'admin' ? user.direction : undefined,
+            createdBy: user?.email
+          });
+      if (!result.ok) {
+        report(false, `Could not save the segment: ${result.error.message}`);
+        return;
+      }
+      console.log('✅ Segment saved:', result.value.name);
+      report(true, `Saved segment "${definition.name}".`);
+      setDraft(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeSegment = async (segment: Segment) => {
+    if (!segment.id) return;
+    if (!window.confirm(`Delete the segment "${segment.name}"? People keep their tags; only the saved rules go.`)) return;
+    setBusy(true);
+    try {
+      const result = await dataService.deleteSegment(segment.id);
+      report(result.ok, result.ok ? `Deleted segment "${segment.name}".` : `Could not delete the segment: ${result.error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Renaming onto an existing tag merges the two; removing is a rename to nothing
+  const retag = async (tag: string, to: string) => {
+    const updates = retagUpdates(people, tag, to);
+    if (updates.length === 0) return;
+    const action = to ? `rename "${tag}" to "${to}"` : `remove "${tag}"`;
+    if (!window.confirm(`This will ${action} for ${updates.length} people. Continue?`)) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { written, failure } = await writeUpdates(updates);
+      console.log(`✅ Retagged ${written} of ${updates.length} people`);
+      report(!failure, failure
+        ? `Updated ${written} of ${updates.length} people before an error: ${failure}`
+        : `Updated ${written} people.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renameTag = (tag: string) => {
+    const name = window.prompt(`Rename the tag "${tag}" to (an existing tag merges them):`, tag)?.trim();
+    if (!name || name === tag) return;
+    retag(tag, name);
+  };
+
+  const loadError = (segmentsQuery.error && !segmentsQuery.data) ? segmentsQuery.error : (peopleQuery.error && !peopleQuery.data) ? peopleQuery.error : null;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold text-gray-900">
+            <Target className="h-7 w-7 text-primary-600" /> Tags & Segments
+          </h1>
+          <p className="mt-1 text-gray-600">
+            Segments are saved rules over person fields and tags. Their members are whoever matches when the segment is
+            used, so they stay current as people are added and edited.
+          </p>
+        </div>
+
+        {message && (
+          <div className={`rounded border p-3 text-sm ${message.tone === 'success' ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+        {!isOnline && (
+          <div className="rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            Changing segments and tags needs a connection.
+          </div>
+        )}
+
+        <div className="flex gap-2 border-b border-gray-200">
+          {([['segments', `Segments (${segments.length})`], ['tags', `Tags (${tags.length})`]] as [Tab, string][]).map(([option, label]) => (
+            <button
+              key={option}
+              onClick={() => setTab(option)}
+              className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium ${tab === option ? 'border-primary-600 text-primary-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {loadError ? (
+          <ErrorState error={loadError} title="Could not load segments" onRetry={() => Promise.all([segmentsQuery.refetch(), peopleQuery.refetch()])} />
+        ) : segmentsQuery.loading || peopleQuery.loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : tab === 'segments' ? (
+          <>
+            {draft ? (
+              <form onSubmit={saveSegment} className="card space-y-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-gray-900">{draft.id ? `Edit ${draft.name}` : 'New segment'}</h2>
+                  <button type="button" onClick={() => setDraft(null)} className="text-gray-400 hover:text-gray-600">
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                  <label className="block">
+                    <span className="mb-1 block font-medium text-gray-700">Name</span>
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={event => {
+                        const name = event.target.value;
+                        setDraft(prev => prev && { ...prev, name });
+                      }}
+                      placeholder="e.g. Seniors needing pension help"
+                      className="input-field"
+                      autoFocus
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="mb-1 block font-medium text-gray-700">Description</span>
+                    <input
+                      type="text"
+                      value={draft.description}
+                      onChange={event => {
+                        const description = event.target.value;
+                        setDraft(prev => prev && { ...prev, description });
+                      }}
+                      placeholder="Optional"
+                      className="input-field"
+                    />
+                  </label>
+                </div>
+
+                <FilterBuilder
+                  conditions={draft.conditions}
+                  match={draft.match}
+                  customFields={customConditionFields}
+                  tags={tagNames}
+                  applyLabel="Use these rules"
+                  onApply={(conditions, match) => setDraft(prev => prev && { ...prev, conditions: conditions.filter(isActiveCondition), match })}
+                />
+                <p className="text-gray-600">
+                  {describeRule({ conditions: draft.conditions, match: draft.match }, definitions)} - {draftMembers} people match right now.
+                  <span className="block text-xs text-gray-500">Click "Use these rules" after changing conditions.</span>
+                </p>
+
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={() => setDraft(null)} className="btn-secondary">Cancel</button>
+                  <button type="submit" disabled={busy || !isOnline} className="btn-primary">{busy ? 'Saving...' : 'Save segment'}</button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex justify-end">
+                <button onClick={() => openDraft(EMPTY_DRAFT)} disabled={!isOnline} className="btn-primary flex items-center gap-1">
+                  <Plus className="h-4 w-4" /> New segment
+                </button>
+              </div>
+            )}
+
+            {segments.length === 0 ? (
+              <div className="card text-sm text-gray-500">
+                No segments yet. A segment can be used as the audience in Messages and as a filter on People and the dashboard.
+              </div>
+            ) : (
+              <div className="card overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="text-xs uppercase text-gray-500">
+                    <tr>
+                      <th className="py-2 pr-2">Segment</th>
+                      <th className="py-2 pr-2">Members</th>
+                      <th className="py-2 pr-2">Shared with</th>
+                      <th className="py-2 pr-2 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {segments.map(segment => (
+                      <tr key={segment.id || segment.name} className="border-t border-gray-100">
+                        <td className="py-2 pr-2">
+                          <span className="font-medium text-gray-900">{segment.name}</span>
+                          {segment.description && <span className="block text-gray-600">{segment.description}</span>}
+                          <span className="block text-xs text-gray-500">{describeRule(segmentRule(segment), definitions)}</span>
+                        </td>
+                        <td className="py-2 pr-2">{memberCounts.get(segment.id) ?? 0}</td>
+                        <td className="py-2 pr-2">{segment.direction || 'Every direction'}</td>
+                        <td className="py-2 pr-2">
+                          <div className="flex justify-end gap-1">
+                            <Link to={`/people?segmentId=${encodeURIComponent(segment.id || '')}`} className="p-1 text-gray-600 hover:text-gray-900" title="Show in People">
+                              <Users className="h-4 w-4" />
+                            </Link>
+                            <Link to={`/messages?segment=${encodeURIComponent(segment.id || '')}`} className="p-1 text-green-600 hover:text-green-800" title="Message this segment">
+                              <MessageSquare className="h-4 w-4" />
+                            </Link>
+                            {canEditSegment(segment, user) && (
+                              <>
+                                <button onClick={() => openDraft(toDraft(segment))} disabled={busy} className="p-1 text-primary-600 hover:text-primary-800" title="Edit segment">
+                                  <Edit className="h-4 w-4" />
+                                </button>
+                                <button onClick={() => removeSegment(segment)} disabled={busy || !isOnline} className="p-1 text-red-600 hover:text-red-800" title="Delete segment">
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="card overflow-x-auto">
+            <p className="mb-3 text-sm text-gray-600">
+              Tags are added on the add form, in the People Tags column and with bulk edit.
+              {user?.role === 'admin' && ` Renaming or removing a tag here changes ${user.direction} people only.`}
+            </p>
+            {tags.length === 0 ? (
+              <p className="text-sm text-gray-500">No one is tagged yet.</p>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs uppercase text-gray-500">
+                  <tr>
+                    <th className="py-2 pr-2">Tag</th>
+                    <th className="py-2 pr-2">People</th>
+                    <th className="py-2 pr-2 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tags.map(({ tag, count }) => (
+                    <tr key={tag} className="border-t border-gray-100">
+                      <td className="py-2 pr-2">
+                        <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-3 py-1 text-gray-700">
+                          <Tags className="h-3 w-3" /> {tag}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-2">{count}</td>
+                      <td className="py-2 pr-2">
+                        <div className="flex justify-end gap-1">
+                          <Link to={tagPeopleUrl(tag)} className="p-1 text-gray-600 hover:text-gray-900" title="Show in People">
+                            <Users className="h-4 w-4" />
+                          </Link>
+                          <button onClick={() => renameTag(tag)} disabled={busy || !isOnline} className="p-1 text-primary-600 hover:text-primary-800" title="Rename or merge tag">
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button onClick={() => retag(tag, '')} disabled={busy || !isOnline} className="p-1 text-red-600 hover:text-red-800" title="Remove tag from everyone">
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Segments;
@@ -2,8 +2,10 @@
 import React, { useState } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import Layout from '../components/Layout/Layout';
+import CustomFieldsManager from '../components/CustomFieldsManager';
 import { useForm } from 'react-hook-form';
-import { Settings as SettingsIcon, User, Lock, Save } from 'lucide-react';
+import { Settings as SettingsIcon, User, Lock, Save, Server, AlertTriangle } from 'lucide-react';
+import { appConfig, configIssues, DATA_RESOURCES, resolveDataSourceKind } from '../config/appConfig';
 
 interface PasswordForm {
   currentPassword: string;
@@ -28,11 +30,11 @@ const Settings: React.FC = () => {
       // ✅ Use your AuthContext changePassword function
       const result = await changePassword(data.currentPassword, data.newPassword);
       
-      if (result.success) {
+      if (result.ok) {
         setMessage('Password updated successfully!');
         reset(); // Clear the form
       } else {
-        setMessage(result.message || 'Error updating password. Please try again.');
+        setMessage(result.error.message);
       }
     } catch (error: any) {
       console.error('Password change error:', error);
@@ -210,6 +212,57 @@ const Settings: React.FC = () => {
           )}
         </div>
 
+        {/* ✅ Active endpoints - superadmins only, so support can see which backend a build talks to */}
+        {user?.role === 'superadmin' && (
+          <div className="card">
+            <h3 className="text-lg font-semibold mb-4 flex items-center">
+              <Server className="h-5 w-5 mr-2" />
+              Endpoints
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600">Profile</p>
+                <p className="font-medium capitalize">
+                  {appConfig.profile}
+                  {appConfig.useMockApi && <span className="ml-2 text-xs text-amber-700">(mock backend)</span>}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-600">Data source</p>
+                <p className="font-medium">
+                  {DATA_RESOURCES.map(resource => `${resource}: ${resolveDataSourceKind(resource)}`).join(' · ')}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-600">REST API</p>
+                <p className="font-mono text-xs break-all">{appConfig.apiBaseUrl}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Google Apps Script</p>
+                <p className="font-mono text-xs break-all">{appConfig.sheetsScriptUrl}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Recycle bin retention</p>
+                <p className="font-medium">
+                  {appConfig.recycleRetentionDays > 0 ? `${appConfig.recycleRetentionDays} days` : 'Kept until purged by hand'}
+                </p>
+              </div>
+            </div>
+            {configIssues.length > 0 && (
+              <ul className="mt-4 space-y-1 text-xs">
+                {configIssues.map(issue => (
+                  <li key={`${issue.key}-${issue.message}`} className="flex items-center text-amber-800">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    <code className="mr-1">{issue.key}</code> {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {user?.role === 'superadmin' && <CustomFieldsManager />}
+
         {/* System Information */}
         <div className="card">
           <h3 className="text-lg font-semibold mb-4">System Information</h3>
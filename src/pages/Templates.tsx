@@ -1,47 +1,37 @@
 // src/pages/Templates.tsx - COMPLETE UPDATED VERSION WITH IMPROVED TYPE SAFETY
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '../hooks/useAuth';
-import { sheetsService } from '../services/googleSheets';
+import { dataService } from '../services/dataSource';
+import { useTemplatesQuery } from '../hooks/useQuery';
 import Layout from '../components/Layout/Layout';
+import ErrorState from '../components/ErrorState';
 import { useForm } from 'react-hook-form';
 import { Plus, FileText, Edit, Trash2, X } from 'lucide-react';
 import type { Template } from '../types';
-import { convertToTemplates, ensureArray, handleApiError } from '../utils/typeHelpers';
+import { handleApiError } from '../utils/typeHelpers';
 
 interface TemplateForm {
   title: string;
   body: string;
 }
 
+const NO_TEMPLATES: Template[] = [];
+
 const Templates: React.FC = () => {
   const { user } = useAuth();
-  const [templates, setTemplates] = useState<Template[]>([]);
-  const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState<string | null>(null);
   const [submitLoading, setSubmitLoading] = useState(false); // ✅ Added submit loading state
   const { register, handleSubmit, reset, formState: { errors } } = useForm<TemplateForm>();
 
-  useEffect(() => {
-    fetchTemplates();
-  }, []);
+  // ✅ Templates come from the shared query cache; writes invalidate it through dataService
+  const { data: templates = NO_TEMPLATES, loading, error: loadError, refetch } = useTemplatesQuery();
 
   const fetchTemplates = async () => {
     try {
-      setLoading(true);
-      const response = await sheetsService.getTemplates();
-      
-      // ✅ Improved: Handle both object and array responses safely
-      const rawData = response?.data || response || [];
-      const dataArray = ensureArray(rawData);
-      
-      setTemplates(convertToTemplates(dataArray));
+      await refetch();
     } catch (error) {
       console.error('Error fetching templates:', error);
-      const errorMessage = handleApiError(error);
-      alert(`Failed to fetch templates: ${errorMessage}`);
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -53,7 +43,10 @@ const Templates: React.FC = () => {
         createdBy: user?.email || 'unknown@example.com'
       };
       
-      await sheetsService.createTemplate(templateData);
+      const result = await dataService.createTemplate(templateData);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
       setShowModal(false);
       reset();
       await fetchTemplates(); // Refresh the list
@@ -72,7 +65,7 @@ const Templates: React.FC = () => {
   // ✅ IMPROVED: Delete template function with better error handling
   const handleDeleteTemplate = async (template: Template, templateTitle: string) => {
     const confirmed = window.confirm(
-      `Are you sure you want to delete the template "${templateTitle}"? This action cannot be undone.`
+      `Move the template "${templateTitle}" to the recycle bin? A superadmin can restore it until it is purged.`
     );
     
     if (!confirmed) return;
@@ -85,13 +78,16 @@ const Templates: React.FC = () => {
       console.log('🗑️ Attempting to delete template:', templateId);
       
       // Call the delete service with template ID
-      await sheetsService.deleteTemplate(templateId);
+      const result = await dataService.deleteTemplate(templateId);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
       
       // Refresh the templates list
       await fetchTemplates();
       
       console.log('✅ Template deleted successfully');
-      alert('Template deleted successfully!');
+      alert('Template moved to the recycle bin.');
     } catch (error) {
       console.error('❌ Error deleting template:', error);
       const errorMessage = handleApiError(error);
@@ -108,6 +104,14 @@ const Templates: React.FC = () => {
     alert('Edit functionality coming soon!');
   };
 
+  if (loadError && templates === NO_TEMPLATES) {
+    return (
+      <Layout>
+        <ErrorState error={loadError} title="Could not load templates" onRetry={refetch} />
+      </Layout>
+    );
+  }
+
   if (loading) {
     return (
       <Layout>
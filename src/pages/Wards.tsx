@@ -0,0 +1,448 @@
+// src/pages/Wards.tsx - Superadmin master data for wards and streets, plus clean-up of hand-typed values
+import React, { useMemo, useState } from 'react';
+import { Edit, Map as MapIcon, Plus, Shield, Trash2, Wand2, X } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOutbox } from '../hooks/useOutbox';
+import { usePeopleQuery, useWardsQuery } from '../hooks/useQuery';
+import { dataService } from '../services/dataSource';
+import { createIdempotencyKey } from '../utils/idempotency';
+import { DIRECTIONS } from '../utils/typeHelpers';
+import { remapUpdates, streetRemapEntries, streetsOfWard, wardRemapEntries } from '../utils/wards';
+import type { RemapEntry } from '../utils/wards';
+import Layout from '../components/Layout/Layout';
+import ErrorState from '../components/ErrorState';
+import type { Person, Street, Ward } from '../types';
+
+type Tab = 'wards' | 'normalise';
+
+const NO_PEOPLE: Person[] = [];
+const NO_WARDS: Ward[] = [];
+const NO_STREETS: Street[] = [];
+
+// Same batch size as bulk edit; each person still gets an audit event
+const REMAP_BATCH_SIZE = 100;
+
+const entryKey = (entry: RemapEntry) => `${entry.field}:${entry.ward || ''}:${entry.value}`;
+
+// ✅ Writes the changed field for each person in batches; stops at the first failed batch
+const writeUpdates = async (updates: Partial<Person>[]): Promise<{ written: number; failure?: string }> => {
+  let written = 0;
+  for (let start = 0; start < updates.length; start += REMAP_BATCH_SIZE) {
+    const batch = updates.slice(start, start + REMAP_BATCH_SIZE);
+    const result = await dataService.updatePeople(batch, { idempotencyKey: createIdempotencyKey() });
+    if (!result.ok) {
+      console.error('❌ Ward/street remap batch failed:', result.error.message);
+      return { written: written + (result.partial?.length || 0), failure: result.error.message };
+    }
+    written += batch.length;
+  }
+  return { written };
+};
+
+const Wards: React.FC = () => {
+  const { user } = useAuth();
+  const { isOnline } = useOutbox();
+  const wardsQuery = useWardsQuery();
+  const peopleQuery = usePeopleQuery();
+  const wards = wardsQuery.data?.wards || NO_WARDS;
+  const streets = wardsQuery.data?.streets || NO_STREETS;
+  const people = peopleQuery.data || NO_PEOPLE;
+
+  const [tab, setTab] = useState<Tab>('wards');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+  const [newWard, setNewWard] = useState<{ name: string; direction: string }>({ name: '', direction: '' });
+  const [editingWard, setEditingWard] = useState<Ward | null>(null);
+  const [newStreets, setNewStreets] = useState<Record<string, string>>({});
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  const peopleByWard = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const person of people) {
+      const ward = String(person.ward ?? '').trim();
+      counts.set(ward, (counts.get(ward) || 0) + 1);
+    }
+    return counts;
+  }, [people]);
+
+  const wardEntries = useMemo(() => wardRemapEntries(people, wards), [people, wards]);
+  const streetEntries = useMemo(() => streetRemapEntries(people, wards, streets), [people, wards, streets]);
+
+  const report = (ok: boolean, text: string) => setMessage({ tone: ok ? 'success' : 'error', text });
+
+  // Runs one write at a time and reports its failure; returns whether it worked
+  const run = async (action: () => Promise<{ ok: boolean; error?: { message: string } }>, failure: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (!result.ok) report(false, `${failure}: ${result.error?.message || 'unknown error'}`);
+      return result.ok;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Renaming a ward or street offers to move the people who carry the old name along with it
+  const movePeople = async (entry: Pick<RemapEntry, 'field' | 'value' | 'ward'>, target: string) => {
+    const updates = remapUpdates(people, entry, target);
+    if (updates.length === 0) return;
+    if (!window.confirm(`Also change the ${entry.field} of ${updates.length} people from "${entry.value}" to "${target}"?`)) return;
+    setBusy(true);
+    try {
+      const { written, failure } = await writeUpdates(updates);
+      report(!failure, failure
+        ? `Updated ${written} of ${updates.length} people before an error: ${failure}`
+        : `Updated ${written} people to ${entry.field} "${target}".`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addWard = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newWard.name.trim();
+    if (!name) return;
+    if (wards.some(ward => ward.name.toLowerCase() === name.toLowerCase())) {
+      report(false, `Ward "${name}" already exists.`);
+      return;
+    }
+    const ok = await run(
+      () => dataService.createWard({ name, direction: newWard.direction || undefined, createdBy: user?.email }),
+      'Could not add the ward'
+    );
+    if (ok) {
+      setNewWard({ name: '', direction: '' });
+      report(true, `Added ward ${name}.`);
+    }
+  };
+
+  const saveWard = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!editingWard?.id) return;
+    const before = wards.find(ward => ward.id === editingWard.id);
+    const name = editingWard.name.trim();
+    if (!name) return;
+    const ok = await run(
+      () => dataService.updateWard(editingWard.id!, { name, direction: editingWard.direction || '' }),
+      'Could not save the ward'
+    );
+    if (!ok) return;
+    setEditingWard(null);
+    if (before && before.name !== name) await movePeople({ field: 'ward', value: before.name }, name);
+  };
+
+  const deleteWard = async (ward: Ward) => {
+    const wardStreets = streetsOfWard(streets, ward);
+    const confirmed = window.confirm(
+      `Delete ward ${ward.name}${wardStreets.length ? ` and its ${wardStreets.length} streets` : ''}? ` +
+      'People keep the ward and street they have now; it just stops being offered in the forms.'
+    );
+    if (!confirmed || !ward.id) return;
+    const ok = await run(async () => {
+      for (const street of wardStreets) {
+        const result = await dataService.deleteStreet(street.id!);
+        if (!result.ok) return result;
+      }
+      return dataService.deleteWard(ward.id!);
+    }, `Could not delete ward ${ward.name}`);
+    if (ok) report(true, `Deleted ward ${ward.name}.`);
+  };
+
+  const addStreet = async (ward: Ward) => {
+    const name = (newStreets[ward.id!] || '').trim();
+    if (!name) return;
+    if (streetsOfWard(streets, ward).some(street => street.name.toLowerCase() === name.toLowerCase())) {
+      report(false, `Ward ${ward.name} already has ${name}.`);
+      return;
+    }
+    const ok = await run(
+      () => dataService.createStreet({ name, wardId: ward.id!, createdBy: user?.email }),
+      'Could not add the street'
+    );
+    if (ok) setNewStreets(prev => ({ ...prev, [ward.id!]: '' }));
+  };
+
+  const renameStreet = async (ward: Ward, street: Street) => {
+    const name = window.prompt(`Rename ${street.name} in ward ${ward.name} to:`, street.name)?.trim();
+    if (!name || name === street.name || !street.id) return;
+    const ok = await run(() => dataService.updateStreet(street.id!, { name }), 'Could not rename the street');
+    if (ok) await movePeople({ field: 'street', value: street.name, ward: ward.name }, name);
+  };
+
+  const deleteStreet = async (ward: Ward, street: Street) => {
+    if (!street.id || !window.confirm(`Remove ${street.name} from ward ${ward.name}? People keep it as typed.`)) return;
+    await run(() => dataService.deleteStreet(street.id!), 'Could not remove the street');
+  };
+
+  // ✅ Normaliser: every person carrying the hand-typed value gets the chosen master name
+  const targetOf = (entry: RemapEntry) => targets[entryKey(entry)] ?? entry.suggestion ?? '';
+
+  const applyRemap = async (entries: RemapEntry[]) => {
+    const updates = entries.flatMap(entry => (targetOf(entry) ? remapUpdates(people, entry, targetOf(entry)) : []));
+    if (updates.length === 0) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { written, failure } = await writeUpdates(updates);
+      console.log(`✅ Normalised ${written} of ${updates.length} people`);
+      report(!failure, failure
+        ? `Updated ${written} of ${updates.length} people before an error: ${failure}`
+        : `Updated ${written} people.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (user?.role !== 'superadmin') {
+    return (
+      <Layout>
+        <div className="flex min-h-96 flex-col items-center justify-center p-6 text-center">
+          <div className="mb-6 rounded-full bg-red-100 p-4">
+            <Shield className="h-12 w-12 text-red-600" />
+          </div>
+          <h2 className="mb-2 text-2xl font-bold text-gray-900">Access Denied</h2>
+          <p className="text-gray-500">Only Super Admins can manage wards and streets.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const renderRemapTable = (entries: RemapEntry[], title: string) => (
+    <div className="card overflow-x-auto">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">{title}</h2>
+        <button
+          onClick={() => applyRemap(entries)}
+          disabled={busy || !isOnline || !entries.some(entry => targetOf(entry))}
+          className="btn-primary flex items-center gap-1 py-1 text-sm"
+        >
+          <Wand2 className="h-4 w-4" /> Apply all chosen
+        </button>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Every value already matches the master list.</p>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs uppercase text-gray-500">
+            <tr>
+              <th className="py-2 pr-2">Typed value</th>
+              {entries[0].field === 'street' && <th className="py-2 pr-2">Ward</th>}
+              <th className="py-2 pr-2">People</th>
+              <th className="py-2 pr-2">Change to</th>
+              <th className="py-2 pr-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => {
+              const options = entry.field === 'ward'
+                ? wards.map(ward => ward.name)
+                : streetsOfWard(streets, wards.find(ward => ward.name === entry.ward)).map(street => street.name);
+              return (
+                <tr key={entryKey(entry)} className="border-t border-gray-100">
+                  <td className="py-2 pr-2 font-mono">"{entry.value}"</td>
+                  {entry.field === 'street' && <td className="py-2 pr-2">{entry.ward}</td>}
+                  <td className="py-2 pr-2">{entry.count}</td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={targetOf(entry)}
+                      onChange={event => setTargets(prev => ({ ...prev, [entryKey(entry)]: event.target.value }))}
+                      className="input-field w-48 py-1"
+                    >
+                      <option value="">Leave as typed</option>
+                      {options.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                    {entry.suggestion && targetOf(entry) === entry.suggestion && <span className="ml-2 text-xs text-gray-500">suggested</span>}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    <button
+                      onClick={() => applyRemap([entry])}
+                      disabled={busy || !isOnline || !targetOf(entry)}
+                      className="btn-secondary py-1 text-xs"
+                    >
+                      Apply
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  const loadError = (wardsQuery.error && !wardsQuery.data) ? wardsQuery.error : (peopleQuery.error && !peopleQuery.data) ? peopleQuery.error : null;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold text-gray-900">
+            <MapIcon className="h-7 w-7 text-primary-600" /> Wards & Streets
+          </h1>
+          <p className="mt-1 text-gray-600">
+            The wards and streets offered in the People forms. People store the names, so renaming one can update them too.
+          </p>
+        </div>
+
+        {message && (
+          <div className={`rounded border p-3 text-sm ${message.tone === 'success' ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+        {!isOnline && (
+          <div className="rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            Changing wards and streets needs a connection.
+          </div>
+        )}
+
+        <div className="flex gap-2 border-b border-gray-200">
+          {([['wards', `Wards (${wards.length})`], ['normalise', `Normalise values (${wardEntries.length + streetEntries.length})`]] as [Tab, string][]).map(([option, label]) => (
+            <button
+              key={option}
+              onClick={() => setTab(option)}
+              className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium ${tab === option ? 'border-primary-600 text-primary-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {loadError ? (
+          <ErrorState error={loadError} title="Could not load wards" onRetry={() => Promise.all([wardsQuery.refetch(), peopleQuery.refetch()])} />
+        ) : wardsQuery.loading || peopleQuery.loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : tab === 'wards' ? (
+          <>
+            <form onSubmit={addWard} className="card flex flex-wrap items-end gap-3 text-sm">
+              <label className="block">
+                <span className="mb-1 block font-medium text-gray-700">Ward name</span>
+                <input
+                  type="text"
+                  value={newWard.name}
+                  onChange={event => setNewWard(prev => ({ ...prev, name: event.target.value }))}
+                  placeholder="e.g. 5"
+                  className="input-field w-40"
+                />
+              </label>
+              <label className="block">
+                <span className="mb-1 block font-medium text-gray-700">Direction</span>
+                <select
+                  value={newWard.direction}
+                  onChange={event => setNewWard(prev => ({ ...prev, direction: event.target.value }))}
+                  className="input-field w-40"
+                >
+                  <option value="">Any</option>
+                  {DIRECTIONS.map(direction => <option key={direction} value={direction}>{direction}</option>)}
+                </select>
+              </label>
+              <button type="submit" disabled={busy || !isOnline || !newWard.name.trim()} className="btn-primary flex items-center gap-1">
+                <Plus className="h-4 w-4" /> Add ward
+              </button>
+            </form>
+
+            {wards.length === 0 ? (
+              <div className="card text-sm text-gray-500">
+                No wards yet. Until some are added, the People forms keep free-text ward and street inputs.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {wards.map(ward => (
+                  <div key={ward.id || ward.name} className="card text-sm">
+                    {editingWard && editingWard.id === ward.id ? (
+                      <form onSubmit={saveWard} className="flex flex-wrap items-center gap-2">
+                        <input
+                          type="text"
+                          value={editingWard.name}
+                          onChange={event => {
+                            const name = event.target.value;
+                            setEditingWard(prev => prev && { ...prev, name });
+                          }}
+                          className="input-field w-40 py-1"
+                          autoFocus
+                        />
+                        <select
+                          value={editingWard.direction || ''}
+                          onChange={event => {
+                            const direction = event.target.value;
+                            setEditingWard(prev => prev && { ...prev, direction });
+                          }}
+                          className="input-field w-36 py-1"
+                        >
+                          <option value="">Any direction</option>
+                          {DIRECTIONS.map(direction => <option key={direction} value={direction}>{direction}</option>)}
+                        </select>
+                        <button type="submit" disabled={busy || !isOnline} className="btn-primary py-1">Save</button>
+                        <button type="button" onClick={() => setEditingWard(null)} className="btn-secondary py-1">Cancel</button>
+                      </form>
+                    ) : (
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div>
+                          <span className="text-base font-semibold text-gray-900">Ward {ward.name}</span>
+                          <span className="ml-2 text-gray-500">{ward.direction || 'Any direction'}</span>
+                          <span className="ml-2 text-xs text-gray-500">{peopleByWard.get(ward.name) || 0} people</span>
+                        </div>
+                        <div className="flex gap-1">
+                          <button onClick={() => setEditingWard(ward)} disabled={busy} className="p-1 text-primary-600 hover:text-primary-800" title="Edit ward">
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button onClick={() => deleteWard(ward)} disabled={busy || !isOnline} className="p-1 text-red-600 hover:text-red-800" title="Delete ward">
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      {streetsOfWard(streets, ward).map(street => (
+                        <span key={street.id || street.name} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-3 py-1 text-gray-700">
+                          <button type="button" onClick={() => renameStreet(ward, street)} disabled={busy || !isOnline} className="hover:underline" title="Rename street">
+                            {street.name}
+                          </button>
+                          <button type="button" onClick={() => deleteStreet(ward, street)} disabled={busy || !isOnline} className="text-gray-400 hover:text-red-600" title="Remove street">
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      ))}
+                      <form
+                        onSubmit={event => {
+                          event.preventDefault();
+                          addStreet(ward);
+                        }}
+                        className="flex items-center gap-1"
+                      >
+                        <input
+                          type="text"
+                          value={newStreets[ward.id!] || ''}
+                          onChange={event => setNewStreets(prev => ({ ...prev, [ward.id!]: event.target.value }))}
+                          placeholder="Add street"
+                          className="input-field w-40 py-1"
+                        />
+                        <button type="submit" disabled={busy || !isOnline || !(newStreets[ward.id!] || '').trim()} className="p-1 text-primary-600 hover:text-primary-800" title="Add street">
+                          <Plus className="h-4 w-4" />
+                        </button>
+                      </form>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Ward and street values that are not a master name yet, with a suggestion where the spelling is close
+              ("Ward 05" → 5, "Gandhi St" → Gandhi Street). Streets are checked under wards that already match.
+              Each change is saved like a bulk edit, so every person gets an audit event.
+            </p>
+            {renderRemapTable(wardEntries, 'Ward values')}
+            {renderRemapTable(streetEntries, 'Street values')}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Wards;
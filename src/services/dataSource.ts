@@ -0,0 +1,579 @@
+// src/services/dataSource.ts - UNIFIED DATA SOURCE (Google Sheets or REST backend)
+import { sheetsService } from './googleSheets';
+import { databaseService } from './database';
+import type { Person, User, Message, Template, Household, AuditEvent, CustomField, Ward, Street, Segment } from '../types';
+import {
+  parsePeople,
+  parseUsers,
+  parseMessages,
+  parseTemplates,
+  parseHouseholds,
+  parseAuditEvents,
+  parseCustomFields,
+  parseWards,
+  parseStreets,
+  parseSegments,
+  ensureArray
+} from '../utils/typeHelpers';
+import type { ParseResult, ValidationReport } from '../utils/schema';
+import type { WriteOptions } from '../utils/idempotency';
+import { matchesDeleted } from '../utils/peopleQuery';
+import type { DeletedFilter, PageInfo, PeopleQuery } from '../utils/peopleQuery';
+import { errorFromException, fail, ok } from '../utils/result';
+import type { Result } from '../utils/result';
+import { buildAuditEvent, buildMergeEvent, buildRevealEvent } from '../utils/audit';
+import { maskingPolicyFor } from '../utils/masking';
+import { invalidateQueries } from './queryCache';
+import { appConfig, resolveDataSourceKind } from '../config/appConfig';
+import type { DataResource, DataSourceKind } from '../config/appConfig';
+
+export type { DataResource, DataSourceKind };
+
+// Lists also carry the parse report and, for paged reads, where the page sits in the full result
+export type ListResult<T> = Result<T[]> & {
+  report?: ValidationReport;   // rows rejected or flagged while parsing
+  pageInfo?: PageInfo;
+};
+
+// ✅ The one interface pages talk to - they never know where the data lives
+export interface DataSource {
+  getPeople(query?: PeopleQuery): Promise<ListResult<Person>>;
+  createPerson(person: Partial<Person>, options?: WriteOptions): Promise<Result<Person>>;
+  updatePerson(id: string, person: Partial<Person>, options?: WriteOptions): Promise<Result<Person>>;
+  deletePerson(id: string, options?: WriteOptions): Promise<Result<null>>;    // moves them to the recycle bin
+  restorePerson(id: string, options?: WriteOptions): Promise<Result<Person>>;
+  purgePerson(id: string, options?: WriteOptions): Promise<Result<null>>;     // removes the row for good
+  createPeople(people: Partial<Person>[], options?: WriteOptions): Promise<Result<Person[]>>;
+  updatePeople(people: Partial<Person>[], options?: WriteOptions): Promise<Result<Person[]>>;
+
+  getUsers(): Promise<ListResult<User>>;
+  createUser(user: Partial<User>, options?: WriteOptions): Promise<Result<User>>;
+
+  getMessages(): Promise<ListResult<Message>>;
+  createMessage(message: Partial<Message>, options?: WriteOptions): Promise<Result<Message>>;
+
+  getTemplates(options?: { deleted?: DeletedFilter }): Promise<ListResult<Template>>;
+  createTemplate(template: Partial<Template>, options?: WriteOptions): Promise<Result<Template>>;
+  updateTemplate(id: string, template: Partial<Template>, options?: WriteOptions): Promise<Result<Template>>;
+  deleteTemplate(id: string, options?: WriteOptions): Promise<Result<null>>;  // moves it to the recycle bin
+  restoreTemplate(id: string, options?: WriteOptions): Promise<Result<Template>>;
+  purgeTemplate(id: string, options?: WriteOptions): Promise<Result<null>>;
+
+  getHouseholds(): Promise<ListResult<Household>>;
+  createHousehold(household: Partial<Household>, options?: WriteOptions): Promise<Result<Household>>;
+  updateHousehold(id: string, household: Partial<Household>, options?: WriteOptions): Promise<Result<Household>>;
+  deleteHousehold(id: string, options?: WriteOptions): Promise<Result<null>>;
+
+  // Written by the data source itself after every people write, so there is no public create
+  getAuditEvents(): Promise<ListResult<AuditEvent>>;
+  // One reveal event per person; resolves once stored, or kept on this device to be sent with the next event
+  recordReveal(people: (Partial<Person> & { id: string })[], fields: string[], reason: string): Promise<void>;
+  // One merge event on the kept person, naming the record folded into it
+  recordMerge(kept: Partial<Person> & { id: string }, removedId: string): Promise<void>;
+
+  getCustomFields(): Promise<ListResult<CustomField>>;
+  createCustomField(field: Partial<CustomField>, options?: WriteOptions): Promise<Result<CustomField>>;
+  updateCustomField(id: string, field: Partial<CustomField>, options?: WriteOptions): Promise<Result<CustomField>>;
+  deleteCustomField(id: string, options?: WriteOptions): Promise<Result<null>>;
+
+  getWards(): Promise<ListResult<Ward>>;
+  createWard(ward: Partial<Ward>, options?: WriteOptions): Promise<Result<Ward>>;
+  updateWard(id: string, ward: Partial<Ward>, options?: WriteOptions): Promise<Result<Ward>>;
+  deleteWard(id: string, options?: WriteOptions): Promise<Result<null>>;
+  getStreets(): Promise<ListResult<Street>>;
+  createStreet(street: Partial<Street>, options?: WriteOptions): Promise<Result<Street>>;
+  updateStreet(id: string, street: Partial<Street>, options?: WriteOptions): Promise<Result<Street>>;
+  deleteStreet(id: string, options?: WriteOptions): Promise<Result<null>>;
+
+  getSegments(): Promise<ListResult<Segment>>;
+  createSegment(segment: Partial<Segment>, options?: WriteOptions): Promise<Result<Segment>>;
+  updateSegment(id: string, segment: Partial<Segment>, options?: WriteOptions): Promise<Result<Segment>>;
+  deleteSegment(id: string, options?: WriteOptions): Promise<Result<null>>;
+
+  testConnection(): Promise<Result<unknown>>;
+}
+
+// Raw payload shared by sheetsService and databaseService
+interface RawPayload extends Partial<PageInfo> {
+  data?: Record<string, unknown>[] | Record<string, unknown>;
+  previous?: Record<string, unknown>;   // single writes: the stored row before the change, if the backend sends it
+}
+
+type RawResponse = Result<RawPayload>;
+
+// Methods both backends expose with identical signatures
+interface RawBackend {
+  getPeople(query?: PeopleQuery): Promise<RawResponse>;
+  createPerson(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  updatePerson(id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  deletePerson(id: string, options?: WriteOptions): Promise<RawResponse>;
+  createPeople(data: Record<string, unknown>[], options?: WriteOptions): Promise<RawResponse>;
+  updatePeople(data: Record<string, unknown>[], options?: WriteOptions): Promise<RawResponse>;
+  getUsers(): Promise<RawResponse>;
+  createUser(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  getMessages(): Promise<RawResponse>;
+  createMessage(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  getTemplates(): Promise<RawResponse>;
+  createTemplate(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  updateTemplate(id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  deleteTemplate(id: string, options?: WriteOptions): Promise<RawResponse>;
+  getHouseholds(): Promise<RawResponse>;
+  createHousehold(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  updateHousehold(id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  deleteHousehold(id: string, options?: WriteOptions): Promise<RawResponse>;
+  getAuditEvents(): Promise<RawResponse>;
+  createAuditEvents(data: Record<string, unknown>[], options?: WriteOptions): Promise<RawResponse>;
+  getCustomFields(): Promise<RawResponse>;
+  createCustomField(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  updateCustomField(id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  deleteCustomField(id: string, options?: WriteOptions): Promise<RawResponse>;
+  getWards(): Promise<RawResponse>;
+  createWard(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  updateWard(id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  deleteWard(id: string, options?: WriteOptions): Promise<RawResponse>;
+  getStreets(): Promise<RawResponse>;
+  createStreet(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  updateStreet(id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  deleteStreet(id: string, options?: WriteOptions): Promise<RawResponse>;
+  getSegments(): Promise<RawResponse>;
+  createSegment(data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  updateSegment(id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<RawResponse>;
+  deleteSegment(id: string, options?: WriteOptions): Promise<RawResponse>;
+  testConnection(): Promise<RawResponse>;
+}
+
+const backends: Record<DataSourceKind, RawBackend> = {
+  sheets: sheetsService,
+  rest: databaseService
+};
+
+// ✅ VITE_DATA_SOURCE picks the default backend; VITE_DATA_SOURCE_<RESOURCE> overrides one resource
+// so we can move e.g. people to REST while messages still live in Sheets (resolved in appConfig).
+export { resolveDataSourceKind };
+
+// Backends resolve to a Result, but guard anyway so a bug in one never throws into a page
+const call = async (label: string, fn: () => Promise<RawResponse>): Promise<RawResponse> => {
+  try {
+    return await fn();
+  } catch (error: unknown) {
+    const apiError = errorFromException(error);
+    console.error(`❌ ${label} failed:`, apiError.message);
+    return fail(apiError);
+  }
+};
+
+const toList = <T>(response: RawResponse, parse: (rows: Record<string, unknown>[]) => ParseResult<T>): ListResult<T> => {
+  if (!response.ok) {
+    // Batch writes may fail part-way; keep whatever the backend reports as written
+    const written = response.partial?.data ? parse(ensureArray(response.partial.data)).records : undefined;
+    return { ok: false, error: response.error, partial: written };
+  }
+  const { records, report } = parse(ensureArray(response.value.data || []));
+  return { ok: true, value: records, message: response.message, report };
+};
+
+const toRecord = <T>(response: RawResponse, fallback: Partial<T>): Result<T> => {
+  if (!response.ok) return { ok: false, error: response.error };
+  const saved = response.value.data && !Array.isArray(response.value.data) ? response.value.data : {};
+  return ok({ ...fallback, ...saved } as T, response.message);
+};
+
+const toEmpty = (response: RawResponse): Result<null> =>
+  response.ok ? ok(null, response.message) : { ok: false, error: response.error };
+
+// ✅ Successful writes mark every cached query for that resource stale
+const invalidating = <R extends { ok: boolean }>(resource: DataResource, response: R): R => {
+  if (response.ok) invalidateQueries(resource);
+  return response;
+};
+
+// A field of the signed-in user, from the session AuthContext keeps in localStorage
+const sessionField = (field: 'email' | 'role'): string | undefined => {
+  try {
+    const stored = localStorage.getItem(appConfig.storageKeys.authUser);
+    const value = stored ? (JSON.parse(stored) as Record<string, unknown>)[field] : undefined;
+    return typeof value === 'string' ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const currentActor = () => sessionField('email');
+
+// Audit events that could not be written yet; sent again ahead of the next ones. Kept per user, so events
+// left by one user are only ever sent under that user's sign-in.
+const AUDIT_PENDING_KEY = 'people_audit_pending';
+const AUDIT_PENDING_LIMIT = 500;
+
+const pendingAuditKey = (actor?: string) => `${AUDIT_PENDING_KEY}:${actor || 'anonymous'}`;
+
+const readEvents = (key: string): AuditEvent[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(parsed) ? parsed as AuditEvent[] : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeEvents = (key: string, events: AuditEvent[]) => {
+  if (events.length === 0) localStorage.removeItem(key);
+  else localStorage.setItem(key, JSON.stringify(events.slice(-AUDIT_PENDING_LIMIT)));
+};
+
+// Events from before the split live under the shared key; each user takes their own over on the next write
+const readPendingAudit = (actor?: string): AuditEvent[] => {
+  const legacy = readEvents(AUDIT_PENDING_KEY);
+  const mine = legacy.filter(event => event.actor === actor);
+  if (mine.length > 0) writeEvents(AUDIT_PENDING_KEY, legacy.filter(event => event.actor !== actor));
+  return [...mine, ...readEvents(pendingAuditKey(actor))];
+};
+
+const writePendingAudit = (actor: string | undefined, events: AuditEvent[]) => writeEvents(pendingAuditKey(actor), events);
+
+// Recycle-bin markers: set on delete, blanked on restore
+const deletedMarker = (): Partial<Person & Template> => ({ deletedAt: new Date().toISOString(), deletedBy: currentActor() || '' });
+const RESTORED = { deletedAt: '', deletedBy: '' };
+
+const idsOf = (rows: Partial<Person>[]) => new Set(rows.map(row => row.id).filter(Boolean));
+
+class RoutedDataSource implements DataSource {
+  // Last version of each person this client read or wrote - the audit "before" when the stored row cannot be read
+  private lastSeen = new Map<string, Person>();
+  // Audit writes run one at a time so a retried batch is never sent twice
+  private auditChain: Promise<void> = Promise.resolve();
+  // Backends that answered a write with the previous row; no read ahead of writes is needed for them
+  private sendsPrevious = new Set<DataSourceKind>();
+
+  private backend(resource: DataResource): RawBackend {
+    return backends[resolveDataSourceKind(resource)];
+  }
+
+  private remember(people: Person[]) {
+    for (const person of people) {
+      if (person.id) this.lastSeen.set(person.id, person);
+    }
+  }
+
+  // ✅ Never holds up or fails the write it describes; events that can't be stored wait on this device
+  private recordAudit(events: (AuditEvent | null)[]): Promise<void> {
+    const fresh = events.filter((event): event is AuditEvent => event !== null);
+    this.auditChain = this.auditChain.then(async () => {
+      const actor = currentActor();
+      const batch = [...readPendingAudit(actor), ...fresh];
+      if (batch.length === 0) return;
+      const response = await call('createAuditEvents', () => this.backend('audit').createAuditEvents(batch));
+      if (response.ok) {
+        writePendingAudit(actor, []);
+        invalidateQueries('audit');
+        return;
+      }
+      const written = new Set(ensureArray(response.partial?.data || []).map(row => row.id));
+      const remaining = batch.filter(event => !written.has(event.id));
+      console.warn('⚠️ Audit events kept on this device until the next write:', remaining.length);
+      writePendingAudit(actor, remaining);
+    }).catch(error => {
+      // A failure here must not leave the chain rejected, or every later event would be dropped
+      console.error('❌ Could not write or keep audit events:', error);
+    });
+    return this.auditChain;
+  }
+
+  // ✅ The "before" side of audit events is the stored row, which the backend sends back with a single write as
+  // `previous`. Until a backend has done that once, the row is read just before the write instead; batches never
+  // read and use the last seen copies, so a bulk edit doesn't cost a full-sheet download on old scripts.
+  private async rowBeforeWrite(id: string): Promise<Person | undefined> {
+    const seen = this.lastSeen.get(id);
+    if (this.sendsPrevious.has(resolveDataSourceKind('people'))) return seen;
+    const response = await call('getPeople', () => this.backend('people').getPeople({ ids: [id], deleted: 'include' }));
+    const parsed = toList(response, parsePeople);
+    return (parsed.ok && parsed.value.find(person => person.id === id)) || seen;
+  }
+
+  private previousRow(response: RawResponse, fallback: Person | undefined): Person | undefined {
+    if (!response.ok || !response.value.previous) return fallback;
+    this.sendsPrevious.add(resolveDataSourceKind('people'));
+    return parsePeople([response.value.previous]).records[0] || fallback;
+  }
+
+  async getPeople(query?: PeopleQuery): Promise<ListResult<Person>> {
+    // ✅ Identity numbers this role can't reveal are only found by their whole number (the REST backend decides this itself)
+    const scoped: PeopleQuery = { ...query, revealable: [...maskingPolicyFor(sessionField('role')).reveal] };
+    const response = await call('getPeople', () => this.backend('people').getPeople(scoped));
+    const parsed = toList(response, parsePeople);
+    // ✅ A paging server must apply query.deleted itself (unpaged ones get the whole query applied locally).
+    // One that ignores it has its rows filtered here only as a safeguard: that page comes up short and the total
+    // can only be corrected by what this page held, so it is reported rather than hidden.
+    const result = parsed.ok ? { ...parsed, value: parsed.value.filter(person => matchesDeleted(person, query?.deleted)) } : parsed;
+    const dropped = parsed.ok && result.ok ? parsed.value.length - result.value.length : 0;
+    if (dropped > 0) {
+      console.warn(`⚠️ The server ignored deleted=${query?.deleted || 'exclude'}; ${dropped} row(s) dropped after paging`);
+    }
+    if (result.ok) this.remember(result.value);
+    if (!response.ok || typeof response.value.total !== 'number') return result;
+    const { total, page, pageSize, nextCursor } = response.value;
+    // Servers that page but only report the total are on the page that was asked for
+    return {
+      ...result,
+      pageInfo: {
+        total: Math.max(0, total - dropped),
+        page: page ?? query?.page ?? 1,
+        pageSize: pageSize ?? query?.pageSize ?? total,
+        nextCursor
+      }
+    };
+  }
+
+  async createPerson(person: Partial<Person>, options?: WriteOptions) {
+    const response = await call('createPerson', () => this.backend('people').createPerson(person, options));
+    const result = invalidating('people', toRecord<Person>(response, person));
+    if (result.ok && result.value.id) {
+      this.remember([result.value]);
+      this.recordAudit([buildAuditEvent({ action: 'create', personId: result.value.id, written: result.value, actor: currentActor() })]);
+    }
+    return result;
+  }
+
+  async updatePerson(id: string, person: Partial<Person>, options?: WriteOptions) {
+    const stored = await this.rowBeforeWrite(id);
+    const response = await call('updatePerson', () => this.backend('people').updatePerson(id, person, options));
+    const before = this.previousRow(response, stored);
+    const result = invalidating('people', toRecord<Person>(response, { ...person, id }));
+    if (result.ok) {
+      this.remember([{ ...before, ...result.value }]);
+      this.recordAudit([buildAuditEvent({ action: 'update', personId: id, before, written: person, actor: currentActor() })]);
+    }
+    return result;
+  }
+
+  // ✅ Delete only marks the row; it stays in the recycle bin until restored or purged
+  async deletePerson(id: string, options?: WriteOptions) {
+    const stored = await this.rowBeforeWrite(id);
+    const marker = deletedMarker();
+    const response = await call('deletePerson', () => this.backend('people').updatePerson(id, marker, options));
+    const before = this.previousRow(response, stored);
+    const result = invalidating('people', toEmpty(response));
+    if (result.ok) {
+      this.remember([{ ...before, ...marker, id } as Person]);
+      this.recordAudit([buildAuditEvent({ action: 'delete', personId: id, before, written: marker, actor: currentActor() })]);
+    }
+    return result;
+  }
+
+  async restorePerson(id: string, options?: WriteOptions) {
+    const stored = await this.rowBeforeWrite(id);
+    const response = await call('restorePerson', () => this.backend('people').updatePerson(id, RESTORED, options));
+    const before = this.previousRow(response, stored);
+    const result = invalidating('people', toRecord<Person>(response, { ...before, ...RESTORED, id }));
+    if (result.ok) {
+      this.remember([result.value]);
+      this.recordAudit([buildAuditEvent({ action: 'restore', personId: id, before, written: RESTORED, actor: currentActor() })]);
+    }
+    return result;
+  }
+
+  async purgePerson(id: string, options?: WriteOptions) {
+    const stored = await this.rowBeforeWrite(id);
+    const response = await call('purgePerson', () => this.backend('people').deletePerson(id, options));
+    const before = this.previousRow(response, stored);
+    const result = invalidating('people', toEmpty(response));
+    if (result.ok) {
+      this.recordAudit([buildAuditEvent({ action: 'purge', personId: id, before, actor: currentActor() })]);
+      this.lastSeen.delete(id);
+    }
+    return result;
+  }
+
+  async createPeople(people: Partial<Person>[], options?: WriteOptions) {
+    const response = await call('createPeople', () => this.backend('people').createPeople(people, options));
+    // Partial batches still changed data, so invalidate even on failure
+    invalidateQueries('people');
+    const result = toList(response, parsePeople);
+    const written = result.ok ? result.value : result.partial || [];
+    this.remember(written);
+    const actor = currentActor();
+    this.recordAudit(written.map(person => buildAuditEvent({ action: 'create', personId: person.id!, written: person, actor })));
+    return result;
+  }
+
+  async updatePeople(people: Partial<Person>[], options?: WriteOptions) {
+    const before = new Map([...idsOf(people)].map(id => [id, this.lastSeen.get(id!)]));
+    const response = await call('updatePeople', () => this.backend('people').updatePeople(people, options));
+    invalidateQueries('people');
+    const result = toList(response, parsePeople);
+    // A failed batch reports the rows it got through; a successful one wrote them all
+    const writtenIds = result.ok ? idsOf(people) : idsOf(result.partial || []);
+    const actor = currentActor();
+    const updated = people.filter(person => person.id && writtenIds.has(person.id));
+    this.remember(updated.map(person => ({ ...before.get(person.id!), ...person }) as Person));
+    this.recordAudit(updated.map(person => buildAuditEvent({ action: 'update', personId: person.id!, before: before.get(person.id!), written: person, actor })));
+    return result;
+  }
+
+  async getUsers() {
+    const response = await call('getUsers', () => this.backend('users').getUsers());
+    return toList(response, parseUsers);
+  }
+
+  async createUser(user: Partial<User>, options?: WriteOptions) {
+    const response = await call('createUser', () => this.backend('users').createUser(user, options));
+    return invalidating('users', toRecord<User>(response, user));
+  }
+
+  async getMessages() {
+    const response = await call('getMessages', () => this.backend('messages').getMessages());
+    return toList(response, parseMessages);
+  }
+
+  async createMessage(message: Partial<Message>, options?: WriteOptions) {
+    const response = await call('createMessage', () => this.backend('messages').createMessage(message, options));
+    return invalidating('messages', toRecord<Message>(response, message));
+  }
+
+  // Template lists are small and unpaged, so the recycle bin is filtered here for every backend
+  async getTemplates(options: { deleted?: DeletedFilter } = {}) {
+    const response = await call('getTemplates', () => this.backend('templates').getTemplates());
+    const result = toList(response, parseTemplates);
+    return result.ok ? { ...result, value: result.value.filter(template => matchesDeleted(template, options.deleted)) } : result;
+  }
+
+  async createTemplate(template: Partial<Template>, options?: WriteOptions) {
+    const response = await call('createTemplate', () => this.backend('templates').createTemplate(template, options));
+    return invalidating('templates', toRecord<Template>(response, template));
+  }
+
+  async updateTemplate(id: string, template: Partial<Template>, options?: WriteOptions) {
+    const response = await call('updateTemplate', () => this.backend('templates').updateTemplate(id, template, options));
+    return invalidating('templates', toRecord<Template>(response, { ...template, id }));
+  }
+
+  async deleteTemplate(id: string, options?: WriteOptions) {
+    return invalidating('templates', toEmpty(await call('deleteTemplate', () => this.backend('templates').updateTemplate(id, deletedMarker(), options))));
+  }
+
+  async restoreTemplate(id: string, options?: WriteOptions) {
+    const response = await call('restoreTemplate', () => this.backend('templates').updateTemplate(id, RESTORED, options));
+    return invalidating('templates', toRecord<Template>(response, { ...RESTORED, id }));
+  }
+
+  async purgeTemplate(id: string, options?: WriteOptions) {
+    return invalidating('templates', toEmpty(await call('purgeTemplate', () => this.backend('templates').deleteTemplate(id, options))));
+  }
+
+  async getHouseholds() {
+    const response = await call('getHouseholds', () => this.backend('households').getHouseholds());
+    return toList(response, parseHouseholds);
+  }
+
+  async createHousehold(household: Partial<Household>, options?: WriteOptions) {
+    const response = await call('createHousehold', () => this.backend('households').createHousehold(household, options));
+    return invalidating('households', toRecord<Household>(response, household));
+  }
+
+  async updateHousehold(id: string, household: Partial<Household>, options?: WriteOptions) {
+    const response = await call('updateHousehold', () => this.backend('households').updateHousehold(id, household, options));
+    return invalidating('households', toRecord<Household>(response, { ...household, id }));
+  }
+
+  async deleteHousehold(id: string, options?: WriteOptions) {
+    return invalidating('households', toEmpty(await call('deleteHousehold', () => this.backend('households').deleteHousehold(id, options))));
+  }
+
+  async getAuditEvents() {
+    const response = await call('getAuditEvents', () => this.backend('audit').getAuditEvents());
+    return toList(response, parseAuditEvents);
+  }
+
+  recordReveal(people: (Partial<Person> & { id: string })[], fields: string[], reason: string) {
+    const actor = currentActor();
+    return this.recordAudit(people.map(person => buildRevealEvent({ person, fields, reason, actor })));
+  }
+
+  recordMerge(kept: Partial<Person> & { id: string }, removedId: string) {
+    return this.recordAudit([buildMergeEvent({ kept, removedId, actor: currentActor() })]);
+  }
+
+  async getCustomFields() {
+    const response = await call('getCustomFields', () => this.backend('fields').getCustomFields());
+    return toList(response, parseCustomFields);
+  }
+
+  async createCustomField(field: Partial<CustomField>, options?: WriteOptions) {
+    const response = await call('createCustomField', () => this.backend('fields').createCustomField(field, options));
+    return invalidating('fields', toRecord<CustomField>(response, field));
+  }
+
+  async updateCustomField(id: string, field: Partial<CustomField>, options?: WriteOptions) {
+    const response = await call('updateCustomField', () => this.backend('fields').updateCustomField(id, field, options));
+    return invalidating('fields', toRecord<CustomField>(response, { ...field, id }));
+  }
+
+  async deleteCustomField(id: string, options?: WriteOptions) {
+    return invalidating('fields', toEmpty(await call('deleteCustomField', () => this.backend('fields').deleteCustomField(id, options))));
+  }
+
+  // Wards and streets share the 'wards' resource: one backend, one cache entry
+  async getWards() {
+    const response = await call('getWards', () => this.backend('wards').getWards());
+    return toList(response, parseWards);
+  }
+
+  async createWard(ward: Partial<Ward>, options?: WriteOptions) {
+    const response = await call('createWard', () => this.backend('wards').createWard(ward, options));
+    return invalidating('wards', toRecord<Ward>(response, ward));
+  }
+
+  async updateWard(id: string, ward: Partial<Ward>, options?: WriteOptions) {
+    const response = await call('updateWard', () => this.backend('wards').updateWard(id, ward, options));
+    return invalidating('wards', toRecord<Ward>(response, { ...ward, id }));
+  }
+
+  async deleteWard(id: string, options?: WriteOptions) {
+    return invalidating('wards', toEmpty(await call('deleteWard', () => this.backend('wards').deleteWard(id, options))));
+  }
+
+  async getStreets() {
+    const response = await call('getStreets', () => this.backend('wards').getStreets());
+    return toList(response, parseStreets);
+  }
+
+  async createStreet(street: Partial<Street>, options?: WriteOptions) {
+    const response = await call('createStreet', () => this.backend('wards').createStreet(street, options));
+    return invalidating('wards', toRecord<Street>(response, street));
+  }
+
+  async updateStreet(id: string, street: Partial<Street>, options?: WriteOptions) {
+    const response = await call('updateStreet', () => this.backend('wards').updateStreet(id, street, options));
+    return invalidating('wards', toRecord<Street>(response, { ...street, id }));
+  }
+
+  async deleteStreet(id: string, options?: WriteOptions) {
+    return invalidating('wards', toEmpty(await call('deleteStreet', () => this.backend('wards').deleteStreet(id, options))));
+  }
+
+  async getSegments() {
+    const response = await call('getSegments', () => this.backend('segments').getSegments());
+    return toList(response, parseSegments);
+  }
+
+  async createSegment(segment: Partial<Segment>, options?: WriteOptions) {
+    const response = await call('createSegment', () => this.backend('segments').createSegment(segment, options));
+    return invalidating('segments', toRecord<Segment>(response, segment));
+  }
+
+  async updateSegment(id: string, segment: Partial<Segment>, options?: WriteOptions) {
+    const response = await call('updateSegment', () => this.backend('segments').updateSegment(id, segment, options));
+    return invalidating('segments', toRecord<Segment>(response, { ...segment, id }));
+  }
+
+  async deleteSegment(id: string, options?: WriteOptions) {
+    return invalidating('segments', toEmpty(await call('deleteSegment', () => this.backend('segments').deleteSegment(id, options))));
+  }
+
+  async testConnection(): Promise<Result<unknown>> {
+    const response = await call('testConnection', () => this.backend('people').testConnection());
+    return response.ok ? ok(response.value.data, response.message) : response;
+  }
+}
+
+export const dataService: DataSource = new RoutedDataSource();
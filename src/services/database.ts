@@ -1,10 +1,28 @@
 // src/services/database.ts - CORRECTED FOR VERCEL BACKEND
-const API_BASE_URL = process.env.REACT_APP_API_URL 
-  ? `${process.env.REACT_APP_API_URL}/api` 
-  : 'https://mugesh-backend-7331.vercel.app/api';  // ✅ Correct URL
+import { createIdempotencyKey } from '../utils/idempotency';
+import type { WriteOptions } from '../utils/idempotency';
+import { applyPeopleQuery, toSearchParams } from '../utils/peopleQuery';
+import type { PageInfo, PeopleQuery } from '../utils/peopleQuery';
+import { errorFromException, err, fail, kindFromStatus, ok } from '../utils/result';
+import type { Result } from '../utils/result';
 
-// Get auth token from localStorage
-const getAuthToken = () => localStorage.getItem('authtoken');
+import { appConfig } from '../config/appConfig';
+
+const API_BASE_URL = appConfig.apiBaseUrl;
+
+// ✅ Same payload and Result contract as GoogleSheetsResponse so both backends are interchangeable
+export interface DatabasePayload extends Partial<PageInfo> {
+  data?: Record<string, unknown>[] | Record<string, unknown>;
+  previous?: Record<string, unknown>;
+  count?: number;
+}
+
+export type DatabaseResponse = Result<DatabasePayload>;
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// Get auth token from localStorage (same key AuthContext writes)
+const getAuthToken = () => localStorage.getItem(appConfig.storageKeys.authToken);
 
 // Get auth headers
 const getAuthHeaders = () => {
@@ -15,52 +33,158 @@ const getAuthHeaders = () => {
   };
 };
 
-export const databaseService = {
-  async getPeople() {
-    try {
-      console.log('🔄 Fetching people from:', API_BASE_URL); // Debug log
-      
-      const response = await fetch(`${API_BASE_URL}/people`, {
-        method: 'GET',
-        headers: getAuthHeaders()
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      console.log('📥 Raw database response:', data);
-      
-      if (data.success && Array.isArray(data.data)) {
-        console.log('✅ Fetched', data.data.length, 'people from database');
-        return { 
-          success: true, 
-          data: data.data, 
-          count: data.count || data.data.length,
-          message: data.message || 'Data fetched successfully'
-        };
-      } else {
-        console.warn('⚠️ Database returned no data or unsuccessful response:', data);
-        return { 
-          success: true, 
-          data: [], 
-          count: 0,
-          message: data.message || 'No data available'
-        };
-      }
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Database fetch error:', errorMessage);
-      return { 
-        success: false, 
-        error: errorMessage, 
-        data: [],
-        count: 0
-      };
+// ✅ Shared fetch wrapper - never throws, always resolves to Ok or a categorised Err
+const request = async (
+  path: string,
+  init: RequestInit = {},
+  extraHeaders: Record<string, string> = {}
+): Promise<DatabaseResponse> => {
+  try {
+    console.log('🔄 REST request:', init.method || 'GET', `${API_BASE_URL}${path}`);
+
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: { ...getAuthHeaders(), ...extraHeaders },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok || body.success === false) {
+      const errorMessage = body.message || body.error || `HTTP ${response.status}: ${response.statusText}`;
+      console.error('❌ REST error:', response.status, errorMessage);
+      return err(response.ok ? 'validation' : kindFromStatus(response.status), errorMessage, response.status);
     }
-  },
 
-  // Keep all your other methods exactly as they are...
-  // Just make sure they all use API_BASE_URL
+    return ok({
+      data: body.data ?? body.users ?? body.user,
+      previous: body.previous,
+      count: body.count,
+      total: body.total,
+      page: body.page,
+      pageSize: body.pageSize,
+      nextCursor: body.nextCursor
+    }, body.message);
+  } catch (error: unknown) {
+    const apiError = errorFromException(error);
+    console.error('❌ Database fetch error:', apiError.kind, apiError.message);
+    return fail(apiError);
+  }
+};
+
+const list = async (path: string): Promise<DatabaseResponse> => {
+  const response = await request(path);
+  if (!response.ok) {
+    return response;
+  }
+
+  const data = Array.isArray(response.value.data) ? response.value.data : [];
+  console.log('✅ Fetched', data.length, 'records from', path);
+  return ok({ ...response.value, data, count: response.value.count || data.length }, response.message || 'Data fetched successfully');
+};
+
+// ✅ Paged people read; backends that don't report a total yet get the query applied locally
+const listPeople = async (query: PeopleQuery = {}): Promise<DatabaseResponse> => {
+  const search = new URLSearchParams(toSearchParams(query)).toString();
+  const response = await list(search ? `/people?${search}` : '/people');
+  if (!response.ok || typeof response.value.total === 'number') {
+    return response;
+  }
+  const { rows, pageInfo } = applyPeopleQuery(Array.isArray(response.value.data) ? response.value.data : [], query);
+  return ok({ data: rows, count: rows.length, ...pageInfo }, response.message);
+};
+
+// ✅ Writes always send an Idempotency-Key so the backend can drop replays of the same operation
+const send = (
+  method: 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  body?: Record<string, unknown>,
+  options: WriteOptions = {}
+) =>
+  request(
+    path,
+    { method, body: body ? JSON.stringify(body) : undefined },
+    { 'Idempotency-Key': options.idempotencyKey || createIdempotencyKey() }
+  );
+
+export const databaseService = {
+  // People
+  getPeople: (query?: PeopleQuery) => listPeople(query),
+  createPerson: (personData: Record<string, unknown>, options?: WriteOptions) =>
+    send('POST', '/people', personData, options),
+  updatePerson: (id: string, personData: Record<string, unknown>, options?: WriteOptions) =>
+    send('PUT', `/people/${id}`, personData, options),
+  deletePerson: (id: string, options?: WriteOptions) => send('DELETE', `/people/${id}`, undefined, options),
+  createPeople: (peopleData: Record<string, unknown>[], options?: WriteOptions) =>
+    send('POST', '/people/bulk', { records: peopleData }, options),
+  updatePeople: (peopleData: Record<string, unknown>[], options?: WriteOptions) =>
+    send('PUT', '/people/bulk', { records: peopleData }, options),
+
+  // Users (admin accounts live under /auth on the backend)
+  getUsers: () => list('/auth/users'),
+  createUser: (userData: Record<string, unknown>, options?: WriteOptions) =>
+    send('POST', '/auth/register', userData, options),
+
+  // Messages
+  getMessages: () => list('/messages'),
+  createMessage: (messageData: Record<string, unknown>, options?: WriteOptions) =>
+    send('POST', '/messages', messageData, options),
+
+  // Templates
+  getTemplates: () => list('/templates'),
+  createTemplate: (templateData: Record<string, unknown>, options?: WriteOptions) =>
+    send('POST', '/templates', templateData, options),
+  updateTemplate: (id: string, templateData: Record<string, unknown>, options?: WriteOptions) =>
+    send('PUT', `/templates/${id}`, templateData, options),
+  deleteTemplate: (id: string, options?: WriteOptions) => send('DELETE', `/templates/${id}`, undefined, options),
+
+  // Households
+  getHouseholds: () => list('/households'),
+  createHousehold: (householdData: Record<string, unknown>, options?: WriteOptions) =>
+    send('POST', '/households', householdData, options),
+  updateHousehold: (id: string, householdData: Record<string, unknown>, options?: WriteOptions) =>
+    send('PUT', `/households/${id}`, householdData, options),
+  deleteHousehold: (id: string, options?: WriteOptions) => send('DELETE', `/households/${id}`, undefined, options),
+
+  // Audit events (append-only)
+  getAuditEvents: () => list('/audit'),
+  createAuditEvents: (events: Record<string, unknown>[], options?: WriteOptions) =>
+    send('POST', '/audit/bulk', { records: events }, options),
+
+  // Custom person fields
+  getCustomFields: () => list('/fields'),
+  createCustomField: (fieldData: Record<string, unknown>, options?: WriteOptions) =>
+    send('POST', '/fields', fieldData, options),
+  updateCustomField: (id: string, fieldData: Record<string, unknown>, options?: WriteOptions) =>
+    send('PUT', `/fields/${id}`, fieldData, options),
+  deleteCustomField: (id: string, options?: WriteOptions) => send('DELETE', `/fields/${id}`, undefined, options),
+
+  // Wards and streets (address master data)
+  getWards: () => list('/wards'),
+  createWard: (wardData: Record<string, unknown>, options?: WriteOptions) => send('POST', '/wards', wardData, options),
+  updateWard: (id: string, wardData: Record<string, unknown>, options?: WriteOptions) =>
+    send('PUT', `/wards/${id}`, wardData, options),
+  deleteWard: (id: string, options?: WriteOptions) => send('DELETE', `/wards/${id}`, undefined, options),
+  getStreets: () => list('/streets'),
+  createStreet: (streetData: Record<string, unknown>, options?: WriteOptions) => send('POST', '/streets', streetData, options),
+  updateStreet: (id: string, streetData: Record<string, unknown>, options?: WriteOptions) =>
+    send('PUT', `/streets/${id}`, streetData, options),
+  deleteStreet: (id: string, options?: WriteOptions) => send('DELETE', `/streets/${id}`, undefined, options),
+
+  // Saved people segments
+  getSegments: () => list('/segments'),
+  createSegment: (segmentData: Record<string, unknown>, options?: WriteOptions) =>
+    send('POST', '/segments', segmentData, options),
+  updateSegment: (id: string, segmentData: Record<string, unknown>, options?: WriteOptions) =>
+    send('PUT', `/segments/${id}`, segmentData, options),
+  deleteSegment: (id: string, options?: WriteOptions) => send('DELETE', `/segments/${id}`, undefined, options),
+
+  async testConnection(): Promise<DatabaseResponse> {
+    console.log('🔧 Testing REST backend connection...');
+    const peopleResponse = await listPeople({ pageSize: 1 });
+    if (!peopleResponse.ok) {
+      return peopleResponse;
+    }
+    return ok({}, `Connection successful! People found: ${peopleResponse.value.total}`);
+  }
 };
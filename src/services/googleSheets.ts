@@ -1,13 +1,53 @@
 // src/services/googleSheets.ts - UPDATED WITH DELETE TEMPLATE METHOD
-const GOOGLE_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbwh9LCvaGVbKFMIe0OlsroEAQOJLnyNivgakDtEdkxwM8NpurPpC9FB2vAW63iAbw/exec';
+import { createIdempotencyKey } from '../utils/idempotency';
+import type { WriteOptions } from '../utils/idempotency';
+import { applyPeopleQuery } from '../utils/peopleQuery';
+import type { PageInfo, PeopleQuery } from '../utils/peopleQuery';
+import { ensureArray } from '../utils/typeHelpers';
+import { ApiRequestError, errorFromException, err, fail, isTransient, kindFromStatus, ok } from '../utils/result';
+import type { Result } from '../utils/result';
+import { appConfig } from '../config/appConfig';
 
-interface GoogleSheetsResponse {
+// ✅ Profile default, VITE_SHEETS_SCRIPT_URL, or the local mock when VITE_USE_MOCK_API=true (see config/appConfig.ts)
+const GOOGLE_SCRIPT_URL = appConfig.sheetsScriptUrl;
+
+// What a successful call carries; failures are an ApiError (see utils/result.ts)
+export interface SheetsPayload extends Partial<PageInfo> {
+  data?: Record<string, unknown>[] | Record<string, unknown>;
+  previous?: Record<string, unknown>;
+}
+
+export type GoogleSheetsResponse = Result<SheetsPayload>;
+
+// Wire format the Apps Script answers with
+interface ScriptResponse extends Partial<PageInfo> {
   success: boolean;
   data?: Record<string, unknown>[] | Record<string, unknown>;
+  previous?: Record<string, unknown>;   // single writes: the row before the change, when the script sends it
   error?: string;
   message?: string;
 }
 
+// ✅ Retry policy for transport failures (JSONP timeouts, network errors) - never for script-side errors
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ✅ Writes go in a POST body; batches are split so each request stays well under Apps Script limits
+const WRITE_ACTIONS = ['CREATE', 'UPDATE', 'DELETE'];
+const MAX_CHUNK_BYTES = 50_000;
+const MAX_CHUNK_RECORDS = 200;
+
 declare global {
   interface Window {
     [key: string]: unknown;
@@ -15,7 +55,13 @@ declare global {
 }
 
 class GoogleSheetsService {
-  private jsonpRequest(url: string): Promise<GoogleSheetsResponse> {
+  private retryOptions: RetryOptions = { ...DEFAULT_RETRY_OPTIONS };
+
+  configureRetry(options: Partial<RetryOptions>) {
+    this.retryOptions = { ...this.retryOptions, ...options };
+  }
+
+  private jsonpRequest(url: string): Promise<ScriptResponse> {
     return new Promise((resolve, reject) => {
       const script = document.createElement('script');
       const callbackName = 'jsonp_callback_' + Math.round(100000 * Math.random());
@@ -23,7 +69,7 @@ class GoogleSheetsService {
       console.log('📡 Making JSONP request to:', url.substring(0, 150) + '...');
       
       // Set up success callback
-      window[callbackName] = (data: GoogleSheetsResponse) => {
+      window[callbackName] = (data: ScriptResponse) => {
         console.log('✅ JSONP response received:', data);
         cleanup();
         resolve(data);
@@ -33,7 +79,7 @@ class GoogleSheetsService {
       script.onerror = (error) => {
         console.error('❌ JSONP script error:', error);
         cleanup();
-        reject(new Error('Failed to connect to Google Apps Script. Please check your network connection and script deployment.'));
+        reject(new ApiRequestError({ kind: 'network', message: 'Failed to connect to Google Apps Script. Please check your network connection and script deployment.' }));
       };
       
       script.onload = () => {
@@ -42,7 +88,7 @@ class GoogleSheetsService {
           if (window[callbackName]) {
             console.warn('⚠️ Script loaded but callback not called - possible script error');
             cleanup();
-            reject(new Error('Google Apps Script did not respond properly. Please check your script configuration.'));
+            reject(new ApiRequestError({ kind: 'server', status: 500, message: 'Google Apps Script did not respond properly. Please check your script configuration.' }));
           }
         }, 10000);
       };
@@ -61,184 +107,281 @@ class GoogleSheetsService {
       setTimeout(() => {
         if (window[callbackName]) {
           cleanup();
-          reject(new Error('Request timeout - Google Apps Script may not be responding'));
+          reject(new ApiRequestError({ kind: 'timeout', message: 'Request timeout - Google Apps Script may not be responding' }));
         }
       }, 30000);
     });
   }
 
+  // ✅ POST transport: text/plain keeps it a "simple" CORS request (Apps Script cannot answer preflights),
+  // and fetch follows the script.googleusercontent.com redirect that carries the JSON response.
+  private async postRequest(payload: Record<string, unknown>): Promise<ScriptResponse> {
+    const body = JSON.stringify(payload);
+    console.log('📡 Making POST request, payload bytes:', body.length);
+
+    let response: Response;
+    try {
+      response = await fetch(GOOGLE_SCRIPT_URL, {
+        method: 'POST',
+        redirect: 'follow',
+        headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+        body
+      });
+    } catch (error: unknown) {
+      throw new ApiRequestError({ kind: 'network', message: error instanceof Error ? error.message : 'Network error while contacting Google Apps Script' });
+    }
+
+    if (!response.ok) {
+      throw new ApiRequestError({
+        kind: kindFromStatus(response.status),
+        status: response.status,
+        message: `Google Apps Script returned HTTP ${response.status}`
+      });
+    }
+
+    return (await response.json()) as ScriptResponse;
+  }
+
+  // ✅ Exponential backoff with jitter; only transient failures (network, timeout, 5xx/429) are retried
+  private async withRetry(label: string, send: () => Promise<ScriptResponse>): Promise<ScriptResponse> {
+    const { retries, baseDelayMs, maxDelayMs } = this.retryOptions;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send();
+      } catch (error: unknown) {
+        if (!(error instanceof ApiRequestError) || !isTransient(error.error) || attempt >= retries) {
+          throw error;
+        }
+        const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+        console.warn(`🔁 ${label} failed (${error.message}), retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
   private async makeRequest(
     action: string,
     sheetName: string,
-    data: Record<string, unknown> = {}
+    data: Record<string, unknown> | Record<string, unknown>[] = {},
+    options: WriteOptions = {}
   ): Promise<GoogleSheetsResponse> {
     try {
       console.log('🚀 Making API request:', { action, sheetName, data });
       
-      const params = new URLSearchParams({
-        action,
-        sheetName,
-        data: JSON.stringify(data)
-      });
-      
-      const url = `${GOOGLE_SCRIPT_URL}?${params.toString()}`;
-      console.log('📡 Full request URL length:', url.length);
-      
-      const response = await this.jsonpRequest(url);
+      let response: ScriptResponse;
+      if (WRITE_ACTIONS.includes(action.replace(/^BATCH_/, ''))) {
+        // Every write carries an idempotency key, so retrying a write whose response was lost
+        // makes the script replay the original result instead of writing twice
+        const idempotencyKey = options.idempotencyKey || createIdempotencyKey();
+        response = await this.withRetry(`${action} ${sheetName}`, () =>
+          this.postRequest({ action, sheetName, data, idempotencyKey })
+        );
+      } else {
+        // Reads carry no record payload, so the JSONP GET stays short
+        const params = new URLSearchParams({
+          action,
+          sheetName,
+          data: JSON.stringify(data)
+        });
+        response = await this.withRetry(`${action} ${sheetName}`, () =>
+          this.jsonpRequest(`${GOOGLE_SCRIPT_URL}?${params.toString()}`)
+        );
+      }
       console.log('✅ API Response:', response);
       
       if (!response.success) {
-        throw new Error(response.error || 'Unknown error from Google Apps Script');
+        // The script answered, so it rejected the request itself (missing record, bad sheet, duplicate...)
+        console.error('❌ Google Sheets rejected request:', response.error);
+        return err('validation', response.error || 'Unknown error from Google Apps Script');
       }
       
-      return response;
+      return ok({
+        data: response.data,
+        previous: response.previous,
+        total: response.total,
+        page: response.page,
+        pageSize: response.pageSize,
+        nextCursor: response.nextCursor
+      }, response.message);
     } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Google Sheets API Error:', errorMessage);
-      throw new Error(errorMessage);
+      const apiError = errorFromException(error);
+      console.error('❌ Google Sheets API Error:', apiError.kind, apiError.message);
+      return fail(apiError);
     }
   }
 
-  // ✅ UPDATED getPeople with better error handling
-  async getPeople(): Promise<GoogleSheetsResponse> {
-    console.log('👥 Fetching people from Google Sheets...');
-    try {
-      console.log('🔍 Calling makeRequest with action: READ, sheetName: People');
-      const response = await this.makeRequest('read', 'People');
-      console.log('📊 People response received:', response);
-      
-      // Handle the response format from your Google Apps Script
-      if (response.success) {
-        const peopleCount = Array.isArray(response.data) ? response.data.length : 0;
-        console.log(`✅ Successfully fetched ${peopleCount} people from Google Sheets`);
-        
-        // Debug: Log first few people
-        if (Array.isArray(response.data) && response.data.length > 0) {
-          console.log('📝 First person data sample:', response.data[0]);
-        }
-        
-        return response;
-      } else {
-        console.warn('⚠️ Google Sheets returned unsuccessful response:', response);
+  // ✅ Split records into chunks bounded by both serialized size and record count
+  private chunkRecords(records: Record<string, unknown>[]): Record<string, unknown>[][] {
+    const chunks: Record<string, unknown>[][] = [];
+    let current: Record<string, unknown>[] = [];
+    let currentBytes = 0;
+
+    for (const record of records) {
+      const recordBytes = JSON.stringify(record).length;
+      if (current.length > 0 && (currentBytes + recordBytes > MAX_CHUNK_BYTES || current.length >= MAX_CHUNK_RECORDS)) {
+        chunks.push(current);
+        current = [];
+        currentBytes = 0;
+      }
+      current.push(record);
+      currentBytes += recordBytes;
+    }
+
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+  }
+
+  // ✅ Sends BATCH_<action> requests chunk by chunk and merges them into one GoogleSheetsResponse.
+  // Stops at the first failed chunk; data holds what was written before the failure.
+  private async makeBatchRequest(
+    action: 'CREATE' | 'UPDATE' | 'DELETE',
+    sheetName: string,
+    records: Record<string, unknown>[],
+    options: WriteOptions = {}
+  ): Promise<GoogleSheetsResponse> {
+    const chunks = this.chunkRecords(records);
+    // One key per chunk, derived from the batch key, so a re-run of the same batch skips chunks already written
+    const batchKey = options.idempotencyKey || createIdempotencyKey();
+    const written: Record<string, unknown>[] = [];
+    console.log(`📦 Sending ${records.length} ${sheetName} records in ${chunks.length} chunk(s)`);
+
+    for (const [index, chunk] of chunks.entries()) {
+      const response = await this.makeRequest(`BATCH_${action}`, sheetName, chunk, {
+        idempotencyKey: `${batchKey}:${index}`
+      });
+      if (!response.ok) {
         return {
-          success: true,
-          data: [],
-          message: response.error || 'No data returned from Google Sheets'
+          ok: false,
+          error: {
+            ...response.error,
+            message: `Chunk ${index + 1} of ${chunks.length} failed after ${written.length} records: ${response.error.message}`
+          },
+          partial: { data: written }
         };
       }
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Error fetching people:', errorMessage);
-      // Return empty data instead of throwing to prevent app crash
-      return {
-        success: true,
-        data: [],
-        message: `Failed to fetch people data: ${errorMessage}`
-      };
+      written.push(...(Array.isArray(response.value.data) ? response.value.data : chunk));
     }
+
+    return ok({ data: written }, `${written.length} ${sheetName} records processed in ${chunks.length} request(s)`);
   }
 
-  async createPerson(personData: Record<string, unknown>): Promise<GoogleSheetsResponse> {
+  // ✅ getPeople sends the query along with READ; the script pages, filters and sorts on the sheet.
+  // A failed read is reported as a failure - never as an empty sheet.
+  async getPeople(query: PeopleQuery = {}): Promise<GoogleSheetsResponse> {
+    console.log('👥 Fetching people from Google Sheets...', query);
+    const response = await this.makeRequest('read', 'People', { ...query });
+
+    if (!response.ok) {
+      console.error('❌ Error fetching people:', response.error.message);
+      return response;
+    }
+
+    if (typeof response.value.total !== 'number') {
+      // Script deployments older than paging ignore the query and return the whole sheet
+      console.warn('⚠️ Apps Script returned unpaged People rows, applying the query locally');
+      const { rows, pageInfo } = applyPeopleQuery(ensureArray(response.value.data || []), query);
+      return ok({ data: rows, ...pageInfo }, response.message);
+    }
+
+    const peopleCount = Array.isArray(response.value.data) ? response.value.data.length : 0;
+    console.log(`✅ Successfully fetched ${peopleCount} of ${response.value.total} people from Google Sheets`);
+    return response;
+  }
+
+  async createPerson(personData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
     console.log('➕ Creating person in Google Sheets:', personData);
-    try {
-      const response = await this.makeRequest('CREATE', 'People', {
+    const response = await this.makeRequest('CREATE', 'People', {
         ...personData,
         id: personData.id || `person_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         createdAt: personData.createdAt || new Date().toISOString()
-      });
-      console.log('✅ Person created successfully:', response);
-      return response;
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Error creating person:', errorMessage);
-      return {
-        success: false,
-        error: errorMessage
-      };
+      }, options);
+    if (response.ok) {
+      console.log('✅ Person created successfully:', response.value);
+    } else {
+      console.error('❌ Error creating person:', response.error.message);
     }
+    return response;
   }
 
-  async updatePerson(id: string, personData: Record<string, unknown>): Promise<GoogleSheetsResponse> {
+  async updatePerson(id: string, personData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
     console.log('📝 Updating person in Google Sheets:', { id, personData });
-    try {
-      const response = await this.makeRequest('UPDATE', 'People', {
+    const response = await this.makeRequest('UPDATE', 'People', {
         ...personData,
         id,
         updatedAt: new Date().toISOString()
-      });
-      console.log('✅ Person updated successfully:', response);
-      return response;
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Error updating person:', errorMessage);
-      return {
-        success: false,
-        error: errorMessage
-      };
+      }, options);
+    if (response.ok) {
+      console.log('✅ Person updated successfully:', response.value);
+    } else {
+      console.error('❌ Error updating person:', response.error.message);
     }
+    return response;
   }
 
-  async deletePerson(id: string): Promise<GoogleSheetsResponse> {
+  async deletePerson(id: string, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
     console.log('🗑️ Deleting person from Google Sheets:', id);
-    try {
-      const response = await this.makeRequest('DELETE', 'People', { id });
-      console.log('✅ Person deleted successfully:', response);
-      return response;
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Error deleting person:', errorMessage);
-      return {
-        success: false,
-        error: errorMessage
-      };
+    const response = await this.makeRequest('DELETE', 'People', { id }, options);
+    if (response.ok) {
+      console.log('✅ Person deleted successfully:', response.value);
+    } else {
+      console.error('❌ Error deleting person:', response.error.message);
     }
+    return response;
+  }
+
+  async createPeople(peopleData: Record<string, unknown>[], options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('➕ Creating people in bulk:', peopleData.length);
+    return this.makeBatchRequest('CREATE', 'People', peopleData.map(personData => ({
+      ...personData,
+      id: personData.id || `person_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: personData.createdAt || new Date().toISOString()
+    })), options);
+  }
+
+  async updatePeople(peopleData: Record<string, unknown>[], options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('📝 Updating people in bulk:', peopleData.length);
+    const updatedAt = new Date().toISOString();
+    return this.makeBatchRequest('UPDATE', 'People', peopleData.map(personData => ({ ...personData, updatedAt })), options);
   }
 
   // ✅ UPDATED testConnection with more detailed testing
   async testConnection(): Promise<GoogleSheetsResponse> {
     console.log('🔧 Testing Google Sheets connection...');
-    try {
-      console.log('🧪 Step 1: Testing basic connection...');
-      const response = await this.makeRequest('TEST', 'test');
-      console.log('🧪 Step 2: Connection test response:', response);
-      
-      if (response.success) {
-        console.log('✅ Connection test successful!');
-        
-        // Test reading people as well
-        console.log('🧪 Step 3: Testing people data fetch...');
-        const peopleResponse = await this.getPeople();
-        console.log('🧪 Step 4: People test response:', peopleResponse);
-        
-        return {
-          success: true,
-          message: `Connection successful! People found: ${Array.isArray(peopleResponse.data) ? peopleResponse.data.length : 0}`,
-          data: {
-            connectionTest: response,
-            peopleTest: peopleResponse
-          }
-        };
-      } else {
-        throw new Error(response.error || 'Connection test failed');
-      }
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Connection test failed:', errorMessage);
-      return {
-        success: false,
-        error: errorMessage
-      };
+    console.log('🧪 Step 1: Testing basic connection...');
+    const response = await this.makeRequest('TEST', 'test');
+    console.log('🧪 Step 2: Connection test response:', response);
+
+    if (!response.ok) {
+      console.error('❌ Connection test failed:', response.error.message);
+      return response;
+    }
+    console.log('✅ Connection test successful!');
+
+    // Test reading people as well
+    console.log('🧪 Step 3: Testing people data fetch...');
+    const peopleResponse = await this.getPeople({ pageSize: 1 });
+    console.log('🧪 Step 4: People test response:', peopleResponse);
+    if (!peopleResponse.ok) {
+      return peopleResponse;
     }
+
+    return ok({
+      data: {
+        connectionTest: response.value,
+        peopleTest: peopleResponse.value
+      }
+    }, `Connection successful! People found: ${peopleResponse.value.total ?? 0}`);
   }
 
   // Keep your existing methods...
-  async createUser(userData: Record<string, unknown>): Promise<GoogleSheetsResponse> {
+  async createUser(userData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
     console.log('👤 Creating user:', userData);
     return this.makeRequest('CREATE', 'Users', {
       ...userData,
       id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       createdAt: new Date().toISOString()
-    });
+    }, options);
   }
 
   async getUsers(): Promise<GoogleSheetsResponse> {
@@ -251,14 +394,14 @@ class GoogleSheetsService {
     return this.makeRequest('read', 'Messages');
   }
 
-  async createMessage(messageData: Record<string, unknown>): Promise<GoogleSheetsResponse> {
+  async createMessage(messageData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
     console.log('➕ Creating message in Google Sheets:', messageData);
     return this.makeRequest('CREATE', 'Messages', {
       ...messageData,
       id: `message_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       sentAt: new Date().toISOString(),
       createdAt: new Date().toISOString()
-    });
+    }, options);
   }
 
   async getTemplates(): Promise<GoogleSheetsResponse> {
@@ -266,52 +409,198 @@ class GoogleSheetsService {
     return this.makeRequest('read', 'Templates');
   }
 
-  async createTemplate(templateData: Record<string, unknown>): Promise<GoogleSheetsResponse> {
+  async createTemplate(templateData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
     console.log('➕ Creating template in Google Sheets:', templateData);
     return this.makeRequest('CREATE', 'Templates', {
       ...templateData,
       id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       createdAt: new Date().toISOString()
-    });
+    }, options);
   }
 
   // ✅ ADDED: Missing deleteTemplate method
-  async deleteTemplate(id: string): Promise<GoogleSheetsResponse> {
+  async deleteTemplate(id: string, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
     console.log('🗑️ Deleting template from Google Sheets:', id);
-    try {
-      const response = await this.makeRequest('DELETE', 'Templates', { id });
-      console.log('✅ Template deleted successfully:', response);
-      return response;
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Error deleting template:', errorMessage);
-      return {
-        success: false,
-        error: errorMessage
-      };
+    const response = await this.makeRequest('DELETE', 'Templates', { id }, options);
+    if (response.ok) {
+      console.log('✅ Template deleted successfully:', response.value);
+    } else {
+      console.error('❌ Error deleting template:', response.error.message);
     }
+    return response;
   }
 
   // ✅ BONUS: Added updateTemplate method for future use
-  async updateTemplate(id: string, templateData: Record<string, unknown>): Promise<GoogleSheetsResponse> {
+  async updateTemplate(id: string, templateData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
     console.log('📝 Updating template in Google Sheets:', { id, templateData });
-    try {
-      const response = await this.makeRequest('UPDATE', 'Templates', {
+    const response = await this.makeRequest('UPDATE', 'Templates', {
         ...templateData,
         id,
         updatedAt: new Date().toISOString()
-      });
-      console.log('✅ Template updated successfully:', response);
-      return response;
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Error updating template:', errorMessage);
-      return {
-        success: false,
-        error: errorMessage
-      };
+      }, options);
+    if (response.ok) {
+      console.log('✅ Template updated successfully:', response.value);
+    } else {
+      console.error('❌ Error updating template:', response.error.message);
     }
+    return response;
+  }
+
+  // ✅ Households sheet - members link to a row here through People.householdId
+  async getHouseholds(): Promise<GoogleSheetsResponse> {
+    console.log('🏠 Fetching households from Google Sheets...');
+    return this.makeRequest('read', 'Households');
+  }
+
+  async createHousehold(householdData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('➕ Creating household in Google Sheets:', householdData);
+    return this.makeRequest('CREATE', 'Households', {
+      ...householdData,
+      id: householdData.id || `household_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString()
+    }, options);
+  }
+
+  async updateHousehold(id: string, householdData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('📝 Updating household in Google Sheets:', { id, householdData });
+    return this.makeRequest('UPDATE', 'Households', {
+      ...householdData,
+      id,
+      updatedAt: new Date().toISOString()
+    }, options);
+  }
+
+  async deleteHousehold(id: string, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('🗑️ Deleting household from Google Sheets:', id);
+    return this.makeRequest('DELETE', 'Households', { id }, options);
+  }
+
+  // ✅ Audit sheet - append-only; changes are stored as JSON text in one cell
+  async getAuditEvents(): Promise<GoogleSheetsResponse> {
+    console.log('📜 Fetching audit events from Google Sheets...');
+    return this.makeRequest('read', 'Audit');
+  }
+
+  async createAuditEvents(events: Record<string, unknown>[], options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('📜 Writing audit events:', events.length);
+    return this.makeBatchRequest('CREATE', 'Audit', events.map(event => ({
+      ...event,
+      changes: typeof event.changes === 'string' ? event.changes : JSON.stringify(event.changes ?? [])
+    })), options);
+  }
+
+  // ✅ Fields sheet - superadmin-defined person fields; lists are stored as comma-separated text
+  async getCustomFields(): Promise<GoogleSheetsResponse> {
+    console.log('🧩 Fetching custom fields from Google Sheets...');
+    return this.makeRequest('read', 'Fields');
+  }
+
+  async createCustomField(fieldData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('➕ Creating custom field in Google Sheets:', fieldData);
+    return this.makeRequest('CREATE', 'Fields', {
+      ...toSheetLists(fieldData),
+      id: fieldData.id || `field_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString()
+    }, options);
+  }
+
+  async updateCustomField(id: string, fieldData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('📝 Updating custom field in Google Sheets:', { id, fieldData });
+    return this.makeRequest('UPDATE', 'Fields', {
+      ...toSheetLists(fieldData),
+      id,
+      updatedAt: new Date().toISOString()
+    }, options);
+  }
+
+  async deleteCustomField(id: string, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('🗑️ Deleting custom field from Google Sheets:', id);
+    return this.makeRequest('DELETE', 'Fields', { id }, options);
+  }
+
+  // ✅ Wards and Streets sheets - address master data; a street points at its ward through wardId
+  async getWards(): Promise<GoogleSheetsResponse> {
+    console.log('🗺️ Fetching wards from Google Sheets...');
+    return this.makeRequest('read', 'Wards');
+  }
+
+  async createWard(wardData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('➕ Creating ward in Google Sheets:', wardData);
+    return this.makeRequest('CREATE', 'Wards', {
+      ...wardData,
+      id: wardData.id || `ward_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString()
+    }, options);
+  }
+
+  async updateWard(id: string, wardData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('📝 Updating ward in Google Sheets:', { id, wardData });
+    return this.makeRequest('UPDATE', 'Wards', { ...wardData, id, updatedAt: new Date().toISOString() }, options);
+  }
+
+  async deleteWard(id: string, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('🗑️ Deleting ward from Google Sheets:', id);
+    return this.makeRequest('DELETE', 'Wards', { id }, options);
+  }
+
+  async getStreets(): Promise<GoogleSheetsResponse> {
+    console.log('🗺️ Fetching streets from Google Sheets...');
+    return this.makeRequest('read', 'Streets');
+  }
+
+  async createStreet(streetData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('➕ Creating street in Google Sheets:', streetData);
+    return this.makeRequest('CREATE', 'Streets', {
+      ...streetData,
+      id: streetData.id || `street_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString()
+    }, options);
+  }
+
+  async updateStreet(id: string, streetData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('📝 Updating street in Google Sheets:', { id, streetData });
+    return this.makeRequest('UPDATE', 'Streets', { ...streetData, id, updatedAt: new Date().toISOString() }, options);
+  }
+
+  async deleteStreet(id: string, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('🗑️ Deleting street from Google Sheets:', id);
+    return this.makeRequest('DELETE', 'Streets', { id }, options);
+  }
+
+  // ✅ Segments sheet - saved people rules; conditions are stored as JSON text in one cell
+  async getSegments(): Promise<GoogleSheetsResponse> {
+    console.log('🎯 Fetching segments from Google Sheets...');
+    return this.makeRequest('read', 'Segments');
+  }
+
+  async createSegment(segmentData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('➕ Creating segment in Google Sheets:', segmentData);
+    return this.makeRequest('CREATE', 'Segments', {
+      ...toSheetJson(segmentData),
+      id: segmentData.id || `segment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString()
+    }, options);
+  }
+
+  async updateSegment(id: string, segmentData: Record<string, unknown>, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('📝 Updating segment in Google Sheets:', { id, segmentData });
+    return this.makeRequest('UPDATE', 'Segments', { ...toSheetJson(segmentData), id, updatedAt: new Date().toISOString() }, options);
+  }
+
+  async deleteSegment(id: string, options: WriteOptions = {}): Promise<GoogleSheetsResponse> {
+    console.log('🗑️ Deleting segment from Google Sheets:', id);
+    return this.makeRequest('DELETE', 'Segments', { id }, options);
   }
 }
 
+// A cell holds text, so list values (select options, directions) go in as "a, b, c"
+const toSheetLists = (data: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(data).map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : value]));
+
+// Segment conditions are structured, so they go in as JSON text
+const toSheetJson = (data: Record<string, unknown>): Record<string, unknown> =>
+  data.conditions === undefined || typeof data.conditions === 'string'
+    ? data
+    : { ...data, conditions: JSON.stringify(data.conditions) };
+
 export const sheetsService = new GoogleSheetsService();
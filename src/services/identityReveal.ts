@@ -0,0 +1,61 @@
+// src/services/identityReveal.ts - Click-to-reveal of masked identity numbers, logged before anything is shown
+import { dataService } from './dataSource';
+import { canReveal, MIN_REVEAL_REASON_LENGTH } from '../utils/masking';
+import type { SensitiveField } from '../utils/masking';
+import type { Person } from '../types';
+
+// A reveal only lasts a couple of minutes, then the number is masked again
+const REVEAL_MS = 2 * 60 * 1000;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+// Replaced on every change so useSyncExternalStore sees a new snapshot
+let revealed: ReadonlySet<string> = new Set();
+
+export const revealKey = (personId: string, field: SensitiveField) => `${personId}:${field}`;
+
+const setRevealed = (update: (next: Set<string>) => void) => {
+  const next = new Set(revealed);
+  update(next);
+  revealed = next;
+  listeners.forEach(listener => listener());
+};
+
+export const revealService = {
+  snapshot: (): ReadonlySet<string> => revealed,
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // ✅ The reveal is written to the audit log (or queued on this device) before the number is shown
+  async reveal(person: Person, field: SensitiveField, reason: string, role?: string): Promise<string | null> {
+    if (!person.id) return 'This person has not been saved yet';
+    if (!canReveal(role, field)) return 'Your role cannot reveal this number';
+    if (reason.trim().length < MIN_REVEAL_REASON_LENGTH) return `Give a reason of at least ${MIN_REVEAL_REASON_LENGTH} characters`;
+
+    await dataService.recordReveal([{ id: person.id, name: person.name, direction: person.direction }], [field], reason);
+    console.log('👁️ Identity number revealed:', person.id, field);
+
+    const key = revealKey(person.id, field);
+    clearTimeout(timers.get(key));
+    timers.set(key, setTimeout(() => {
+      timers.delete(key);
+      setRevealed(next => next.delete(key));
+    }, REVEAL_MS));
+    setRevealed(next => next.add(key));
+    return null;
+  },
+
+  // Signing out must not leave numbers on screen for the next user
+  hideAll() {
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+    setRevealed(next => next.clear());
+  }
+};
@@ -0,0 +1,211 @@
+// src/services/outbox.ts - OFFLINE WRITE QUEUE FOR PEOPLE (IndexedDB)
+import { dataService } from './dataSource';
+import { isTransient } from '../utils/result';
+import type { Result } from '../utils/result';
+import type { Person } from '../types';
+
+const DB_NAME = 'people-data-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+export interface OutboxEntry {
+  seq?: number;                 // IndexedDB auto-increment key = replay order
+  operation: OutboxOperation;
+  personId: string;
+  payload: Partial<Person>;
+  idempotencyKey: string;
+  status: 'pending' | 'conflict';
+  error?: string;
+  queuedAt: string;
+  queuedBy?: string;
+}
+
+export interface ReplaySummary {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+}
+
+type Listener = (entries: OutboxEntry[]) => void;
+
+// After a transient failure the replay is tried again, waiting twice as long each time up to the cap
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<Listener>();
+let replaying: Promise<ReplaySummary> | null = null;
+// Signed-in user's email: only entries they queued are listed and replayed
+let owner: string | undefined;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = RETRY_BASE_MS;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Could not open offline storage'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request inside a transaction and resolve with its result
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+  });
+};
+
+const notify = async () => {
+  const entries = await listEntries();
+  listeners.forEach(listener => listener(entries));
+};
+
+const allEntries = (): Promise<OutboxEntry[]> =>
+  withStore('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+
+// ✅ The queue is shared by everyone who signs in on this device; each user only sees and sends their own entries
+export const listEntries = async (): Promise<OutboxEntry[]> =>
+  owner ? (await allEntries()).filter(entry => entry.queuedBy === owner) : [];
+
+const cancelRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+};
+
+// Called on sign-in and sign-out; a different user's entries wait on this device until they sign in again
+export const setOwner = async (email?: string): Promise<void> => {
+  if (email === owner) return;
+  owner = email;
+  cancelRetry();
+  retryDelay = RETRY_BASE_MS;
+  await notify();
+};
+
+export const enqueue = async (entry: Omit<OutboxEntry, 'seq' | 'status' | 'queuedAt'>): Promise<void> => {
+  console.log('📥 Queuing offline operation:', entry.operation, entry.personId);
+  await withStore('readwrite', store => store.add({ queuedBy: owner, ...entry, status: 'pending', queuedAt: new Date().toISOString() }));
+  await notify();
+};
+
+export const discardEntry = async (seq: number): Promise<void> => {
+  await withStore('readwrite', store => store.delete(seq));
+  await notify();
+};
+
+// ✅ Put a conflicted entry back in line (e.g. after the user fixed the clashing record)
+export const retryEntry = async (seq: number): Promise<void> => {
+  const entry = await withStore('readonly', store => store.get(seq) as IDBRequest<OutboxEntry | undefined>);
+  if (!entry) return;
+  await withStore('readwrite', store => store.put({ ...entry, status: 'pending', error: undefined }));
+  await notify();
+};
+
+export const subscribe = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const send = (entry: OutboxEntry): Promise<Result<unknown>> => {
+  const options = { idempotencyKey: entry.idempotencyKey };
+  switch (entry.operation) {
+    case 'create':
+      return dataService.createPerson(entry.payload, options);
+    case 'update':
+      return dataService.updatePerson(entry.personId, entry.payload, options);
+    case 'delete':
+      return dataService.deletePerson(entry.personId, options);
+  }
+};
+
+// ✅ Replays pending entries in queue order. A transient failure (network, timeout, 5xx) stops the run
+// (we'll try again on reconnect); any other failure is a rejection and becomes a conflict. Later entries
+// for a person with a conflict are held back so they are never applied out of order.
+const runReplay = async (): Promise<ReplaySummary> => {
+  const entries = await listEntries();
+  const blocked = new Set(entries.filter(e => e.status === 'conflict').map(e => e.personId));
+  let synced = 0;
+  let conflicts = 0;
+  let interrupted = false;
+
+  for (const entry of entries) {
+    if (entry.status !== 'pending' || blocked.has(entry.personId)) continue;
+    // Stop if the user signed out mid-run: the rest would be sent under someone else's sign-in, or none
+    if (!navigator.onLine || entry.queuedBy !== owner) break;
+
+    const result = await send(entry);
+
+    if (result.ok) {
+      await withStore('readwrite', store => store.delete(entry.seq!));
+      synced++;
+    } else if (!navigator.onLine || isTransient(result.error)) {
+      interrupted = navigator.onLine;
+      break;
+    } else {
+      console.warn('⚠️ Offline operation rejected by server:', entry, result.error);
+      await withStore('readwrite', store => store.put({ ...entry, status: 'conflict', error: result.error.message }));
+      blocked.add(entry.personId);
+      conflicts++;
+    }
+  }
+
+  await notify();
+  const remaining = (await listEntries()).filter(e => e.status === 'pending').length;
+  console.log('🔄 Outbox replay finished:', { synced, conflicts, remaining });
+  if (interrupted) scheduleRetry();
+  else retryDelay = RETRY_BASE_MS;
+  return { synced, conflicts, remaining };
+};
+
+// ✅ Still online but the server failed (timeout, 5xx): try again later instead of waiting for a reconnect
+// that may never come. Going offline needs no timer - the 'online' event replays.
+const scheduleRetry = () => {
+  cancelRetry();
+  console.log(`⏳ Outbox replay will be retried in ${Math.round(retryDelay / 1000)}s`);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    replay().catch(error => console.error('❌ Outbox replay failed:', error));
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+};
+
+export const replay = (): Promise<ReplaySummary> => {
+  // Only one replay at a time, otherwise two runs could send the same entry
+  if (!replaying) {
+    cancelRetry();
+    replaying = runReplay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+};
+
+// ✅ Overlay queued operations on server data so the table reflects what the user did offline
+export const applyOutbox = (people: Person[], entries: OutboxEntry[]): Person[] => {
+  let result = [...people];
+  for (const entry of entries) {
+    if (entry.operation === 'create' && !result.some(p => p.id === entry.personId)) {
+      result = [{ ...entry.payload, id: entry.personId } as Person, ...result];
+    } else if (entry.operation === 'update') {
+      result = result.map(p => (p.id === entry.personId ? { ...p, ...entry.payload } : p));
+    }
+    // Deletes stay visible (marked pending) until the server confirms them
+  }
+  return result;
+};
@@ -0,0 +1,131 @@
+// src/services/queryCache.ts - APP-WIDE QUERY CACHE (stale-while-revalidate)
+import type { DataResource } from './dataSource';
+import { ApiRequestError, errorFromException } from '../utils/result';
+import type { ApiError, Result } from '../utils/result';
+
+export interface QueryState<T = unknown> {
+  data?: T;
+  error?: ApiError;
+  updatedAt: number;     // 0 = never fetched or invalidated
+  fetching: boolean;
+}
+
+interface CacheEntry {
+  state: QueryState;
+  fetcher?: () => Promise<unknown>;
+  inFlight?: Promise<unknown>;
+  inFlightGeneration?: number;
+  generation: number;    // bumped by invalidation; a fetch started before it can't store its result
+  listeners: Set<() => void>;
+}
+
+export const DEFAULT_STALE_TIME = 30_000;
+
+const cache = new Map<string, CacheEntry>();
+
+// ✅ Keys are "<resource>:<direction>[:<params>]" so an East admin never reads the superadmin's "all" rows
+// and every page/filter combination is cached on its own
+export const queryKey = (resource: DataResource, direction?: string | null, params?: object) =>
+  `${resource}:${direction || 'all'}${params ? `:${JSON.stringify(params)}` : ''}`;
+
+const entryFor = (key: string): CacheEntry => {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = { state: { updatedAt: 0, fetching: false }, generation: 0, listeners: new Set() };
+    cache.set(key, entry);
+  }
+  return entry;
+};
+
+const setState = (entry: CacheEntry, patch: Partial<QueryState>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(listener => listener());
+};
+
+// Turn a failed Result into a thrown ApiRequestError so failures never get cached as data
+export const unwrap = <T>(result: Result<T>): T => {
+  if (!result.ok) {
+    throw new ApiRequestError(result.error);
+  }
+  return result.value;
+};
+
+export const getQueryState = <T>(key: string): QueryState<T> => entryFor(key).state as QueryState<T>;
+
+export const isStale = (key: string, staleTime = DEFAULT_STALE_TIME) =>
+  Date.now() - entryFor(key).state.updatedAt > staleTime;
+
+// ✅ Concurrent callers for the same key share one request. A request that was already running when the key
+// was invalidated may have read the data before the write, so its result is dropped and a fresh request is sent.
+export const fetchQuery = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const entry = entryFor(key);
+  entry.fetcher = fetcher;
+  if (entry.inFlight && entry.inFlightGeneration === entry.generation) return entry.inFlight as Promise<T>;
+
+  console.log('🗂️ Fetching query:', key);
+  setState(entry, { fetching: true });
+
+  const generation = entry.generation;
+  const current = () => generation === entry.generation;
+  // A superseded request hands its callers the newer request's result (still running or already stored),
+  // or its own when nothing newer was fetched
+  const newer = () => (entry.inFlight && entry.inFlight !== promise ? entry.inFlight as Promise<T> : undefined);
+  const latest = (data: T) => newer() ?? (entry.state.updatedAt > 0 ? entry.state.data as T : data);
+
+  const promise: Promise<T> = fetcher()
+    .then(data => {
+      if (!current()) return latest(data);
+      setState(entry, { data, error: undefined, updatedAt: Date.now(), fetching: false });
+      return data;
+    })
+    .catch((error: unknown) => {
+      if (!current()) {
+        const next = newer();
+        if (next) return next;
+        throw error;
+      }
+      // Keep serving the previous data; only record the error
+      setState(entry, { error: errorFromException(error), fetching: false });
+      throw error;
+    })
+    .finally(() => {
+      if (entry.inFlight === promise) {
+        entry.inFlight = undefined;
+        if (!current()) setState(entry, { fetching: false });
+      }
+    });
+
+  entry.inFlight = promise;
+  entry.inFlightGeneration = generation;
+  return promise;
+};
+
+export const subscribeQuery = (key: string, listener: () => void): (() => void) => {
+  const entry = entryFor(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+// ✅ Mark every direction of a resource stale and refetch the ones a mounted page is watching
+export const invalidateQueries = (resource: DataResource) => {
+  cache.forEach((entry, key) => {
+    if (!key.startsWith(`${resource}:`)) return;
+    entry.generation++;
+    entry.state = { ...entry.state, updatedAt: 0 };
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(key, entry.fetcher).catch(() => undefined);
+    }
+  });
+};
+
+// Optimistic local edits (e.g. after a create) without waiting for the refetch
+export const setQueryData = <T>(key: string, update: (previous: T | undefined) => T) => {
+  const entry = entryFor(key);
+  setState(entry, { data: update(entry.state.data as T | undefined) });
+};
+
+export const clearQueryCache = () => {
+  cache.clear();
+};
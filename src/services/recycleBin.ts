@@ -0,0 +1,77 @@
+// src/services/recycleBin.ts - Retention of deleted people and templates, and the automatic purge
+import { appConfig } from '../config/appConfig';
+import { dataService } from './dataSource';
+import { createIdempotencyKey } from '../utils/idempotency';
+
+export interface PurgeSummary {
+  people: number;
+  templates: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LAST_PURGE_KEY = 'recycle_bin_last_purge';
+
+// Every page mounts Layout, so a second navigation must not start a second purge
+let running: Promise<PurgeSummary> | null = null;
+
+// ✅ There is no server job, so superadmins' browsers purge expired items - at most once a day each
+export const recycleBinService = {
+  // When an item deleted at deletedAt is purged; null when retention is off or the date is unreadable
+  purgeDate(deletedAt: unknown, retentionDays = appConfig.recycleRetentionDays): Date | null {
+    const deleted = Date.parse(String(deletedAt ?? ''));
+    if (retentionDays <= 0 || Number.isNaN(deleted)) return null;
+    return new Date(deleted + retentionDays * DAY_MS);
+  },
+
+  isExpired(deletedAt: unknown, now = Date.now(), retentionDays = appConfig.recycleRetentionDays): boolean {
+    const purgeDate = this.purgeDate(deletedAt, retentionDays);
+    return !!purgeDate && purgeDate.getTime() <= now;
+  },
+
+  purgeExpired(): Promise<PurgeSummary> {
+    running = running || runPurge().finally(() => {
+      running = null;
+    });
+    return running;
+  },
+
+  async purgeExpiredIfDue(): Promise<PurgeSummary | null> {
+    const lastRun = Date.parse(localStorage.getItem(LAST_PURGE_KEY) || '');
+    if (!Number.isNaN(lastRun) && Date.now() - lastRun < DAY_MS) return null;
+    return this.purgeExpired();
+  }
+};
+
+const runPurge = async (): Promise<PurgeSummary> => {
+  const summary: PurgeSummary = { people: 0, templates: 0, failed: 0 };
+  if (appConfig.recycleRetentionDays <= 0) return summary;
+
+  const [people, templates] = await Promise.all([
+    dataService.getPeople({ deleted: 'only' }),
+    dataService.getTemplates({ deleted: 'only' })
+  ]);
+  const now = Date.now();
+
+  // One at a time: a purge is a row delete, and the Sheets backend handles those in order anyway
+  for (const person of people.ok ? people.value : []) {
+    if (!person.id || !recycleBinService.isExpired(person.deletedAt, now)) continue;
+    const result = await dataService.purgePerson(person.id, { idempotencyKey: createIdempotencyKey() });
+    if (result.ok) summary.people++;
+    else summary.failed++;
+  }
+  for (const template of templates.ok ? templates.value : []) {
+    const id = template.id || template.title;
+    if (!recycleBinService.isExpired(template.deletedAt, now)) continue;
+    const result = await dataService.purgeTemplate(id, { idempotencyKey: createIdempotencyKey() });
+    if (result.ok) summary.templates++;
+    else summary.failed++;
+  }
+
+  // A failed listing is not a completed run, so it is tried again on the next visit
+  if (people.ok && templates.ok) localStorage.setItem(LAST_PURGE_KEY, new Date(now).toISOString());
+  if (summary.people || summary.templates || summary.failed) {
+    console.log('🗑️ Recycle bin purge:', summary);
+  }
+  return summary;
+};
@@ -0,0 +1,56 @@
+// src/services/savedViews.ts - Named People filters saved per user on this device
+import type { PeopleCondition } from '../utils/peopleQuery';
+
+export interface PeopleView {
+  id: string;
+  name: string;
+  search?: string;
+  conditions: PeopleCondition[];
+  match: 'all' | 'any';
+  createdAt: string;
+}
+
+const STORAGE_PREFIX = 'people_views:';
+
+const storageKey = (userKey: string) => `${STORAGE_PREFIX}${userKey}`;
+
+const read = (userKey: string): PeopleView[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(userKey));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed as PeopleView[] : [];
+  } catch (error) {
+    console.warn('⚠️ Saved views are unreadable, starting fresh:', error);
+    return [];
+  }
+};
+
+const write = (userKey: string, views: PeopleView[]) => {
+  localStorage.setItem(storageKey(userKey), JSON.stringify(views));
+};
+
+// ✅ userKey is the logged-in user's id (or email), so admins sharing a browser keep separate views
+export const savedViewsService = {
+  list(userKey: string): PeopleView[] {
+    return read(userKey).sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  // Saving under an existing name replaces that view
+  save(userKey: string, view: Omit<PeopleView, 'id' | 'createdAt'>): PeopleView {
+    const views = read(userKey);
+    const existing = views.find(entry => entry.name.toLowerCase() === view.name.toLowerCase());
+    const saved: PeopleView = {
+      ...view,
+      id: existing?.id || `view_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString()
+    };
+    write(userKey, [...views.filter(entry => entry.id !== saved.id), saved]);
+    console.log('💾 Saved People view:', saved.name);
+    return saved;
+  },
+
+  remove(userKey: string, viewId: string) {
+    write(userKey, read(userKey).filter(view => view.id !== viewId));
+    console.log('🗑️ Removed People view:', viewId);
+  }
+};
@@ -1,23 +1,32 @@
+import type { PeopleCondition } from '../utils/peopleQuery';
+
+// Only id and name are guaranteed - every other field may be blank in the sheet
 export interface Person {
   id?: string;
   _id?: string;
   name: string;
-  age: number;
-  phone: string;
-  aadharNumber: string;
-  panNumber: string;
-  voterIdNumber: string;
-  gender: "Male" | "Female" | "Other";
-  community: string;
-  ward: string;
-  address: string;
-  street: string;
-  direction: string;
-  caste: string;
-  religion: string;
+  age?: number;
+  phone?: string;
+  aadharNumber?: string;
+  panNumber?: string;
+  voterIdNumber?: string;
+  gender?: "Male" | "Female" | "Other";
+  community?: string;
+  ward?: string;
+  address?: string;
+  street?: string;
+  direction?: string;
+  caste?: string;
+  religion?: string;
+  householdId?: string;
+  mergedFrom?: string[] | string;   // ids of duplicate records merged into this one
+  notDuplicateOf?: string[] | string; // ids of records a reviewer marked as a different person
+  tags?: string[] | string;         // free-form labels, comma-separated in the sheet
   createdBy?: string;
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string;               // set while the person is in the recycle bin
+  deletedBy?: string;
   [key: string]: unknown;
 }
 
@@ -29,13 +38,35 @@ export interface Message {
   message: string;
   templateId?: string;
   direction?: string;
-  status: "sent" | "pending" | "failed";
+  status?: "sent" | "pending" | "failed";
   sentAt?: string;
   createdAt?: string;
   updatedAt?: string;
   [key: string]: unknown;
 }
 
+// One field of a person before and after a write; before is absent when this device never saw the old value
+export interface AuditChange {
+  field: string;
+  before?: string;
+  after: string;
+}
+
+// One write to a person, recorded in the Audit sheet by the data source; delete moves them to the recycle bin
+// and purge removes them for good. A reveal is not a write: it records who saw masked identity numbers in full.
+export interface AuditEvent {
+  id?: string;
+  personId: string;
+  personName?: string;
+  action: 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'reveal' | 'merge';
+  actor?: string;              // email of the signed-in user
+  at: string;
+  direction?: string;
+  reason?: string;             // why a reveal was needed, as typed by the user
+  changes: AuditChange[];
+  [key: string]: unknown;
+}
+
 export interface Template {
   id?: string;
   _id?: string;
@@ -45,6 +76,81 @@ export interface Template {
   createdBy?: string;
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string;
+  deletedBy?: string;
+  [key: string]: unknown;
+}
+
+// People sharing a home; members point at it through Person.householdId
+export interface Household {
+  id?: string;
+  _id?: string;
+  name: string;
+  headId?: string;
+  address?: string;
+  street?: string;
+  ward?: string;
+  direction?: string;
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: unknown;
+}
+
+// Master data for addresses: Person.ward and Person.street hold a ward's and a street's name
+export interface Ward {
+  id?: string;
+  _id?: string;
+  name: string;                // as stored on people, e.g. "5"
+  direction?: string;
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: unknown;
+}
+
+export interface Street {
+  id?: string;
+  _id?: string;
+  name: string;
+  wardId: string;
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: unknown;
+}
+
+// A saved, named rule over person fields and tags; its members are whoever matches when it is used
+export interface Segment {
+  id?: string;
+  _id?: string;
+  name: string;
+  description?: string;
+  conditions: PeopleCondition[] | string;  // JSON text in a sheet
+  match?: 'all' | 'any';
+  direction?: string;          // set for an admin's segment; superadmin segments are seen by every direction
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: unknown;
+}
+
+// An extra person field defined by a superadmin; each person's value lives in the People column named `key`
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+
+export interface CustomField {
+  id?: string;
+  _id?: string;
+  key: `cf_${string}`;         // the People column holding each person's value
+  label: string;
+  type: CustomFieldType;
+  required?: boolean;
+  options?: string[] | string; // allowed values of a select; comma-separated text in a sheet
+  directions?: string[] | string; // directions that see the field; empty = every direction
+  order?: number;
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
   [key: string]: unknown;
 }
 
@@ -0,0 +1,150 @@
+// src/utils/audit.ts - Build field-level audit events for people writes and filter them for review
+import type { AuditChange, AuditEvent, Person } from '../types';
+
+export type AuditAction = AuditEvent['action'];
+
+export interface AuditFilter {
+  personId?: string;
+  actor?: string;          // case-insensitive "contains"
+  action?: AuditAction;
+  field?: string;          // events that changed this field
+  from?: string;           // YYYY-MM-DD, inclusive
+  to?: string;             // YYYY-MM-DD, inclusive
+  search?: string;         // person name or id
+}
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore', 'purge', 'reveal', 'merge'];
+
+// Bookkeeping columns every write touches; they would bury the real changes
+const IGNORED_FIELDS = new Set(['id', '_id', 'createdAt', 'updatedAt']);
+
+// Cell text as the sheet shows it: lists comma-joined, missing values blank
+export const auditText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(String).join(',');
+  return String(value).trim();
+};
+
+const audited = (record: Partial<Person>) => Object.keys(record).filter(field => !IGNORED_FIELDS.has(field));
+
+// ✅ Only fields whose value actually changed; without a before record every written field is listed
+export const diffPerson = (before: Partial<Person> | undefined, written: Partial<Person>): AuditChange[] =>
+  audited(written)
+    .filter(field => !before || auditText(before[field]) !== auditText(written[field]))
+    .map(field => ({
+      field,
+      ...(before && { before: auditText(before[field]) }),
+      after: auditText(written[field])
+    }));
+
+interface AuditEventInput {
+  action: AuditAction;
+  personId: string;
+  before?: Partial<Person>;    // the record as this device last saw it
+  written?: Partial<Person>;   // what the write sent (for delete and restore, the recycle-bin markers)
+  actor?: string;
+  at?: string;
+}
+
+// ✅ One event per write; an update that changes nothing produces none. Delete and restore only flip the
+// recycle-bin markers, purge is the one that removes every value.
+export const buildAuditEvent = ({ action, personId, before, written = {}, actor, at }: AuditEventInput): AuditEvent | null => {
+  let changes: AuditChange[];
+  if (action === 'create') {
+    changes = audited(written)
+      .filter(field => auditText(written[field]) !== '')
+      .map(field => ({ field, before: '', after: auditText(written[field]) }));
+  } else if (action === 'update') {
+    changes = diffPerson(before, written);
+    if (changes.length === 0) return null;
+  } else if (action === 'delete' || action === 'restore') {
+    changes = diffPerson(before, written);
+  } else {
+    changes = before
+      ? audited(before).filter(field => auditText(before[field]) !== '').map(field => ({ field, before: auditText(before[field]), after: '' }))
+      : [];
+  }
+
+  const name = auditText(written.name) || auditText(before?.name);
+  const direction = auditText(written.direction) || auditText(before?.direction);
+  return {
+    id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    personId,
+    ...(name && { personName: name }),
+    action,
+    actor,
+    at: at || new Date().toISOString(),
+    ...(direction && { direction }),
+    changes
+  };
+};
+
+interface RevealEventInput {
+  person: Partial<Person> & { id: string };
+  fields: string[];
+  reason: string;
+  actor?: string;
+}
+
+// ✅ The revealed values themselves are never copied into the log, only which fields were shown
+export const buildRevealEvent = ({ person, fields, reason, actor }: RevealEventInput): AuditEvent => {
+  const name = auditText(person.name);
+  const direction = auditText(person.direction);
+  return {
+    id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    personId: person.id,
+    ...(name && { personName: name }),
+    action: 'reveal',
+    actor,
+    at: new Date().toISOString(),
+    ...(direction && { direction }),
+    reason: reason.trim(),
+    changes: fields.map(field => ({ field, after: '' }))
+  };
+};
+
+interface MergeEventInput {
+  kept: Partial<Person> & { id: string };
+  removedId: string;
+  actor?: string;
+}
+
+// ✅ Recorded on the kept person next to the update and delete the merge made; values live in those two events
+export const buildMergeEvent = ({ kept, removedId, actor }: MergeEventInput): AuditEvent => {
+  const name = auditText(kept.name);
+  const direction = auditText(kept.direction);
+  return {
+    id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    personId: kept.id,
+    ...(name && { personName: name }),
+    action: 'merge',
+    actor,
+    at: new Date().toISOString(),
+    ...(direction && { direction }),
+    changes: [{ field: 'mergedFrom', after: removedId }]
+  };
+};
+
+// Rows written by hand or by an older client may carry something other than a list
+export const changesOf = (event: AuditEvent): AuditChange[] =>
+  Array.isArray(event.changes) ? event.changes.filter(change => change && typeof change.field === 'string') : [];
+
+export const matchesAuditFilter = (event: AuditEvent, filter: AuditFilter): boolean => {
+  if (filter.personId && event.personId !== filter.personId) return false;
+  if (filter.action && event.action !== filter.action) return false;
+  if (filter.actor && !auditText(event.actor).toLowerCase().includes(filter.actor.toLowerCase())) return false;
+  if (filter.field && !changesOf(event).some(change => change.field === filter.field)) return false;
+  // Timestamps are ISO strings, so the day is their first 10 characters
+  const day = event.at.slice(0, 10);
+  if (filter.from && day < filter.from) return false;
+  if (filter.to && day > filter.to) return false;
+  if (filter.search) {
+    const search = filter.search.toLowerCase();
+    if (!auditText(event.personName).toLowerCase().includes(search) && !event.personId.toLowerCase().includes(search)) return false;
+  }
+  return true;
+};
+
+// Newest first, for the history views
+export const sortAuditEvents = (events: AuditEvent[]): AuditEvent[] =>
+  [...events].sort((a, b) => b.at.localeCompare(a.at));
@@ -0,0 +1,96 @@
+// src/utils/bulkEdit.ts - Preview, validate and undo one change applied to many selected people
+import { DIRECTIONS } from './typeHelpers';
+import { addTags, joinTags, removeTags, tagsOf } from './tags';
+import { findWard, streetsOfWard } from './wards';
+import type { Person, Street, Ward } from '../types';
+
+export type BulkField = 'ward' | 'street' | 'direction' | 'community' | 'tags';
+
+export interface BulkEdit {
+  field: BulkField;
+  value: string;
+  tagMode?: 'add' | 'remove';   // tags are added to or removed from each person's own list
+}
+
+export interface BulkPreviewRow {
+  person: Person;
+  before: string;
+  after: string;
+  changed: boolean;
+  skipped?: string;             // why this person is left out of the write
+}
+
+export const BULK_FIELDS: { field: BulkField; label: string }[] = [
+  { field: 'ward', label: 'Ward' },
+  { field: 'street', label: 'Street' },
+  { field: 'direction', label: 'Direction' },
+  { field: 'community', label: 'Community' },
+  { field: 'tags', label: 'Tags' }
+];
+
+// Cell text as written back, so before and after compare the way the sheet stores them
+const cellOf = (field: BulkField, value: unknown): string => {
+  if (field === 'tags') return joinTags(tagsOf(value));
+  if (value === undefined || value === null || value === 'NA') return '';
+  return String(value).trim();
+};
+
+const nextValue = (person: Person, edit: BulkEdit): string => {
+  if (edit.field !== 'tags') return edit.value.trim();
+  const tags = tagsOf(edit.value);
+  return joinTags(edit.tagMode === 'remove' ? removeTags(person.tags, tags) : addTags(person.tags, tags));
+};
+
+// ✅ Returns a message for the first problem, or null when the edit can be applied
+export const validateBulkEdit = (
+  edit: BulkEdit,
+  { canChangeDirection, wardNames = [] }: { canChangeDirection: boolean; wardNames?: string[] }
+): string | null => {
+  const value = edit.value.trim();
+  if (edit.field === 'tags') return tagsOf(value).length > 0 ? null : 'Enter at least one tag';
+  if (!value) return 'Enter the new value';
+  if (value.length > 100) return 'The value is longer than 100 characters';
+  if (edit.field === 'direction') {
+    if (!canChangeDirection) return 'Only Super Admins can move people to another direction';
+    if (!(DIRECTIONS as readonly string[]).includes(value)) return `Direction must be one of ${DIRECTIONS.join(', ')}`;
+  }
+  if (edit.field === 'ward' && wardNames.length > 0 && !wardNames.includes(value)) return 'Choose a ward from the ward list';
+  return null;
+};
+
+// ✅ A street from the master list only fits people whose ward has it; wards without listed streets take any name
+export const streetSkipReason = (person: Person, edit: BulkEdit, wards: Ward[], streets: Street[]): string | undefined => {
+  if (edit.field !== 'street' || wards.length === 0) return undefined;
+  const ward = findWard(wards, person.ward);
+  const wardStreets = streetsOfWard(streets, ward);
+  if (wardStreets.length === 0 || wardStreets.some(street => street.name === edit.value.trim())) return undefined;
+  return `Not a street of ward ${ward!.name}`;
+};
+
+// One row per selected person; skip returns a reason to leave someone out (e.g. unsynced offline changes)
+export const previewBulkEdit = (
+  people: Person[],
+  edit: BulkEdit,
+  skip: (person: Person) => string | undefined = () => undefined
+): BulkPreviewRow[] =>
+  people.map(person => {
+    const before = cellOf(edit.field, person[edit.field]);
+    const after = nextValue(person, edit);
+    return { person, before, after, changed: before !== after, skipped: person.id ? skip(person) : 'Not saved yet' };
+  });
+
+// Rows that will actually be written
+export const writableRows = (rows: BulkPreviewRow[]): BulkPreviewRow[] => rows.filter(row => row.changed && !row.skipped);
+
+export const bulkPayload = (rows: BulkPreviewRow[], field: BulkField): Partial<Person>[] =>
+  rows.map(row => ({ id: row.person.id, [field]: row.after }));
+
+// ✅ The undo puts back each person's own previous value, not one shared value
+export const undoPayload = (rows: BulkPreviewRow[], field: BulkField): Partial<Person>[] =>
+  rows.map(row => ({ id: row.person.id, [field]: row.before }));
+
+export const describeBulkEdit = (edit: BulkEdit): string => {
+  const label = BULK_FIELDS.find(option => option.field === edit.field)?.label || edit.field;
+  if (edit.field !== 'tags') return `${label} → ${edit.value.trim()}`;
+  return `${edit.tagMode === 'remove' ? 'Remove' : 'Add'} tags: ${tagsOf(edit.value).join(', ')}`;
+};
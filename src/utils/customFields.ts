@@ -0,0 +1,148 @@
+// src/utils/customFields.ts - Superadmin-defined person fields: keys, visibility per direction, form values and display
+import type { CustomField, CustomFieldType, Person } from '../types';
+import { CUSTOM_FIELD_PREFIX, isCustomFieldKey } from './peopleQuery';
+import type { ConditionFieldDefinition } from './peopleQuery';
+
+export const CUSTOM_FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'select', label: 'Choice from a list' },
+  { type: 'boolean', label: 'Yes / No' }
+];
+
+// Yes/No values are stored as words so the sheet stays readable and "is" filters match them
+export const YES = 'Yes';
+export const NO = 'No';
+
+const listOf = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map(item => String(item).trim()).filter(Boolean)
+    : typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+export const optionsOf = (field: CustomField) => listOf(field.options);
+export const directionsOf = (field: CustomField) => listOf(field.directions);
+
+// ✅ Column name from the label: "Ration card no." -> cf_ration_card_no (a suffix keeps it unique)
+export const customFieldKey = (label: string, taken: string[]): CustomField['key'] => {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'field';
+  const base: CustomField['key'] = `${CUSTOM_FIELD_PREFIX}${slug}`;
+  let key = base;
+  for (let suffix = 2; taken.includes(key); suffix++) key = `${base}_${suffix}`;
+  return key;
+};
+
+export const sortCustomFields = (fields: CustomField[]) =>
+  [...fields].sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity) || a.label.localeCompare(b.label));
+
+// A field with no directions is shown everywhere; no direction (a superadmin's own view) sees every field
+export const isVisibleIn = (field: CustomField, direction?: string | null) => {
+  const directions = directionsOf(field);
+  return !direction || directions.length === 0 || directions.includes(direction);
+};
+
+export const fieldsForDirection = (fields: CustomField[], direction?: string | null) =>
+  sortCustomFields(fields.filter(field => isVisibleIn(field, direction)));
+
+const asText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+export const isYes = (value: unknown) =>
+  value === true || ['yes', 'true', '1'].includes(asText(value).toLowerCase());
+
+// ✅ Form value -> what goes into the row. Blank stays blank; a number that isn't one is kept for validation to reject
+export const storedCustomValue = (field: CustomField, value: unknown): string | number => {
+  const text = asText(value);
+  switch (field.type) {
+    case 'number':
+      return text !== '' && Number.isFinite(Number(text)) ? Number(text) : text;
+    case 'boolean':
+      return value === undefined || value === null || text === '' ? '' : isYes(value) ? YES : NO;
+    case 'date': {
+      const time = Date.parse(text);
+      return text && !Number.isNaN(time) ? new Date(time).toISOString().slice(0, 10) : text;
+    }
+    default:
+      return text;
+  }
+};
+
+export const validateCustomValue = (field: CustomField, value: unknown): string | null => {
+  const text = asText(value);
+  if (!text) return field.required && field.type !== 'boolean' ? `${field.label} is required` : null;
+  switch (field.type) {
+    case 'number':
+      return Number.isFinite(Number(text)) ? null : `${field.label} must be a number`;
+    case 'date':
+      return Number.isNaN(Date.parse(text)) ? `${field.label} must be a date` : null;
+    case 'select':
+      return optionsOf(field).includes(text) ? null : `${field.label} must be one of ${optionsOf(field).join(', ')}`;
+    default:
+      return null;
+  }
+};
+
+// Every problem with a record's custom values, for the fields its direction shows
+export const customFieldIssues = (fields: CustomField[], record: Partial<Person>): string[] =>
+  fieldsForDirection(fields, record.direction)
+    .map(field => validateCustomValue(field, record[field.key]))
+    .filter((issue): issue is string => issue !== null);
+
+// ✅ Only the custom columns of the fields the record's direction shows; other columns are left as they are
+export const customValuesOf = (fields: CustomField[], record: Partial<Person>): Record<string, string | number> =>
+  Object.fromEntries(
+    fieldsForDirection(fields, record.direction)
+      .filter(field => field.key in record)
+      .map(field => [field.key, storedCustomValue(field, record[field.key])])
+  );
+
+// The record to save: values of the fields its direction shows are stored, other custom keys are left out
+export const withCustomValues = <T extends Partial<Person>>(fields: CustomField[], record: T): T => ({
+  ...Object.fromEntries(Object.entries(record).filter(([key]) => !isCustomFieldKey(key))),
+  ...customValuesOf(fields, record)
+}) as T;
+
+// Form inputs want text: a date cell may hold a full timestamp, a checkbox wants Yes/No
+export const customInputValue = (field: CustomField, value: unknown): string => {
+  if (field.type === 'boolean') return asText(value) === '' ? '' : isYes(value) ? YES : NO;
+  if (field.type === 'date') {
+    const time = Date.parse(asText(value));
+    return Number.isNaN(time) ? asText(value) : new Date(time).toISOString().slice(0, 10);
+  }
+  return asText(value);
+};
+
+export const formatCustomValue = (field: CustomField, value: unknown): string => {
+  const text = asText(value);
+  if (!text) return '';
+  if (field.type === 'boolean') return isYes(value) ? YES : NO;
+  if (field.type === 'date') {
+    const time = Date.parse(text);
+    return Number.isNaN(time) ? text : new Date(time).toLocaleDateString();
+  }
+  return text;
+};
+
+// ✅ How the filter builder treats a custom field: select -> pick a value, Yes/No -> pick one of two
+export const conditionDefinition = (field: CustomField): ConditionFieldDefinition => {
+  switch (field.type) {
+    case 'number': return { label: field.label, type: 'number' };
+    case 'date': return { label: field.label, type: 'date' };
+    case 'select': return { label: field.label, type: 'enum', options: optionsOf(field) };
+    case 'boolean': return { label: field.label, type: 'enum', options: [YES, NO] };
+    default: return { label: field.label, type: 'text' };
+  }
+};
+
+export const conditionDefinitions = (fields: CustomField[]): Record<string, ConditionFieldDefinition> =>
+  Object.fromEntries(sortCustomFields(fields).map(field => [field.key, conditionDefinition(field)]));
+
+// ✅ Checks on a field definition before it is saved
+export const validateFieldDefinition = (draft: Partial<CustomField>, existing: CustomField[]): string | null => {
+  const label = asText(draft.label);
+  if (!label) return 'Give the field a label';
+  const clash = existing.find(field => (!draft.id || field.id !== draft.id) && field.label.trim().toLowerCase() === label.toLowerCase());
+  if (clash) return `There is already a field called "${clash.label}"`;
+  if (!CUSTOM_FIELD_TYPES.some(option => option.type === draft.type)) return 'Choose a field type';
+  if (draft.type === 'select' && listOf(draft.options).length < 2) return 'A choice field needs at least two allowed values';
+  return null;
+};
@@ -0,0 +1,23 @@
+// src/utils/download.ts - Save generated content as a file in the browser
+
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ✅ Spreadsheet apps may run a cell that starts with = + - @, a tab or a carriage return as a formula;
+// a leading apostrophe makes them show it as text instead
+export const spreadsheetText = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+const csvCell = (raw: string) => {
+  const value = spreadsheetText(raw);
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// ✅ RFC 4180 CSV; the BOM makes Excel open Tamil and other non-ASCII text as UTF-8
+export const toCsv = (lines: string[][]): string =>
+  '\uFEFF' + lines.map(line => line.map(csvCell).join(',')).join('\r\n');
@@ -0,0 +1,315 @@
+// src/utils/duplicates.ts - Find probable duplicate people and build the merged record
+import type { Person } from '../types';
+import { householdKey } from './households';
+import { addTags, joinTags } from './tags';
+import { isMaskedValue } from './masking';
+import { wardKey } from './wards';
+
+export interface DuplicateCandidate {
+  key: string;            // stable pair id, see pairKey
+  left: Person;
+  right: Person;
+  score: number;          // 0-100, higher is more likely the same person
+  reasons: string[];
+}
+
+export interface ScanOptions {
+  threshold?: number;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export type MergeSide = 'left' | 'right';
+
+// Fields offered on the merge screen, in display order
+export const MERGE_FIELDS: { field: keyof Person & string; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'age', label: 'Age' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'aadharNumber', label: 'Aadhaar Number' },
+  { field: 'panNumber', label: 'PAN Number' },
+  { field: 'voterIdNumber', label: 'Voter ID' },
+  { field: 'community', label: 'Community' },
+  { field: 'caste', label: 'Caste' },
+  { field: 'religion', label: 'Religion' },
+  { field: 'ward', label: 'Ward' },
+  { field: 'street', label: 'Street' },
+  { field: 'address', label: 'Address' },
+  { field: 'direction', label: 'Direction' },
+  { field: 'householdId', label: 'Household' }
+];
+
+export const DUPLICATE_THRESHOLD = 60;
+
+// Blocks bigger than this (e.g. everyone named "Kumar") are compared ward by ward instead
+const MAX_BLOCK_SIZE = 200;
+const SCORE_CHUNK = 500;
+const ID_LABELS = { aadharNumber: 'Aadhaar', panNumber: 'PAN', voterIdNumber: 'Voter ID' } as const;
+const ID_FIELDS = Object.keys(ID_LABELS) as (keyof typeof ID_LABELS)[];
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+// Order-independent so two people produce the same key whichever side they're on
+export const pairKey = (a: string, b: string) => (a < b ? `${a}::${b}` : `${b}::${a}`);
+
+// ✅ "ARUN  KUMAR.", "Kumar Arun" and "arun k" compare on the same letters; single initials are dropped
+export const normaliseName = (value: unknown): string =>
+  text(value)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\s]/gu, ' ')   // keeps Tamil and other scripts, drops digits and punctuation
+    .split(/\s+/)
+    .filter(token => token.length > 1)
+    .sort()
+    .join(' ');
+
+const digits = (value: unknown) => text(value).replace(/\D/g, '').slice(-10);
+
+// Jaro-Winkler similarity, 0 (nothing alike) to 1 (identical) - forgiving of typos and transpositions
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// ✅ Weighted evidence; a conflicting ID or gender counts against, so namesakes don't merge
+export const scorePair = (left: Person, right: Person): { score: number; reasons: string[] } => {
+  const reasons: string[] = [];
+  const similarity = nameSimilarity(normaliseName(left.name), normaliseName(right.name));
+  let score = similarity * 50;
+  reasons.push(similarity === 1 ? 'Same name' : `Name ${Math.round(similarity * 100)}% similar`);
+
+  const leftPhone = digits(left.phone);
+  if (leftPhone.length === 10 && leftPhone === digits(right.phone)) {
+    score += 25;
+    reasons.push('Same phone');
+  }
+
+  for (const field of ID_FIELDS) {
+    const a = text(left[field]).toUpperCase();
+    const b = text(right[field]).toUpperCase();
+    // A number masked by the backend says nothing either way
+    if (!a || !b || isMaskedValue(a) || isMaskedValue(b)) continue;
+    if (a === b) {
+      score += 30;
+      reasons.push(`Same ${ID_LABELS[field]}`);
+    } else {
+      score -= 30;
+      reasons.push(`Different ${ID_LABELS[field]}`);
+    }
+  }
+
+  const leftHome = householdKey(left);
+  if (leftHome && leftHome === householdKey(right)) {
+    score += 15;
+    reasons.push('Same address');
+  } else if (text(left.ward) && text(left.ward) === text(right.ward) && text(left.street).toLowerCase() === text(right.street).toLowerCase()) {
+    score += 5;
+    reasons.push('Same street');
+  }
+
+  const leftAge = Number(left.age);
+  const rightAge = Number(right.age);
+  if (leftAge > 0 && rightAge > 0) {
+    const gap = Math.abs(leftAge - rightAge);
+    if (gap <= 2) {
+      score += 10;
+      reasons.push(gap === 0 ? 'Same age' : 'Similar age');
+    } else if (gap > 5) {
+      score -= 15;
+      reasons.push(`Ages ${leftAge} and ${rightAge}`);
+    }
+  }
+
+  if (left.gender && right.gender && left.gender !== right.gender) {
+    score -= 20;
+    reasons.push('Different gender');
+  }
+
+  return { score: Math.max(0, Math.min(100, Math.round(score))), reasons };
+};
+
+// ✅ First letter plus the consonants, repeats collapsed: "Lakshmi", "Laksmi" and "Lkashmi" all give "lksm",
+// so a typo in the first letters still lands in a shared block
+const soundKey = (token: string) =>
+  token[0] + token.slice(1).replace(/[aeiouyhw]/g, '').replace(/(.)\1+/g, '$1');
+
+// Only people sharing at least one block are compared, which keeps the scan far below n²
+const blockKeys = (person: Person): string[] => {
+  const keys: string[] = [];
+  const phone = digits(person.phone);
+  if (phone.length === 10) keys.push(`phone:${phone}`);
+  for (const field of ID_FIELDS) {
+    const value = text(person[field]).toUpperCase();
+    if (value) keys.push(`${field}:${value}`);
+  }
+  for (const token of normaliseName(person.name).split(' ')) {
+    if (token.length < 3) continue;
+    keys.push(`name:${token.slice(0, 3)}`);
+    keys.push(`sound:${soundKey(token)}`);
+  }
+  return keys;
+};
+
+// A block too big to compare in full is split by ward; only a split part still too big is skipped
+const splitByWard = (members: number[], people: Person[]): number[][] => {
+  const wards = new Map<string, number[]>();
+  for (const index of members) {
+    const key = wardKey(people[index].ward);
+    const group = wards.get(key);
+    if (group) group.push(index);
+    else wards.set(key, [index]);
+  }
+  return [...wards.values()];
+};
+
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// ✅ Runs in chunks and yields between them, so a scan of the whole list never freezes the page
+export const scanForDuplicates = async (people: Person[], options: ScanOptions = {}): Promise<DuplicateCandidate[]> => {
+  const { threshold = DUPLICATE_THRESHOLD, onProgress, signal } = options;
+  const withIds = people.filter(person => person.id);
+
+  const blocks = new Map<string, number[]>();
+  withIds.forEach((person, index) => {
+    for (const key of blockKeys(person)) {
+      const members = blocks.get(key);
+      if (members) members.push(index);
+      else blocks.set(key, [index]);
+    }
+  });
+
+  const pairs = new Set<string>();
+  const pending: [number, number][] = [];
+  for (const block of blocks.values()) {
+    for (const members of block.length > MAX_BLOCK_SIZE ? splitByWard(block, withIds) : [block]) {
+      if (members.length < 2 || members.length > MAX_BLOCK_SIZE) continue;
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const key = `${members[i]}:${members[j]}`;
+          if (pairs.has(key)) continue;
+          pairs.add(key);
+          pending.push([members[i], members[j]]);
+        }
+      }
+    }
+  }
+
+  const candidates: DuplicateCandidate[] = [];
+  for (let start = 0; start < pending.length; start += SCORE_CHUNK) {
+    if (signal?.aborted) break;
+    for (const [i, j] of pending.slice(start, start + SCORE_CHUNK)) {
+      const left = withIds[i];
+      const right = withIds[j];
+      const { score, reasons } = scorePair(left, right);
+      if (score >= threshold) candidates.push({ key: pairKey(left.id!, right.id!), left, right, score, reasons });
+    }
+    onProgress?.(Math.min(start + SCORE_CHUNK, pending.length), pending.length);
+    await nextTick();
+  }
+  if (pending.length === 0) onProgress?.(0, 0);
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+// ✅ Default pick per field: whichever side has a value, preferring the most recently updated record
+export const defaultChoices = (left: Person, right: Person): Record<string, MergeSide> => {
+  const leftNewer = text(left.updatedAt || left.createdAt) >= text(right.updatedAt || right.createdAt);
+  const preferred: MergeSide = leftNewer ? 'left' : 'right';
+  const other: MergeSide = preferred === 'left' ? 'right' : 'left';
+  const side = (choice: MergeSide) => (choice === 'left' ? left : right);
+  const choices: Record<string, MergeSide> = {};
+  for (const { field } of MERGE_FIELDS) {
+    choices[field] = !text(side(preferred)[field]) && text(side(other)[field]) ? other : preferred;
+  }
+  return choices;
+};
+
+// ✅ A number the backend sent masked can't be written anywhere, so that field isn't merged:
+// the kept record keeps whatever it stores
+export const isMaskedInPair = (left: Person, right: Person, field: string) =>
+  isMaskedValue(left[field]) || isMaskedValue(right[field]);
+
+// Masked numbers on the removed side that the kept record has no value for - they stay on the removed record
+export const strandedMaskedFields = (left: Person, right: Person, keep: MergeSide): string[] => {
+  const kept = keep === 'left' ? left : right;
+  const removed = keep === 'left' ? right : left;
+  return MERGE_FIELDS
+    .filter(({ field }) => isMaskedValue(removed[field]) && !text(kept[field]))
+    .map(({ label }) => label);
+};
+
+const listOf = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(String) : text(value).split(',')).map(item => item.trim()).filter(Boolean);
+
+// Builds the surviving record: the kept person's id, field values from the chosen sides,
+// mergedFrom listing every record folded into it so far, and the tags of both
+export const mergePeople = (
+  left: Person,
+  right: Person,
+  choices: Record<string, MergeSide>,
+  keep: MergeSide
+): { merged: Partial<Person>; removed: Person } => {
+  const kept = keep === 'left' ? left : right;
+  const removed = keep === 'left' ? right : left;
+  const mergedFrom = [...new Set([...listOf(kept.mergedFrom), ...listOf(removed.mergedFrom), removed.id!])];
+  const merged: Partial<Person> = { id: kept.id, mergedFrom: mergedFrom.join(',') };
+  for (const { field } of MERGE_FIELDS) {
+    if (isMaskedInPair(left, right, field)) continue;
+    const value = (choices[field] === 'left' ? left : right)[field];
+    merged[field] = value ?? '';
+  }
+  const tags = addTags(kept.tags, listOf(removed.tags));
+  if (tags.length > 0) merged.tags = joinTags(tags);
+  const notDuplicateOf = [...new Set([...listOf(kept.notDuplicateOf), ...listOf(removed.notDuplicateOf)])]
+    .filter(id => id !== kept.id && id !== removed.id);
+  if (notDuplicateOf.length > 0) merged.notDuplicateOf = notDuplicateOf.join(',');
+  return { merged, removed };
+};
+
+// ✅ "Not a duplicate" is stored on both records, so every reviewer on every device skips the pair
+export const dismissedKeys = (people: Person[]): Set<string> => {
+  const keys = new Set<string>();
+  for (const person of people) {
+    if (!person.id) continue;
+    listOf(person.notDuplicateOf).forEach(other => keys.add(pairKey(person.id!, other)));
+  }
+  return keys;
+};
+
+const withId = (ids: unknown, id: string) => [...new Set([...listOf(ids), id])].join(',');
+
+export const dismissalUpdates = (left: Person, right: Person): Partial<Person>[] => [
+  { id: left.id, notDuplicateOf: withId(left.notDuplicateOf, right.id!) },
+  { id: right.id, notDuplicateOf: withId(right.notDuplicateOf, left.id!) }
+];
+
+// Clearing every decision puts those pairs back in the queue
+export const clearDismissalUpdates = (people: Person[]): Partial<Person>[] =>
+  people.filter(person => person.id && listOf(person.notDuplicateOf).length > 0).map(person => ({ id: person.id, notDuplicateOf: '' }));
@@ -0,0 +1,143 @@
+// src/utils/households.ts - Group people who share a home and count households
+import type { Household, Person } from '../types';
+
+export interface HouseholdSuggestion {
+  key: string;          // normalised ward|street|address the members share
+  name: string;
+  headId?: string;
+  address?: string;
+  street?: string;
+  ward?: string;
+  direction?: string;
+  members: Person[];
+}
+
+export interface WardHouseholdCount {
+  ward: string;
+  households: number;
+}
+
+// Common spellings of the same thing in hand-typed addresses
+const ABBREVIATIONS = new Map([
+  ['st', 'street'],
+  ['str', 'street'],
+  ['rd', 'road'],
+  ['ln', 'lane'],
+  ['ave', 'avenue'],
+  ['no', ''],
+  ['door', '']
+]);
+
+// ✅ "No. 12, Gandhi St., Ward 5" and "12 gandhi street" normalise to the same text
+export const normaliseAddress = (value: unknown): string =>
+  String(value ?? '')
+    .toLowerCase()
+    .replace(/\bward\s*(no\.?\s*)?\d+\b/g, ' ')   // ward is compared separately
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')   // keeps Tamil and other scripts, like normaliseName
+    .split(' ')
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS.get(word) ?? word)
+    .filter(Boolean)
+    .join(' ');
+
+// ✅ "Ward 5", "ward-05", "Ward No. 5" and "5" all key to "5" - for master ward matching and household keys alike
+export const wardKey = (value: unknown): string =>
+  String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\b(ward|no)\b/g, ' ')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '')
+    .replace(/^0+(?=\d)/, '');
+
+// People without an address can't be placed - sharing only a street or ward is not a home
+export const householdKey = (record: Pick<Person, 'address' | 'street' | 'ward'>): string | null => {
+  const address = normaliseAddress(record.address);
+  if (!address) return null;
+  return [wardKey(record.ward), normaliseAddress(record.street), address].join('|');
+};
+
+// Oldest member heads the house by default; ties keep list order
+export const defaultHeadId = (members: Person[]): string | undefined => {
+  const [head] = [...members].sort((a, b) => (Number(b.age) || 0) - (Number(a.age) || 0));
+  return head?.id;
+};
+
+export const householdName = (head?: Person) => (head?.name ? `${head.name} household` : 'Household');
+
+// ✅ Groups of two or more people with no household yet who share a normalised address
+export const suggestHouseholds = (people: Person[]): HouseholdSuggestion[] => {
+  const groups = new Map<string, Person[]>();
+  for (const person of people) {
+    if (person.householdId || !person.id) continue;
+    const key = householdKey(person);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), person]);
+  }
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([key, members]) => {
+      const headId = defaultHeadId(members);
+      const head = members.find(member => member.id === headId);
+      return {
+        key,
+        name: householdName(head),
+        headId,
+        address: head?.address,
+        street: head?.street,
+        ward: head?.ward,
+        direction: head?.direction,
+        members
+      };
+    })
+    .sort((a, b) => b.members.length - a.members.length || a.key.localeCompare(b.key));
+};
+
+// Household record for a new group, copying the head's address
+export const toHousehold = (members: Person[], headId = defaultHeadId(members)): Partial<Household> => {
+  const head = members.find(member => member.id === headId) || members[0];
+  return {
+    name: householdName(head),
+    headId: head?.id,
+    address: head?.address,
+    street: head?.street,
+    ward: head?.ward,
+    direction: head?.direction
+  };
+};
+
+export const membersOf = (householdId: string | undefined, people: Person[]) =>
+  householdId ? people.filter(person => person.householdId === householdId) : [];
+
+// ✅ Dashboard breakdown, wards in numeric order ("Ward 2" before "Ward 10"); blank wards last.
+// wardName folds spellings of one ward together, e.g. onto the master ward's name.
+export const countHouseholdsByWard = (households: Household[], wardName?: (ward: string) => string): WardHouseholdCount[] => {
+  const counts = new Map<string, number>();
+  for (const household of households) {
+    const typed = String(household.ward ?? '').trim();
+    const ward = typed && wardName ? wardName(typed) : typed;
+    counts.set(ward, (counts.get(ward) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([ward, count]) => ({ ward, households: count }))
+    .sort((a, b) => {
+      if (!a.ward || !b.ward) return a.ward ? -1 : b.ward ? 1 : 0;
+      return a.ward.localeCompare(b.ward, undefined, { numeric: true });
+    });
+};
+
+// ✅ One recipient per home: the head when they're in the list, otherwise the first member listed.
+// People outside any household are all kept.
+export const onePerHousehold = (people: Person[], households: Household[]): Person[] => {
+  const heads = new Map(households.map(household => [household.id, household.headId]));
+  const chosen = new Map<string, Person>();
+  for (const person of people) {
+    const householdId = person.householdId;
+    if (!householdId || !heads.has(householdId)) continue;
+    if (!chosen.has(householdId) || person.id === heads.get(householdId)) chosen.set(householdId, person);
+  }
+  return people.filter(person => {
+    const householdId = person.householdId;
+    return !householdId || !heads.has(householdId) || chosen.get(householdId) === person;
+  });
+};
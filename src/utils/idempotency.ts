@@ -0,0 +1,13 @@
+// src/utils/idempotency.ts - Client-generated keys that let backends ignore replayed writes
+
+export interface WriteOptions {
+  // Same key => the backend applies the write at most once and replays the first response
+  idempotencyKey?: string;
+}
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
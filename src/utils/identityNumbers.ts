@@ -0,0 +1,172 @@
+// src/utils/identityNumbers.ts - Aadhaar, PAN, EPIC (voter ID) and Indian mobile number checks
+import type { Person } from '../types';
+import { isMaskedValue } from './masking';
+
+export type IdentityField = 'aadharNumber' | 'panNumber' | 'voterIdNumber' | 'phone';
+
+// error = the number cannot be right; warning = well-formed but inconsistent with the rest of the record
+export interface IdentityIssue {
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+// 4th character of a PAN says who holds it
+export const PAN_HOLDER_TYPES: Record<string, string> = {
+  P: 'individual',
+  C: 'company',
+  H: 'Hindu undivided family',
+  F: 'firm',
+  A: 'association of persons',
+  T: 'trust',
+  B: 'body of individuals',
+  L: 'local authority',
+  J: 'artificial juridical person',
+  G: 'government agency'
+};
+
+export const IDENTITY_LABELS: Record<IdentityField, string> = {
+  aadharNumber: 'Aadhaar',
+  panNumber: 'PAN',
+  voterIdNumber: 'Voter ID',
+  phone: 'Mobile'
+};
+
+const error = (message: string): IdentityIssue => ({ message, severity: 'error' });
+const warning = (message: string): IdentityIssue => ({ message, severity: 'warning' });
+
+// ✅ Normalisers - what people type ("2345 6789 0123", "+91 98765-43210", "abcpn1234k") to the stored form.
+// A masked number (XXXX-XXXX-1234) is the backend's stand-in for the stored value and is kept as sent.
+const keepMasked = (normalise: (text: string) => string) => (value: unknown) => {
+  const text = String(value ?? '');
+  return isMaskedValue(text) ? text.trim() : normalise(text);
+};
+
+export const normaliseAadhaar = keepMasked(text => text.replace(/[\s-]/g, ''));
+
+export const normaliseMobile = (value: unknown) => {
+  const digits = String(value ?? '').replace(/[\s\-()+]/g, '');
+  if (/^91\d{10}$/.test(digits)) return digits.slice(2);
+  if (/^0\d{10}$/.test(digits)) return digits.slice(1);
+  return digits;
+};
+
+export const normalisePan = keepMasked(text => text.replace(/\s/g, '').toUpperCase());
+
+export const normaliseEpic = keepMasked(text => text.replace(/\s/g, '').toUpperCase());
+
+// Verhoeff tables (dihedral group D5), as used by UIDAI for the Aadhaar check digit
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+// True when the last digit is the Verhoeff check digit of the rest
+export const isValidVerhoeff = (digits: string): boolean => {
+  if (!/^\d+$/.test(digits)) return false;
+  let check = 0;
+  [...digits].reverse().forEach((digit, index) => {
+    check = VERHOEFF_D[check][VERHOEFF_P[index % 8][Number(digit)]];
+  });
+  return check === 0;
+};
+
+// ✅ 12 digits, never starting with 0 or 1, last digit a Verhoeff checksum
+// A masked number can't be checked here; the backend checked it when it was stored.
+export const checkAadhaar = (value: unknown): IdentityIssue | null => {
+  if (isMaskedValue(value)) return null;
+  const aadhaar = normaliseAadhaar(value);
+  if (!/^\d{12}$/.test(aadhaar)) return error('Aadhaar must be exactly 12 digits');
+  if (/^[01]/.test(aadhaar)) return error('Aadhaar numbers never start with 0 or 1');
+  if (!isValidVerhoeff(aadhaar)) return error('Aadhaar checksum does not match - check for a mistyped digit');
+  return null;
+};
+
+// Initials an individual's PAN may carry in the 5th place: the surname's, or a leading initial
+// ("S. Arun Kumar"), which in much of South India stands for the family or father's name
+export const surnameInitials = (name: unknown): string[] => {
+  const tokens = String(name ?? '').toUpperCase().replace(/[^A-Z\s.]/g, ' ').split(/[\s.]+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+  const initials = new Set<string>([tokens[tokens.length - 1][0]]);
+  tokens.filter(token => token.length === 1).forEach(token => initials.add(token));
+  return [...initials];
+};
+
+// ✅ Shape, holder type (4th character) and, for individuals, the surname initial (5th character)
+export const checkPan = (value: unknown, name?: unknown): IdentityIssue | null => {
+  if (isMaskedValue(value)) return null;
+  const pan = normalisePan(value);
+  if (!/^[A-Z]{5}\d{4}[A-Z]$/.test(pan)) return error('PAN must look like ABCPE1234F (5 letters, 4 digits, 1 letter)');
+
+  const holder = PAN_HOLDER_TYPES[pan[3]];
+  if (!holder) return error(`PAN 4th character "${pan[3]}" is not a valid holder type`);
+  if (pan[3] !== 'P') return warning(`PAN ${pan} belongs to a ${holder}, not an individual`);
+
+  const initials = surnameInitials(name);
+  // Names written in another script can't be compared, so only Latin names are checked
+  if (initials.length > 0 && !initials.includes(pan[4])) {
+    return warning(`PAN 5th character "${pan[4]}" does not match the surname initial ${initials.map(i => `"${i}"`).join(' or ')}`);
+  }
+  return null;
+};
+
+// ✅ EPIC: 3 letters + 7 digits. Old state-issued cards (e.g. TN/12/034/123456) are accepted with a warning.
+export const checkEpic = (value: unknown): IdentityIssue | null => {
+  if (isMaskedValue(value)) return null;
+  const epic = normaliseEpic(value);
+  if (/^[A-Z]{3}\d{7}$/.test(epic)) return null;
+  if (/^[A-Z]{2}\/\d{2}\/\d{3}\/\d{6}$/.test(epic)) return warning('Old-format voter ID - check it against the card');
+  return error('Voter ID must be 3 letters followed by 7 digits (ABC1234567)');
+};
+
+// ✅ Indian mobile numbers are 10 digits starting 6-9; +91 / 0 prefixes are stripped first
+export const checkMobile = (value: unknown): IdentityIssue | null => {
+  const mobile = normaliseMobile(value);
+  if (!/^\d{10}$/.test(mobile)) return error('Mobile number must be 10 digits');
+  if (!/^[6-9]/.test(mobile)) return error('Indian mobile numbers start with 6, 7, 8 or 9');
+  if (/^(\d)\1{9}$/.test(mobile)) return error('Mobile number cannot be one digit repeated');
+  return null;
+};
+
+export const checkIdentity = (field: IdentityField, value: unknown, person: Partial<Person> = {}): IdentityIssue | null => {
+  switch (field) {
+    case 'aadharNumber':
+      return checkAadhaar(value);
+    case 'panNumber':
+      return checkPan(value, person.name);
+    case 'voterIdNumber':
+      return checkEpic(value);
+    case 'phone':
+      return checkMobile(value);
+  }
+};
+
+// Every filled-in identity field of a record, checked; blank fields are skipped
+export const identityIssues = (person: Partial<Person>): Partial<Record<IdentityField, IdentityIssue>> => {
+  const issues: Partial<Record<IdentityField, IdentityIssue>> = {};
+  for (const field of Object.keys(IDENTITY_LABELS) as IdentityField[]) {
+    const value = person[field];
+    if (value === undefined || value === null || String(value).trim() === '') continue;
+    const issue = checkIdentity(field, value, person);
+    if (issue) issues[field] = issue;
+  }
+  return issues;
+};
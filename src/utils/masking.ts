@@ -0,0 +1,72 @@
+// src/utils/masking.ts - Hiding identity numbers outside the screens that need them in full
+import type { User } from '../types';
+
+// ✅ Keep only the last few characters: 123456789012 -> XXXXXXXX9012
+export const maskIdentifier = (value: unknown, visible = 4): string => {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  if (!text) return '';
+  if (text.length <= visible) return 'X'.repeat(text.length);
+  return 'X'.repeat(text.length - visible) + text.slice(-visible);
+};
+
+// Fields that are masked by default in tables, exports, prints and message previews
+export const SENSITIVE_FIELDS = ['aadharNumber', 'panNumber', 'voterIdNumber'] as const;
+export type SensitiveField = typeof SENSITIVE_FIELDS[number];
+
+export const SENSITIVE_LABELS: Record<SensitiveField, string> = {
+  aadharNumber: 'Aadhaar Number',
+  panNumber: 'PAN Number',
+  voterIdNumber: 'Voter ID'
+};
+
+export const isSensitiveField = (field: string): field is SensitiveField =>
+  (SENSITIVE_FIELDS as readonly string[]).includes(field);
+
+// ✅ Aadhaar keeps the printed grouping (XXXX-XXXX-1234); PAN and Voter ID keep their last 4 characters
+export const maskSensitive = (field: SensitiveField, value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  if (field === 'aadharNumber') {
+    const digits = text.replace(/[\s-]/g, '');
+    if (/^\d{12}$/.test(digits)) return `XXXX-XXXX-${digits.slice(-4)}`;
+  }
+  return maskIdentifier(text);
+};
+
+// A masked value as the backend sends it to roles that can't reveal the field; no real number starts like this
+export const isMaskedValue = (value: unknown): boolean =>
+  /^X{4}/.test(value === null || value === undefined ? '' : String(value).trim());
+
+// Numbers typed into free text (message bodies); Aadhaar, then PAN, then Voter ID shapes
+const TEXT_PATTERNS: [RegExp, (match: string) => string][] = [
+  [/\b\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g, match => maskSensitive('aadharNumber', match)],
+  [/\b[A-Z]{5}\d{4}[A-Z]\b/gi, match => maskIdentifier(match)],
+  [/\b[A-Z]{3}\d{7}\b/gi, match => maskIdentifier(match)]
+];
+
+export const maskIdentityText = (text: string): string =>
+  TEXT_PATTERNS.reduce((masked, [pattern, mask]) => masked.replace(pattern, mask), text);
+
+// ✅ Per-role policy: which masked fields a role may reveal on screen, and whether it may export them unmasked.
+// Voter IDs are printed on the public electoral roll, so admins may reveal those for their own direction.
+export interface MaskingPolicy {
+  reveal: readonly SensitiveField[];
+  exportUnmasked: boolean;
+}
+
+export const MASKING_POLICY: Record<User['role'], MaskingPolicy> = {
+  superadmin: { reveal: SENSITIVE_FIELDS, exportUnmasked: true },
+  admin: { reveal: ['voterIdNumber'], exportUnmasked: false }
+};
+
+const NO_ACCESS: MaskingPolicy = { reveal: [], exportUnmasked: false };
+
+export const maskingPolicyFor = (role?: string): MaskingPolicy =>
+  (role && MASKING_POLICY[role as User['role']]) || NO_ACCESS;
+
+export const canReveal = (role: string | undefined, field: SensitiveField) => maskingPolicyFor(role).reveal.includes(field);
+
+// Only roles whose policy allows it may take full identity numbers out of the app
+export const canExportUnmasked = (role?: string) => maskingPolicyFor(role).exportUnmasked;
+
+// A reveal is recorded with the reason; a word or two is not a reason
+export const MIN_REVEAL_REASON_LENGTH = 10;
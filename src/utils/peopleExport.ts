@@ -0,0 +1,110 @@
+// src/utils/peopleExport.ts - PEOPLE TABLE EXPORT TO CSV, XLSX AND PRINTABLE PDF
+import * as XLSX from 'xlsx';
+import type { CustomField, Person } from '../types';
+import { downloadFile, spreadsheetText, toCsv } from './download';
+import { isSensitiveField, maskSensitive } from './masking';
+import { customInputValue } from './customFields';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface ExportColumn {
+  field: keyof Person & string;
+  label: string;
+  format?: (value: unknown) => string;   // custom fields: Yes/No and yyyy-mm-dd rather than raw cell values
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'age', label: 'Age' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'aadharNumber', label: 'Aadhaar Number' },
+  { field: 'panNumber', label: 'PAN Number' },
+  { field: 'voterIdNumber', label: 'Voter ID' },
+  { field: 'community', label: 'Community' },
+  { field: 'caste', label: 'Caste' },
+  { field: 'religion', label: 'Religion' },
+  { field: 'ward', label: 'Ward' },
+  { field: 'street', label: 'Street' },
+  { field: 'address', label: 'Address' },
+  { field: 'direction', label: 'Direction' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'createdBy', label: 'Created By' },
+  { field: 'createdAt', label: 'Created At' }
+];
+
+// ✅ One column per superadmin-defined field, after the built-in ones
+export const customFieldColumns = (fields: CustomField[]): ExportColumn[] =>
+  fields.map(field => ({ field: field.key, label: field.label, format: value => customInputValue(field, value) }));
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  masked: boolean;
+  title: string;           // file name stem and PDF heading
+}
+
+// ✅ Header row + one string row per person, with Aadhaar / PAN / Voter ID masked when asked
+export const toExportTable = (people: Person[], columns: ExportColumn[], masked: boolean): string[][] => [
+  columns.map(column => column.label),
+  ...people.map(person => columns.map(({ field, format }) => {
+    const value = person[field];
+    if (value === undefined || value === null) return '';
+    if (format) return format(value);
+    return masked && isSensitiveField(field) ? maskSensitive(field, value) : String(value);
+  }))
+];
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The browser's print dialog saves as PDF - no PDF library needed for a plain table
+const printTable = (table: string[][], title: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error('Allow pop-ups for this site to print or save as PDF');
+
+  const [header, ...rows] = table;
+  printWindow.document.write(`<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 10px; margin: 16px; }
+  h1 { font-size: 16px; margin: 0 0 4px; }
+  p { color: #6b7280; margin: 0 0 12px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 3px 5px; text-align: left; }
+  th { background: #f3f4f6; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  @page { size: landscape; margin: 10mm; }
+</style></head><body>
+<h1>${escapeHtml(title)}</h1>
+<p>${rows.length} people · exported ${escapeHtml(new Date().toLocaleString())}</p>
+<table><thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>
+<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>
+</table></body></html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+export const exportPeople = (people: Person[], options: ExportOptions) => {
+  const table = toExportTable(people, options.columns, options.masked);
+  const stem = options.title.replace(/[^\w-]+/g, '-').toLowerCase();
+  console.log(`📤 Exporting ${people.length} people as ${options.format}${options.masked ? ' (masked)' : ''}`);
+
+  switch (options.format) {
+    case 'csv':
+      downloadFile(`${stem}.csv`, toCsv(table), 'text/csv;charset=utf-8');
+      return;
+    case 'xlsx': {
+      const sheet = XLSX.utils.aoa_to_sheet(table.map(row => row.map(spreadsheetText)));
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, sheet, 'People');
+      const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+      downloadFile(`${stem}.xlsx`, data, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      return;
+    }
+    case 'pdf':
+      printTable(table, options.title);
+  }
+};
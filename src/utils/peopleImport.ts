@@ -0,0 +1,282 @@
+// src/utils/peopleImport.ts - CSV / XLSX IMPORT: READ, MAP COLUMNS, VALIDATE
+// Rows go through the same PERSON_SCHEMA as sheet reads, but for an import every problem rejects the row
+// except advisory ones (e.g. a PAN that doesn't match the surname), which are shown as warnings.
+import * as XLSX from 'xlsx';
+import type { Person, Street, Ward } from '../types';
+import { parseRows } from './schema';
+import type { FieldRule, Schema } from './schema';
+import { isMaskedValue, isSensitiveField, maskSensitive } from './masking';
+import type { PeopleFilterField } from './peopleQuery';
+import { PERSON_SCHEMA } from './typeHelpers';
+import { toCsv } from './download';
+import { findStreet, findWard, streetsOfWard } from './wards';
+
+export type ImportField =
+  | 'name'
+  | 'phone'
+  | 'age'
+  | 'gender'
+  | 'aadharNumber'
+  | 'panNumber'
+  | 'voterIdNumber'
+  | 'community'
+  | 'ward'
+  | 'street'
+  | 'address'
+  | 'direction'
+  | 'caste'
+  | 'religion';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', required: true, aliases: ['fullname', 'personname', 'votername', 'electorname'] },
+  { field: 'phone', label: 'Phone', required: true, aliases: ['mobile', 'mobileno', 'mobilenumber', 'phoneno', 'phonenumber', 'contact'] },
+  { field: 'age', label: 'Age', aliases: [] },
+  { field: 'gender', label: 'Gender', aliases: ['sex'] },
+  { field: 'aadharNumber', label: 'Aadhaar Number', aliases: ['aadhar', 'aadhaar', 'aadhaarnumber', 'aadharno', 'aadhaarno', 'uid'] },
+  { field: 'panNumber', label: 'PAN Number', aliases: ['pan', 'panno'] },
+  { field: 'voterIdNumber', label: 'Voter ID', aliases: ['voterid', 'voteridno', 'epic', 'epicno', 'epicnumber'] },
+  { field: 'community', label: 'Community', aliases: [] },
+  { field: 'ward', label: 'Ward', aliases: ['wardno', 'wardnumber'] },
+  { field: 'street', label: 'Street', aliases: ['streetname'] },
+  { field: 'address', label: 'Address', aliases: ['houseaddress', 'fulladdress'] },
+  { field: 'direction', label: 'Direction', aliases: ['zone'] },
+  { field: 'caste', label: 'Caste', aliases: [] },
+  { field: 'religion', label: 'Religion', aliases: [] }
+];
+
+// Same four fields validateUniqueFields checks on the People page
+export const UNIQUE_FIELDS: ImportField[] = ['aadharNumber', 'panNumber', 'voterIdNumber', 'phone'];
+
+export interface ImportTable {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// One entry per file column: the Person field it feeds, or '' to ignore the column
+export type ColumnMapping = (ImportField | '')[];
+
+export interface ImportRow {
+  line: number;          // line in the file (header = 1), as the user sees it in Excel
+  cells: string[];
+  person?: Person;       // set when the row can be imported
+  errors: string[];
+  warnings: string[];    // imported anyway, but worth a second look
+}
+
+export interface ImportOptions {
+  createdBy: string;
+  direction?: string;    // admins: forced onto every row; superadmins: used when the row has none
+  forceDirection?: boolean;
+  wards?: Ward[];        // master wards and streets; once there are any, values must match them
+  streets?: Street[];
+}
+
+// ✅ Ward and street cells are mapped onto the master names ("ward-05" -> "5"); a value with no match rejects the row.
+// Wards whose streets aren't listed yet take any street, like the add form.
+const checkAddress = (person: Person, row: ImportRow, wards: Ward[], streets: Street[]) => {
+  const typedWard = cellText(person.ward);
+  if (wards.length === 0 || !typedWard) return;
+  const ward = findWard(wards, typedWard);
+  if (!ward) {
+    row.errors.push(`Ward "${typedWard}" is not in the ward list`);
+    return;
+  }
+  if (ward.direction && person.direction && ward.direction !== person.direction) {
+    row.errors.push(`Ward ${ward.name} belongs to ${ward.direction}, not ${person.direction}`);
+    return;
+  }
+  if (ward.name !== typedWard) row.warnings.push(`Ward "${typedWard}" imported as "${ward.name}"`);
+  person.ward = ward.name;
+
+  const typedStreet = cellText(person.street);
+  if (!typedStreet || streetsOfWard(streets, ward).length === 0) return;
+  const street = findStreet(streets, ward, typedStreet);
+  if (!street) {
+    row.errors.push(`Street "${typedStreet}" is not a street of ward ${ward.name}`);
+    return;
+  }
+  if (street.name !== typedStreet) row.warnings.push(`Street "${typedStreet}" imported as "${street.name}"`);
+  person.street = street.name;
+};
+
+// Sheet reads accept masked numbers (the backend masks them per role), but a file - e.g. a masked export
+// fed back in - must carry the full number
+const fullNumber = (rule: FieldRule): FieldRule =>
+  rule.kind === 'string'
+    ? {
+        ...rule,
+        validate: (value, row) =>
+          isMaskedValue(value)
+            ? { message: 'is masked - import the full number', severity: 'error' }
+            : rule.validate?.(value, row) ?? null
+      }
+    : rule;
+
+const IMPORT_SCHEMA: Schema = {
+  ...PERSON_SCHEMA,
+  id: { kind: 'string' },
+  phone: { ...PERSON_SCHEMA.phone, required: true },
+  aadharNumber: fullNumber(PERSON_SCHEMA.aadharNumber),
+  panNumber: fullNumber(PERSON_SCHEMA.panNumber),
+  voterIdNumber: fullNumber(PERSON_SCHEMA.voterIdNumber)
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const cellText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+// ✅ First sheet of an .xlsx/.xls, or a .csv. raw keeps 12-digit Aadhaar numbers from turning into 1.23E+11.
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file has no sheets');
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+  const [headerRow = [], ...rows] = table;
+  const headers = headerRow.map(cellText);
+  if (headers.every(header => !header)) throw new Error('The first row must contain column headings');
+
+  return {
+    fileName: file.name,
+    headers,
+    rows: rows.map(row => headers.map((_, index) => cellText(row[index])))
+  };
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const key = normalizeHeader(header);
+    const match = IMPORT_FIELDS.find(({ field, aliases }) =>
+      !used.has(field) && (normalizeHeader(field) === key || aliases.includes(key))
+    );
+    if (!match) return '';
+    used.add(match.field);
+    return match.field;
+  });
+};
+
+// Problems with the mapping itself - shown before any row is validated
+export const mappingProblems = (mapping: ColumnMapping, options: Pick<ImportOptions, 'direction'>): string[] => {
+  const problems: string[] = [];
+  for (const { field, label, required } of IMPORT_FIELDS) {
+    const count = mapping.filter(mapped => mapped === field).length;
+    if (required && count === 0) problems.push(`Map a column to ${label}`);
+    if (count > 1) problems.push(`${label} is mapped to ${count} columns`);
+  }
+  if (!mapping.includes('direction') && !options.direction) {
+    problems.push('Map a Direction column or pick a direction for every row');
+  }
+  return problems;
+};
+
+// Values per lookup request - a few hundred numbers keep the query string well inside URL limits
+export const LOOKUP_CHUNK_SIZE = 200;
+
+// ✅ The file's UNIQUE_FIELDS values, normalised as they will be stored, as getPeople lookups for the
+// duplicate check. Rows the backend returns for them are the existing people validateImport compares against.
+export const identityLookups = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  chunkSize = LOOKUP_CHUNK_SIZE
+): Partial<Record<PeopleFilterField, string[]>>[] => {
+  const pairs = new Map<string, [PeopleFilterField, string]>();
+  mapping.forEach((field, column) => {
+    const rule = field && UNIQUE_FIELDS.includes(field) ? IMPORT_SCHEMA[field] : undefined;
+    if (!field || rule?.kind !== 'string') return;
+    for (const cells of table.rows) {
+      const typed = cellText(cells[column]);
+      const value = rule.normalize ? rule.normalize(typed) : typed;
+      if (value && !isMaskedValue(value)) pairs.set(`${field}:${value}`, [field as PeopleFilterField, value]);
+    }
+  });
+
+  const lookups: Partial<Record<PeopleFilterField, string[]>>[] = [];
+  const entries = [...pairs.values()];
+  for (let start = 0; start < entries.length; start += chunkSize) {
+    const lookup: Partial<Record<PeopleFilterField, string[]>> = {};
+    entries.slice(start, start + chunkSize).forEach(([field, value]) => {
+      lookup[field] = [...(lookup[field] || []), value];
+    });
+    lookups.push(lookup);
+  }
+  return lookups;
+};
+
+const newPersonId = () => `person_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// ✅ Schema checks, then uniqueness against existing people and against earlier rows of the same file.
+// existing should be the identityLookups hits: a number the caller's role can't reveal comes back masked,
+// and a masked hit is counted as a duplicate of the file value it masks.
+export const validateImport = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  existing: Person[],
+  options: ImportOptions
+): ImportRow[] => {
+  const rows: ImportRow[] = table.rows
+    .map((cells, index) => ({ line: index + 2, cells, errors: [] as string[], warnings: [] as string[] }))
+    .filter(row => row.cells.some(Boolean));
+
+  const raw = rows.map(row => {
+    const record: Record<string, unknown> = { id: newPersonId() };
+    mapping.forEach((field, column) => {
+      if (field) record[field] = row.cells[column];
+    });
+    if (options.direction && (options.forceDirection || !cellText(record.direction))) {
+      record.direction = options.direction;
+    }
+    return record;
+  });
+
+  const { records, report } = parseRows<Person>('Import', IMPORT_SCHEMA, raw);
+  const byId = new Map(records.map(person => [person.id, person]));
+  for (const issue of report.issues) {
+    (issue.advisory ? rows[issue.row].warnings : rows[issue.row].errors).push(issue.message);
+  }
+
+  const known = new Map<ImportField, Map<string, string>>(UNIQUE_FIELDS.map(field => [field, new Map()]));
+  for (const person of existing) {
+    for (const field of UNIQUE_FIELDS) {
+      const value = cellText(person[field]).toUpperCase();
+      if (value) known.get(field)!.set(value, `already registered for ${person.name}`);
+    }
+  }
+  const clashOf = (field: ImportField, value: string) =>
+    known.get(field)!.get(value) || (isSensitiveField(field) ? known.get(field)!.get(maskSensitive(field, value)) : undefined);
+
+  const labels = new Map(IMPORT_FIELDS.map(({ field, label }) => [field, label]));
+  rows.forEach((row, index) => {
+    const person = byId.get(String(raw[index].id));
+    if (!person || row.errors.length > 0) return;
+
+    checkAddress(person, row, options.wards || [], options.streets || []);
+    if (row.errors.length > 0) return;
+
+    for (const field of UNIQUE_FIELDS) {
+      const value = cellText(person[field]).toUpperCase();
+      const clash = value && clashOf(field, value);
+      if (clash) row.errors.push(`${labels.get(field)} ${value} is ${clash}`);
+    }
+    if (row.errors.length > 0) return;
+
+    // Only rows that will actually be imported claim their values
+    for (const field of UNIQUE_FIELDS) {
+      const value = cellText(person[field]).toUpperCase();
+      if (value) known.get(field)!.set(value, `used on line ${row.line} of this file`);
+    }
+    row.person = { ...person, createdBy: options.createdBy, createdAt: new Date().toISOString() };
+  });
+
+  return rows;
+};
+
+// ✅ The rejected rows exactly as uploaded plus the reasons, so they can be fixed and re-imported
+export const toRejectionCsv = (table: ImportTable, rejected: ImportRow[]): string => {
+  const lines = [
+    [...table.headers, 'Line', 'Import errors'],
+    ...rejected.map(row => [...row.cells, String(row.line), row.errors.join('; ')])
+  ];
+  return toCsv(lines);
+};
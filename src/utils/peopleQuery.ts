@@ -0,0 +1,405 @@
+// src/utils/peopleQuery.ts - PAGING, FILTERING AND SORTING RULES FOR getPeople
+// Shared by the client-side fallback and the mock backend so both page exactly like the real servers
+import { hasTag } from './tags';
+
+export type PeopleSortField =
+  | 'name'
+  | 'age'
+  | 'phone'
+  | 'gender'
+  | 'community'
+  | 'ward'
+  | 'street'
+  | 'direction'
+  | 'createdAt'
+  | 'updatedAt';
+
+export type PeopleFilterField =
+  | 'name'
+  | 'phone'
+  | 'aadharNumber'
+  | 'panNumber'
+  | 'voterIdNumber'
+  | 'gender'
+  | 'community'
+  | 'ward'
+  | 'street'
+  | 'caste'
+  | 'religion';
+
+// Superadmin-defined person fields (src/utils/customFields.ts) live in People columns with this prefix
+export const CUSTOM_FIELD_PREFIX = 'cf_';
+const CUSTOM_FIELD_KEY = /^cf_[A-Za-z0-9_]+$/;
+
+export const isCustomFieldKey = (field: string): field is `cf_${string}` => CUSTOM_FIELD_KEY.test(field);
+
+// Fields the filter builder can put conditions on
+export type BuiltInConditionField =
+  | 'age'
+  | 'gender'
+  | 'community'
+  | 'caste'
+  | 'religion'
+  | 'ward'
+  | 'street'
+  | 'direction'
+  | 'tags'
+  | 'createdBy'
+  | 'createdAt';
+
+export type ConditionField = BuiltInConditionField | `cf_${string}`;
+
+export type ConditionFieldType = 'number' | 'date' | 'enum' | 'text' | 'tags';
+
+export interface ConditionFieldDefinition {
+  label: string;
+  type: ConditionFieldType;
+  options?: string[];
+}
+
+export type ConditionOperator = 'is' | 'contains' | 'between' | 'has' | 'lacks';
+
+const CONDITION_OPERATORS: ConditionOperator[] = ['is', 'contains', 'between', 'has', 'lacks'];
+
+export interface PeopleCondition {
+  field: ConditionField;
+  op: ConditionOperator;
+  value?: string;           // 'between': lower bound (inclusive)
+  to?: string;              // 'between': upper bound (inclusive)
+  type?: ConditionFieldType; // custom fields only, which CONDITION_FIELDS doesn't know
+}
+
+export const CONDITION_FIELDS: Record<BuiltInConditionField, ConditionFieldDefinition> = {
+  age: { label: 'Age', type: 'number' },
+  gender: { label: 'Gender', type: 'enum', options: ['Male', 'Female', 'Other'] },
+  community: { label: 'Community', type: 'text' },
+  caste: { label: 'Caste', type: 'text' },
+  religion: { label: 'Religion', type: 'text' },
+  ward: { label: 'Ward', type: 'text' },
+  street: { label: 'Street', type: 'text' },
+  direction: { label: 'Direction', type: 'enum', options: ['East', 'West', 'North', 'South'] },
+  tags: { label: 'Tags', type: 'tags' },
+  createdBy: { label: 'Created by', type: 'text' },
+  createdAt: { label: 'Created date', type: 'date' }
+};
+
+export const conditionType = ({ field, type }: PeopleCondition): ConditionFieldType =>
+  isCustomFieldKey(field) ? type || 'text' : CONDITION_FIELDS[field]?.type || 'text';
+
+// Operators each field type offers; the first is the default
+export const OPERATORS_BY_TYPE: Record<ConditionFieldType, ConditionOperator[]> = {
+  number: ['between'],
+  date: ['between'],
+  enum: ['is'],
+  text: ['contains', 'is'],
+  tags: ['has', 'lacks']
+};
+
+// 'exclude' (default) = normal views, 'only' = the recycle bin, 'include' = both
+export type DeletedFilter = 'exclude' | 'only' | 'include';
+
+// ✅ A saved segment's rules: the same conditions as the filter builder, evaluated on every read
+export interface SegmentRule {
+  conditions: PeopleCondition[];
+  match?: 'all' | 'any';
+}
+
+export interface PeopleSort {
+  field: PeopleSortField;
+  order: 'asc' | 'desc';
+}
+
+export interface PeopleQuery {
+  page?: number;            // 1-based; ignored when cursor is set
+  pageSize?: number;        // omit page, pageSize and cursor to get every matching row
+  cursor?: string;          // nextCursor from the previous page
+  sortBy?: PeopleSortField;
+  sortOrder?: 'asc' | 'desc';
+  sort?: PeopleSort[];      // multi-column sort, first key wins; replaces sortBy/sortOrder when set
+  direction?: string | null;
+  ids?: string[];           // only these people, matched exactly
+  search?: string;          // free text across SEARCH_FIELDS
+  filters?: Partial<Record<PeopleFilterField, string>>;  // case-insensitive "contains" per field
+  lookup?: Partial<Record<PeopleFilterField, string[]>>;  // people holding any of these values, each matched whole
+  revealable?: string[];    // IDENTITY_FIELDS the caller's role may reveal; the rest only match a whole number
+  conditions?: PeopleCondition[];   // filter builder conditions, combined by match
+  match?: 'all' | 'any';            // AND (default) or OR across conditions
+  segment?: SegmentRule;            // a saved segment, ANDed with everything else
+  deleted?: DeletedFilter;          // recycle-bin rows; left out unless asked for
+}
+
+export interface PageInfo {
+  total: number;            // matching rows across all pages
+  page: number;
+  pageSize: number;
+  nextCursor?: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export const PEOPLE_FILTER_FIELDS: PeopleFilterField[] = [
+  'name', 'phone', 'aadharNumber', 'panNumber', 'voterIdNumber', 'gender',
+  'community', 'ward', 'street', 'caste', 'religion'
+];
+
+export const PEOPLE_SORT_FIELDS: PeopleSortField[] = [
+  'name', 'age', 'phone', 'gender', 'community', 'ward', 'street', 'direction', 'createdAt', 'updatedAt'
+];
+
+// Same fields the People search box has always matched, identity numbers apart
+export const SEARCH_FIELDS = [
+  'name', 'phone', 'ward', 'address', 'street', 'direction', 'religion', 'caste', 'community', 'gender', 'age'
+];
+
+// ✅ Masked on screen for some roles (src/utils/masking.ts). Matching part of one would let a masked number
+// be recovered digit by digit, so without reveal rights only the whole number matches, in search and filters.
+export const IDENTITY_FIELDS = ['aadharNumber', 'panNumber', 'voterIdNumber'];
+
+type Row = Record<string, unknown>;
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim().toLowerCase());
+
+// "2345 6789-0124" and "234567890124" are the same number
+const identityText = (value: unknown) => text(value).replace(/[\s-]/g, '');
+
+const matchesIdentity = (row: Row, field: string, needle: string, revealable: string[] = []) =>
+  revealable.includes(field)
+    ? identityText(row[field]).includes(identityText(needle))
+    : identityText(row[field]) !== '' && identityText(row[field]) === identityText(needle);
+
+export const isPaged = (query: PeopleQuery) =>
+  query.page !== undefined || query.pageSize !== undefined || query.cursor !== undefined;
+
+// Numbers (and numeric strings like a sheet's "42") sort numerically, everything else alphabetically
+const toNumber = (value: unknown) =>
+  typeof value === 'number' || (typeof value === 'string' && value.trim() !== '') ? Number(value) : Number.NaN;
+
+// yyyy-mm-dd of a stored timestamp, so a "to" date includes that whole day
+const toDay = (value: unknown) => {
+  const time = Date.parse(String(value ?? ''));
+  return Number.isNaN(time) ? '' : new Date(time).toISOString().slice(0, 10);
+};
+
+// A condition with no value yet is ignored rather than matching nothing
+export const isActiveCondition = (condition: PeopleCondition) =>
+  !!text(condition.value) || (condition.op === 'between' && !!text(condition.to));
+
+const matchesCondition = (row: Row, condition: PeopleCondition): boolean => {
+  const { field, op, value, to } = condition;
+  const cell = row[field];
+  if (op === 'is') return text(cell) !== '' && text(cell) === text(value);
+  if (op === 'contains') return text(cell).includes(text(value));
+  if (op === 'has') return hasTag(cell, value || '');
+  if (op === 'lacks') return !hasTag(cell, value || '');
+
+  if (conditionType(condition) === 'date') {
+    const day = toDay(cell);
+    return !!day && (!value || day >= value) && (!to || day <= to);
+  }
+  const number = toNumber(cell);
+  const min = toNumber(value);
+  const max = toNumber(to);
+  return !Number.isNaN(number) && (Number.isNaN(min) || number >= min) && (Number.isNaN(max) || number <= max);
+};
+
+// A record is in the recycle bin while deletedAt is set
+export const isDeletedRecord = (row: Row) => text(row.deletedAt) !== '';
+
+export const matchesDeleted = (row: Row, deleted: DeletedFilter = 'exclude') =>
+  deleted === 'include' || isDeletedRecord(row) === (deleted === 'only');
+
+// A rule without active conditions matches everyone
+export const matchesRule = (row: Row, { conditions, match }: SegmentRule): boolean => {
+  const active = conditions.filter(isActiveCondition);
+  if (active.length === 0) return true;
+  return match === 'any'
+    ? active.some(condition => matchesCondition(row, condition))
+    : active.every(condition => matchesCondition(row, condition));
+};
+
+export const matchesPeopleQuery = (row: Row, query: PeopleQuery): boolean => {
+  if (!matchesDeleted(row, query.deleted)) return false;
+  if (query.direction && row.direction !== query.direction) return false;
+  if (query.ids && !query.ids.includes(String(row.id ?? ''))) return false;
+
+  // ✅ A batch duplicate check (imports): whole values only, so it reveals nothing a masked row doesn't already show
+  const lookup = Object.entries(query.lookup || {}).filter(([, values]) => values?.length);
+  if (lookup.length > 0 && !lookup.some(([field, values]) =>
+    identityText(row[field]) !== '' && (values || []).some(value => identityText(value) === identityText(row[field]))
+  )) {
+    return false;
+  }
+
+  for (const [field, value] of Object.entries(query.filters || {})) {
+    const needle = text(value);
+    if (!needle) continue;
+    if (IDENTITY_FIELDS.includes(field) ? !matchesIdentity(row, field, needle, query.revealable) : !text(row[field]).includes(needle)) {
+      return false;
+    }
+  }
+
+  if (!matchesRule(row, { conditions: query.conditions || [], match: query.match })) return false;
+  if (query.segment && !matchesRule(row, query.segment)) return false;
+
+  const search = text(query.search);
+  return !search ||
+    SEARCH_FIELDS.some(field => text(row[field]).includes(search)) ||
+    IDENTITY_FIELDS.some(field => matchesIdentity(row, field, search, query.revealable));
+};
+
+const compare = (a: unknown, b: unknown) => {
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (!Number.isNaN(numA) && !Number.isNaN(numB)) return numA - numB;
+  return text(a).localeCompare(text(b));
+};
+
+export const sortKeys = (query: PeopleQuery): PeopleSort[] =>
+  query.sort?.length ? query.sort : query.sortBy ? [{ field: query.sortBy, order: query.sortOrder || 'asc' }] : [];
+
+// ✅ Filter, sort and slice one page. Sorting is stable so equal keys keep sheet order across pages.
+export const applyPeopleQuery = <T extends Row>(rows: T[], query: PeopleQuery): { rows: T[]; pageInfo: PageInfo } => {
+  const matching = rows.filter(row => matchesPeopleQuery(row, query));
+
+  const sort = sortKeys(query);
+  if (sort.length > 0) {
+    matching.sort((a, b) => {
+      for (const { field, order } of sort) {
+        const result = compare(a[field], b[field]);
+        if (result !== 0) return order === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  const total = matching.length;
+  if (!isPaged(query)) {
+    return { rows: matching, pageInfo: { total, page: 1, pageSize: total } };
+  }
+
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, query.pageSize || DEFAULT_PAGE_SIZE));
+  const cursorOffset = Number(query.cursor);
+  const offset = query.cursor !== undefined && Number.isInteger(cursorOffset) && cursorOffset >= 0
+    ? cursorOffset
+    : (Math.max(1, query.page || 1) - 1) * pageSize;
+  const end = offset + pageSize;
+
+  return {
+    rows: matching.slice(offset, end),
+    pageInfo: {
+      total,
+      page: Math.floor(offset / pageSize) + 1,
+      pageSize,
+      nextCursor: end < total ? String(end) : undefined
+    }
+  };
+};
+
+// ✅ Flat string params for REST query strings: filter.<field>=value
+export const toSearchParams = (query: PeopleQuery): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (query.page !== undefined) params.page = String(query.page);
+  if (query.pageSize !== undefined) params.pageSize = String(query.pageSize);
+  if (query.cursor) params.cursor = query.cursor;
+  if (query.sortBy) params.sortBy = query.sortBy;
+  if (query.sortOrder) params.sortOrder = query.sortOrder;
+  if (query.sort?.length) params.sort = query.sort.map(({ field, order }) => `${field}:${order}`).join(',');
+  if (query.direction) params.direction = query.direction;
+  if (query.ids?.length) params.ids = query.ids.join(',');
+  if (query.search) params.search = query.search;
+  for (const [field, value] of Object.entries(query.filters || {})) {
+    if (value) params[`filter.${field}`] = value;
+  }
+  for (const [field, values] of Object.entries(query.lookup || {})) {
+    if (values?.length) params[`lookup.${field}`] = values.join(',');
+  }
+  const conditions = (query.conditions || []).filter(isActiveCondition);
+  if (conditions.length > 0) params.conditions = JSON.stringify(conditions);
+  if (query.match === 'any') params.match = 'any';
+  if (query.segment) {
+    params.segment = JSON.stringify({ conditions: query.segment.conditions.filter(isActiveCondition), match: query.segment.match || 'all' });
+  }
+  if (query.deleted && query.deleted !== 'exclude') params.deleted = query.deleted;
+  if (query.revealable?.length) params.revealable = query.revealable.join(',');
+  return params;
+};
+
+// conditions arrive as JSON from URLs people can edit by hand - keep only well-formed entries
+export const toConditions = (parsed: unknown): PeopleCondition[] => {
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .filter((entry): entry is PeopleCondition =>
+      !!entry && typeof entry === 'object' &&
+      (entry.field in CONDITION_FIELDS || (typeof entry.field === 'string' && isCustomFieldKey(entry.field))) &&
+      CONDITION_OPERATORS.includes(entry.op)
+    )
+    .map(({ field, op, value, to, type }) => ({
+      field,
+      op,
+      ...(value !== undefined && { value: String(value) }),
+      ...(to !== undefined && { to: String(to) }),
+      ...(isCustomFieldKey(field) && type && type in OPERATORS_BY_TYPE && { type })
+    }));
+};
+
+const parseJson = (raw: string | undefined): unknown => {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+const parseConditions = (raw: string | undefined): PeopleCondition[] => toConditions(parseJson(raw));
+
+const parseSegment = (raw: string | undefined): SegmentRule | undefined => {
+  const parsed = parseJson(raw);
+  if (!parsed || typeof parsed !== 'object') return undefined;
+  const { conditions, match } = parsed as Record<string, unknown>;
+  return { conditions: toConditions(conditions), match: match === 'any' ? 'any' : 'all' };
+};
+
+export const fromSearchParams = (params: Record<string, string>): PeopleQuery => {
+  const query: PeopleQuery = {};
+  if (params.page) query.page = Number(params.page) || 1;
+  if (params.pageSize) query.pageSize = Number(params.pageSize) || DEFAULT_PAGE_SIZE;
+  if (params.cursor) query.cursor = params.cursor;
+  if (PEOPLE_SORT_FIELDS.includes(params.sortBy as PeopleSortField)) query.sortBy = params.sortBy as PeopleSortField;
+  if (params.sortOrder === 'asc' || params.sortOrder === 'desc') query.sortOrder = params.sortOrder;
+  if (params.sort) {
+    const sort = params.sort.split(',')
+      .map(entry => entry.split(':'))
+      .filter(([field, order]) => PEOPLE_SORT_FIELDS.includes(field as PeopleSortField) && (order === 'asc' || order === 'desc'))
+      .map(([field, order]) => ({ field: field as PeopleSortField, order: order as 'asc' | 'desc' }));
+    if (sort.length > 0) query.sort = sort;
+  }
+  if (params.direction) query.direction = params.direction;
+  if (params.ids) query.ids = params.ids.split(',').filter(Boolean);
+  if (params.search) query.search = params.search;
+
+  const filters: Partial<Record<PeopleFilterField, string>> = {};
+  for (const field of PEOPLE_FILTER_FIELDS) {
+    const value = params[`filter.${field}`];
+    if (value) filters[field] = value;
+  }
+  if (Object.keys(filters).length > 0) query.filters = filters;
+
+  const lookup: Partial<Record<PeopleFilterField, string[]>> = {};
+  for (const field of PEOPLE_FILTER_FIELDS) {
+    const values = (params[`lookup.${field}`] || '').split(',').filter(Boolean);
+    if (values.length > 0) lookup[field] = values;
+  }
+  if (Object.keys(lookup).length > 0) query.lookup = lookup;
+
+  const conditions = parseConditions(params.conditions);
+  if (conditions.length > 0) query.conditions = conditions;
+  if (params.match === 'any' || params.match === 'all') query.match = params.match;
+  const segment = parseSegment(params.segment);
+  if (segment) query.segment = segment;
+  if (params.deleted === 'only' || params.deleted === 'include') query.deleted = params.deleted;
+  const revealable = (params.revealable || '').split(',').filter(field => IDENTITY_FIELDS.includes(field));
+  if (revealable.length > 0) query.revealable = revealable;
+  return query;
+};
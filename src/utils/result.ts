@@ -0,0 +1,67 @@
+// src/utils/result.ts - TYPED RESULT / ERROR MODEL SHARED BY EVERY BACKEND CALL
+// Services never throw and never report a failure as success: they resolve to Ok or Err.
+
+export type ApiErrorKind =
+  | 'network'     // request never reached the backend (offline, DNS, CORS, script blocked)
+  | 'timeout'     // backend did not answer in time
+  | 'auth'        // not logged in, token expired or not allowed
+  | 'validation'  // backend rejected the request itself (bad data, duplicate, not found)
+  | 'server';     // backend failed while handling a valid request
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  status?: number;
+}
+
+export type Result<T, E = ApiError> =
+  | { ok: true; value: T; message?: string }
+  | { ok: false; error: E; partial?: T };   // partial = what a batch wrote before failing
+
+export const ok = <T>(value: T, message?: string): Result<T, never> => ({ ok: true, value, message });
+
+export const err = (kind: ApiErrorKind, message: string, status?: number): Result<never> => ({
+  ok: false,
+  error: { kind, message, status }
+});
+
+export const fail = (error: ApiError): Result<never> => ({ ok: false, error });
+
+// ✅ Map an HTTP status to a category
+export const kindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 429 || status >= 500) return 'server';
+  return 'validation';
+};
+
+// Thrown only at the edge where a Result has to become an exception (query cache, react-query style hooks)
+export class ApiRequestError extends Error {
+  readonly error: ApiError;
+
+  constructor(error: ApiError) {
+    super(error.message);
+    this.name = 'ApiRequestError';
+    this.error = error;
+  }
+}
+
+// ✅ Classify anything caught in a try/catch
+export const errorFromException = (error: unknown): ApiError => {
+  if (error instanceof ApiRequestError) return error.error;
+  if (error instanceof DOMException && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return { kind: 'timeout', message: 'The request took too long and was cancelled' };
+  }
+  // fetch rejects with a TypeError when the request could not be sent at all
+  if (error instanceof TypeError) {
+    return { kind: 'network', message: 'Could not reach the server. Check your connection and try again.' };
+  }
+  if (error instanceof Error) return { kind: 'server', message: error.message };
+  return { kind: 'server', message: typeof error === 'string' ? error : 'An unknown error occurred' };
+};
+
+// Failures that may go away on their own - worth retrying or keeping queued
+export const isTransient = (error: ApiError) =>
+  error.kind === 'network' ||
+  error.kind === 'timeout' ||
+  (error.kind === 'server' && (error.status === 429 || (error.status ?? 0) >= 500));
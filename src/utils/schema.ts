@@ -0,0 +1,180 @@
+// src/utils/schema.ts - RUNTIME SCHEMAS FOR SHEET / API ROWS
+// Missing values stay missing. Rows without their required fields are rejected, and every problem is
+// collected in a ValidationReport instead of being papered over with made-up defaults.
+
+// A field check beyond shape: warnings mark values that are well-formed but look inconsistent
+export interface FieldCheck {
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export type FieldRule =
+  | {
+      kind: 'string';
+      required?: boolean;
+      pattern?: RegExp;
+      hint?: string;
+      upperCase?: boolean;
+      normalize?: (value: string) => string;
+      validate?: (value: string, row: Record<string, unknown>) => FieldCheck | null;   // row = the raw record, for cross-field checks
+    }
+  | { kind: 'number'; required?: boolean; min?: number; max?: number; integer?: boolean }
+  | { kind: 'enum'; required?: boolean; values: readonly string[] }
+  | { kind: 'boolean'; required?: boolean }
+  | { kind: 'list'; required?: boolean }
+  | { kind: 'date'; required?: boolean }
+  | { kind: 'json'; required?: boolean };   // structured value; sheets store it as JSON text
+
+export type Schema = Record<string, FieldRule>;
+
+export interface ValidationIssue {
+  row: number;              // index in the raw response (sheet row = row + 2 with a header row)
+  id?: string;
+  field: string;
+  value: unknown;
+  message: string;
+  severity: 'error' | 'warning';   // error = row rejected, warning = row kept
+  advisory?: boolean;              // value is valid but inconsistent (e.g. PAN vs surname) - never a reason to reject
+}
+
+export interface ValidationReport {
+  entity: string;
+  total: number;
+  accepted: number;
+  rejected: number;
+  issues: ValidationIssue[];
+}
+
+export interface ParseResult<T> {
+  records: T[];
+  report: ValidationReport;
+}
+
+// Sheets send '' for blank cells and some older rows carry 'NA'
+const isMissing = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && (value.trim() === '' || value.trim() === 'NA'));
+
+type FieldResult = { value?: unknown; issue?: string; keepValue?: boolean; advisory?: boolean };
+
+const parseField = (rule: FieldRule, raw: unknown, row: Record<string, unknown>): FieldResult => {
+  switch (rule.kind) {
+    case 'string': {
+      if (typeof raw === 'object') return { issue: 'expected text' };
+      let value = String(raw).trim();
+      if (rule.upperCase) value = value.toUpperCase();
+      if (rule.normalize) value = rule.normalize(value);
+      // A wrongly formatted ID is still real data - keep it, flag it
+      if (rule.pattern && !rule.pattern.test(value)) {
+        return { value, issue: `"${value}" is not a valid ${rule.hint || 'value'}`, keepValue: true };
+      }
+      const check = rule.validate?.(value, row);
+      if (check) {
+        return { value, issue: `"${value}": ${check.message}`, keepValue: true, advisory: check.severity === 'warning' };
+      }
+      return { value };
+    }
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(value)) return { issue: `"${String(raw)}" is not a number` };
+      if (rule.integer && !Number.isInteger(value)) return { issue: `${value} is not a whole number` };
+      if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+        return { issue: `${value} is outside ${rule.min ?? '-∞'}–${rule.max ?? '∞'}` };
+      }
+      return { value };
+    }
+    case 'enum': {
+      const text = String(raw).trim();
+      const match = rule.values.find(option => option.toLowerCase() === text.toLowerCase());
+      return match ? { value: match } : { issue: `"${text}" is not one of ${rule.values.join(', ')}` };
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      const text = String(raw).trim().toLowerCase();
+      if (text === 'true' || text === 'yes' || text === '1') return { value: true };
+      if (text === 'false' || text === 'no' || text === '0') return { value: false };
+      return { issue: `"${String(raw)}" is not true/false` };
+    }
+    case 'list': {
+      if (Array.isArray(raw)) return { value: raw.map(item => String(item).trim()).filter(Boolean) };
+      if (typeof raw === 'string') return { value: raw.split(',').map(item => item.trim()).filter(Boolean) };
+      return { issue: 'expected a list' };
+    }
+    case 'date': {
+      const text = raw instanceof Date ? raw.toISOString() : String(raw).trim();
+      return Number.isNaN(Date.parse(text)) ? { issue: `"${text}" is not a date` } : { value: text };
+    }
+    case 'json': {
+      if (typeof raw === 'object') return { value: raw };
+      try {
+        return { value: JSON.parse(String(raw)) };
+      } catch {
+        return { issue: 'is not valid JSON' };
+      }
+    }
+  }
+};
+
+// ✅ Parse every row against the schema. Fields the schema doesn't know are passed through untouched.
+export const parseRows = <T>(entity: string, schema: Schema, rawData: unknown): ParseResult<T> => {
+  const rows: unknown[] = Array.isArray(rawData) ? rawData : [];
+  const records: T[] = [];
+  const issues: ValidationIssue[] = [];
+
+  if (!Array.isArray(rawData)) {
+    console.warn(`❌ ${entity}: raw data is not an array:`, rawData);
+  }
+
+  rows.forEach((rawRow, index) => {
+    if (!rawRow || typeof rawRow !== 'object' || Array.isArray(rawRow)) {
+      issues.push({ row: index, field: '*', value: rawRow, message: 'row is not an object', severity: 'error' });
+      return;
+    }
+
+    const row = rawRow as Record<string, unknown>;
+    // REST rows carry Mongo's _id instead of id
+    const id = !isMissing(row.id) ? String(row.id) : !isMissing(row._id) ? String(row._id) : undefined;
+    const record: Record<string, unknown> = { ...row, id };
+    const rowIssues: ValidationIssue[] = [];
+
+    for (const [field, rule] of Object.entries(schema)) {
+      const raw = field === 'id' ? id : row[field];
+      if (isMissing(raw)) {
+        delete record[field];
+        if (rule.required) {
+          rowIssues.push({ row: index, id, field, value: raw, message: `${field} is required`, severity: 'error' });
+        }
+        continue;
+      }
+
+      const result = parseField(rule, raw, row);
+      if (result.issue) {
+        // A required field that can't be read is as bad as a missing one
+        const severity = rule.required && !result.keepValue ? 'error' : 'warning';
+        rowIssues.push({ row: index, id, field, value: raw, message: result.issue, severity, ...(result.advisory && { advisory: true }) });
+      }
+      if (result.value !== undefined) {
+        record[field] = result.value;
+      } else {
+        delete record[field];
+      }
+    }
+
+    issues.push(...rowIssues);
+    if (!rowIssues.some(issue => issue.severity === 'error')) {
+      records.push(record as T);
+    }
+  });
+
+  const report: ValidationReport = {
+    entity,
+    total: rows.length,
+    accepted: records.length,
+    rejected: rows.length - records.length,
+    issues
+  };
+
+  if (issues.length > 0) {
+    console.warn(`⚠️ ${entity}: ${report.rejected} of ${report.total} rows rejected, ${issues.length} issue(s)`, issues);
+  }
+  return { records, report };
+};
@@ -0,0 +1,72 @@
+// src/utils/segments.ts - Saved people segments: their rules, who sees them and who is in them
+import type { Segment } from '../types';
+import { CONDITION_FIELDS, isActiveCondition, matchesRule, toConditions } from './peopleQuery';
+import type { ConditionFieldDefinition, PeopleCondition, SegmentRule } from './peopleQuery';
+
+// A sheet stores the conditions as JSON text; a record that was just written may still hold it
+const conditionsOf = (value: Segment['conditions']): PeopleCondition[] => {
+  if (typeof value !== 'string') return toConditions(value);
+  try {
+    return toConditions(JSON.parse(value));
+  } catch {
+    return [];
+  }
+};
+
+// ✅ The rule a segment stands for; membership is whoever matches it at the time it is used
+export const segmentRule = (segment: Segment): SegmentRule => ({
+  conditions: conditionsOf(segment.conditions),
+  match: segment.match === 'any' ? 'any' : 'all'
+});
+
+export const sortSegments = (segments: Segment[]) => [...segments].sort((a, b) => a.name.localeCompare(b.name));
+
+// Superadmin segments (no direction) are shared with everyone; an admin's stay in their direction
+export const segmentsForDirection = (segments: Segment[], direction?: string | null) =>
+  sortSegments(direction ? segments.filter(segment => !segment.direction || segment.direction === direction) : segments);
+
+export const canEditSegment = (segment: Segment, user?: { role?: string; direction?: string } | null) =>
+  user?.role === 'superadmin' || (!!segment.direction && segment.direction === user?.direction);
+
+export const findSegment = (segments: Segment[], id: string | null | undefined) =>
+  id ? segments.find(segment => segment.id === id) : undefined;
+
+export const segmentMembers = <T extends Record<string, unknown>>(people: T[], segment: Segment): T[] => {
+  const rule = segmentRule(segment);
+  return people.filter(person => matchesRule(person, rule));
+};
+
+const describeCondition = (condition: PeopleCondition, definitions: Record<string, ConditionFieldDefinition>) => {
+  const label = definitions[condition.field]?.label || condition.field;
+  switch (condition.op) {
+    case 'has':
+      return `tagged "${condition.value}"`;
+    case 'lacks':
+      return `not tagged "${condition.value}"`;
+    case 'between':
+      if (condition.value && condition.to) return `${label} ${condition.value} to ${condition.to}`;
+      return condition.value ? `${label} from ${condition.value}` : `${label} up to ${condition.to}`;
+    case 'contains':
+      return `${label} contains "${condition.value}"`;
+    default:
+      return `${label} is ${condition.value}`;
+  }
+};
+
+// "Age from 60 and tagged "pension help"" - shown next to a segment's name
+export const describeRule = (rule: SegmentRule, definitions: Record<string, ConditionFieldDefinition> = CONDITION_FIELDS) => {
+  const parts = rule.conditions.filter(isActiveCondition).map(condition => describeCondition(condition, definitions));
+  return parts.length > 0 ? parts.join(rule.match === 'any' ? ' or ' : ' and ') : 'Everyone';
+};
+
+// ✅ Returns the problem with a segment before it is saved, or null
+export const validateSegment = (draft: Partial<Segment>, existing: Segment[]): string | null => {
+  const name = (draft.name || '').trim();
+  if (!name) return 'Give the segment a name';
+  const clash = existing.find(segment =>
+    segment.name.trim().toLowerCase() === name.toLowerCase() && (!draft.id || segment.id !== draft.id)
+  );
+  if (clash) return `A segment called "${clash.name}" already exists`;
+  if (!conditionsOf(draft.conditions || []).some(isActiveCondition)) return 'Add at least one condition with a value';
+  return null;
+};
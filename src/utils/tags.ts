@@ -0,0 +1,59 @@
+// src/utils/tags.ts - Free-form tags on people, stored as one comma-separated cell
+
+// Commas separate tags in the cell, so they cannot appear inside one
+export const normaliseTag = (tag: string): string => tag.replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+
+// ✅ Tags from a cell, a list or typed input; "Volunteer" and "volunteer" are the same tag, the first spelling wins
+export const tagsOf = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const item of items) {
+    const tag = normaliseTag(item);
+    if (!tag || tag === 'NA' || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags;
+};
+
+export const hasTag = (value: unknown, tag: string): boolean =>
+  tagsOf(value).some(existing => existing.toLowerCase() === normaliseTag(tag).toLowerCase());
+
+export const addTags = (value: unknown, added: string[]): string[] => tagsOf([...tagsOf(value), ...added]);
+
+export const removeTags = (value: unknown, removed: string[]): string[] => {
+  const drop = new Set(tagsOf(removed).map(tag => tag.toLowerCase()));
+  return tagsOf(value).filter(tag => !drop.has(tag.toLowerCase()));
+};
+
+// What is written to the sheet
+export const joinTags = (tags: string[]): string => tags.join(',');
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// ✅ Every tag in use with how many people carry it, most used first
+export const tagCounts = (people: { tags?: unknown }[]): TagCount[] => {
+  const counts = new Map<string, TagCount>();
+  for (const person of people) {
+    for (const tag of tagsOf(person.tags)) {
+      const entry = counts.get(tag.toLowerCase()) || { tag, count: 0 };
+      entry.count += 1;
+      counts.set(tag.toLowerCase(), entry);
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Renaming onto a tag a person already has merges the two; an empty name removes the tag
+export const retagUpdates = <T extends { id?: string; tags?: unknown }>(people: T[], from: string, to: string) =>
+  people
+    .filter(person => person.id && hasTag(person.tags, from))
+    .map(person => {
+      const kept = removeTags(person.tags, [from]);
+      return { id: person.id, tags: joinTags(to.trim() ? addTags(kept, [to]) : kept) };
+    });
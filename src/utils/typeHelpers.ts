@@ -1,126 +1,168 @@
 // src/utils/typeHelpers.ts - UPDATED WITH VOTER ID
-import type { Person, User, Message, Template } from '../types';
+import type { Person, User, Message, Template, Household, AuditEvent, CustomField, Ward, Street, Segment } from '../types';
+import { parseRows } from './schema';
+import type { ParseResult, Schema } from './schema';
+import {
+  checkAadhaar,
+  checkEpic,
+  checkMobile,
+  checkPan,
+  normaliseAadhaar,
+  normaliseEpic,
+  normaliseMobile,
+  normalisePan
+} from './identityNumbers';
 
 // ✅ RE-EXPORT the types so other files can import them from this module
-export type { Message, Template, Person, User } from '../types';
+export type { Message, Template, Person, User, Household } from '../types';
 
-// ✅ Convert raw data to people (with Voter ID)
-export const convertToPeople = (rawData: any[]): Person[] => {
-  console.log('🔄 Converting raw data to people:', rawData);
-  
-  if (!Array.isArray(rawData)) {
-    console.warn('❌ Raw data is not an array:', rawData);
-    return [];
-  }
+// ✅ Row schemas - a blank cell stays blank; nothing is invented to fill it
+export const DIRECTIONS = ['East', 'West', 'North', 'South'] as const;
 
-  return rawData.map((row: any, index: number) => {
-    try {
-      return {
-        id: row.id || `person_${Date.now()}_${index}`,
-        name: row.name || '',
-        age: parseInt(row.age) || 0,
-        phone: row.phone || '',
-        address: row.address || '',
-        ward: row.ward || '',
-        street: row.street || '',
-        direction: row.direction || 'East',
-        aadharNumber: row.aadharNumber || '000000000000',
-        panNumber: row.panNumber || 'ABCDE1234F',
-        voterIdNumber: row.voterIdNumber || 'ABC1234567', // ✅ NEW VOTER ID FIELD
-        gender: row.gender || 'Male',
-        religion: row.religion || 'Hindu',
-        caste: row.caste || 'General',
-        community: row.community || 'General',
-        createdBy: row.createdBy || 'sheets@example.com',
-        createdAt: row.createdAt || new Date().toISOString()
-      } as Person;
-    } catch (error) {
-      console.error('❌ Error converting row to Person:', error, row);
-      return null;
-    }
-  }).filter(Boolean) as Person[];
+export const PERSON_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  name: { kind: 'string', required: true },
+  age: { kind: 'number', min: 0, max: 150, integer: true },
+  // ✅ Identity numbers get the full checks from identityNumbers.ts (checksum, holder type, prefixes)
+  phone: { kind: 'string', normalize: normaliseMobile, validate: checkMobile },
+  aadharNumber: { kind: 'string', normalize: normaliseAadhaar, validate: checkAadhaar },
+  panNumber: { kind: 'string', normalize: normalisePan, validate: (value, row) => checkPan(value, row.name) },
+  voterIdNumber: { kind: 'string', normalize: normaliseEpic, validate: checkEpic }, // ✅ NEW VOTER ID FIELD
+  gender: { kind: 'enum', values: ['Male', 'Female', 'Other'] },
+  community: { kind: 'string' },
+  ward: { kind: 'string' },
+  address: { kind: 'string' },
+  street: { kind: 'string' },
+  direction: { kind: 'enum', values: DIRECTIONS },
+  caste: { kind: 'string' },
+  religion: { kind: 'string' },
+  householdId: { kind: 'string' },
+  mergedFrom: { kind: 'list' },
+  notDuplicateOf: { kind: 'list' },
+  tags: { kind: 'list' },
+  createdBy: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' },
+  deletedAt: { kind: 'date' },
+  deletedBy: { kind: 'string' }
 };
 
-// ✅ Convert raw data to users
-export const convertToUsers = (rawData: any[]): User[] => {
-  console.log('🔄 Converting raw data to users:', rawData);
-  
-  if (!Array.isArray(rawData)) {
-    console.warn('❌ Raw data is not an array:', rawData);
-    return [];
-  }
+export const USER_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  email: { kind: 'string', required: true },
+  role: { kind: 'enum', required: true, values: ['superadmin', 'admin'] },
+  direction: { kind: 'enum', values: DIRECTIONS },
+  isActive: { kind: 'boolean' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' }
+};
 
-  return rawData.map((row: any, index: number) => {
-    try {
-      return {
-        id: row.id || `user_${Date.now()}_${index}`,
-        email: row.email || '',
-        role: (row.role === 'superadmin' || row.role === 'admin') ? row.role : 'admin',
-        direction: row.direction || undefined,
-        createdAt: row.createdAt || new Date().toISOString()
-      } as User;
-    } catch (error) {
-      console.error('❌ Error converting row to User:', error, row);
-      return null;
-    }
-  }).filter(Boolean) as User[];
+export const MESSAGE_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  senderId: { kind: 'string' },
+  recipients: { kind: 'list' },
+  message: { kind: 'string', required: true },
+  templateId: { kind: 'string' },
+  direction: { kind: 'string' },
+  status: { kind: 'enum', values: ['sent', 'pending', 'failed'] },
+  sentAt: { kind: 'date' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' }
 };
 
-// ✅ Convert raw data to messages
-export const convertToMessages = (rawData: any[]): Message[] => {
-  console.log('🔄 Converting raw data to messages:', rawData);
-  
-  if (!Array.isArray(rawData)) {
-    console.warn('❌ Raw data is not an array:', rawData);
-    return [];
-  }
+export const TEMPLATE_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  title: { kind: 'string', required: true },
+  body: { kind: 'string', required: true },
+  category: { kind: 'string' },
+  createdBy: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' },
+  deletedAt: { kind: 'date' },
+  deletedBy: { kind: 'string' }
+};
 
-  return rawData.map((row: any, index: number) => {
-    try {
-      return {
-        id: row.id || `message_${Date.now()}_${index}`,
-        senderId: row.senderId || '',
-        recipients: Array.isArray(row.recipients) ? row.recipients : 
-                   typeof row.recipients === 'string' ? row.recipients.split(',') : [],
-        message: row.message || '',
-        templateId: row.templateId || undefined,
-        direction: row.direction || undefined,
-        status: ['pending', 'sent', 'failed'].includes(row.status) ? row.status : 'pending',
-        sentAt: row.sentAt || undefined,
-        createdAt: row.createdAt || new Date().toISOString()
-      } as Message;
-    } catch (error) {
-      console.error('❌ Error converting row to Message:', error, row);
-      return null;
-    }
-  }).filter(Boolean) as Message[];
+export const HOUSEHOLD_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  name: { kind: 'string', required: true },
+  headId: { kind: 'string' },
+  address: { kind: 'string' },
+  street: { kind: 'string' },
+  ward: { kind: 'string' },
+  direction: { kind: 'enum', values: DIRECTIONS },
+  createdBy: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' }
 };
 
-// ✅ Convert raw data to templates
-export const convertToTemplates = (rawData: any[]): Template[] => {
-  console.log('🔄 Converting raw data to templates:', rawData);
-  
-  if (!Array.isArray(rawData)) {
-    console.warn('❌ Raw data is not an array:', rawData);
-    return [];
-  }
+export const AUDIT_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  personId: { kind: 'string', required: true },
+  personName: { kind: 'string' },
+  action: { kind: 'enum', required: true, values: ['create', 'update', 'delete', 'restore', 'purge', 'reveal', 'merge'] },
+  actor: { kind: 'string' },
+  at: { kind: 'date', required: true },
+  direction: { kind: 'enum', values: DIRECTIONS },
+  reason: { kind: 'string' },
+  changes: { kind: 'json', required: true }
+};
 
-  return rawData.map((row: any, index: number) => {
-    try {
-      return {
-        id: row.id || `template_${Date.now()}_${index}`,
-        title: row.title || '',
-        body: row.body || '',
-        createdBy: row.createdBy || '',
-        createdAt: row.createdAt || new Date().toISOString()
-      } as Template;
-    } catch (error) {
-      console.error('❌ Error converting row to Template:', error, row);
-      return null;
-    }
-  }).filter(Boolean) as Template[];
+export const WARD_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  name: { kind: 'string', required: true },
+  direction: { kind: 'enum', values: DIRECTIONS },
+  createdBy: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' }
 };
 
+export const STREET_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  name: { kind: 'string', required: true },
+  wardId: { kind: 'string', required: true },
+  createdBy: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' }
+};
+
+export const CUSTOM_FIELD_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  key: { kind: 'string', required: true, pattern: /^cf_[A-Za-z0-9_]+$/, hint: 'field key (cf_...)' },
+  label: { kind: 'string', required: true },
+  type: { kind: 'enum', required: true, values: ['text', 'number', 'date', 'select', 'boolean'] },
+  required: { kind: 'boolean' },
+  options: { kind: 'list' },
+  directions: { kind: 'list' },
+  order: { kind: 'number' },
+  createdBy: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' }
+};
+
+export const SEGMENT_SCHEMA: Schema = {
+  id: { kind: 'string', required: true },
+  name: { kind: 'string', required: true },
+  description: { kind: 'string' },
+  conditions: { kind: 'json', required: true },
+  match: { kind: 'enum', values: ['all', 'any'] },
+  direction: { kind: 'enum', values: DIRECTIONS },
+  createdBy: { kind: 'string' },
+  createdAt: { kind: 'date' },
+  updatedAt: { kind: 'date' }
+};
+
+// ✅ Parse raw rows into typed records plus a report of what was rejected or looked wrong
+export const parsePeople = (rawData: unknown): ParseResult<Person> => parseRows<Person>('People', PERSON_SCHEMA, rawData);
+export const parseUsers = (rawData: unknown): ParseResult<User> => parseRows<User>('Users', USER_SCHEMA, rawData);
+export const parseMessages = (rawData: unknown): ParseResult<Message> => parseRows<Message>('Messages', MESSAGE_SCHEMA, rawData);
+export const parseTemplates = (rawData: unknown): ParseResult<Template> => parseRows<Template>('Templates', TEMPLATE_SCHEMA, rawData);
+export const parseHouseholds = (rawData: unknown): ParseResult<Household> => parseRows<Household>('Households', HOUSEHOLD_SCHEMA, rawData);
+export const parseAuditEvents = (rawData: unknown): ParseResult<AuditEvent> => parseRows<AuditEvent>('Audit', AUDIT_SCHEMA, rawData);
+export const parseWards = (rawData: unknown): ParseResult<Ward> => parseRows<Ward>('Wards', WARD_SCHEMA, rawData);
+export const parseStreets = (rawData: unknown): ParseResult<Street> => parseRows<Street>('Streets', STREET_SCHEMA, rawData);
+export const parseCustomFields = (rawData: unknown): ParseResult<CustomField> => parseRows<CustomField>('Fields', CUSTOM_FIELD_SCHEMA, rawData);
+export const parseSegments = (rawData: unknown): ParseResult<Segment> => parseRows<Segment>('Segments', SEGMENT_SCHEMA, rawData);
+
 // ✅ Helper function to safely handle API responses that might be objects or arrays
 export const ensureArray = <T>(data: T | T[]): T[] => {
   if (Array.isArray(data)) {
@@ -0,0 +1,91 @@
+// src/utils/wards.ts - Ward and street master data: matching hand-typed values and planning their clean-up
+import type { Person, Street, Ward } from '../types';
+import { normaliseAddress, wardKey } from './households';
+
+// wardKey lives with the household key, which needs it too, so the two modules don't import each other
+export { wardKey };
+
+const trimmed = (value: unknown) => String(value ?? '').trim();
+
+// "Gandhi St." and "gandhi street" are the same street
+export const streetKey = (value: unknown): string => normaliseAddress(value);
+
+// Wards in numeric order: "2" before "10"
+export const sortWards = (wards: Ward[]) =>
+  [...wards].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+// A ward without a direction is offered everywhere
+export const wardsForDirection = (wards: Ward[], direction?: string | null) =>
+  sortWards(direction ? wards.filter(ward => !ward.direction || ward.direction === direction) : wards);
+
+// The exact name first, then any ward whose name keys the same
+export const findWard = (wards: Ward[], value: unknown): Ward | undefined => {
+  const text = trimmed(value);
+  if (!text) return undefined;
+  const key = wardKey(text);
+  return wards.find(ward => ward.name === text) || (key ? wards.find(ward => wardKey(ward.name) === key) : undefined);
+};
+
+export const streetsOfWard = (streets: Street[], ward?: Ward) =>
+  ward?.id
+    ? streets.filter(street => street.wardId === ward.id).sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+
+export const findStreet = (streets: Street[], ward: Ward | undefined, value: unknown): Street | undefined => {
+  const text = trimmed(value);
+  if (!text) return undefined;
+  const candidates = streetsOfWard(streets, ward);
+  const key = streetKey(text);
+  return candidates.find(street => street.name === text) || (key ? candidates.find(street => streetKey(street.name) === key) : undefined);
+};
+
+// ✅ For grouping: the master ward's name when one matches, otherwise the value as typed
+export const canonicalWardName = (wards: Ward[], value: unknown) => findWard(wards, value)?.name ?? trimmed(value);
+
+// One hand-typed value that is not a master name yet, with how many people carry it
+export interface RemapEntry {
+  field: 'ward' | 'street';
+  value: string;
+  ward?: string;            // street entries: the ward the street was typed under
+  count: number;
+  suggestion?: string;      // the master name it most likely means
+}
+
+const byCount = (a: RemapEntry, b: RemapEntry) => b.count - a.count || a.value.localeCompare(b.value);
+
+export const wardRemapEntries = (people: Person[], wards: Ward[]): RemapEntry[] => {
+  const names = new Set(wards.map(ward => ward.name));
+  const counts = new Map<string, number>();
+  for (const person of people) {
+    const value = trimmed(person.ward);
+    if (value && !names.has(value)) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]): RemapEntry => ({ field: 'ward', value, count, suggestion: findWard(wards, value)?.name }))
+    .sort(byCount);
+};
+
+// Streets are only checked under a ward that is already a master name, since that is what they belong to
+export const streetRemapEntries = (people: Person[], wards: Ward[], streets: Street[]): RemapEntry[] => {
+  const counts = new Map<string, RemapEntry>();
+  for (const person of people) {
+    const value = trimmed(person.street);
+    const ward = wards.find(candidate => candidate.name === trimmed(person.ward));
+    if (!value || !ward || streetsOfWard(streets, ward).some(street => street.name === value)) continue;
+    const key = `${ward.name}\u0000${value}`;
+    const entry = counts.get(key) || { field: 'street', value, ward: ward.name, count: 0, suggestion: findStreet(streets, ward, value)?.name };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort(byCount);
+};
+
+// ✅ The people an entry covers, each with only the changed field - fed to updatePeople
+export const remapUpdates = (people: Person[], entry: Pick<RemapEntry, 'field' | 'value' | 'ward'>, target: string): Partial<Person>[] =>
+  people
+    .filter(person =>
+      person.id &&
+      trimmed(person[entry.field]) === entry.value &&
+      (entry.field === 'ward' || trimmed(person.ward) === entry.ward)
+    )
+    .map(person => ({ id: person.id, [entry.field]: target }));
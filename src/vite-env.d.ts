@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+// Read only by src/config/appConfig.ts - everything else imports appConfig
+interface ImportMetaEnv {
+  readonly VITE_APP_PROFILE?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_SHEETS_SCRIPT_URL?: string;
+  readonly VITE_DATA_SOURCE?: string;
+  readonly VITE_DATA_SOURCE_PEOPLE?: string;
+  readonly VITE_DATA_SOURCE_USERS?: string;
+  readonly VITE_DATA_SOURCE_MESSAGES?: string;
+  readonly VITE_DATA_SOURCE_TEMPLATES?: string;
+  readonly VITE_DATA_SOURCE_HOUSEHOLDS?: string;
+  readonly VITE_DATA_SOURCE_AUDIT?: string;
+  readonly VITE_DATA_SOURCE_FIELDS?: string;
+  readonly VITE_DATA_SOURCE_WARDS?: string;
+  readonly VITE_DATA_SOURCE_SEGMENTS?: string;
+  readonly VITE_RECYCLE_RETENTION_DAYS?: string;
+  readonly VITE_USE_MOCK_API?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
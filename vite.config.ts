@@ -1,6 +1,11 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mockApi } from './mock/mockApi'
 
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.', 'VITE_')
+
+  return {
+    plugins: [react(), mockApi(env.VITE_USE_MOCK_API === 'true')],
+  }
 })